@@ -0,0 +1,8 @@
+-- Migration: Add audio_processing column to audio_clips table
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE audio_clips
+ADD COLUMN IF NOT EXISTS audio_processing JSONB DEFAULT NULL;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN audio_clips.audio_processing IS 'How the server processed the audio: { codec, bitrateKbps, sampleRate, channels, loudness: { standard, targetLufs, targetTruePeakDb, targetLoudnessRange, inputLufs, inputTruePeakDb, inputLoudnessRange }, silenceTrim: { thresholdDb, keepSeconds, trimmedStart, trimmedEnd? }, inputFormat, inputDuration?, processedAt }. NULL for clips stored as uploaded';
@@ -0,0 +1,8 @@
+-- Migration: Add audio_settings column to profiles table
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS audio_settings JSONB DEFAULT NULL;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN profiles.audio_settings IS 'Audio settings the user changed from the defaults (keyboardShortcuts overrides)';
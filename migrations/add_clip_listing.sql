@@ -0,0 +1,36 @@
+-- Migration: Add the clip listing view used for paged clip listings
+-- Run this in your Supabase SQL editor
+
+-- audio_clips plus the values listings sort by, so Postgres can sort,
+-- cut pages after a cursor and count without the clips being fetched.
+-- security_invoker keeps the RLS policies of audio_clips in force.
+CREATE OR REPLACE VIEW audio_clip_listing
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  lower(c.title) AS title_sort,
+  coalesce(v.vote_score, 0) AS vote_score,
+  d.difficulty,
+  nullif(char_length(coalesce(c.transcript, ''))::real / nullif(c.duration, 0), 0)
+    AS characters_per_second
+FROM audio_clips c
+LEFT JOIN (
+  SELECT clip_id, sum(CASE vote_type WHEN 'up' THEN 1 ELSE -1 END)::integer AS vote_score
+  FROM clip_votes
+  GROUP BY clip_id
+) v ON v.clip_id = c.id
+LEFT JOIN (
+  SELECT clip_id, round(avg(rating), 1)::real AS difficulty
+  FROM clip_difficulty_ratings
+  GROUP BY clip_id
+) d ON d.clip_id = c.id;
+
+GRANT SELECT ON audio_clip_listing TO anon, authenticated;
+
+-- Keyset pages on the stored columns: sort key, then id
+CREATE INDEX IF NOT EXISTS idx_audio_clips_created_at_id ON audio_clips(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_audio_clips_title_sort_id ON audio_clips(lower(title), id);
+CREATE INDEX IF NOT EXISTS idx_audio_clips_duration_id ON audio_clips(duration, id);
+
+COMMENT ON VIEW audio_clip_listing IS 'audio_clips with the vote score, average difficulty and speech rate that clip listings sort and page by';
@@ -0,0 +1,55 @@
+-- Migration: Add full-text search over audio clips
+-- Run this in your Supabase SQL editor
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- array_to_string is only STABLE, and generated columns need IMMUTABLE functions
+CREATE OR REPLACE FUNCTION clip_tags_text(tags TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT array_to_string(tags, ' ') $$;
+
+-- Weighted search document: title (A), tags and dialect (B), transcript (C), source URL (D)
+ALTER TABLE audio_clips
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(clip_tags_text(tags), '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(speaker_dialect, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(transcript, '')), 'C') ||
+  setweight(to_tsvector('simple', coalesce(source_url, '')), 'D')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_audio_clips_search_vector ON audio_clips USING GIN (search_vector);
+
+-- The text search parser doesn't split CJK text into words, so CJK queries
+-- are matched as substrings instead, using trigram indexes
+CREATE INDEX IF NOT EXISTS idx_audio_clips_title_trgm ON audio_clips USING GIN (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_audio_clips_transcript_trgm ON audio_clips USING GIN (transcript gin_trgm_ops);
+
+-- Matching clip ids, best match first. Runs with the caller's permissions,
+-- so RLS policies still apply.
+CREATE OR REPLACE FUNCTION search_audio_clips(query TEXT)
+RETURNS TABLE (id UUID, rank REAL)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('simple', query) AS ts_query,
+      query ~ '[぀-ヿ㐀-鿿가-힯]' AS is_cjk,
+      '%' || replace(replace(replace(query, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  )
+  SELECT
+    c.id,
+    CASE
+      WHEN c.search_vector @@ q.ts_query THEN ts_rank_cd(c.search_vector, q.ts_query)
+      ELSE similarity(coalesce(c.title, '') || ' ' || coalesce(c.transcript, ''), query)
+    END AS rank
+  FROM audio_clips c, q
+  WHERE c.search_vector @@ q.ts_query
+     OR (q.is_cjk AND (c.title ILIKE q.pattern OR c.transcript ILIKE q.pattern))
+  ORDER BY rank DESC;
+$$;
+
+COMMENT ON COLUMN audio_clips.search_vector IS 'Full-text search document, maintained by Postgres from title, tags, speaker_dialect, transcript and source_url';
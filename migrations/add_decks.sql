@@ -0,0 +1,73 @@
+-- Migration: Add study decks (named, ordered lists of clips)
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS decks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT CHECK (char_length(description) <= 500),
+  is_public BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_decks_owner_updated ON decks(owner_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_decks_public_updated ON decks(updated_at DESC) WHERE is_public;
+
+-- A deck's clips in play order; deleting a clip takes it out of every deck
+CREATE TABLE IF NOT EXISTS deck_clips (
+  deck_id UUID NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+  clip_id UUID NOT NULL REFERENCES audio_clips(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0),
+  PRIMARY KEY (deck_id, clip_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deck_clips_clip_id ON deck_clips(clip_id);
+
+-- Enable RLS
+ALTER TABLE decks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deck_clips ENABLE ROW LEVEL SECURITY;
+
+-- Public decks are visible to everyone, private ones to their owner
+CREATE POLICY "Anyone can view public decks"
+  ON decks
+  FOR SELECT
+  USING (is_public OR auth.uid() = owner_id);
+
+CREATE POLICY "Users can insert their own decks"
+  ON decks
+  FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can update their own decks"
+  ON decks
+  FOR UPDATE
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete their own decks"
+  ON decks
+  FOR DELETE
+  USING (auth.uid() = owner_id);
+
+-- Deck entries follow their deck
+CREATE POLICY "Anyone can view clips of visible decks"
+  ON deck_clips
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM decks
+      WHERE decks.id = deck_clips.deck_id
+        AND (decks.is_public OR decks.owner_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can change clips of their own decks"
+  ON deck_clips
+  FOR ALL
+  USING (
+    EXISTS (SELECT 1 FROM decks WHERE decks.id = deck_clips.deck_id AND decks.owner_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM decks WHERE decks.id = deck_clips.deck_id AND decks.owner_id = auth.uid())
+  );
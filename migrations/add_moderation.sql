@@ -0,0 +1,81 @@
+-- Migration: Add clip reports, hidden clips and the moderation audit log
+-- Run this in your Supabase SQL editor after add_user_roles.sql
+--
+-- Hidden clips are left out of listings by the API (see getAudioClips);
+-- they stay readable by id so curators can review them.
+
+ALTER TABLE audio_clips
+ADD COLUMN IF NOT EXISTS hidden BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN audio_clips.hidden IS 'Hidden by a curator: left out of listings and search';
+
+CREATE INDEX IF NOT EXISTS idx_audio_clips_hidden ON audio_clips(hidden) WHERE hidden;
+
+CREATE TABLE IF NOT EXISTS clip_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clip_id UUID NOT NULL REFERENCES audio_clips(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL
+    CHECK (reason IN ('wrong-transcript', 'wrong-language', 'bad-audio', 'copyright', 'other')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_clip_reports_status_created ON clip_reports(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_clip_reports_clip_id ON clip_reports(clip_id);
+
+-- Keep the log when a clip is deleted, so no foreign key on clip_id
+CREATE TABLE IF NOT EXISTS moderation_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  clip_id UUID NOT NULL,
+  clip_title TEXT NOT NULL,
+  actor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL
+    CHECK (action IN ('hide', 'unhide', 'edit', 'delete', 'resolve', 'dismiss')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_created_at ON moderation_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_log_clip_id ON moderation_log(clip_id);
+
+-- Enable RLS
+ALTER TABLE clip_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- Anyone signed in can report a clip; reporters see their own reports
+CREATE POLICY "Users can insert their own reports"
+  ON clip_reports
+  FOR INSERT
+  WITH CHECK (auth.uid() = reporter_id);
+
+CREATE POLICY "Users can view their own reports"
+  ON clip_reports
+  FOR SELECT
+  USING (auth.uid() = reporter_id);
+
+-- Curators and admins work the queue
+CREATE POLICY "Curators can view all reports"
+  ON clip_reports
+  FOR SELECT
+  USING (current_user_role() IN ('curator', 'admin'));
+
+CREATE POLICY "Curators can close reports"
+  ON clip_reports
+  FOR UPDATE
+  USING (current_user_role() IN ('curator', 'admin'))
+  WITH CHECK (current_user_role() IN ('curator', 'admin'));
+
+-- The log is append-only, and only curators read or write it
+CREATE POLICY "Curators can view the moderation log"
+  ON moderation_log
+  FOR SELECT
+  USING (current_user_role() IN ('curator', 'admin'));
+
+CREATE POLICY "Curators can write the moderation log"
+  ON moderation_log
+  FOR INSERT
+  WITH CHECK (auth.uid() = actor_id AND current_user_role() IN ('curator', 'admin'));
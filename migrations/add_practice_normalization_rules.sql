@@ -0,0 +1,7 @@
+-- Migration: Record the transcription normalization rules with each practice session
+-- Run this in your Supabase SQL editor (after add_practice_sessions.sql)
+
+ALTER TABLE practice_sessions
+ADD COLUMN IF NOT EXISTS normalization_rules JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN practice_sessions.normalization_rules IS 'Rules the transcription accuracy was scored with (nfkc, stripPunctuation, foldDiacritics, kanaEquivalence, numberWords)';
@@ -0,0 +1,7 @@
+-- Migration: Record the best recording score with each practice session
+-- Run this in your Supabase SQL editor (after add_practice_sessions.sql)
+
+ALTER TABLE practice_sessions
+ADD COLUMN IF NOT EXISTS recording_score JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN practice_sessions.recording_score IS 'Best take of the session aligned with the clip (timingOffsetMs, rhythmSimilarity, intonationSimilarity, overall)';
@@ -0,0 +1,39 @@
+-- Migration: Add practice session history for the statistics dashboard
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS practice_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- Keep history when a clip is deleted
+  clip_id UUID REFERENCES audio_clips(id) ON DELETE SET NULL,
+  language TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  seconds_practiced NUMERIC(10, 1) NOT NULL DEFAULT 0 CHECK (seconds_practiced >= 0),
+  loops INTEGER NOT NULL DEFAULT 0 CHECK (loops >= 0),
+  playback_rates NUMERIC(3, 2)[] NOT NULL DEFAULT '{}',
+  transcription_accuracy NUMERIC(5, 2) CHECK (transcription_accuracy >= 0 AND transcription_accuracy <= 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_user_started ON practice_sessions(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_clip_id ON practice_sessions(clip_id);
+
+-- Enable RLS
+ALTER TABLE practice_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Practice history is private to each user
+CREATE POLICY "Users can view their own practice sessions"
+  ON practice_sessions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own practice sessions"
+  ON practice_sessions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own practice sessions"
+  ON practice_sessions
+  FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Migration: Add spaced-repetition review state per user and clip
+-- Run this in your Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS clip_review_states (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  clip_id UUID NOT NULL REFERENCES audio_clips(id) ON DELETE CASCADE,
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_grade TEXT NOT NULL CHECK (last_grade IN ('again', 'hard', 'good', 'easy')),
+  last_accuracy NUMERIC(5, 2),
+  UNIQUE(user_id, clip_id)
+);
+
+-- The review queue is always read per user, ordered by due date
+CREATE INDEX IF NOT EXISTS idx_clip_review_states_user_due ON clip_review_states(user_id, due_at);
+
+-- Enable RLS
+ALTER TABLE clip_review_states ENABLE ROW LEVEL SECURITY;
+
+-- Review state is private to each user
+CREATE POLICY "Users can view their own review states"
+  ON clip_review_states
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own review states"
+  ON clip_review_states
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own review states"
+  ON clip_review_states
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own review states"
+  ON clip_review_states
+  FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Migration: Add timed_transcript column to audio_clips table
+-- Run this in your Supabase SQL editor
+
+ALTER TABLE audio_clips
+ADD COLUMN IF NOT EXISTS timed_transcript JSONB DEFAULT NULL;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN audio_clips.timed_transcript IS 'Optional timed transcript: { segments: [{ start, end, text, words?: [{ text, start, end }] }] } in seconds of clip time';
@@ -0,0 +1,68 @@
+-- Migration: Add user roles (learner, contributor, curator, admin)
+-- Run this in your Supabase SQL editor
+--
+-- The API checks permissions with the matrix in src/lib/permissions.ts;
+-- the policies below enforce the same rules for clip edits and deletes.
+-- Users listed in ADMIN_USER_IDS act as admins in the API whatever their
+-- role here, but the database only knows the stored role, so give them
+-- the admin role as well:
+--   UPDATE profiles SET role = 'admin' WHERE id IN ('<admin user id>');
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'learner'
+  CHECK (role IN ('learner', 'contributor', 'curator', 'admin'));
+
+COMMENT ON COLUMN profiles.role IS 'learner, contributor, curator or admin; see src/lib/permissions.ts';
+
+-- The signed-in user's role, for policies. SECURITY DEFINER so policies on
+-- profiles can read it without recursing into themselves.
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT role FROM profiles WHERE id = auth.uid()), 'learner');
+$$;
+
+-- Curators and admins can edit and delete any clip (owners already can)
+CREATE POLICY "Curators can update any clip"
+  ON audio_clips
+  FOR UPDATE
+  USING (current_user_role() IN ('curator', 'admin'))
+  WITH CHECK (current_user_role() IN ('curator', 'admin'));
+
+CREATE POLICY "Curators can delete any clip"
+  ON audio_clips
+  FOR DELETE
+  USING (current_user_role() IN ('curator', 'admin'));
+
+-- Admins assign roles
+CREATE POLICY "Admins can update any profile"
+  ON profiles
+  FOR UPDATE
+  USING (current_user_role() = 'admin')
+  WITH CHECK (current_user_role() = 'admin');
+
+-- Users can update their own profile, but not their own role. Updates
+-- without a signed-in user (the SQL editor, the service role) are allowed.
+CREATE OR REPLACE FUNCTION prevent_role_self_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_role_self_assignment ON profiles;
+CREATE TRIGGER prevent_role_self_assignment
+  BEFORE UPDATE OF role ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_role_self_assignment();
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, ShieldCheck, Loader2, AlertCircle } from "lucide-react";
+import { UserMenu } from "@/components/auth/UserMenu";
+import { useAuth } from "@/lib/auth";
+import { can, USER_ROLES } from "@/lib/permissions";
+import type { User, UserRole } from "@/types/auth";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  learner: "Practices clips and uploads their own",
+  contributor: "Also bulk uploads and imports clips",
+  curator: "Also edits, deletes and moderates any clip and manages dialects",
+  admin: "Also assigns roles",
+};
+
+export default function AdminUsersPage() {
+  const { user, isLoading, getAuthHeaders } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  const canManageRoles = can(user, "users.manageRoles");
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!canManageRoles) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchUsers = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/admin/users", {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) {
+          throw new Error("Failed to fetch users");
+        }
+        const data = await response.json();
+        setUsers(data.users);
+      } catch (err) {
+        console.error("Failed to fetch users:", err);
+        setError(err instanceof Error ? err.message : "Failed to load users");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUsers();
+  }, [canManageRoles, isLoading, getAuthHeaders]);
+
+  const handleRoleChange = async (userId: string, role: UserRole) => {
+    setSavingUserId(userId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/users/${userId}`, {
+        method: "PATCH",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to set role");
+      }
+      setUsers((prev) => prev.map((u) => (u.id === userId ? data.user : u)));
+    } catch (err) {
+      console.error("Failed to set role:", err);
+      setError(err instanceof Error ? err.message : "Failed to set role");
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="p-4 bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/library"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Library
+            </Link>
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="w-8 h-8 text-indigo-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Roles</h1>
+                <p className="text-sm text-gray-600">
+                  Choose what each user can do
+                </p>
+              </div>
+            </div>
+          </div>
+          {user && <UserMenu />}
+        </div>
+      </header>
+
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+            {loading || isLoading ? (
+              <div className="flex items-center justify-center gap-3 py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+                <span className="text-gray-700">Loading users...</span>
+              </div>
+            ) : !canManageRoles ? (
+              <div className="text-center py-12 text-gray-600">
+                Only admins can assign roles.
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+                    <AlertCircle className="w-4 h-4" />
+                    <span className="text-sm">{error}</span>
+                  </div>
+                )}
+
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                  {USER_ROLES.map((role) => (
+                    <div key={role} className="p-3 bg-gray-50 rounded-md">
+                      <dt className="font-medium text-gray-900 capitalize">{role}</dt>
+                      <dd className="text-gray-600">{ROLE_DESCRIPTIONS[role]}</dd>
+                    </div>
+                  ))}
+                </dl>
+
+                <ul className="divide-y divide-gray-100">
+                  {users.map((u) => (
+                    <li
+                      key={u.id}
+                      className="py-3 flex items-center justify-between gap-4"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {u.username}
+                          {u.id === user?.id && (
+                            <span className="ml-2 text-xs text-gray-500">(you)</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">{u.email}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {savingUserId === u.id && (
+                          <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
+                        )}
+                        <select
+                          value={u.role ?? "learner"}
+                          onChange={(e) => handleRoleChange(u.id, e.target.value as UserRole)}
+                          disabled={savingUserId === u.id || u.id === user?.id}
+                          className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100 disabled:text-gray-500"
+                        >
+                          {USER_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {role}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getStorage } from "@/lib/storage";
+import { isUserRole } from "@/lib/permissions";
+
+// PATCH - Assign a user's role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const storage = await getStorage(request);
+    const { user, denied } = await authorize(storage, "users.manageRoles");
+    if (denied) {
+      return denied;
+    }
+
+    const { role } = await request.json();
+    if (!isUserRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    // Keeps at least one admin who can assign roles
+    if (params.id === user.id && role !== "admin") {
+      return NextResponse.json(
+        { error: "You can't remove your own admin role" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await storage.users.setRole(params.id, role);
+    if (!updated) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    console.error("Set role error:", error);
+    return NextResponse.json(
+      { error: "Failed to set role" },
+      { status: 500 }
+    );
+  }
+}
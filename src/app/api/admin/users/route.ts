@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getStorage } from "@/lib/storage";
+
+export const dynamic = "force-dynamic";
+
+// GET - Every user with their role, for assigning roles
+export async function GET(request: NextRequest) {
+  try {
+    const storage = await getStorage(request);
+    const { denied } = await authorize(storage, "users.manageRoles");
+    if (denied) {
+      return denied;
+    }
+
+    const users = await storage.users.listUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("List users error:", error);
+    return NextResponse.json(
+      { error: "Failed to list users" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,33 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyAccessToken } from "@/lib/supabase";
-import { isAdmin } from "@/lib/admin";
+import { getStorage } from "@/lib/storage";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(request: NextRequest) {
   try {
-    const authHeader = request.headers.get("Authorization");
+    const { user, users } = await getStorage(request);
 
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return NextResponse.json({ isAdmin: false }, { status: 200 });
+    if (!user) {
+      return NextResponse.json({ isAdmin: false, role: null }, { status: 200 });
     }
 
-    const accessToken = authHeader.substring(7);
-    
-    // Verify token using standard client (no custom storage)
-    const { user, error } = await verifyAccessToken(accessToken);
-
-    if (error || !user) {
-      return NextResponse.json({ isAdmin: false }, { status: 200 });
-    }
-
-    const adminStatus = isAdmin(user.id);
+    const role = await users.getRole(user.id);
 
     return NextResponse.json({
-      isAdmin: adminStatus,
+      isAdmin: role === "admin",
+      role,
     });
   } catch (error) {
     console.error("Admin status check error:", error);
-    return NextResponse.json({ isAdmin: false }, { status: 200 });
+    return NextResponse.json({ isAdmin: false, role: null }, { status: 200 });
   }
 }
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage, getStorageBackend } from "@/lib/storage";
+import { createLocalSession } from "@/lib/local-session";
+
+export const dynamic = "force-dynamic";
+
+// Local mode only - Supabase Auth signs users in on the client
+export async function POST(request: NextRequest) {
+  try {
+    if (getStorageBackend() !== "local") {
+      return NextResponse.json(
+        { error: "Local sign-in is disabled" },
+        { status: 404 }
+      );
+    }
+
+    const { email, password } = await request.json();
+
+    if (typeof email !== "string" || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const { users } = await getStorage(request);
+    const user = await users.verifyCredentials(email.trim(), password);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const session = await createLocalSession(user.id);
+
+    return NextResponse.json({
+      user,
+      session: { access_token: session.token, expires_at: session.expiresAt },
+    });
+  } catch (error) {
+    console.error("Login error:", error);
+    return NextResponse.json(
+      { error: "Login failed" },
+      { status: 500 }
+    );
+  }
+}
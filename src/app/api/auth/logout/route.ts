@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorageBackend } from "@/lib/storage";
+import { revokeLocalSession } from "@/lib/local-session";
+
+export const dynamic = "force-dynamic";
+
+// Revokes the session of the token, so it stops working right away
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("Authorization");
+    if (getStorageBackend() === "local" && authHeader?.startsWith("Bearer ")) {
+      await revokeLocalSession(authHeader.substring(7));
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Logout error:", error);
+    return NextResponse.json(
+      { error: "Logout failed" },
+      { status: 500 }
+    );
+  }
+}
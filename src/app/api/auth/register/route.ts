@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage, getStorageBackend } from "@/lib/storage";
+import { createLocalSession } from "@/lib/local-session";
+
+export const dynamic = "force-dynamic";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Local mode only - Supabase Auth registers users on the client
+export async function POST(request: NextRequest) {
+  try {
+    if (getStorageBackend() !== "local") {
+      return NextResponse.json(
+        { error: "Local sign-up is disabled" },
+        { status: 404 }
+      );
+    }
+
+    const { email, username, password } = await request.json();
+
+    if (
+      typeof email !== "string" || !email.trim() ||
+      typeof username !== "string" || !username.trim() ||
+      typeof password !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "Email, username and password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { users } = await getStorage(request);
+
+    let user;
+    try {
+      user = await users.createUser({
+        email: email.trim(),
+        username: username.trim(),
+        password,
+      });
+    } catch (createError) {
+      // Email or username already taken
+      return NextResponse.json(
+        { error: createError instanceof Error ? createError.message : "Registration failed" },
+        { status: 409 }
+      );
+    }
+
+    const session = await createLocalSession(user.id);
+
+    return NextResponse.json({
+      user,
+      session: { access_token: session.token, expires_at: session.expiresAt },
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Registration error:", error);
+    return NextResponse.json(
+      { error: "Registration failed" },
+      { status: 500 }
+    );
+  }
+}
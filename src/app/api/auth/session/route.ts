@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+
+export const dynamic = "force-dynamic";
+
+// The signed-in user, for restoring a saved session
+export async function GET(request: NextRequest) {
+  try {
+    const { user: requestUser, users } = await getStorage(request);
+    const user = requestUser ? await users.getUser(requestUser.id) : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Not signed in" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("Get session error:", error);
+    return NextResponse.json(
+      { error: "Failed to get session" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/supabase';
-import { serverDb } from '@/lib/server-database';
+import { authorize, getStorage } from '@/lib/storage';
 
 export async function POST(request: NextRequest) {
   try {
-    // Get auth token
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const storage = await getStorage(request);
+    const { clips } = storage;
+    if (!storage.user) {
       return NextResponse.json(
         { error: 'Authentication required' },
         { status: 401 }
       );
     }
 
-    const accessToken = authHeader.substring(7);
-    const { user, error: authError } = await verifyAccessToken(accessToken);
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid authentication' },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { clipIds } = body;
 
@@ -40,11 +29,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Delete clips one by one
+    // Delete clips one by one, each only if the user may delete it
     const results = await Promise.allSettled(
-      clipIds.map((clipId: string) =>
-        serverDb.deleteAudioClip(clipId, user.id, accessToken)
-      )
+      clipIds.map(async (clipId: string) => {
+        const clip = await clips.getById(clipId);
+        if (!clip) return false;
+
+        const { user, denied } = await authorize(storage, 'clips.delete', clip);
+        if (denied) {
+          throw new Error('Unauthorized to delete this clip');
+        }
+        const deleted = await clips.delete(clipId);
+        if (deleted && user.id !== clip.uploadedBy) {
+          await storage.moderation.logAction({
+            clipId,
+            clipTitle: clip.title,
+            actorId: user.id,
+            action: 'delete',
+          });
+        }
+        return deleted;
+      })
     );
 
     const successful: string[] = [];
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { serverDb } from '@/lib/server-database';
-import { uploadAudioFile, createAuthenticatedClient, verifyAccessToken } from '@/lib/supabase';
+import { authorize, getStorage, type BlobStore } from '@/lib/storage';
 import type { AudioMetadata } from '@/types/audio';
+import { computeFilePeaks, processClipAudio, type ProcessedAudio } from '@/lib/audio/transcode';
 
-const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2MB
 const SUPPORTED_FORMATS = ['mp3', 'wav', 'm4a', 'ogg', 'webm'];
 
 function generateUniqueFilename(originalName: string): string {
@@ -14,9 +13,10 @@ function generateUniqueFilename(originalName: string): string {
   return `${timestamp}-${random}-${baseName}.${extension}`;
 }
 
-function validateFile(file: File): string | null {
-  if (file.size > MAX_FILE_SIZE) {
-    return `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB.`;
+// Size limits depend on the storage backend
+function validateFile(file: File, limits: BlobStore['limits']): string | null {
+  if (file.size > limits.maxUploadBytes) {
+    return `File too large. Maximum size is ${limits.maxUploadBytes / (1024 * 1024)}MB.`;
   }
 
   const extension = file.name.split('.').pop()?.toLowerCase();
@@ -32,27 +32,14 @@ function validateFile(file: File): string | null {
 
 export async function POST(request: NextRequest) {
   try {
-    // Get auth token
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    const accessToken = authHeader.substring(7);
-    const { user, error: authError } = await verifyAccessToken(accessToken);
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid authentication' },
-        { status: 401 }
-      );
+    const storage = await getStorage(request);
+    const { clips, blobs } = storage;
+    const { user, denied } = await authorize(storage, 'clips.bulkUpload');
+    if (denied) {
+      return denied;
     }
 
     const userId = user.id;
-    const authenticatedClient = createAuthenticatedClient(accessToken);
 
     // Parse form data
     const formData = await request.formData();
@@ -91,7 +78,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file
-    const fileValidationError = validateFile(file);
+    const fileValidationError = validateFile(file, blobs.limits);
     if (fileValidationError) {
       return NextResponse.json(
         { error: fileValidationError },
@@ -119,9 +106,10 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    if (duration > 300) {
+    const { maxDurationSeconds } = blobs.limits;
+    if (maxDurationSeconds && duration > maxDurationSeconds) {
       return NextResponse.json(
-        { error: 'Audio file too long. Maximum duration is 5 minutes for direct uploads.' },
+        { error: `Audio file too long. Maximum duration is ${maxDurationSeconds / 60} minutes for direct uploads.` },
         { status: 400 }
       );
     }
@@ -144,12 +132,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Transcode to the canonical format, normalize loudness, trim silence
+    let processed: ProcessedAudio | null;
+    try {
+      processed = await processClipAudio(file);
+    } catch (processingError) {
+      console.error('❌ Audio processing failed:', processingError);
+      return NextResponse.json(
+        { error: processingError instanceof Error ? processingError.message : 'Could not process the audio file' },
+        { status: 400 }
+      );
+    }
+    const storedFile = processed?.file ?? file;
+    if (processed) {
+      duration = processed.duration;
+    }
+
     // Generate unique filename
-    const filename = generateUniqueFilename(file.name);
+    const filename = generateUniqueFilename(storedFile.name);
 
     try {
-      // Upload file to Supabase Storage
-      const storagePath = await uploadAudioFile(file, userId, filename, authenticatedClient);
+      const storagePath = await blobs.saveAudio(storedFile, filename, userId);
+
+      // Waveform peaks and the true duration, stored next to the audio
+      const peaks = await computeFilePeaks(storedFile);
+      if (peaks) {
+        duration = peaks.duration;
+        try {
+          await blobs.savePeaks(filename, userId, peaks);
+        } catch (peaksError) {
+          // Players fall back to decoding the audio
+          console.warn('⚠️ Could not store waveform peaks:', peaksError);
+        }
+      }
 
       // Prepare metadata
       const metadata: AudioMetadata = {
@@ -163,16 +178,17 @@ export async function POST(request: NextRequest) {
       };
 
       // Save to database
-      const audioClip = await serverDb.createAudioClip({
+      const audioClip = await clips.create({
         title: title.trim(),
         duration: duration,
         filename,
         originalFilename: file.name,
-        fileSize: file.size,
+        fileSize: storedFile.size,
         storagePath,
         metadata,
+        processing: processed?.processing,
         uploadedBy: userId,
-      }, accessToken);
+      });
 
       return NextResponse.json({
         success: true,
@@ -1,26 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/supabase';
+import { authorize, getStorage } from '@/lib/storage';
 import { matchFilesToCSV } from '@/lib/bulk-upload/file-matcher';
 
 export async function POST(request: NextRequest) {
   try {
-    // Get auth token
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    const accessToken = authHeader.substring(7);
-    const { user, error: authError } = await verifyAccessToken(accessToken);
-
-    if (authError || !user) {
-      return NextResponse.json(
-        { error: 'Invalid authentication' },
-        { status: 401 }
-      );
+    const { denied } = await authorize(await getStorage(request), 'clips.bulkUpload');
+    if (denied) {
+      return denied;
     }
 
     const body = await request.json();
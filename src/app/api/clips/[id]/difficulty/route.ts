@@ -1,37 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { localDb } from "@/lib/local-database";
+import { getStorage } from "@/lib/storage";
 
 export const dynamic = "force-dynamic";
 
-// Helper to parse user from local token
-function getUserFromToken(request: NextRequest): { userId: string; username: string } | null {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
-  }
-  
-  const token = authHeader.substring(7);
-  if (!token.startsWith("local-token-")) {
-    return null;
-  }
-  
-  const userId = request.headers.get("X-User-Id");
-  const username = request.headers.get("X-Username") || "Unknown";
-  
-  if (userId) {
-    return { userId, username };
-  }
-  
-  return null;
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     const { id } = params;
-    const user = getUserFromToken(request);
+    const { user, clips } = await getStorage(request);
 
     if (!user) {
       return NextResponse.json(
@@ -50,15 +28,15 @@ export async function POST(
       );
     }
 
-    await localDb.setDifficulty(id, user.userId, rating);
+    await clips.rateDifficulty(id, user.id, rating);
 
-    // Get the updated clip to return new difficulty average
-    const clip = await localDb.getClipById(id);
+    // Return the new difficulty average
+    const difficulty = await clips.getDifficulty(id, user.id);
 
     return NextResponse.json({
       success: true,
-      rating: (clip as any)?.difficulty || rating,
-      count: Object.keys((clip as any)?.difficultyRatings || {}).length,
+      rating: difficulty.average || rating,
+      count: difficulty.count,
     });
   } catch (error) {
     console.error("Difficulty rating error:", error);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canViewClip, getStorage } from "@/lib/storage";
+import { computeFilePeaks } from "@/lib/audio/transcode";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const storage = await getStorage(request);
+    const { clips, blobs } = storage;
+    const clip = await clips.getById(id);
+
+    if (!clip || !(await canViewClip(storage, clip))) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
+    let peaks = await blobs.getPeaks(clip);
+
+    // Clips uploaded before peaks were stored get them on first request
+    if (!peaks) {
+      const audio = await blobs.readAudio(clip);
+      if (audio) {
+        peaks = await computeFilePeaks(new File([audio], clip.filename));
+      }
+      // Supabase only lets the uploader write to their storage folder, so
+      // other users' requests just return the computed peaks
+      const canStore = storage.backend === "local" || clip.uploadedBy === storage.user?.id;
+      if (peaks && canStore) {
+        try {
+          await blobs.savePeaks(clip.filename, clip.uploadedBy, peaks);
+        } catch (peaksError) {
+          // Computed again on the next request
+          console.warn("Could not store waveform peaks:", peaksError);
+        }
+      }
+    }
+
+    if (!peaks) {
+      return NextResponse.json(
+        { error: "Peaks not available for this clip" },
+        { status: 404 }
+      );
+    }
+
+    // Peaks never change for a stored file
+    return NextResponse.json(peaks, {
+      headers: { "Cache-Control": "public, max-age=86400" },
+    });
+  } catch (error) {
+    console.error("Get peaks error:", error);
+    return NextResponse.json(
+      { error: "Failed to get peaks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { REPORT_REASONS, type ReportReason } from "@/types/moderation";
+
+export const dynamic = "force-dynamic";
+
+const MAX_DETAILS_LENGTH = 1000;
+
+// POST - Report a clip to the curators' moderation queue
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { user, clips, moderation } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const reason = body.reason as ReportReason;
+    const details = typeof body.details === "string" ? body.details.trim() : "";
+
+    if (!REPORT_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { error: `Reason must be one of: ${REPORT_REASONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (reason === "other" && !details) {
+      return NextResponse.json(
+        { error: "Please describe the problem" },
+        { status: 400 }
+      );
+    }
+
+    if (details.length > MAX_DETAILS_LENGTH) {
+      return NextResponse.json(
+        { error: `Details must be at most ${MAX_DETAILS_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const clip = await clips.getById(id);
+    if (!clip) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
+    // One open report per user and clip
+    const openReports = await moderation.listReports({ status: "open", clipId: id });
+    if (openReports.some((report) => report.reporterId === user.id)) {
+      return NextResponse.json(
+        { error: "You have already reported this clip" },
+        { status: 409 }
+      );
+    }
+
+    const report = await moderation.createReport({
+      clipId: id,
+      reporterId: user.id,
+      reason,
+      details: details || undefined,
+    });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Report clip error:", error);
+    return NextResponse.json(
+      { error: "Failed to report clip" },
+      { status: 500 }
+    );
+  }
+}
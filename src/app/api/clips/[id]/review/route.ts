@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { canViewClip, getStorage } from "@/lib/storage";
+import { isReviewGrade, resolveGrade } from "@/lib/srs";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const storage = await getStorage(request);
+    const { user, clips, users } = storage;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const clip = await clips.getById(params.id);
+    if (!clip || !(await canViewClip(storage, clip))) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
+    const review = await users.getReviewState(user.id, params.id);
+
+    return NextResponse.json({ review });
+  } catch (error) {
+    console.error("Get review state error:", error);
+    return NextResponse.json(
+      { error: "Failed to get review state" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const storage = await getStorage(request);
+    const { user, clips, users } = storage;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { grade, accuracy } = body;
+
+    if (grade !== undefined && !isReviewGrade(grade)) {
+      return NextResponse.json(
+        { error: "Grade must be one of again, hard, good, easy" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      accuracy !== undefined &&
+      (typeof accuracy !== "number" || accuracy < 0 || accuracy > 100)
+    ) {
+      return NextResponse.json(
+        { error: "Accuracy must be a number between 0 and 100" },
+        { status: 400 }
+      );
+    }
+
+    const resolvedGrade = resolveGrade({ grade, accuracy });
+    if (!resolvedGrade) {
+      return NextResponse.json(
+        { error: "A grade or an accuracy is required" },
+        { status: 400 }
+      );
+    }
+
+    const clip = await clips.getById(id);
+    if (!clip || !(await canViewClip(storage, clip))) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
+    const review = await users.recordReview(
+      user.id,
+      id,
+      resolvedGrade,
+      accuracy
+    );
+
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    console.error("Record review error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to record review" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,45 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
-import { localDb } from "@/lib/local-database";
+import { authorize, canViewClip, getStorage } from "@/lib/storage";
+import { sanitizeTimedTranscript } from "@/lib/timed-transcript";
 import type { AudioMetadata } from "@/types/audio";
 
-// Helper to parse user from local token
-function getUserFromToken(request: NextRequest): { userId: string; username: string } | null {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
-  }
-  
-  const token = authHeader.substring(7);
-  if (!token.startsWith("local-token-")) {
-    return null;
-  }
-  
-  const userId = request.headers.get("X-User-Id");
-  const username = request.headers.get("X-Username") || "Unknown";
-  
-  if (userId) {
-    return { userId, username };
-  }
-  
-  return null;
-}
-
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     const { id } = params;
-    const clip = await localDb.getClipById(id);
+    const storage = await getStorage(request);
+    const { clips, blobs } = storage;
+    const clip = await clips.getById(id);
 
-    if (!clip) {
+    if (!clip || !(await canViewClip(storage, clip))) {
       return NextResponse.json({ error: "Clip not found" }, { status: 404 });
     }
 
     // Add URL
     const clipWithUrl = {
       ...clip,
-      url: `/api/files/${clip.filename}`,
+      url: blobs.getAudioUrl(clip),
     };
 
     return NextResponse.json({ clip: clipWithUrl });
@@ -58,9 +39,10 @@ export async function PUT(
 ) {
   try {
     const { id } = params;
-    const user = getUserFromToken(request);
+    const storage = await getStorage(request);
+    const { clips } = storage;
 
-    if (!user) {
+    if (!storage.user) {
       return NextResponse.json(
         { error: "Authentication required" },
         { status: 401 }
@@ -82,20 +64,32 @@ export async function PUT(
       );
     }
 
-    // Get the clip first to check ownership
-    const clip = await localDb.getClipById(id);
+    // Get the clip first to check permissions
+    const clip = await clips.getById(id);
 
     if (!clip) {
       return NextResponse.json({ error: "Clip not found" }, { status: 404 });
     }
 
-    // Check if user owns this clip or is an admin
-    const isUserAdmin = await localDb.isAdmin(user.userId);
-    if (clip.uploadedBy !== user.userId && !isUserAdmin) {
-      return NextResponse.json(
-        { error: "Unauthorized to edit this clip" },
-        { status: 403 }
-      );
+    // Uploaders can edit their own clips, curators and admins any clip
+    const { user, denied } = await authorize(storage, "clips.edit", clip);
+    if (denied) {
+      return denied;
+    }
+
+    // Timed transcript: omitted keeps the stored one, null removes it
+    let timedTranscript = clip.metadata.timedTranscript;
+    if (metadata.timedTranscript === null) {
+      timedTranscript = undefined;
+    } else if (metadata.timedTranscript !== undefined) {
+      const sanitized = sanitizeTimedTranscript(metadata.timedTranscript);
+      if (!sanitized) {
+        return NextResponse.json(
+          { error: "Invalid timed transcript" },
+          { status: 400 }
+        );
+      }
+      timedTranscript = sanitized;
     }
 
     // Prepare clean metadata
@@ -105,6 +99,7 @@ export async function PUT(
       speakerAgeRange: metadata.speakerAgeRange || undefined,
       speakerDialect: metadata.speakerDialect?.trim() || undefined,
       transcript: metadata.transcript?.trim() || undefined,
+      timedTranscript,
       sourceUrl: metadata.sourceUrl?.trim() || undefined,
       tags: Array.isArray(metadata.tags)
         ? metadata.tags.filter(Boolean)
@@ -116,34 +111,29 @@ export async function PUT(
         : [],
     };
 
-    try {
-      const updatedClip = await localDb.updateClip(
-        id,
-        {
-          title: title.trim(),
-          metadata: cleanMetadata,
-        },
-        user.userId
-      );
+    const updatedClip = await clips.update(id, {
+      title: title.trim(),
+      metadata: cleanMetadata,
+    });
 
-      if (!updatedClip) {
-        return NextResponse.json({ error: "Clip not found" }, { status: 404 });
-      }
+    if (!updatedClip) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
 
-      return NextResponse.json({
-        success: true,
-        clip: updatedClip,
+    // Changes to someone else's clip go in the moderation log
+    if (user.id !== clip.uploadedBy) {
+      await storage.moderation.logAction({
+        clipId: id,
+        clipTitle: updatedClip.title,
+        actorId: user.id,
+        action: "edit",
       });
-    } catch (updateError: any) {
-      console.error("Update clip error:", updateError);
-      if (updateError.message?.includes("Not authorized")) {
-        return NextResponse.json(
-          { error: "Unauthorized to edit this clip" },
-          { status: 403 }
-        );
-      }
-      throw updateError;
     }
+
+    return NextResponse.json({
+      success: true,
+      clip: updatedClip,
+    });
   } catch (error) {
     console.error("Update clip error:", error);
     return NextResponse.json(
@@ -159,33 +149,31 @@ export async function DELETE(
 ) {
   try {
     const { id } = params;
-    const user = getUserFromToken(request);
+    const storage = await getStorage(request);
+    const { clips } = storage;
 
-    if (!user) {
+    if (!storage.user) {
       return NextResponse.json(
         { error: "Authentication required" },
         { status: 401 }
       );
     }
 
-    // Get the clip first to check ownership
-    const clip = await localDb.getClipById(id);
+    // Get the clip first to check permissions
+    const clip = await clips.getById(id);
 
     if (!clip) {
       return NextResponse.json({ error: "Clip not found" }, { status: 404 });
     }
 
-    // Check if user owns this clip or is an admin
-    const isUserAdmin = await localDb.isAdmin(user.userId);
-    if (clip.uploadedBy !== user.userId && !isUserAdmin) {
-      return NextResponse.json(
-        { error: "Unauthorized to delete this clip" },
-        { status: 403 }
-      );
+    // Uploaders can delete their own clips, curators and admins any clip
+    const { user, denied } = await authorize(storage, "clips.delete", clip);
+    if (denied) {
+      return denied;
     }
 
     // Delete from database (this also deletes the audio file)
-    const deleted = await localDb.deleteClip(id, user.userId);
+    const deleted = await clips.delete(id);
 
     if (!deleted) {
       return NextResponse.json(
@@ -194,18 +182,21 @@ export async function DELETE(
       );
     }
 
+    if (user.id !== clip.uploadedBy) {
+      await storage.moderation.logAction({
+        clipId: id,
+        clipTitle: clip.title,
+        actorId: user.id,
+        action: "delete",
+      });
+    }
+
     return NextResponse.json({
       success: true,
       message: "Clip deleted successfully",
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Delete clip error:", error);
-    if (error.message?.includes("Not authorized")) {
-      return NextResponse.json(
-        { error: "Unauthorized to delete this clip" },
-        { status: 403 }
-      );
-    }
     return NextResponse.json(
       { error: "Failed to delete clip" },
       { status: 500 }
@@ -1,37 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { localDb } from "@/lib/local-database";
+import { getStorage } from "@/lib/storage";
 
 export const dynamic = "force-dynamic";
 
-// Helper to parse user from local token
-function getUserFromToken(request: NextRequest): { userId: string; username: string } | null {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
-  }
-  
-  const token = authHeader.substring(7);
-  if (!token.startsWith("local-token-")) {
-    return null;
-  }
-  
-  const userId = request.headers.get("X-User-Id");
-  const username = request.headers.get("X-Username") || "Unknown";
-  
-  if (userId) {
-    return { userId, username };
-  }
-  
-  return null;
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     const { id } = params;
-    const user = getUserFromToken(request);
+    const { user, clips } = await getStorage(request);
 
     if (!user) {
       return NextResponse.json(
@@ -40,7 +18,9 @@ export async function POST(
       );
     }
 
-    const isNowStarred = await localDb.toggleStar(id, user.userId);
+    const { isStarredByUser } = await clips.getStars(id, user.id);
+    const isNowStarred = !isStarredByUser;
+    await clips.setStarred(id, user.id, isNowStarred);
 
     return NextResponse.json({
       success: true,
@@ -62,7 +42,7 @@ export async function DELETE(
 ) {
   try {
     const { id } = params;
-    const user = getUserFromToken(request);
+    const { user, clips } = await getStorage(request);
 
     if (!user) {
       return NextResponse.json(
@@ -71,11 +51,7 @@ export async function DELETE(
       );
     }
 
-    // Check if currently starred, and if so, toggle off
-    const isStarred = await localDb.isStarred(id, user.userId);
-    if (isStarred) {
-      await localDb.toggleStar(id, user.userId);
-    }
+    await clips.setStarred(id, user.id, false);
 
     return NextResponse.json({
       success: true,
@@ -1,37 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { localDb } from "@/lib/local-database";
+import { getStorage } from "@/lib/storage";
 
 export const dynamic = "force-dynamic";
 
-// Helper to parse user from local token
-function getUserFromToken(request: NextRequest): { userId: string; username: string } | null {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
-  }
-  
-  const token = authHeader.substring(7);
-  if (!token.startsWith("local-token-")) {
-    return null;
-  }
-  
-  const userId = request.headers.get("X-User-Id");
-  const username = request.headers.get("X-Username") || "Unknown";
-  
-  if (userId) {
-    return { userId, username };
-  }
-  
-  return null;
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     const { id } = params;
-    const user = getUserFromToken(request);
+    const { user, clips } = await getStorage(request);
 
     if (!user) {
       return NextResponse.json(
@@ -50,16 +28,16 @@ export async function POST(
       );
     }
 
-    await localDb.setVote(id, user.userId, voteType);
+    await clips.setVote(id, user.id, voteType);
 
     // Get updated vote stats
-    const voteStats = await localDb.getVotesForClip(id);
+    const voteStats = await clips.getVotes(id, user.id);
 
     return NextResponse.json({
       success: true,
-      upvoteCount: voteStats.upvotes,
-      downvoteCount: voteStats.downvotes,
-      voteScore: voteStats.score,
+      upvoteCount: voteStats.upvoteCount,
+      downvoteCount: voteStats.downvoteCount,
+      voteScore: voteStats.voteScore,
     });
   } catch (error) {
     console.error("Vote error:", error);
@@ -76,7 +54,7 @@ export async function DELETE(
 ) {
   try {
     const { id } = params;
-    const user = getUserFromToken(request);
+    const { user, clips } = await getStorage(request);
 
     if (!user) {
       return NextResponse.json(
@@ -85,16 +63,16 @@ export async function DELETE(
       );
     }
 
-    await localDb.setVote(id, user.userId, null);
+    await clips.setVote(id, user.id, null);
 
     // Get updated vote stats
-    const voteStats = await localDb.getVotesForClip(id);
+    const voteStats = await clips.getVotes(id, user.id);
 
     return NextResponse.json({
       success: true,
-      upvoteCount: voteStats.upvotes,
-      downvoteCount: voteStats.downvotes,
-      voteScore: voteStats.score,
+      upvoteCount: voteStats.upvoteCount,
+      downvoteCount: voteStats.downvoteCount,
+      voteScore: voteStats.voteScore,
     });
   } catch (error) {
     console.error("Remove vote error:", error);
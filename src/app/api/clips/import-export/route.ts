@@ -8,6 +8,7 @@ import {
   importClipsFromZip,
   importClipsFromJson,
 } from '@/lib/clip-import-export';
+import { authorize, getStorage } from '@/lib/storage';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -18,6 +19,7 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const clipIds = searchParams.getAll('clipIds');
     const format = searchParams.get('format') || 'zip';
+    const storage = await getStorage(request);
 
     if (!clipIds || clipIds.length === 0) {
       return NextResponse.json(
@@ -28,7 +30,7 @@ export async function GET(request: NextRequest) {
 
     if (format === 'json') {
       // Export as JSON (metadata only)
-      const data = await exportClipsAsJson(clipIds);
+      const data = await exportClipsAsJson(storage, clipIds);
       return NextResponse.json(data, {
         headers: {
           'Content-Disposition': `attachment; filename="clips-export-${Date.now()}.json"`,
@@ -37,7 +39,7 @@ export async function GET(request: NextRequest) {
     } else if (format === 'zip') {
       // Export as ZIP (with audio files)
       const tempFile = path.join(os.tmpdir(), `clips-export-${Date.now()}.zip`);
-      const result = await exportClipsAsZip(clipIds, tempFile);
+      const result = await exportClipsAsZip(storage, clipIds, tempFile);
 
       if (!result.success) {
         return NextResponse.json({ error: result.error }, { status: 400 });
@@ -78,6 +80,13 @@ export async function GET(request: NextRequest) {
 // POST - Import clips
 export async function POST(request: NextRequest) {
   try {
+    // Imports keep each clip's original uploader, so they count as bulk uploads
+    const storage = await getStorage(request);
+    const { denied } = await authorize(storage, 'clips.bulkUpload');
+    if (denied) {
+      return denied;
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
 
@@ -96,7 +105,7 @@ export async function POST(request: NextRequest) {
       const tempFile = path.join(os.tmpdir(), `clips-import-${Date.now()}.zip`);
       await writeFile(tempFile, Buffer.from(fileBuffer));
 
-      const result = await importClipsFromZip(tempFile);
+      const result = await importClipsFromZip(storage, tempFile);
 
       // Cleanup temp file
       try {
@@ -115,7 +124,7 @@ export async function POST(request: NextRequest) {
       const text = await file.text();
       const jsonData = JSON.parse(text);
 
-      const result = await importClipsFromJson(jsonData);
+      const result = await importClipsFromJson(storage, jsonData);
 
       return NextResponse.json({
         success: result.success,
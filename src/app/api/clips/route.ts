@@ -1,39 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { localDb } from "@/lib/local-database";
+import { authorize, getStorage, type ClipDiscoveryInfo, type ClipPage } from "@/lib/storage";
+import {
+  charactersPerSecond as clipCharactersPerSecond,
+  encodeCursor,
+  parseCursor,
+  parsePageSize,
+  speedCategory,
+  speedRange,
+  type SpeedPercentiles,
+} from "@/lib/clip-pagination";
 import type { AudioFilters, AudioSort } from "@/types/audio";
 
 export const dynamic = "force-dynamic";
 
-// Helper to parse user from local token (stored in localStorage on client)
-function getUserFromToken(request: NextRequest): { userId: string; username: string } | null {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
-  }
-
-  const token = authHeader.substring(7);
-  if (!token.startsWith("local-token-")) {
-    return null;
-  }
-
-  // For local auth, user info is passed in X-User-Id header
-  const userId = request.headers.get("X-User-Id");
-  const username = request.headers.get("X-Username") || "Unknown";
-
-  if (userId) {
-    return { userId, username };
-  }
-
-  return null;
-}
-
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-User-Id, X-Username',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
@@ -41,8 +27,8 @@ export async function OPTIONS(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const user = getUserFromToken(request);
-    const userId = user?.userId || null;
+    const { user, clips: clipRepository, blobs } = await getStorage(request);
+    const userId = user?.id || null;
 
     // Parse filters
     const filters: AudioFilters = {};
@@ -72,14 +58,25 @@ export async function GET(request: NextRequest) {
       filters.uploadedBy = uploadedBy;
     }
 
+    const idsParam = searchParams.get("ids");
+    if (idsParam) {
+      filters.ids = idsParam.split(",").map((id) => id.trim()).filter(Boolean);
+    }
+
     const tagsParam = searchParams.get("tags");
     if (tagsParam) {
       filters.tags = tagsParam.split(",").map((tag) => tag.trim()).filter(Boolean);
     }
 
-    const speedFilter = searchParams.get("speedFilter");
-    if (speedFilter && ["slow", "medium", "fast"].includes(speedFilter)) {
-      filters.speedFilter = speedFilter as "slow" | "medium" | "fast";
+    // Speeds are relative to the matching clips, see below
+    const speedParam = searchParams.get("speedFilter");
+    const speedFilter = speedParam && ["slow", "medium", "fast"].includes(speedParam)
+      ? speedParam as "slow" | "medium" | "fast"
+      : undefined;
+
+    const q = searchParams.get("q")?.trim();
+    if (q) {
+      filters.q = q;
     }
 
     // Special filters
@@ -97,152 +94,94 @@ export async function GET(request: NextRequest) {
     };
 
     const sortField = searchParams.get("sortField");
-    if (sortField && ["title", "duration", "language", "createdAt", "voteScore", "difficulty", "charactersPerSecond"].includes(sortField)) {
+    if (sortField && ["title", "duration", "language", "createdAt", "voteScore", "difficulty", "charactersPerSecond", "relevance"].includes(sortField)) {
       sort.field = sortField as any;
     }
 
+    // Searches are ranked by relevance unless another order is asked for
+    if (!sortField && filters.q) {
+      sort.field = "relevance";
+    }
+
     const sortDirection = searchParams.get("sortDirection");
     if (sortDirection && ["asc", "desc"].includes(sortDirection)) {
       sort.direction = sortDirection as "asc" | "desc";
     }
 
-    // Get clips from local database
-    const clips = await localDb.getClips(
-      filters,
-      sort,
-      { starredByUserId: showStarred && userId ? userId : undefined }
-    );
-
-    // Add URLs and discovery info to clips
-    const clipsWithUrls = await Promise.all(
-      clips.map(async (clip) => {
-        // Get votes
-        const votes = await localDb.getVotesForClip(clip.id);
-
-        // Get user's vote
-        let userVote: "up" | "down" | null = null;
-        if (userId) {
-          userVote = await localDb.getUserVote(clip.id, userId);
-        }
-
-        // Check if starred by user
-        const isStarred = userId ? await localDb.isStarred(clip.id, userId) : false;
-
-        // Calculate characters per second
-        const transcript = clip.metadata.transcript || "";
-        const charactersPerSecond = clip.duration > 0
-          ? transcript.length / clip.duration
-          : 0;
-
-        return {
-          ...clip,
-          url: `/api/files/${clip.filename}`, // Proper local URL for audio files
-          starCount: 0, // Placeholder for starredBy.length
-          isStarredByUser: isStarred,
-          difficultyRating: 0, // Placeholder for difficultyRating.average
-          difficultyRatingCount: 0, // Placeholder for difficultyRating.count
-          userDifficultyRating: null, // Placeholder for difficultyRating.userRating
-          upvoteCount: votes.upvotes, // Fixed property name
-          downvoteCount: votes.downvotes, // Fixed property name
-          voteScore: votes.score, // Fixed property name
-          userVote: userVote,
-          charactersPerSecond: charactersPerSecond || undefined,
-        };
-      })
-    );
-
-    // Calculate speed percentiles for filtering
-    let speedPercentiles: { slow: number; medium: number; fast: number } | null = null;
-    if (filters.speedFilter) {
-      // Use a simple calculation for speed percentiles based on clipsWithUrls
-      const charactersPerSecondValues = clipsWithUrls
-        .map(clip => clip.charactersPerSecond)
-        .filter((cps): cps is number => cps !== undefined)
-        .sort((a, b) => a - b);
-      
-      if (charactersPerSecondValues.length > 0) {
-        const slowIndex = Math.floor(charactersPerSecondValues.length * 0.33);
-        const mediumIndex = Math.floor(charactersPerSecondValues.length * 0.66);
-        speedPercentiles = {
-          slow: charactersPerSecondValues[slowIndex],
-          medium: charactersPerSecondValues[mediumIndex],
-          fast: charactersPerSecondValues[charactersPerSecondValues.length - 1]
-        };
-      }
+    // Parse pagination
+    const limit = parsePageSize(searchParams.get("limit"));
+    const cursorParam = searchParams.get("cursor");
+    const cursor = cursorParam ? parseCursor(cursorParam, sort) : null;
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { error: "Invalid cursor" },
+        { status: 400 }
+      );
     }
 
-    // Apply speed filter if requested
-    let filteredClips = clipsWithUrls;
-    if (filters.speedFilter && speedPercentiles) {
-      filteredClips = clipsWithUrls.filter((clip) => {
-        if (!clip.charactersPerSecond) return false;
-        const cps = clip.charactersPerSecond;
+    const listingOptions = { starredByUserId: showStarred && userId ? userId : undefined };
 
-        if (filters.speedFilter === "slow") {
-          return cps <= speedPercentiles!.slow;
-        } else if (filters.speedFilter === "medium") {
-          return cps > speedPercentiles!.slow && cps <= speedPercentiles!.medium;
-        } else if (filters.speedFilter === "fast") {
-          return cps > speedPercentiles!.medium;
-        }
-        return true;
+    // Speeds are relative to the matching clips: the percentiles are
+    // found first and then filter the page like any other bound
+    let speedPercentiles: SpeedPercentiles | null = null;
+    let page: ClipPage = { clips: [], nextCursor: null, total: 0 };
+    try {
+      if (speedFilter) {
+        speedPercentiles = await clipRepository.getSpeedPercentiles(filters, listingOptions);
+      }
+      page = await clipRepository.listPage(filters, sort, {
+        ...listingOptions,
+        limit,
+        after: cursor,
+        speed: speedFilter && speedPercentiles
+          ? speedRange(speedFilter, speedPercentiles)
+          : undefined,
       });
+    } catch (error) {
+      // The UI still renders, just with no clips
+      console.error("Failed to fetch clips from database:", error);
     }
 
-    // Apply sorting for discovery fields (these need to be sorted in-memory)
-    // Also handle regular DB sort fields if they weren't sorted by DB (shouldn't happen, but just in case)
-    if (sort.field === "voteScore" || sort.field === "difficulty" || sort.field === "charactersPerSecond") {
-      filteredClips.sort((a, b) => {
-        let aValue: number | null = null;
-        let bValue: number | null = null;
-
-        if (sort.field === "voteScore") {
-          aValue = a.voteScore ?? 0;
-          bValue = b.voteScore ?? 0;
-        } else if (sort.field === "difficulty") {
-          aValue = a.difficultyRating ?? null;
-          bValue = b.difficultyRating ?? null;
-        } else if (sort.field === "charactersPerSecond") {
-          aValue = a.charactersPerSecond ?? null;
-          bValue = b.charactersPerSecond ?? null;
-        } else {
-          // Fallback for other fields (shouldn't reach here, but handle gracefully)
-          return 0;
-        }
-
-        // Handle null values (put them at the end)
-        if (aValue === null && bValue === null) return 0;
-        if (aValue === null) return 1;
-        if (bValue === null) return -1;
-
-        const comparison = aValue - bValue;
-        return sort.direction === "asc" ? comparison : -comparison;
+    // Only the clips on the page are looked up. Stats that fail to load
+    // are left at their defaults rather than failing the listing.
+    const discoveryInfo = await clipRepository
+      .getDiscoveryInfo(page.clips.map((clip) => clip.id), userId || undefined)
+      .catch((error) => {
+        console.warn("Failed to get votes, stars and difficulty for clips:", error);
+        return new Map<string, ClipDiscoveryInfo>();
       });
-    }
 
-    // Add speed category to clips
-    const clipsWithSpeedCategory = filteredClips.map((clip) => {
-      let speedCategory: "slow" | "medium" | "fast" | undefined = undefined;
-      if (clip.charactersPerSecond && speedPercentiles) {
-        if (clip.charactersPerSecond <= speedPercentiles.slow) {
-          speedCategory = "slow";
-        } else if (clip.charactersPerSecond <= speedPercentiles.medium) {
-          speedCategory = "medium";
-        } else {
-          speedCategory = "fast";
-        }
-      }
-      return { ...clip, speedCategory };
+    const pageClips = page.clips.map((clip) => {
+      const info = discoveryInfo.get(clip.id);
+      const charactersPerSecond = clipCharactersPerSecond(clip);
+      return {
+        ...clip,
+        url: blobs.getAudioUrl(clip),
+        charactersPerSecond: charactersPerSecond ?? undefined,
+        speedCategory: speedPercentiles
+          ? speedCategory(charactersPerSecond, speedPercentiles)
+          : undefined,
+        starCount: info?.stars.starCount ?? 0,
+        isStarredByUser: info?.stars.isStarredByUser ?? false,
+        difficultyRating: info?.difficulty.average ?? null,
+        difficultyRatingCount: info?.difficulty.count ?? 0,
+        userDifficultyRating: info?.difficulty.userRating ?? null,
+        upvoteCount: info?.votes.upvoteCount ?? 0,
+        downvoteCount: info?.votes.downvoteCount ?? 0,
+        voteScore: info?.votes.voteScore ?? 0,
+        userVote: info?.votes.userVote ?? null,
+      };
     });
 
     return NextResponse.json({
-      clips: clipsWithSpeedCategory,
-      total: clipsWithSpeedCategory.length,
+      clips: pageClips,
+      total: page.total,
+      nextCursor: page.nextCursor ? encodeCursor(page.nextCursor) : null,
     }, {
       headers: {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-User-Id, X-Username',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
       }
     });
   } catch (error) {
@@ -256,24 +195,20 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const user = getUserFromToken(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
+    const storage = await getStorage(request);
+    const { user, denied } = await authorize(storage, "clips.upload");
+    if (denied) return denied;
 
     const body = await request.json();
 
-    const clip = await localDb.createClip({
+    const clip = await storage.clips.create({
       title: body.title,
       duration: body.duration,
       filename: body.filename,
       originalFilename: body.originalFilename,
       fileSize: body.fileSize,
       metadata: body.metadata,
-      uploadedBy: user.userId,
+      uploadedBy: user.id,
     });
 
     return NextResponse.json({ clip }, { status: 201 });
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { canViewDeck, sanitizeDeckInput } from "@/lib/decks";
+import type { AudioClip } from "@/types/audio";
+
+export const dynamic = "force-dynamic";
+
+// GET - A deck with its clips in play order. Clips that were deleted or
+// hidden since are left out.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { user, clips, decks, blobs } = await getStorage(request);
+    const deck = await decks.getById(id);
+
+    // Private decks look the same as missing ones to anyone but the owner
+    if (!deck || !canViewDeck(deck, user?.id)) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+
+    const found = new Map<string, AudioClip>(
+      deck.clipIds.length > 0
+        ? (await clips.list({ ids: deck.clipIds })).map((clip) => [clip.id, clip])
+        : []
+    );
+    const deckClips = deck.clipIds
+      .map((clipId) => found.get(clipId))
+      .filter((clip): clip is AudioClip => !!clip)
+      .map((clip) => ({ ...clip, url: blobs.getAudioUrl(clip) }));
+
+    return NextResponse.json({ deck, clips: deckClips });
+  } catch (error) {
+    console.error("Get deck error:", error);
+    return NextResponse.json(
+      { error: "Failed to get deck" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Rename, describe, share or reorder a deck; fields left out are kept
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { user, decks } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const deck = await decks.getById(id);
+    if (!deck || !canViewDeck(deck, user.id)) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+    if (deck.ownerId !== user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized to edit this deck" },
+        { status: 403 }
+      );
+    }
+
+    const input = sanitizeDeckInput(await request.json(), { partial: true });
+    if (input.error !== undefined) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const updatedDeck = await decks.update(id, input.deck);
+    if (!updatedDeck) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, deck: updatedDeck });
+  } catch (error) {
+    console.error("Update deck error:", error);
+    return NextResponse.json(
+      { error: "Failed to update deck" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { user, decks } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const deck = await decks.getById(id);
+    if (!deck || !canViewDeck(deck, user.id)) {
+      return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+    }
+    if (deck.ownerId !== user.id) {
+      return NextResponse.json(
+        { error: "Unauthorized to delete this deck" },
+        { status: 403 }
+      );
+    }
+
+    await decks.delete(id);
+
+    return NextResponse.json({
+      success: true,
+      message: "Deck deleted successfully",
+    });
+  } catch (error) {
+    console.error("Delete deck error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete deck" },
+      { status: 500 }
+    );
+  }
+}
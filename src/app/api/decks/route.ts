@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { sanitizeDeckInput } from "@/lib/decks";
+import type { DeckListItem, NewDeck } from "@/types/deck";
+
+export const dynamic = "force-dynamic";
+
+// GET - The signed-in user's decks, or everyone's public decks with ?scope=public
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { user, users, decks } = await getStorage(request);
+
+    if (searchParams.get("scope") === "public") {
+      const publicDecks = await decks.list({ isPublic: true });
+
+      // Show whose deck it is by username
+      const usernames = new Map<string, string | undefined>();
+      for (const ownerId of Array.from(new Set(publicDecks.map((d) => d.ownerId)))) {
+        usernames.set(ownerId, (await users.getUser(ownerId))?.username);
+      }
+      const items: DeckListItem[] = publicDecks.map((deck) => ({
+        ...deck,
+        ownerUsername: usernames.get(deck.ownerId),
+      }));
+
+      return NextResponse.json({ decks: items });
+    }
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const ownDecks: DeckListItem[] = await decks.list({ ownerId: user.id });
+    return NextResponse.json({ decks: ownDecks });
+  } catch (error) {
+    console.error("List decks error:", error);
+    return NextResponse.json(
+      { error: "Failed to list decks" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a deck, optionally with clips
+export async function POST(request: NextRequest) {
+  try {
+    const { user, decks } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const input = sanitizeDeckInput(await request.json());
+    if (input.error !== undefined) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    // Without `partial`, name, isPublic and clipIds are always set
+    const deck = await decks.create(user.id, input.deck as NewDeck);
+    return NextResponse.json({ success: true, deck });
+  } catch (error) {
+    console.error("Create deck error:", error);
+    return NextResponse.json(
+      { error: "Failed to create deck" },
+      { status: 500 }
+    );
+  }
+}
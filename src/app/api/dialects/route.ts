@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { localDb } from "@/lib/local-database";
+import { authorize, getStorage } from "@/lib/storage";
 
 export const dynamic = "force-dynamic";
 
@@ -16,7 +16,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Get clips and extract unique dialects for the specified language
-    const clips = await localDb.getClips({ language });
+    const { clips: clipRepository } = await getStorage(request);
+    const clips = await clipRepository.list({ language });
     
     // Extract unique dialects and sort them
     const dialects = Array.from(
@@ -36,3 +37,42 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// PATCH - Rename a dialect on every clip of a language, e.g. to merge
+// spellings of the same dialect
+export async function PATCH(request: NextRequest) {
+  try {
+    const storage = await getStorage(request);
+    const { denied } = await authorize(storage, "dialects.manage");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json();
+    const language = body.language?.trim();
+    const from = body.from?.trim();
+    const to = body.to?.trim();
+
+    if (!language || !from || !to) {
+      return NextResponse.json(
+        { error: "language, from and to are required" },
+        { status: 400 }
+      );
+    }
+
+    const clips = await storage.clips.list({ language, speakerDialect: from });
+    for (const clip of clips) {
+      await storage.clips.update(clip.id, {
+        metadata: { ...clip.metadata, speakerDialect: to },
+      });
+    }
+
+    return NextResponse.json({ success: true, updated: clips.length });
+  } catch (error) {
+    console.error("Rename dialect error:", error);
+    return NextResponse.json(
+      { error: "Failed to rename dialect" },
+      { status: 500 }
+    );
+  }
+}
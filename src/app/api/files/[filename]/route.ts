@@ -3,6 +3,15 @@ import { AUDIO_DIR } from '@/lib/local-database';
 import fs from 'fs';
 import path from 'path';
 
+const CHUNK_SIZE = 64 * 1024; // bytes read from disk per stream pull
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*', // Allow CORS
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Range, If-None-Match, If-Modified-Since, If-Range',
+  'Access-Control-Expose-Headers': 'Accept-Ranges, Content-Length, Content-Range, ETag, Last-Modified',
+};
+
 // Get MIME type from extension
 function getMimeType(filename: string): string {
   const ext = filename.split('.').pop()?.toLowerCase();
@@ -12,24 +21,150 @@ function getMimeType(filename: string): string {
     'm4a': 'audio/mp4',
     'ogg': 'audio/ogg',
     'webm': 'audio/webm',
+    'vtt': 'text/vtt; charset=utf-8',
+    'srt': 'application/x-subrip; charset=utf-8',
   };
   return mimeTypes[ext || ''] || 'application/octet-stream';
 }
 
+// Finds the file in the clips/audio directory, falling back to the
+// downloads directory where yt-dlp stores files
+function resolveFilePath(filename: string): string | null {
+  const filePathAudio = path.join(AUDIO_DIR, filename);
+  if (fs.existsSync(filePathAudio)) {
+    return filePathAudio;
+  }
+
+  const downloadsDir = path.join(process.cwd(), 'local-data', 'downloads');
+  const alt = path.join(downloadsDir, filename);
+  if (fs.existsSync(alt)) {
+    console.log(`Serving file from downloads: ${alt}`);
+    return alt;
+  }
+
+  return null;
+}
+
+// Weak validator from size and modification time (same scheme as Express)
+function getETag(stats: fs.Stats): string {
+  return `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+}
+
+// HTTP dates only have second precision
+function modifiedAfter(stats: fs.Stats, httpDate: string): boolean {
+  const date = Date.parse(httpDate);
+  if (isNaN(date)) return true;
+  return Math.floor(stats.mtimeMs / 1000) > Math.floor(date / 1000);
+}
+
+// If-None-Match takes precedence over If-Modified-Since (RFC 9110 13.2.2)
+function isNotModified(request: NextRequest, stats: fs.Stats, etag: string): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    const tags = ifNoneMatch.split(',').map(tag => tag.trim());
+    // Weak comparison: W/"x" matches "x"
+    const opaque = etag.replace(/^W\//, '');
+    return tags.some(tag => tag === '*' || tag.replace(/^W\//, '') === opaque);
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  if (ifModifiedSince) {
+    return !modifiedAfter(stats, ifModifiedSince);
+  }
+
+  return false;
+}
+
+// A Range header only applies while If-Range still matches the file.
+// If-Range needs a strong comparison (RFC 9110 13.1.5) and our ETag is
+// weak, so an entity-tag never matches and the whole file is sent.
+function rangeStillValid(request: NextRequest, stats: fs.Stats): boolean {
+  const ifRange = request.headers.get('If-Range');
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return false;
+  }
+  return !modifiedAfter(stats, ifRange);
+}
+
+type ByteRange = { start: number; end: number }; // inclusive
+
+/**
+ * Parses a single-range `bytes=` header. Returns null when the header
+ * should be ignored (malformed or multiple ranges - the whole file is
+ * sent instead) and 'unsatisfiable' when no byte of the range exists.
+ */
+function parseRange(header: string, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(match[2]);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    if (match[2] && Number(match[2]) < start) return null;
+  }
+
+  if (start >= size) return 'unsatisfiable';
+  return { start, end };
+}
+
+// Streams [start, end] of a file from disk, reading as the client consumes it
+function streamFile(filePath: string, start: number, end: number): ReadableStream<Uint8Array> {
+  let handle: fs.promises.FileHandle | null = null;
+  let position = start;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        handle ??= await fs.promises.open(filePath, 'r');
+        const length = Math.min(CHUNK_SIZE, end - position + 1);
+        const buffer = new Uint8Array(length);
+        const { bytesRead } = length > 0
+          ? await handle.read(buffer, 0, length, position)
+          : { bytesRead: 0 };
+
+        if (bytesRead === 0) {
+          await handle.close();
+          controller.close();
+          return;
+        }
+
+        position += bytesRead;
+        controller.enqueue(buffer.subarray(0, bytesRead));
+      } catch (error) {
+        await handle?.close().catch(() => undefined);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await handle?.close();
+    },
+  });
+}
+
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
+    headers: CORS_HEADERS,
   });
 }
 
-export async function GET(
+/**
+ * Serves a file with Range (206 Partial Content) and conditional request
+ * support. HEAD gets exactly the headers GET would send, without a body.
+ */
+async function serveFile(
   request: NextRequest,
-  { params }: { params: { filename: string } }
+  params: { filename: string },
+  includeBody: boolean
 ) {
   try {
     let { filename } = params;
@@ -49,39 +184,51 @@ export async function GET(
       );
     }
 
-    // Build the file path. First check the normal clips/audio directory,
-    // then fall back to the downloads directory where yt-dlp stores files.
-    const filePathAudio = path.join(AUDIO_DIR, filename);
-    const downloadsDir = path.join(process.cwd(), 'local-data', 'downloads');
-    let filePath = filePathAudio;
-
-    if (!fs.existsSync(filePath)) {
-      const alt = path.join(downloadsDir, filename);
-      if (fs.existsSync(alt)) {
-        filePath = alt;
-        console.log(`Serving file from downloads: ${filePath}`);
-      } else {
-        return NextResponse.json(
-          { error: 'File not found' },
-          { status: 404 }
-        );
-      }
+    const filePath = resolveFilePath(filename);
+    if (!filePath) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
     }
 
-    // Read file and return it
-    const fileBuffer = fs.readFileSync(filePath);
-    const mimeType = getMimeType(filename);
-    
-    return new NextResponse(fileBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': mimeType,
-        'Content-Length': fileBuffer.length.toString(),
-        'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
-        'Access-Control-Allow-Origin': '*', // Allow CORS
-        'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
-      },
+    const stats = await fs.promises.stat(filePath);
+    const etag = getETag(stats);
+    const headers: Record<string, string> = {
+      ...CORS_HEADERS,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
+      'ETag': etag,
+      'Last-Modified': stats.mtime.toUTCString(),
+    };
+
+    if (isNotModified(request, stats, etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    headers['Content-Type'] = getMimeType(filename);
+
+    const rangeHeader = request.headers.get('Range');
+    const range = rangeHeader && stats.size > 0 && rangeStillValid(request, stats)
+      ? parseRange(rangeHeader, stats.size)
+      : null;
+
+    if (range === 'unsatisfiable') {
+      headers['Content-Range'] = `bytes */${stats.size}`;
+      return new NextResponse(null, { status: 416, headers });
+    }
+
+    const start = range?.start ?? 0;
+    const end = range?.end ?? stats.size - 1;
+    headers['Content-Length'] = String(Math.max(0, end - start + 1));
+    if (range) {
+      headers['Content-Range'] = `bytes ${start}-${end}/${stats.size}`;
+    }
+
+    const body = includeBody && stats.size > 0 ? streamFile(filePath, start, end) : null;
+    return new NextResponse(body, {
+      status: range ? 206 : 200,
+      headers,
     });
     
   } catch (error) {
@@ -91,4 +238,18 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { filename: string } }
+) {
+  return serveFile(request, params, true);
+}
+
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: { filename: string } }
+) {
+  return serveFile(request, params, false);
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getStorage } from "@/lib/storage";
+import type { ModerationActionType } from "@/types/moderation";
+
+export const dynamic = "force-dynamic";
+
+// Edits and deletes go through PUT/DELETE /api/clips/[id], which log them
+type ClipAction = Extract<ModerationActionType, "hide" | "unhide" | "resolve" | "dismiss">;
+
+const CLIP_ACTIONS: ClipAction[] = ["hide", "unhide", "resolve", "dismiss"];
+
+// POST - Hide or unhide a clip, or close its open reports
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const storage = await getStorage(request);
+    const { user, denied } = await authorize(storage, "clips.moderate");
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json();
+    const action = body.action as ClipAction;
+    const note = typeof body.note === "string" ? body.note.trim() || undefined : undefined;
+
+    if (!CLIP_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${CLIP_ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    let clip = await storage.clips.getById(id);
+    if (!clip) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
+    if (action === "hide" || action === "unhide") {
+      clip = await storage.clips.update(id, { hidden: action === "hide" });
+      if (!clip) {
+        return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+      }
+    }
+
+    // Hiding a clip deals with what it was reported for
+    const closedReports =
+      action === "unhide"
+        ? 0
+        : await storage.moderation.closeReports(
+            id,
+            action === "dismiss" ? "dismissed" : "resolved",
+            user.id
+          );
+
+    const entry = await storage.moderation.logAction({
+      clipId: id,
+      clipTitle: clip.title,
+      actorId: user.id,
+      action,
+      note,
+    });
+
+    return NextResponse.json({ success: true, clip, closedReports, entry });
+  } catch (error) {
+    console.error("Moderate clip error:", error);
+    return NextResponse.json(
+      { error: "Failed to moderate clip" },
+      { status: 500 }
+    );
+  }
+}
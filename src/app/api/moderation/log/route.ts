@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getStorage } from "@/lib/storage";
+import type { ModerationLogEntry } from "@/types/moderation";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET - The moderation audit log, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const storage = await getStorage(request);
+    const { denied } = await authorize(storage, "clips.moderate");
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const clipId = searchParams.get("clipId") || undefined;
+    const requestedLimit = parseInt(searchParams.get("limit") || "", 10);
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    const actions = await storage.moderation.listActions({ clipId, limit });
+
+    // Show who did what by username
+    const usernames = new Map<string, string | undefined>();
+    for (const actorId of Array.from(new Set(actions.map((a) => a.actorId)))) {
+      usernames.set(actorId, (await storage.users.getUser(actorId))?.username);
+    }
+    const entries: ModerationLogEntry[] = actions.map((action) => ({
+      ...action,
+      actorUsername: usernames.get(action.actorId),
+    }));
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Moderation log error:", error);
+    return NextResponse.json(
+      { error: "Failed to load the moderation log" },
+      { status: 500 }
+    );
+  }
+}
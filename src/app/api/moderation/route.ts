@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getStorage } from "@/lib/storage";
+import type { ClipReport, ModerationQueueItem } from "@/types/moderation";
+
+export const dynamic = "force-dynamic";
+
+// GET - Clips with open reports, the clip reported longest ago first
+export async function GET(request: NextRequest) {
+  try {
+    const storage = await getStorage(request);
+    const { denied } = await authorize(storage, "clips.moderate");
+    if (denied) {
+      return denied;
+    }
+
+    const reports = await storage.moderation.listReports({ status: "open" });
+
+    // Reports come oldest first, so clips keep the order of their first report
+    const reportsByClip = new Map<string, ClipReport[]>();
+    for (const report of reports) {
+      const clipReports = reportsByClip.get(report.clipId) ?? [];
+      clipReports.push(report);
+      reportsByClip.set(report.clipId, clipReports);
+    }
+
+    const items: ModerationQueueItem[] = [];
+    for (const [clipId, clipReports] of Array.from(reportsByClip)) {
+      const clip = await storage.clips.getById(clipId);
+      if (!clip) continue;
+      items.push({
+        clip: { ...clip, url: storage.blobs.getAudioUrl(clip) },
+        reports: clipReports,
+      });
+    }
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Moderation queue error:", error);
+    return NextResponse.json(
+      { error: "Failed to load the moderation queue" },
+      { status: 500 }
+    );
+  }
+}
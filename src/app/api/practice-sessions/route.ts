@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { NORMALIZATION_RULE_KEYS } from "@/lib/text-normalization";
+import type { NormalizationRules, RecordingScore } from "@/types/audio";
+import type { NewPracticeSession } from "@/types/practice";
+
+export const dynamic = "force-dynamic";
+
+const isPercentage = (value: unknown): value is number =>
+  typeof value === "number" && value >= 0 && value <= 100;
+
+// Only the known fields of a take score, or null if it isn't one
+function parseRecordingScore(value: any): RecordingScore | null {
+  if (
+    !value ||
+    typeof value !== "object" ||
+    typeof value.timingOffsetMs !== "number" ||
+    !Number.isFinite(value.timingOffsetMs) ||
+    !isPercentage(value.rhythmSimilarity) ||
+    !isPercentage(value.overall) ||
+    (value.intonationSimilarity !== undefined && !isPercentage(value.intonationSimilarity))
+  ) {
+    return null;
+  }
+  return {
+    timingOffsetMs: Math.round(value.timingOffsetMs),
+    rhythmSimilarity: value.rhythmSimilarity,
+    intonationSimilarity: value.intonationSimilarity,
+    overall: value.overall,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, users } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const clipId = searchParams.get("clipId") || undefined;
+
+    const sessions = await users.getPracticeSessions(user.id, { clipId });
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("Get practice sessions error:", error);
+    return NextResponse.json(
+      { error: "Failed to get practice sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { user, clips, users } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const {
+      clipId,
+      startedAt,
+      endedAt,
+      secondsPracticed,
+      loops,
+      playbackRates,
+      transcriptionAccuracy,
+      normalizationRules,
+      recordingScore,
+    } = body;
+
+    if (!clipId || typeof clipId !== "string") {
+      return NextResponse.json({ error: "clipId is required" }, { status: 400 });
+    }
+
+    if (
+      isNaN(new Date(startedAt).getTime()) ||
+      isNaN(new Date(endedAt).getTime())
+    ) {
+      return NextResponse.json(
+        { error: "startedAt and endedAt must be valid timestamps" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof secondsPracticed !== "number" ||
+      secondsPracticed < 0 ||
+      !Number.isInteger(loops) ||
+      loops < 0
+    ) {
+      return NextResponse.json(
+        { error: "secondsPracticed and loops must be non-negative numbers" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(playbackRates) ||
+      !playbackRates.every((rate: unknown) => typeof rate === "number" && rate > 0)
+    ) {
+      return NextResponse.json(
+        { error: "playbackRates must be an array of positive numbers" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      transcriptionAccuracy !== undefined &&
+      (typeof transcriptionAccuracy !== "number" ||
+        transcriptionAccuracy < 0 ||
+        transcriptionAccuracy > 100)
+    ) {
+      return NextResponse.json(
+        { error: "transcriptionAccuracy must be a number between 0 and 100" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      normalizationRules !== undefined &&
+      (typeof normalizationRules !== "object" ||
+        normalizationRules === null ||
+        !NORMALIZATION_RULE_KEYS.every(
+          (key) => typeof normalizationRules[key] === "boolean"
+        ))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid normalizationRules format" },
+        { status: 400 }
+      );
+    }
+
+    const score =
+      recordingScore !== undefined ? parseRecordingScore(recordingScore) : undefined;
+    if (score === null) {
+      return NextResponse.json(
+        { error: "Invalid recordingScore format" },
+        { status: 400 }
+      );
+    }
+
+    const clip = await clips.getById(clipId);
+    if (!clip) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
+    const session: NewPracticeSession = {
+      clipId,
+      language: clip.metadata.language,
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      secondsPracticed: Math.round(secondsPracticed * 10) / 10,
+      loops,
+      playbackRates: Array.from(new Set<number>(playbackRates)),
+      transcriptionAccuracy,
+      normalizationRules:
+        normalizationRules &&
+        (Object.fromEntries(
+          NORMALIZATION_RULE_KEYS.map((key) => [key, normalizationRules[key]])
+        ) as unknown as NormalizationRules),
+      recordingScore: score,
+    };
+
+    const created = await users.createPracticeSession(user.id, session);
+
+    return NextResponse.json({ success: true, session: created });
+  } catch (error) {
+    console.error("Save practice session error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save practice session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+
+export const dynamic = "force-dynamic";
+
+// Returns the clips due for review, most overdue first.
+// `until` lets the client pass the end of its local day.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, clips, users, blobs } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const untilParam = searchParams.get("until");
+    const until = untilParam ? new Date(untilParam) : new Date();
+
+    if (isNaN(until.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid until timestamp" },
+        { status: 400 }
+      );
+    }
+
+    const dueReviews = await users.getDueReviews(user.id, until);
+
+    const reviews = [];
+    for (const review of dueReviews) {
+      const clip = await clips.getById(review.clipId);
+      // Skip reviews whose clip has been removed
+      if (!clip) continue;
+      reviews.push({
+        ...review,
+        clip: {
+          ...clip,
+          url: blobs.getAudioUrl(clip),
+        },
+      });
+    }
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error("Get review queue error:", error);
+    return NextResponse.json(
+      { error: "Failed to get review queue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { calculatePracticeStats } from "@/lib/practice-stats";
+
+export const dynamic = "force-dynamic";
+
+// `tzOffset` (minutes, as returned by Date.getTimezoneOffset) lets streaks
+// and daily trends follow the learner's calendar days.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, clips: clipRepository, users } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const tzOffset = parseInt(searchParams.get("tzOffset") || "0", 10);
+
+    if (isNaN(tzOffset) || Math.abs(tzOffset) > 14 * 60) {
+      return NextResponse.json(
+        { error: "Invalid tzOffset" },
+        { status: 400 }
+      );
+    }
+
+    const sessions = await users.getPracticeSessions(user.id);
+    // By id rather than list(), so hidden clips keep their titles
+    const clipIds = Array.from(new Set(sessions.map((session) => session.clipId)));
+    const clips = await Promise.all(clipIds.map((id) => clipRepository.getById(id)));
+    const clipTitles = new Map(
+      clips.flatMap((clip) => (clip ? [[clip.id, clip.title] as const] : []))
+    );
+
+    const stats = calculatePracticeStats(sessions, clipTitles, tzOffset);
+
+    return NextResponse.json({ stats });
+  } catch (error) {
+    console.error("Get stats error:", error);
+    return NextResponse.json(
+      { error: "Failed to get statistics" },
+      { status: 500 }
+    );
+  }
+}
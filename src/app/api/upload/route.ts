@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { localDb, AUDIO_DIR } from '@/lib/local-database';
-import type { AudioMetadata } from '@/types/audio';
-import fs from 'fs';
-import path from 'path';
+import { authorize, getStorage, type BlobStore } from '@/lib/storage';
+import type { AudioMetadata, TimedTranscript } from '@/types/audio';
+import { sanitizeTimedTranscript, sliceTimedTranscript } from '@/lib/timed-transcript';
+import { computeFilePeaks, processClipAudio, type ProcessedAudio } from '@/lib/audio/transcode';
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB for local storage
 const SUPPORTED_FORMATS = ['mp3', 'wav', 'm4a', 'ogg', 'webm'];
 
 function generateUniqueFilename(originalName: string): string {
@@ -15,9 +14,10 @@ function generateUniqueFilename(originalName: string): string {
   return `${timestamp}-${random}-${baseName}.${extension}`;
 }
 
-function validateFile(file: File): string | null {
-  if (file.size > MAX_FILE_SIZE) {
-    return `File too large. Maximum size is ${MAX_FILE_SIZE / (1024 * 1024)}MB.`;
+// Size limits depend on the storage backend
+function validateFile(file: File, limits: BlobStore['limits']): string | null {
+  if (file.size > limits.maxUploadBytes) {
+    return `File too large. Maximum size is ${limits.maxUploadBytes / (1024 * 1024)}MB.`;
   }
 
   const extension = file.name.split('.').pop()?.toLowerCase();
@@ -28,44 +28,20 @@ function validateFile(file: File): string | null {
   return null;
 }
 
-// Helper to parse user from local token
-function getUserFromToken(request: NextRequest): { userId: string; username: string } | null {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
-  }
-  
-  const token = authHeader.substring(7);
-  if (!token.startsWith("local-token-")) {
-    return null;
-  }
-  
-  // For local auth, user info is passed in X-User-Id header
-  const userId = request.headers.get("X-User-Id");
-  const username = request.headers.get("X-Username") || "Unknown";
-  
-  if (userId) {
-    return { userId, username };
-  }
-  
-  return null;
-}
-
 export async function POST(request: NextRequest) {
   try {
-    console.log('🚀 Local upload request received');
+    console.log('🚀 Upload request received');
     
     // Get user from auth header
-    const user = getUserFromToken(request);
-    if (!user) {
-      console.error('❌ No authentication provided');
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
+    const storage = await getStorage(request);
+    const { clips, blobs } = storage;
+    const { user, denied } = await authorize(storage, 'clips.upload');
+    if (denied) {
+      console.error('❌ Upload not permitted');
+      return denied;
     }
 
-    console.log('✅ User authenticated:', user.username);
+    console.log('✅ User authenticated:', user.username || user.id);
 
     // Parse form data
     const formData = await request.formData();
@@ -78,6 +54,7 @@ export async function POST(request: NextRequest) {
     const speakerAgeRange = formData.get('speakerAgeRange') as string;
     const speakerDialect = formData.get('speakerDialect') as string;
     const transcript = formData.get('transcript') as string;
+    const timedTranscriptJson = formData.get('timedTranscript') as string | null;
     const sourceUrl = formData.get('sourceUrl') as string;
     const tags = formData.get('tags') as string;
 
@@ -106,7 +83,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file
-    const fileValidationError = validateFile(file);
+    const fileValidationError = validateFile(file, blobs.limits);
     if (fileValidationError) {
       return NextResponse.json(
         { error: fileValidationError },
@@ -138,25 +115,76 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate timed transcript if provided (JSON from the clip creator)
+    let timedTranscript: TimedTranscript | undefined;
+    if (timedTranscriptJson) {
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(timedTranscriptJson);
+      } catch {
+        // Reported as invalid below
+      }
+      const sanitized = sanitizeTimedTranscript(parsed);
+      if (!sanitized) {
+        return NextResponse.json(
+          { error: 'Invalid timed transcript' },
+          { status: 400 }
+        );
+      }
+      timedTranscript = sanitized;
+    }
+
+    // Transcode to the canonical format, normalize loudness, trim silence
+    let processed: ProcessedAudio | null;
+    try {
+      processed = await processClipAudio(file);
+    } catch (processingError) {
+      console.error('❌ Audio processing failed:', processingError);
+      return NextResponse.json(
+        { error: processingError instanceof Error ? processingError.message : 'Could not process the audio file' },
+        { status: 400 }
+      );
+    }
+    const storedFile = processed?.file ?? file;
+    if (processed) {
+      duration = processed.duration;
+      // Trimming moves the speech earlier, so the timings follow it
+      if (timedTranscript) {
+        const { trimmedStart } = processed.processing.silenceTrim;
+        timedTranscript = sliceTimedTranscript(timedTranscript, trimmedStart, trimmedStart + duration);
+      }
+    }
+
     // Generate unique filename
-    const filename = generateUniqueFilename(file.name);
+    const filename = generateUniqueFilename(storedFile.name);
+
+    // Waveform peaks and the true duration, from the audio being stored
+    const peaks = await computeFilePeaks(storedFile);
+    if (peaks) {
+      duration = peaks.duration;
+    }
+
+    const { maxDurationSeconds } = blobs.limits;
+    if (maxDurationSeconds && duration > maxDurationSeconds) {
+      return NextResponse.json(
+        { error: `Audio file too long. Maximum duration is ${maxDurationSeconds / 60} minutes for direct uploads.` },
+        { status: 400 }
+      );
+    }
 
     try {
-      // Save file locally
-      console.log('📤 Saving file locally...');
-      
-      // Ensure audio directory exists
-      if (!fs.existsSync(AUDIO_DIR)) {
-        fs.mkdirSync(AUDIO_DIR, { recursive: true });
+      console.log('📤 Storing audio file...');
+      const storagePath = await blobs.saveAudio(storedFile, filename, user.id);
+      console.log('✅ File stored successfully:', storagePath);
+
+      if (peaks) {
+        try {
+          await blobs.savePeaks(filename, user.id, peaks);
+        } catch (peaksError) {
+          // Players fall back to decoding the audio
+          console.warn('⚠️ Could not store waveform peaks:', peaksError);
+        }
       }
-      
-      // Convert file to buffer and save
-      const arrayBuffer = await file.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-      const filePath = path.join(AUDIO_DIR, filename);
-      fs.writeFileSync(filePath, buffer);
-      
-      console.log('✅ File saved successfully:', filePath);
 
       // Prepare metadata
       const metadata: AudioMetadata = {
@@ -165,21 +193,23 @@ export async function POST(request: NextRequest) {
         speakerAgeRange: speakerAgeRange as any || undefined,
         speakerDialect: speakerDialect || undefined,
         transcript: transcript || undefined,
+        timedTranscript,
         sourceUrl: sourceUrl || undefined,
         tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
       };
 
-      // Save to local database
       console.log('💾 Saving clip metadata to database...');
       
-      const audioClip = await localDb.createClip({
+      const audioClip = await clips.create({
         title: title.trim(),
         duration,
         filename,
         originalFilename: file.name,
-        fileSize: file.size,
+        fileSize: storedFile.size,
+        storagePath,
         metadata,
-        uploadedBy: user.userId,
+        processing: processed?.processing,
+        uploadedBy: user.id,
       });
 
       console.log('✅ Upload complete:', audioClip.title);
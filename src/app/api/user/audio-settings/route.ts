@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { sanitizeShortcutOverrides } from "@/lib/shortcuts";
+import { sanitizeMonitoringSettings } from "@/lib/audio/monitoring";
+import type { AudioSettingsPreferences } from "@/types/audio";
+
+export const dynamic = "force-dynamic";
+
+// GET - The audio settings the user changed from the defaults
+export async function GET(request: NextRequest) {
+  try {
+    const { user, users } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const settings = await users.getAudioSettings(user.id);
+
+    return NextResponse.json({ settings: settings ?? {} });
+  } catch (error) {
+    console.error("Get audio settings error:", error);
+    return NextResponse.json(
+      { error: "Failed to get audio settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change some settings; fields left out are kept, null resets one
+export async function PUT(request: NextRequest) {
+  try {
+    const { user, users } = await getStorage(request);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: "Invalid settings format" },
+        { status: 400 }
+      );
+    }
+
+    const monitoring = sanitizeMonitoringSettings(body);
+    if (monitoring.error !== undefined) {
+      return NextResponse.json({ error: monitoring.error }, { status: 400 });
+    }
+
+    const settings: AudioSettingsPreferences = {
+      ...(await users.getAudioSettings(user.id)),
+    };
+
+    for (const [key, value] of Object.entries(monitoring.changes)) {
+      if (value === null) {
+        delete settings[key as keyof typeof monitoring.changes];
+      } else {
+        Object.assign(settings, { [key]: value });
+      }
+    }
+
+    if (body.keyboardShortcuts === null) {
+      delete settings.keyboardShortcuts;
+    } else if (body.keyboardShortcuts !== undefined) {
+      const shortcuts = sanitizeShortcutOverrides(body.keyboardShortcuts);
+      if (shortcuts.error !== undefined) {
+        return NextResponse.json({ error: shortcuts.error }, { status: 400 });
+      }
+      if (Object.keys(shortcuts.overrides).length > 0) {
+        settings.keyboardShortcuts = shortcuts.overrides;
+      } else {
+        delete settings.keyboardShortcuts;
+      }
+    }
+
+    await users.saveAudioSettings(
+      user.id,
+      Object.keys(settings).length > 0 ? settings : null
+    );
+
+    return NextResponse.json({ success: true, settings });
+  } catch (error) {
+    console.error("Save audio settings error:", error);
+    return NextResponse.json(
+      { error: "Failed to save audio settings" },
+      { status: 500 }
+    );
+  }
+}
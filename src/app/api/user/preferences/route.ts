@@ -1,34 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { localDb } from "@/lib/local-database";
+import { getStorage } from "@/lib/storage";
 import type { FilterPreferences } from "@/types/audio";
 
 export const dynamic = "force-dynamic";
 
-// Helper to parse user from local token
-function getUserFromToken(request: NextRequest): { userId: string; username: string } | null {
-  const authHeader = request.headers.get("Authorization");
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return null;
-  }
-  
-  const token = authHeader.substring(7);
-  if (!token.startsWith("local-token-")) {
-    return null;
-  }
-  
-  const userId = request.headers.get("X-User-Id");
-  const username = request.headers.get("X-Username") || "Unknown";
-  
-  if (userId) {
-    return { userId, username };
-  }
-  
-  return null;
-}
-
 export async function GET(request: NextRequest) {
   try {
-    const user = getUserFromToken(request);
+    const { user, users } = await getStorage(request);
 
     if (!user) {
       return NextResponse.json(
@@ -37,7 +15,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const preferences = await localDb.getFilterPreferences(user.userId);
+    const preferences = await users.getFilterPreferences(user.id);
 
     return NextResponse.json({ preferences });
   } catch (error) {
@@ -51,7 +29,7 @@ export async function GET(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const user = getUserFromToken(request);
+    const { user, users } = await getStorage(request);
 
     if (!user) {
       return NextResponse.json(
@@ -162,9 +140,9 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    await localDb.saveFilterPreferences(
-      user.userId,
-      preferences as FilterPreferences
+    await users.saveFilterPreferences(
+      user.id,
+      preferences as FilterPreferences | null
     );
 
     return NextResponse.json({ success: true });
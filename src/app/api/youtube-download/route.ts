@@ -36,6 +36,11 @@ function isValidYouTubeUrl(url: string): boolean {
   return patterns.some((p) => p.test(url));
 }
 
+// Subtitle language codes as yt-dlp lists them (en, pt-BR, zh-Hans)
+function isValidSubtitleLanguage(lang: string): boolean {
+  return /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(lang);
+}
+
 // Check if error is a bot/cookie issue
 function isBotError(stderr: string): boolean {
   return stderr.includes("Sign in to confirm") || stderr.includes("not a bot") || stderr.includes("cookies");
@@ -108,7 +113,7 @@ export async function GET(request: NextRequest) {
 // POST: Download audio as mp3 and return the file
 export async function POST(request: NextRequest) {
   const body = await request.json();
-  const { url, title: providedTitle } = body;
+  const { url, title: providedTitle, subtitleLanguage } = body;
 
   if (!url) {
     return NextResponse.json({ error: "Missing 'url' in request body" }, { status: 400 });
@@ -118,6 +123,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid YouTube URL" }, { status: 400 });
   }
 
+  if (subtitleLanguage !== undefined && (typeof subtitleLanguage !== "string" || !isValidSubtitleLanguage(subtitleLanguage))) {
+    return NextResponse.json({ error: "Invalid subtitle language" }, { status: 400 });
+  }
+
   // persist downloads under project so they survive container restarts
   const storageDir = path.join(process.cwd(), "local-data", "downloads");
   if (!fs.existsSync(storageDir)) fs.mkdirSync(storageDir, { recursive: true });
@@ -127,11 +136,17 @@ export async function POST(request: NextRequest) {
   try {
     const ytdlp = getYtDlpBase();
 
+    // Optionally fetch subtitles alongside (uploaded ones are preferred over
+    // automatic captions); they are written as ${downloadId}.<lang>.vtt
+    const subtitleArgs = subtitleLanguage
+      ? ` --write-subs --write-auto-subs --sub-langs ${JSON.stringify(`${subtitleLanguage},${subtitleLanguage}-.*`)} --sub-format "vtt/srt/best" --convert-subs vtt`
+      : "";
+
     // Download audio only, convert to mp3
     console.log(`📥 yt-dlp: Downloading audio from ${url}`);
     // Disable yt-dlp progress lines to keep server logs clean
     const { stdout, stderr } = await execAsync(
-      `${ytdlp} --no-progress -x --audio-format mp3 --audio-quality 0 -o ${JSON.stringify(outputTemplate)} --no-playlist --max-filesize 100M ${JSON.stringify(url)}`,
+      `${ytdlp} --no-progress -x --audio-format mp3 --audio-quality 0${subtitleArgs} -o ${JSON.stringify(outputTemplate)} --no-playlist --max-filesize 100M ${JSON.stringify(url)}`,
       { timeout: 300000 } // 5 minute timeout for longer videos
     );
 
@@ -141,10 +156,10 @@ export async function POST(request: NextRequest) {
 
     // Save file(s) into storageDir and return info (do not delete)
     const files = fs.readdirSync(storageDir).filter((f) => f.startsWith(downloadId));
-    if (files.length === 0) {
+    const actualFile = files.find((f) => f.endsWith(".mp3"));
+    if (!actualFile) {
       throw new Error("Download completed but output file not found");
     }
-    const actualFile = files[0];
     const actualPath = path.join(storageDir, actualFile);
     const stat = fs.statSync(actualPath);
     const ext = path.extname(actualFile).slice(1) || "mp3";
@@ -166,6 +181,14 @@ export async function POST(request: NextRequest) {
       // Waveform is optional - continue without it
     }
 
+    // Subtitles are optional too - the video may not have any in this language
+    const subtitleFiles = files.filter((f) => f.endsWith(".vtt"));
+    const subtitlesFile =
+      subtitleFiles.find((f) => f === `${downloadId}.${subtitleLanguage}.vtt`) || subtitleFiles[0];
+    if (subtitleLanguage && !subtitlesFile) {
+      console.log(`⚠️ yt-dlp: No ${subtitleLanguage} subtitles found for ${url}`);
+    }
+
     return NextResponse.json({
       success: true,
       filename: actualFile,
@@ -173,6 +196,10 @@ export async function POST(request: NextRequest) {
       url: `/api/files/${encodeURIComponent(actualFile)}`,
       title,
       ...(waveformUrl && { waveformUrl }),
+      ...(subtitlesFile && {
+        subtitlesFilename: subtitlesFile,
+        subtitlesUrl: `/api/files/${encodeURIComponent(subtitlesFile)}`,
+      }),
     });
   } catch (error: any) {
     console.error("yt-dlp download error:", error);
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useAuth } from '@/lib/auth';
+import { can, minimumRoleFor } from '@/lib/permissions';
 import { useRouter } from 'next/navigation';
 import { AlertCircle, Upload, CheckCircle, FileText, ArrowRight } from 'lucide-react';
 import { CSVUploader } from '@/components/bulk-upload/CSVUploader';
@@ -48,6 +49,22 @@ export default function BulkUploadPage() {
     return null; // Will redirect
   }
 
+  if (!can(user, 'clips.bulkUpload')) {
+    return (
+      <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white rounded-xl p-8 shadow-sm border border-gray-200 text-center">
+            <AlertCircle className="w-8 h-8 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">
+              Bulk upload needs the {minimumRoleFor('clips.bulkUpload')} role or higher. Ask an admin to
+              change your role.
+            </p>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
   const handleCSVParse = (result: ParseResult) => {
     setCsvData(result);
   };
@@ -1,16 +1,32 @@
 "use client";
 
 import { useState, useEffect, useMemo, useCallback, useRef } from "react";
-import { useParams, useRouter } from "next/navigation";
-import { ArrowLeft, Loader2, AlertCircle, Play, Repeat, RotateCcw } from "lucide-react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import {
+  ArrowLeft,
+  Loader2,
+  AlertCircle,
+  Play,
+  Repeat,
+  RotateCcw,
+  CalendarCheck,
+} from "lucide-react";
 import Link from "next/link";
 import { ChorusingPlayer } from "@/components/chorus/ChorusingPlayer";
 import { TranscriptionPractice } from "@/components/chorus/TranscriptionPractice";
 import { RelatedClips } from "@/components/chorus/RelatedClips";
 import { DifficultyRating } from "@/components/chorus/DifficultyRating";
 import { ClipVoting } from "@/components/chorus/ClipVoting";
+import { ReviewGrading } from "@/components/chorus/ReviewGrading";
+import { ReportClip } from "@/components/chorus/ReportClip";
+import { DeckPlayer } from "@/components/chorus/DeckPlayer";
+import { ShadowingSessionPanel } from "@/components/chorus/ShadowingSessionPanel";
 import { useAuth } from "@/lib/auth";
-import type { AudioClip } from "@/types/audio";
+import { usePracticeSession } from "@/hooks/usePracticeSession";
+import { useShadowingSession } from "@/hooks/useShadowingSession";
+import { endOfLocalDay } from "@/lib/srs";
+import type { AudioClip, NormalizationRules } from "@/types/audio";
+import type { PracticeSession } from "@/types/practice";
 
 interface ClipWithUrl extends AudioClip {
   url: string;
@@ -30,17 +46,37 @@ interface ClipWithUrl extends AudioClip {
 export default function ChorusPage() {
   const { user, getAuthHeaders } = useAuth();
   const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const clipId = params?.clipId as string;
+  // Opened from the "Review today" queue - advance to the next due clip after grading
+  const isReviewMode = searchParams?.get("review") === "1";
+  // Playing through a study deck - advance to the next clip after enough loops
+  const deckId = searchParams?.get("deck") ?? null;
+  // Part of a shadowing session - the stored session decides loops, speed and the next clip
+  const isShadowing = searchParams?.get("shadowing") === "1";
 
   const [clip, setClip] = useState<ClipWithUrl | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Signed-out loop count, kept in localStorage
   const [loopCount, setLoopCount] = useState(0);
+  // Loops in the signed-in user's stored practice sessions for this clip
+  const [historyLoops, setHistoryLoops] = useState<{ clipId: string; count: number } | null>(
+    null
+  );
+  const [lastAccuracy, setLastAccuracy] = useState<number | null>(null);
+  // Loops since this clip was opened, unlike the stored running total
+  const [visitLoops, setVisitLoops] = useState({ clipId, count: 0 });
   const fetchCountRef = useRef(0);
+  const { recordLoop, recordPlayback, recordAccuracy, recordRecordingScore } =
+    usePracticeSession(clipId);
+  const shadowing = useShadowingSession(clipId, isShadowing);
+  const recordShadowingLoop = shadowing.recordLoop;
 
-  // Load loop count from localStorage on mount / clipId change
+  // Load loop count from localStorage on mount / clipId change (signed out)
   useEffect(() => {
-    if (!clipId) return;
+    if (!clipId || user) return;
     try {
       const stored = localStorage.getItem(`chorus-loops-${clipId}`);
       if (stored) {
@@ -52,22 +88,96 @@ export default function ChorusPage() {
     } catch {
       setLoopCount(0);
     }
-  }, [clipId]);
+  }, [clipId, user]);
 
-  // Persist loop count to localStorage whenever it changes
+  // Persist loop count to localStorage whenever it changes (signed out)
   useEffect(() => {
-    if (!clipId || loopCount === 0) return;
+    if (!clipId || user || loopCount === 0) return;
     try {
       localStorage.setItem(`chorus-loops-${clipId}`, String(loopCount));
     } catch {
       // localStorage full or unavailable — ignore
     }
-  }, [clipId, loopCount]);
+  }, [clipId, user, loopCount]);
+
+  // Signed in, the running total comes from the stored practice sessions.
+  // The current visit is only stored on leaving, so its loops are added on top.
+  useEffect(() => {
+    if (!clipId || !user) return;
+    let cancelled = false;
+
+    const fetchHistoryLoops = async () => {
+      try {
+        const response = await fetch(
+          `/api/practice-sessions?clipId=${encodeURIComponent(clipId)}`,
+          { headers: getAuthHeaders() }
+        );
+        if (!response.ok) throw new Error("Failed to fetch practice sessions");
+        const data = await response.json();
+        const count = data.sessions.reduce(
+          (sum: number, session: PracticeSession) => sum + session.loops,
+          0
+        );
+        if (!cancelled) setHistoryLoops({ clipId, count });
+      } catch (error) {
+        console.error("Failed to load practice loops:", error);
+      }
+    };
+
+    fetchHistoryLoops();
+    return () => {
+      cancelled = true;
+    };
+  }, [clipId, user, getAuthHeaders]);
+
+  const currentVisitLoops = visitLoops.clipId === clipId ? visitLoops.count : 0;
+  const practiceLoops = user
+    ? (historyLoops?.clipId === clipId ? historyLoops.count : 0) + currentVisitLoops
+    : loopCount;
 
   // Handler for when a loop iteration (or full play-through) completes
   const handleLoopComplete = useCallback(() => {
     setLoopCount((prev: number) => prev + 1);
-  }, []);
+    setVisitLoops((prev) => ({
+      clipId,
+      count: prev.clipId === clipId ? prev.count + 1 : 1,
+    }));
+    recordLoop();
+    recordShadowingLoop();
+  }, [clipId, recordLoop, recordShadowingLoop]);
+
+  const handleAccuracyChecked = useCallback(
+    (accuracy: number, rules: NormalizationRules) => {
+      setLastAccuracy(accuracy);
+      recordAccuracy(accuracy, rules);
+    },
+    [recordAccuracy]
+  );
+
+  // Forget the accuracy of the previous clip
+  useEffect(() => {
+    setLastAccuracy(null);
+  }, [clipId]);
+
+  // In review mode, move on to the next clip due today
+  const handleReviewed = useCallback(async () => {
+    if (!isReviewMode) return;
+    try {
+      const until = encodeURIComponent(endOfLocalDay().toISOString());
+      const response = await fetch(`/api/review?until=${until}`, {
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) throw new Error("Failed to fetch review queue");
+      const data = await response.json();
+      const next = data.reviews.find(
+        (review: { clipId: string }) => review.clipId !== clipId
+      );
+      router.push(next ? `/chorus/${next.clipId}?review=1` : "/review");
+    } catch (error) {
+      console.error("Failed to advance review queue:", error);
+      router.push("/review");
+    }
+  }, [isReviewMode, clipId, getAuthHeaders, router]);
 
   // Reset loop counter
   const handleResetLoopCount = useCallback(() => {
@@ -99,7 +209,10 @@ export default function ChorusPage() {
           Object.assign(headers, authHeaders);
         }
 
-        const response = await fetch("/api/clips", { headers });
+        const response = await fetch(
+          `/api/clips?ids=${encodeURIComponent(clipId)}`,
+          { headers }
+        );
 
         if (!response.ok) {
           throw new Error("Failed to fetch clips");
@@ -145,9 +258,12 @@ export default function ChorusPage() {
         speakerAgeRange: clip.metadata.speakerAgeRange,
         speakerDialect: clip.metadata.speakerDialect,
         transcript: clip.metadata.transcript,
+        timedTranscript: clip.metadata.timedTranscript,
         sourceUrl: clip.metadata.sourceUrl,
         tags: [...clip.metadata.tags],
       }),
+      processing: clip.processing,
+      hidden: clip.hidden,
       uploadedBy: clip.uploadedBy,
       createdAt: clip.createdAt,
       updatedAt: clip.updatedAt,
@@ -222,11 +338,11 @@ export default function ChorusPage() {
         <div className="max-w-7xl mx-auto flex items-center justify-between">
           <div className="flex items-center gap-4">
             <Link
-              href="/library"
+              href={isReviewMode ? "/review" : deckId ? `/decks/${deckId}` : "/library"}
               className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
             >
               <ArrowLeft className="w-4 h-4" />
-              Back to Library
+              {isReviewMode ? "Back to Reviews" : deckId ? "Back to Deck" : "Back to Library"}
             </Link>
             <div className="flex items-center gap-3">
               <Play className="w-8 h-8 text-indigo-600" />
@@ -255,6 +371,24 @@ export default function ChorusPage() {
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
             {/* Main Chorusing Area - Left Side (70%) */}
             <div className="lg:col-span-3 space-y-6">
+              {shadowing.session && (
+                <ShadowingSessionPanel
+                  session={shadowing.session}
+                  playbackRate={shadowing.playbackRate}
+                  onSettingsChange={shadowing.updateSettings}
+                  onRestart={shadowing.restart}
+                  onEnd={shadowing.end}
+                />
+              )}
+
+              {deckId && (
+                <DeckPlayer
+                  deckId={deckId}
+                  clipId={clip.id}
+                  loops={visitLoops.clipId === clip.id ? visitLoops.count : 0}
+                />
+              )}
+
               {/* Clip Info Card */}
               <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
                 <div className="flex items-start justify-between gap-6 mb-4">
@@ -304,6 +438,9 @@ export default function ChorusPage() {
                         ))}
                       </div>
                     )}
+                    <div className="mt-4">
+                      <ReportClip key={clip.id} clipId={clip.id} />
+                    </div>
                   </div>
                   
                   {/* Discovery Features - Right side */}
@@ -364,13 +501,14 @@ export default function ChorusPage() {
                         <Repeat className="w-5 h-5 text-indigo-600 flex-shrink-0" />
                         <div className="flex-1">
                           <span className="text-2xl font-bold text-indigo-700">
-                            {loopCount}
+                            {practiceLoops}
                           </span>
                           <span className="text-sm text-indigo-500 ml-1.5">
-                            {loopCount === 1 ? "loop" : "loops"}
+                            {practiceLoops === 1 ? "loop" : "loops"}
                           </span>
                         </div>
-                        {loopCount > 0 && (
+                        {/* Stored practice history isn't reset from here */}
+                        {!user && loopCount > 0 && (
                           <button
                             onClick={handleResetLoopCount}
                             className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
@@ -390,13 +528,34 @@ export default function ChorusPage() {
                 key={playerClip.id} // Key by ID to force remount only on clip change
                 clip={playerClip}
                 onLoopComplete={handleLoopComplete}
+                onPlaybackChange={recordPlayback}
+                onRecordingScored={recordRecordingScore}
+                targetPlaybackRate={shadowing.playbackRate}
+                repeatGapSeconds={shadowing.session?.settings.repeatGapSeconds}
+                autoPlay={!!shadowing.session && !shadowing.session.completedAt}
               />
 
               {/* Transcription Practice - Use the mutable clip for updates */}
               <TranscriptionPractice
                 clip={clip}
                 onTranscriptionUpdate={handleTranscriptionUpdate}
+                onAccuracyChecked={handleAccuracyChecked}
               />
+
+              {/* Spaced-repetition grading */}
+              <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                <div className="flex items-center gap-2 mb-4">
+                  <CalendarCheck className="w-5 h-5 text-indigo-600" />
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {isReviewMode ? "Review" : "Schedule Review"}
+                  </h3>
+                </div>
+                <ReviewGrading
+                  clipId={clip.id}
+                  accuracy={lastAccuracy}
+                  onReviewed={handleReviewed}
+                />
+              </div>
             </div>
 
             {/* Related Clips Sidebar - Right Side (30%) */}
@@ -28,6 +28,7 @@ function ClipCreatorContent() {
   const searchParams = useSearchParams();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [sourceUrl, setSourceUrl] = useState<string>("");
+  const [subtitles, setSubtitles] = useState<string | undefined>(undefined);
   const [fileError, setFileError] = useState<string | null>(null);
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [authMode, setAuthMode] = useState<"login" | "register">("login");
@@ -38,11 +39,14 @@ function ClipCreatorContent() {
   useEffect(() => {
     const filename = searchParams.get("file");
     if (filename) {
-      loadFileFromDownloads(filename);
+      loadFileFromDownloads(filename, searchParams.get("subtitles"));
     }
   }, [searchParams]);
 
-  const loadFileFromDownloads = async (filename: string) => {
+  const loadFileFromDownloads = async (
+    filename: string,
+    subtitlesFilename: string | null
+  ) => {
     try {
       setFileError(null);
       const response = await fetch(`/api/files/${encodeURIComponent(filename)}`);
@@ -51,6 +55,16 @@ function ClipCreatorContent() {
       }
       const blob = await response.blob();
       const file = new File([blob], filename, { type: blob.type });
+
+      // Subtitles are optional - the editor works without them
+      if (subtitlesFilename) {
+        const subtitlesResponse = await fetch(
+          `/api/files/${encodeURIComponent(subtitlesFilename)}`
+        );
+        setSubtitles(
+          subtitlesResponse.ok ? await subtitlesResponse.text() : undefined
+        );
+      }
       setSelectedFile(file);
     } catch (error) {
       setFileError(`Could not load file: ${filename}`);
@@ -103,12 +117,18 @@ function ClipCreatorContent() {
   const handleNewFile = () => {
     setSelectedFile(null);
     setSourceUrl("");
+    setSubtitles(undefined);
     setFileError(null);
   };
 
-  const handleYouTubeAudioReady = (file: File, videoSourceUrl: string) => {
+  const handleYouTubeAudioReady = (
+    file: File,
+    videoSourceUrl: string,
+    videoSubtitles?: string
+  ) => {
     setSelectedFile(file);
     setSourceUrl(videoSourceUrl);
+    setSubtitles(videoSubtitles);
     setFileError(null);
   };
 
@@ -403,7 +423,11 @@ function ClipCreatorContent() {
             </>
           ) : (
             /* Audio Editor */
-            <AudioEditor file={selectedFile} sourceUrl={sourceUrl} />
+            <AudioEditor
+              file={selectedFile}
+              sourceUrl={sourceUrl}
+              initialSubtitles={subtitles}
+            />
           )}
         </div>
       </div>
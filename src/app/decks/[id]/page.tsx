@@ -0,0 +1,385 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Layers,
+  Loader2,
+  AlertCircle,
+  Play,
+  Globe,
+  Lock,
+  GripVertical,
+  ChevronUp,
+  ChevronDown,
+  X,
+  Trash2,
+  Check,
+} from "lucide-react";
+import { UserMenu } from "@/components/auth/UserMenu";
+import { useAuth } from "@/lib/auth";
+import {
+  MAX_DECK_DESCRIPTION_LENGTH,
+  MAX_DECK_NAME_LENGTH,
+  moveDeckClip,
+} from "@/lib/decks";
+import type { AudioClip } from "@/types/audio";
+import type { Deck, DeckUpdate } from "@/types/deck";
+
+type DeckClip = AudioClip & { url: string };
+
+export default function DeckPage() {
+  const { user, isLoading, getAuthHeaders } = useAuth();
+  const params = useParams();
+  const router = useRouter();
+  const deckId = params?.id as string;
+
+  const [deck, setDeck] = useState<Deck | null>(null);
+  const [clips, setClips] = useState<DeckClip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [draggedClipId, setDraggedClipId] = useState<string | null>(null);
+
+  const isOwner = !!deck && deck.ownerId === user?.id;
+
+  const fetchDeck = useCallback(async () => {
+    if (!deckId) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/decks/${deckId}`, {
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch deck");
+      }
+      setDeck(data.deck);
+      setClips(data.clips);
+      setName(data.deck.name);
+      setDescription(data.deck.description ?? "");
+    } catch (err) {
+      console.error("Failed to fetch deck:", err);
+      setError(err instanceof Error ? err.message : "Failed to load deck");
+    } finally {
+      setLoading(false);
+    }
+  }, [deckId, getAuthHeaders]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    fetchDeck();
+  }, [isLoading, fetchDeck]);
+
+  const saveDeck = async (updates: DeckUpdate) => {
+    if (!deck) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/decks/${deck.id}`, {
+        method: "PATCH",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save deck");
+      }
+      setDeck(data.deck);
+    } catch (err) {
+      console.error("Failed to save deck:", err);
+      setError(err instanceof Error ? err.message : "Failed to save deck");
+      await fetchDeck(); // Put back what is stored
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Reorders the list straight away, then saves the new order
+  const reorder = (clipIds: string[]) => {
+    if (!deck) return;
+    const byId = new Map(clips.map((clip) => [clip.id, clip]));
+    setClips(clipIds.map((id) => byId.get(id)).filter((clip): clip is DeckClip => !!clip));
+    setDeck({ ...deck, clipIds });
+    saveDeck({ clipIds });
+  };
+
+  const handleDrop = (targetClipId: string) => {
+    if (!deck || !draggedClipId) return;
+    const clipIds = moveDeckClip(deck.clipIds, draggedClipId, targetClipId);
+    setDraggedClipId(null);
+    if (clipIds !== deck.clipIds) {
+      reorder(clipIds);
+    }
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = clips[index + offset];
+    if (!deck || !target) return;
+    reorder(moveDeckClip(deck.clipIds, clips[index].id, target.id));
+  };
+
+  const handleRemove = (clipId: string) => {
+    if (!deck) return;
+    reorder(deck.clipIds.filter((id) => id !== clipId));
+  };
+
+  const handleSaveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveDeck({ name, description });
+  };
+
+  const handleDelete = async () => {
+    if (!deck || !confirm(`Delete the deck "${deck.name}"? Its clips are kept.`)) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/decks/${deck.id}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete deck");
+      }
+      router.push("/decks");
+    } catch (err) {
+      console.error("Failed to delete deck:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete deck");
+      setSaving(false);
+    }
+  };
+
+  const detailsChanged =
+    !!deck && (name.trim() !== deck.name || description.trim() !== (deck.description ?? ""));
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="p-4 bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/decks"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Decks
+            </Link>
+            <div className="flex items-center gap-3">
+              <Layers className="w-8 h-8 text-indigo-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{deck?.name ?? "Deck"}</h1>
+                {deck && (
+                  <p className="flex items-center gap-1 text-sm text-gray-600">
+                    {deck.isPublic ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                    {deck.isPublic ? "Public" : "Private"} · {clips.length}{" "}
+                    {clips.length === 1 ? "clip" : "clips"}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+          {user && <UserMenu />}
+        </div>
+      </header>
+
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          {loading || isLoading ? (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 flex items-center justify-center gap-3 py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+              <span className="text-gray-700">Loading deck...</span>
+            </div>
+          ) : !deck ? null : (
+            <>
+              {isOwner ? (
+                <form
+                  onSubmit={handleSaveDetails}
+                  className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 space-y-4"
+                >
+                  <div>
+                    <label htmlFor="deck-name" className="block text-sm font-medium text-gray-700 mb-1">
+                      Name
+                    </label>
+                    <input
+                      id="deck-name"
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      maxLength={MAX_DECK_NAME_LENGTH}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="deck-description" className="block text-sm font-medium text-gray-700 mb-1">
+                      Description
+                    </label>
+                    <textarea
+                      id="deck-description"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      maxLength={MAX_DECK_DESCRIPTION_LENGTH}
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      placeholder="What this deck is for"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={deck.isPublic}
+                        onChange={(e) => saveDeck({ isPublic: e.target.checked })}
+                        disabled={saving}
+                        className="rounded text-indigo-600 focus:ring-indigo-500"
+                      />
+                      Public - anyone can see and play this deck
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={handleDelete}
+                        disabled={saving}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={!detailsChanged || !name.trim() || saving}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Check className="w-4 h-4" />
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                </form>
+              ) : (
+                deck.description && (
+                  <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 text-gray-700">
+                    {deck.description}
+                  </div>
+                )
+              )}
+
+              <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    Clips
+                    {saving && <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />}
+                  </h2>
+                  {clips.length > 0 && (
+                    <Link
+                      href={`/chorus/${clips[0].id}?deck=${deck.id}`}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-md hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2"
+                    >
+                      <Play className="w-4 h-4" />
+                      Play Deck
+                    </Link>
+                  )}
+                </div>
+
+                {clips.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    This deck is empty.
+                    {isOwner && (
+                      <>
+                        {" "}
+                        Use <span className="font-medium">Build a Deck</span> in the{" "}
+                        <Link href="/library" className="text-indigo-600 hover:text-indigo-700">
+                          library
+                        </Link>{" "}
+                        to add clips.
+                      </>
+                    )}
+                  </p>
+                ) : (
+                  <ol className="divide-y divide-gray-100">
+                    {clips.map((clip, index) => (
+                      <li
+                        key={clip.id}
+                        draggable={isOwner}
+                        onDragStart={() => setDraggedClipId(clip.id)}
+                        onDragEnd={() => setDraggedClipId(null)}
+                        onDragOver={(e) => {
+                          if (draggedClipId) e.preventDefault();
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDrop(clip.id);
+                        }}
+                        className={`py-2 flex items-center gap-3 ${
+                          draggedClipId === clip.id ? "opacity-50" : ""
+                        }`}
+                      >
+                        {isOwner && (
+                          <GripVertical className="w-4 h-4 text-gray-400 cursor-grab flex-shrink-0" />
+                        )}
+                        <span className="w-6 text-sm text-gray-500 text-right flex-shrink-0">
+                          {index + 1}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <Link
+                            href={`/chorus/${clip.id}?deck=${deck.id}`}
+                            className="font-medium text-gray-900 hover:text-indigo-600 truncate block"
+                          >
+                            {clip.title}
+                          </Link>
+                          <p className="text-xs text-gray-500">
+                            {clip.metadata.language} · {clip.duration.toFixed(1)}s
+                          </p>
+                        </div>
+                        {isOwner && (
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <button
+                              onClick={() => handleMove(index, -1)}
+                              disabled={index === 0 || saving}
+                              className="p-1 text-gray-400 hover:text-gray-600 rounded disabled:opacity-30"
+                              title="Move up"
+                            >
+                              <ChevronUp className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleMove(index, 1)}
+                              disabled={index === clips.length - 1 || saving}
+                              className="p-1 text-gray-400 hover:text-gray-600 rounded disabled:opacity-30"
+                              title="Move down"
+                            >
+                              <ChevronDown className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleRemove(clip.id)}
+                              disabled={saving}
+                              className="p-1 text-gray-400 hover:text-red-600 rounded disabled:opacity-30"
+                              title="Remove from deck"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Layers,
+  Loader2,
+  AlertCircle,
+  Plus,
+  Play,
+  Globe,
+  Lock,
+} from "lucide-react";
+import { UserMenu } from "@/components/auth/UserMenu";
+import { useAuth } from "@/lib/auth";
+import { MAX_DECK_NAME_LENGTH } from "@/lib/decks";
+import type { DeckListItem } from "@/types/deck";
+
+function DeckCard({ deck, showOwner }: { deck: DeckListItem; showOwner?: boolean }) {
+  const count = deck.clipIds.length;
+  return (
+    <li className="py-3 flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <Link
+          href={`/decks/${deck.id}`}
+          className="font-medium text-gray-900 hover:text-indigo-600 truncate block"
+        >
+          {deck.name}
+        </Link>
+        <p className="flex items-center gap-2 text-xs text-gray-500">
+          {deck.isPublic ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+          <span>
+            {count} {count === 1 ? "clip" : "clips"}
+          </span>
+          {showOwner && deck.ownerUsername && <span>by {deck.ownerUsername}</span>}
+        </p>
+        {deck.description && (
+          <p className="text-sm text-gray-600 mt-1 line-clamp-2">{deck.description}</p>
+        )}
+      </div>
+      {count > 0 && (
+        <Link
+          href={`/chorus/${deck.clipIds[0]}?deck=${deck.id}`}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-emerald-600 rounded-md hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 flex-shrink-0"
+        >
+          <Play className="w-4 h-4" />
+          Play
+        </Link>
+      )}
+    </li>
+  );
+}
+
+export default function DecksPage() {
+  const { user, isLoading, getAuthHeaders } = useAuth();
+  const [myDecks, setMyDecks] = useState<DeckListItem[]>([]);
+  const [publicDecks, setPublicDecks] = useState<DeckListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newDeckName, setNewDeckName] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const fetchDecks = useCallback(async () => {
+    setError(null);
+    try {
+      const publicResponse = await fetch("/api/decks?scope=public", {
+        headers: getAuthHeaders(),
+      });
+      if (!publicResponse.ok) {
+        throw new Error("Failed to fetch decks");
+      }
+      setPublicDecks((await publicResponse.json()).decks);
+
+      if (user) {
+        const response = await fetch("/api/decks", { headers: getAuthHeaders() });
+        if (!response.ok) {
+          throw new Error("Failed to fetch decks");
+        }
+        setMyDecks((await response.json()).decks);
+      }
+    } catch (err) {
+      console.error("Failed to fetch decks:", err);
+      setError(err instanceof Error ? err.message : "Failed to load decks");
+    } finally {
+      setLoading(false);
+    }
+  }, [user, getAuthHeaders]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    fetchDecks();
+  }, [isLoading, fetchDecks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDeckName.trim()) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/decks", {
+        method: "POST",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newDeckName.trim(), isPublic: false, clipIds: [] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create deck");
+      }
+      setMyDecks((prev) => [data.deck, ...prev]);
+      setNewDeckName("");
+    } catch (err) {
+      console.error("Failed to create deck:", err);
+      setError(err instanceof Error ? err.message : "Failed to create deck");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Your own public decks are already listed above
+  const othersPublicDecks = publicDecks.filter((deck) => deck.ownerId !== user?.id);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="p-4 bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/library"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Library
+            </Link>
+            <div className="flex items-center gap-3">
+              <Layers className="w-8 h-8 text-indigo-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Study Decks</h1>
+                <p className="text-sm text-gray-600">
+                  Practice clips in order, one after another
+                </p>
+              </div>
+            </div>
+          </div>
+          {user && <UserMenu />}
+        </div>
+      </header>
+
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          {loading || isLoading ? (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 flex items-center justify-center gap-3 py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+              <span className="text-gray-700">Loading decks...</span>
+            </div>
+          ) : (
+            <>
+              {user && (
+                <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">My decks</h2>
+                  <form onSubmit={handleCreate} className="flex gap-2 mb-4">
+                    <input
+                      type="text"
+                      value={newDeckName}
+                      onChange={(e) => setNewDeckName(e.target.value)}
+                      maxLength={MAX_DECK_NAME_LENGTH}
+                      placeholder="New deck name"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!newDeckName.trim() || creating}
+                      className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {creating ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Plus className="w-4 h-4" />
+                      )}
+                      Create Deck
+                    </button>
+                  </form>
+                  {myDecks.length === 0 ? (
+                    <p className="text-sm text-gray-600">
+                      No decks yet. Create one here, or use{" "}
+                      <span className="font-medium">Build a Deck</span> in the{" "}
+                      <Link href="/library" className="text-indigo-600 hover:text-indigo-700">
+                        library
+                      </Link>{" "}
+                      to pick clips for it.
+                    </p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {myDecks.map((deck) => (
+                        <DeckCard key={deck.id} deck={deck} />
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Public decks</h2>
+                {othersPublicDecks.length === 0 ? (
+                  <p className="text-sm text-gray-600">No one has shared a deck yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {othersPublicDecks.map((deck) => (
+                      <DeckCard key={deck.id} deck={deck} showOwner />
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/lib/auth";
+import { KeyboardShortcutsProvider } from "@/lib/keyboard-shortcuts";
+import { KeyboardShortcutsDialog } from "@/components/ui/KeyboardShortcutsDialog";
 
 const inter = Inter({ subsets: ["latin"], display: 'swap' });
 
@@ -23,7 +25,10 @@ export default function RootLayout({
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className} suppressHydrationWarning>
         <AuthProvider>
-          {children}
+          <KeyboardShortcutsProvider>
+            {children}
+            <KeyboardShortcutsDialog />
+          </KeyboardShortcutsProvider>
         </AuthProvider>
       </body>
     </html>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useCallback, Suspense } from "react";
-import { AudioLines, LogIn, UserPlus, Upload, Scissors, Download } from "lucide-react";
+import { AudioLines, LogIn, UserPlus, Upload, Scissors, Download, CalendarCheck, BarChart3, Layers } from "lucide-react";
 import Link from "next/link";
 import { AuthModal } from "@/components/auth/AuthModal";
 import { UserMenu } from "@/components/auth/UserMenu";
@@ -48,6 +48,27 @@ export default function LibraryPage() {
           <div className="flex items-center gap-3">
             {user && (
               <>
+                <Link
+                  href="/review"
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                >
+                  <CalendarCheck className="w-4 h-4" />
+                  Review Today
+                </Link>
+                <Link
+                  href="/stats"
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  Stats
+                </Link>
+                <Link
+                  href="/decks"
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                >
+                  <Layers className="w-4 h-4" />
+                  Decks
+                </Link>
                 <Link
                   href="/clip-creator"
                   className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
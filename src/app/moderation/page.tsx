@@ -0,0 +1,337 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Flag,
+  Loader2,
+  AlertCircle,
+  EyeOff,
+  Eye,
+  Edit,
+  Trash2,
+  Check,
+  X,
+  History,
+} from "lucide-react";
+import { UserMenu } from "@/components/auth/UserMenu";
+import { EditClipModal } from "@/components/browse/EditClipModal";
+import { useAuth } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import type { AudioClip } from "@/types/audio";
+import {
+  REPORT_REASON_LABELS,
+  type ModerationActionType,
+  type ModerationLogEntry,
+  type ModerationQueueItem,
+} from "@/types/moderation";
+
+const ACTION_LABELS: Record<ModerationActionType, string> = {
+  hide: "hid",
+  unhide: "unhid",
+  edit: "edited",
+  delete: "deleted",
+  resolve: "resolved reports on",
+  dismiss: "dismissed reports on",
+};
+
+export default function ModerationPage() {
+  const { user, isLoading, getAuthHeaders } = useAuth();
+  const [items, setItems] = useState<ModerationQueueItem[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyClipId, setBusyClipId] = useState<string | null>(null);
+  const [editingClip, setEditingClip] = useState<AudioClip | null>(null);
+
+  const canModerate = can(user, "clips.moderate");
+
+  const fetchQueue = useCallback(async () => {
+    setError(null);
+    try {
+      const [queueResponse, logResponse] = await Promise.all([
+        fetch("/api/moderation", { headers: getAuthHeaders() }),
+        fetch("/api/moderation/log", { headers: getAuthHeaders() }),
+      ]);
+      if (!queueResponse.ok || !logResponse.ok) {
+        throw new Error("Failed to fetch the moderation queue");
+      }
+      setItems((await queueResponse.json()).items);
+      setLog((await logResponse.json()).entries);
+    } catch (err) {
+      console.error("Failed to fetch the moderation queue:", err);
+      setError(err instanceof Error ? err.message : "Failed to load the moderation queue");
+    } finally {
+      setLoading(false);
+    }
+  }, [getAuthHeaders]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!canModerate) {
+      setLoading(false);
+      return;
+    }
+    fetchQueue();
+  }, [canModerate, isLoading, fetchQueue]);
+
+  // Runs one action on a clip, then reloads the queue and the log
+  const runAction = async (clipId: string, request: () => Promise<Response>) => {
+    setBusyClipId(clipId);
+    setError(null);
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Action failed");
+      }
+      await fetchQueue();
+    } catch (err) {
+      console.error("Moderation action failed:", err);
+      setError(err instanceof Error ? err.message : "Action failed");
+    } finally {
+      setBusyClipId(null);
+    }
+  };
+
+  const moderate = (clipId: string, action: "hide" | "unhide" | "resolve" | "dismiss") =>
+    runAction(clipId, () =>
+      fetch(`/api/moderation/clips/${clipId}`, {
+        method: "POST",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+    );
+
+  const deleteClip = (clip: AudioClip) => {
+    if (!confirm(`Delete "${clip.title}"? This cannot be undone.`)) return;
+    runAction(clip.id, () =>
+      fetch(`/api/clips/${clip.id}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      })
+    );
+  };
+
+  const handleEdited = async () => {
+    setEditingClip(null);
+    await fetchQueue();
+  };
+
+  // The log is newest first, so a clip's first entry is its current state
+  const latestActionIds = new Set<string>();
+  const seenClipIds = new Set<string>();
+  for (const entry of log) {
+    if (!seenClipIds.has(entry.clipId)) {
+      seenClipIds.add(entry.clipId);
+      latestActionIds.add(entry.id);
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="p-4 bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/library"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Library
+            </Link>
+            <div className="flex items-center gap-3">
+              <Flag className="w-8 h-8 text-indigo-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Moderation</h1>
+                <p className="text-sm text-gray-600">
+                  {canModerate && !loading
+                    ? `${items.length} reported ${items.length === 1 ? "clip" : "clips"}`
+                    : "Reported clips"}
+                </p>
+              </div>
+            </div>
+          </div>
+          {user && <UserMenu />}
+        </div>
+      </header>
+
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {loading || isLoading ? (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 flex items-center justify-center gap-3 py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+              <span className="text-gray-700">Loading reports...</span>
+            </div>
+          ) : !canModerate ? (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 text-center py-12 text-gray-600">
+              Only curators and admins can moderate clips.
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+                  <AlertCircle className="w-4 h-4" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              {items.length === 0 ? (
+                <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 text-center py-12 text-gray-600">
+                  No open reports.
+                </div>
+              ) : (
+                items.map(({ clip, reports }) => (
+                  <div
+                    key={clip.id}
+                    className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 space-y-4"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <Link
+                          href={`/chorus/${clip.id}`}
+                          className="text-lg font-semibold text-gray-900 hover:text-indigo-600"
+                        >
+                          {clip.title}
+                        </Link>
+                        <div className="flex items-center gap-3 text-sm text-gray-600 mt-1">
+                          <span>{clip.metadata.language}</span>
+                          {clip.metadata.speakerDialect && (
+                            <span>{clip.metadata.speakerDialect}</span>
+                          )}
+                          <span>{clip.duration.toFixed(1)}s</span>
+                          {clip.hidden && (
+                            <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-full">
+                              Hidden
+                            </span>
+                          )}
+                        </div>
+                        {clip.metadata.transcript && (
+                          <p className="text-sm text-gray-700 mt-2">{clip.metadata.transcript}</p>
+                        )}
+                      </div>
+                      {busyClipId === clip.id && (
+                        <Loader2 className="w-5 h-5 animate-spin text-indigo-600 flex-shrink-0" />
+                      )}
+                    </div>
+
+                    <audio controls preload="none" src={clip.url} className="w-full" />
+
+                    <ul className="space-y-2">
+                      {reports.map((report) => (
+                        <li key={report.id} className="p-3 bg-red-50 rounded-md text-sm">
+                          <span className="font-medium text-red-800">
+                            {REPORT_REASON_LABELS[report.reason]}
+                          </span>
+                          <span className="text-red-600 ml-2 text-xs">
+                            {new Date(report.createdAt).toLocaleString()}
+                          </span>
+                          {report.details && (
+                            <p className="text-gray-700 mt-1">{report.details}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => moderate(clip.id, clip.hidden ? "unhide" : "hide")}
+                        disabled={busyClipId === clip.id}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {clip.hidden ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                        {clip.hidden ? "Unhide" : "Hide"}
+                      </button>
+                      <button
+                        onClick={() => setEditingClip(clip)}
+                        disabled={busyClipId === clip.id}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <Edit className="w-4 h-4" />
+                        Fix metadata
+                      </button>
+                      <button
+                        onClick={() => deleteClip(clip)}
+                        disabled={busyClipId === clip.id}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete
+                      </button>
+                      <div className="flex-1" />
+                      <button
+                        onClick={() => moderate(clip.id, "dismiss")}
+                        disabled={busyClipId === clip.id}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        <X className="w-4 h-4" />
+                        Dismiss
+                      </button>
+                      <button
+                        onClick={() => moderate(clip.id, "resolve")}
+                        disabled={busyClipId === clip.id}
+                        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        <Check className="w-4 h-4" />
+                        Resolve
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+
+              {/* Audit log */}
+              <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                <div className="flex items-center gap-2 mb-4">
+                  <History className="w-5 h-5 text-indigo-600" />
+                  <h2 className="text-lg font-semibold text-gray-900">Moderation log</h2>
+                </div>
+                {log.length === 0 ? (
+                  <p className="text-sm text-gray-600">Nothing yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {log.map((entry) => (
+                      <li key={entry.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                        <div className="min-w-0">
+                          <p className="text-gray-900 truncate">
+                            <span className="font-medium">{entry.actorUsername ?? entry.actorId}</span>{" "}
+                            {ACTION_LABELS[entry.action]} &ldquo;{entry.clipTitle}&rdquo;
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(entry.createdAt).toLocaleString()}
+                            {entry.note && ` - ${entry.note}`}
+                          </p>
+                        </div>
+                        {entry.action === "hide" && latestActionIds.has(entry.id) && (
+                          <button
+                            onClick={() => moderate(entry.clipId, "unhide")}
+                            disabled={busyClipId === entry.clipId}
+                            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            <Eye className="w-3 h-3" />
+                            Unhide
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {editingClip && (
+        <EditClipModal
+          clip={editingClip}
+          isOpen={true}
+          onClose={() => setEditingClip(null)}
+          onSuccess={handleEdited}
+        />
+      )}
+    </main>
+  );
+}
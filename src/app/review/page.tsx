@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  CalendarCheck,
+  Loader2,
+  AlertCircle,
+  Play,
+  PartyPopper,
+} from "lucide-react";
+import { UserMenu } from "@/components/auth/UserMenu";
+import { useAuth } from "@/lib/auth";
+import { endOfLocalDay } from "@/lib/srs";
+import type { AudioClip } from "@/types/audio";
+import type { ClipReviewState, ReviewGrade } from "@/types/practice";
+
+interface DueReview extends ClipReviewState {
+  clip: AudioClip & { url: string };
+}
+
+const GRADE_COLORS: Record<ReviewGrade, string> = {
+  again: "bg-red-100 text-red-700",
+  hard: "bg-orange-100 text-orange-700",
+  good: "bg-green-100 text-green-700",
+  easy: "bg-blue-100 text-blue-700",
+};
+
+function formatOverdue(dueAt: string): string {
+  const days = Math.floor(
+    (Date.now() - new Date(dueAt).getTime()) / (24 * 60 * 60 * 1000)
+  );
+  if (days <= 0) return "Due today";
+  return days === 1 ? "1 day overdue" : `${days} days overdue`;
+}
+
+export default function ReviewPage() {
+  const { user, isLoading, getAuthHeaders } = useAuth();
+  const [reviews, setReviews] = useState<DueReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchReviews = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const until = encodeURIComponent(endOfLocalDay().toISOString());
+        const response = await fetch(`/api/review?until=${until}`, {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) {
+          throw new Error("Failed to fetch review queue");
+        }
+        const data = await response.json();
+        setReviews(data.reviews);
+      } catch (err) {
+        console.error("Failed to fetch review queue:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load review queue"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReviews();
+  }, [user, isLoading, getAuthHeaders]);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="p-4 bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/library"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Library
+            </Link>
+            <div className="flex items-center gap-3">
+              <CalendarCheck className="w-8 h-8 text-indigo-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  Review Today
+                </h1>
+                <p className="text-sm text-gray-600">
+                  Clips scheduled for spaced repetition
+                </p>
+              </div>
+            </div>
+          </div>
+          {user && <UserMenu />}
+        </div>
+      </header>
+
+      <div className="p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+            {loading || isLoading ? (
+              <div className="flex items-center justify-center gap-3 py-12">
+                <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+                <span className="text-gray-700">Loading reviews...</span>
+              </div>
+            ) : !user ? (
+              <div className="text-center py-12 text-gray-600">
+                Sign in to see the clips due for review.
+              </div>
+            ) : error ? (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+                <AlertCircle className="w-4 h-4" />
+                <span className="text-sm">{error}</span>
+              </div>
+            ) : reviews.length === 0 ? (
+              <div className="text-center py-12">
+                <PartyPopper className="w-12 h-12 text-indigo-500 mx-auto mb-4" />
+                <h2 className="text-xl font-bold text-gray-900 mb-2">
+                  All caught up!
+                </h2>
+                <p className="text-gray-600 mb-6">
+                  No clips are due today. Grade a clip after practicing it to
+                  add it to your reviews.
+                </p>
+                <Link
+                  href="/library"
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                >
+                  Browse Library
+                </Link>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <p className="text-gray-700">
+                    <span className="text-2xl font-bold text-indigo-700">
+                      {reviews.length}
+                    </span>{" "}
+                    {reviews.length === 1 ? "clip" : "clips"} due today
+                  </p>
+                  <Link
+                    href={`/chorus/${reviews[0].clipId}?review=1`}
+                    className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium"
+                  >
+                    <Play className="w-4 h-4" />
+                    Start Review
+                  </Link>
+                </div>
+
+                <ul className="divide-y divide-gray-100">
+                  {reviews.map((review) => (
+                    <li
+                      key={review.clipId}
+                      className="py-3 flex items-center justify-between gap-4"
+                    >
+                      <div className="min-w-0">
+                        <Link
+                          href={`/chorus/${review.clipId}?review=1`}
+                          className="font-medium text-gray-900 hover:text-indigo-600 truncate block"
+                        >
+                          {review.clip.title}
+                        </Link>
+                        <div className="flex items-center gap-3 text-xs text-gray-500 mt-0.5">
+                          <span>{review.clip.metadata.language}</span>
+                          <span>{review.clip.duration.toFixed(1)}s</span>
+                          <span>{formatOverdue(review.dueAt)}</span>
+                        </div>
+                      </div>
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium capitalize flex-shrink-0 ${
+                          GRADE_COLORS[review.lastGrade]
+                        }`}
+                        title="Last grade"
+                      >
+                        {review.lastGrade}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
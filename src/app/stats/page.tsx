@@ -0,0 +1,318 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  BarChart3,
+  Loader2,
+  AlertCircle,
+  Flame,
+  Clock,
+  Repeat,
+  CalendarDays,
+} from "lucide-react";
+import { UserMenu } from "@/components/auth/UserMenu";
+import { useAuth } from "@/lib/auth";
+import type { PracticeStats } from "@/types/practice";
+
+const TREND_WIDTH = 600;
+const TREND_HEIGHT = 160;
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+function AccuracyTrendChart({
+  trend,
+}: {
+  trend: PracticeStats["accuracyTrend"];
+}) {
+  if (trend.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Check a transcription on the chorus page to start tracking accuracy.
+      </p>
+    );
+  }
+
+  const step = trend.length > 1 ? TREND_WIDTH / (trend.length - 1) : 0;
+  const points = trend.map((point, index) => ({
+    x: trend.length > 1 ? index * step : TREND_WIDTH / 2,
+    y: TREND_HEIGHT - (point.accuracy / 100) * TREND_HEIGHT,
+    ...point,
+  }));
+
+  return (
+    <div>
+      <svg
+        viewBox={`-8 -8 ${TREND_WIDTH + 16} ${TREND_HEIGHT + 16}`}
+        className="w-full h-44"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Transcription accuracy over the last 30 days"
+      >
+        {[0, 50, 100].map((level) => (
+          <line
+            key={level}
+            x1={0}
+            x2={TREND_WIDTH}
+            y1={TREND_HEIGHT - (level / 100) * TREND_HEIGHT}
+            y2={TREND_HEIGHT - (level / 100) * TREND_HEIGHT}
+            stroke="#e5e7eb"
+            strokeDasharray="4 4"
+          />
+        ))}
+        <polyline
+          points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke="#4f46e5"
+          strokeWidth={3}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.map((p) => (
+          <circle key={p.date} cx={p.x} cy={p.y} r={4} fill="#4f46e5">
+            <title>
+              {p.date}: {p.accuracy}%
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{trend[0].date}</span>
+        {trend.length > 1 && <span>{trend[trend.length - 1].date}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default function StatsPage() {
+  const { user, isLoading, getAuthHeaders } = useAuth();
+  const [stats, setStats] = useState<PracticeStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchStats = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const tzOffset = new Date().getTimezoneOffset();
+        const response = await fetch(`/api/stats?tzOffset=${tzOffset}`, {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) {
+          throw new Error("Failed to fetch statistics");
+        }
+        const data = await response.json();
+        setStats(data.stats);
+      } catch (err) {
+        console.error("Failed to fetch statistics:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load statistics"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStats();
+  }, [user, isLoading, getAuthHeaders]);
+
+  const maxLanguageMinutes = stats
+    ? Math.max(1, ...stats.minutesByLanguage.map((l) => l.minutes))
+    : 1;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {/* Header */}
+      <header className="p-4 bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/library"
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Library
+            </Link>
+            <div className="flex items-center gap-3">
+              <BarChart3 className="w-8 h-8 text-indigo-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  Practice Statistics
+                </h1>
+                <p className="text-sm text-gray-600">
+                  Your chorusing history across all clips
+                </p>
+              </div>
+            </div>
+          </div>
+          {user && <UserMenu />}
+        </div>
+      </header>
+
+      <div className="p-4">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {loading || isLoading ? (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 flex items-center justify-center gap-3 py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
+              <span className="text-gray-700">Loading statistics...</span>
+            </div>
+          ) : !user ? (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 text-center py-12 text-gray-600">
+              Sign in to see your practice statistics.
+            </div>
+          ) : error || !stats ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error || "No statistics available"}</span>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="bg-white rounded-xl p-5 shadow-sm border border-gray-200">
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Flame className="w-4 h-4 text-orange-500" />
+                    Current streak
+                  </div>
+                  <div className="text-3xl font-bold text-gray-900 mt-2">
+                    {stats.currentStreak}
+                    <span className="text-base font-medium text-gray-500 ml-1">
+                      {stats.currentStreak === 1 ? "day" : "days"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Longest: {stats.longestStreak}{" "}
+                    {stats.longestStreak === 1 ? "day" : "days"}
+                  </div>
+                </div>
+                <div className="bg-white rounded-xl p-5 shadow-sm border border-gray-200">
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Clock className="w-4 h-4 text-indigo-500" />
+                    Time practiced
+                  </div>
+                  <div className="text-3xl font-bold text-gray-900 mt-2">
+                    {formatMinutes(stats.totalMinutes)}
+                  </div>
+                </div>
+                <div className="bg-white rounded-xl p-5 shadow-sm border border-gray-200">
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Repeat className="w-4 h-4 text-indigo-500" />
+                    Loops
+                  </div>
+                  <div className="text-3xl font-bold text-gray-900 mt-2">
+                    {stats.totalLoops}
+                  </div>
+                </div>
+                <div className="bg-white rounded-xl p-5 shadow-sm border border-gray-200">
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <CalendarDays className="w-4 h-4 text-indigo-500" />
+                    Sessions
+                  </div>
+                  <div className="text-3xl font-bold text-gray-900 mt-2">
+                    {stats.totalSessions}
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Minutes per language */}
+                <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    Minutes per Language
+                  </h2>
+                  {stats.minutesByLanguage.length === 0 ? (
+                    <p className="text-sm text-gray-500">No practice yet.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {stats.minutesByLanguage.map(({ language, minutes }) => (
+                        <div key={language}>
+                          <div className="flex justify-between text-sm mb-1">
+                            <span className="font-medium text-gray-700">
+                              {language}
+                            </span>
+                            <span className="text-gray-500">
+                              {formatMinutes(minutes)}
+                            </span>
+                          </div>
+                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-indigo-500 rounded-full"
+                              style={{
+                                width: `${(minutes / maxLanguageMinutes) * 100}%`,
+                              }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Accuracy trend */}
+                <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    Transcription Accuracy (30 days)
+                  </h2>
+                  <AccuracyTrendChart trend={stats.accuracyTrend} />
+                </div>
+              </div>
+
+              {/* Most practiced clips */}
+              <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  Most Practiced Clips
+                </h2>
+                {stats.topClips.length === 0 ? (
+                  <p className="text-sm text-gray-500">No practice yet.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-100">
+                        <th className="py-2 font-medium">Clip</th>
+                        <th className="py-2 font-medium text-right">Loops</th>
+                        <th className="py-2 font-medium text-right">Sessions</th>
+                        <th className="py-2 font-medium text-right">Time</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {stats.topClips.map((clip) => (
+                        <tr key={clip.clipId}>
+                          <td className="py-2">
+                            <Link
+                              href={`/chorus/${clip.clipId}`}
+                              className="text-gray-900 hover:text-indigo-600"
+                            >
+                              {clip.title}
+                            </Link>
+                          </td>
+                          <td className="py-2 text-right">{clip.loops}</td>
+                          <td className="py-2 text-right">{clip.sessions}</td>
+                          <td className="py-2 text-right text-gray-500">
+                            {formatMinutes(clip.minutes)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
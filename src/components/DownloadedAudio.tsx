@@ -49,7 +49,15 @@ export default function DownloadedAudio() {
   }
 
   function selectFile(file: any) {
-    const url = `/clip-creator?file=${encodeURIComponent(file.filename)}`;
+    let url = `/clip-creator?file=${encodeURIComponent(file.filename)}`;
+    // Subtitles yt-dlp saved next to the audio (<id>.<lang>.vtt)
+    const base = file.filename.replace(/\.[^/.]+$/, "");
+    const subtitles = files.find(
+      (f) => f.filename.startsWith(`${base}.`) && /\.(vtt|srt)$/.test(f.filename)
+    );
+    if (subtitles) {
+      url += `&subtitles=${encodeURIComponent(subtitles.filename)}`;
+    }
     window.location.href = url;
   }
 
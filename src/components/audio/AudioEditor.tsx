@@ -10,12 +10,93 @@ import {
   Volume2,
   Loader2,
   AlertCircle,
+  Spline,
+  AudioWaveform,
+  ListPlus,
 } from "lucide-react";
+import type { PitchContour, TimedTranscript } from "@/types/audio";
+import { extractPitchAsync } from "@/lib/audio/pitch";
+import { encodeWavRange } from "@/lib/audio/wav";
+import { useKeyboardShortcuts } from "@/lib/keyboard-shortcuts";
+import { SKIP_SECONDS, formatBinding, matchShortcut } from "@/lib/shortcuts";
+import {
+  computeEnergyEnvelope,
+  detectSegments,
+  moveSegmentEdge,
+  DEFAULT_SEGMENTATION,
+  type AudioSegment,
+  type EnergyEnvelope,
+  type SegmentationOptions,
+} from "@/lib/audio/silence";
+import {
+  parseSubtitles,
+  sliceTimedTranscript,
+  timedTranscriptText,
+} from "@/lib/timed-transcript";
+import { AutoSegmentPanel } from "./AutoSegmentPanel";
+import { BatchExtractModal } from "./BatchExtractModal";
+import { BatchRegionsPanel, type BatchRegion } from "./BatchRegionsPanel";
 import { ClipExtractModal } from "./ClipExtractModal";
+import { PitchContourOverlay } from "./PitchContourOverlay";
+import { SilenceOverlay } from "./SilenceOverlay";
+import { TimedTranscriptEditor } from "./TimedTranscriptEditor";
+
+const WAVEFORM_HEIGHT = 150;
+
+// Subtitle cues and auto-detected segments are drawn as strips along the
+// bottom and top of the waveform so dragging between them still selects
+// a region
+const CUE_REGION_PREFIX = "cue-";
+const SEGMENT_REGION_PREFIX = "seg-";
+const STRIP_HEIGHT = "18%";
+const CUE_COLOR = "rgba(16, 185, 129, 0.25)";
+const CUE_SELECTED_COLOR = "rgba(16, 185, 129, 0.7)";
+const SEGMENT_COLOR = "rgba(245, 158, 11, 0.3)";
+const SEGMENT_ACTIVE_COLOR = "rgba(245, 158, 11, 0.75)";
+// Re-detect segments this long after the last settings change
+const SEGMENT_PREVIEW_DELAY = 150;
+// Batch regions span the full height but let clicks through, so they
+// never get in the way of selecting
+const BATCH_REGION_PREFIX = "batch-";
+const BATCH_COLOR = "rgba(99, 102, 241, 0.12)";
+// Words of a cue's text used as the title of its clip
+const CUE_TITLE_WORDS = 8;
+
+const regionIndex = (region: any, prefix: string): number | null =>
+  typeof region?.id === "string" && region.id.startsWith(prefix)
+    ? Number(region.id.slice(prefix.length))
+    : null;
+
+// Everything except the selection region
+const isMarkerRegion = (region: any) =>
+  regionIndex(region, CUE_REGION_PREFIX) !== null ||
+  regionIndex(region, SEGMENT_REGION_PREFIX) !== null ||
+  regionIndex(region, BATCH_REGION_PREFIX) !== null;
+
+const placeInStrip = (region: any, edge: "top" | "bottom", title?: string) => {
+  if (!region.element) return;
+  Object.assign(region.element.style, {
+    top: edge === "top" ? "0" : "auto",
+    bottom: edge === "bottom" ? "0" : "auto",
+    height: STRIP_HEIGHT,
+    cursor: "pointer",
+  });
+  if (title) region.element.title = title;
+};
+
+// A range about to join the batch, with the transcript to cut for it
+interface BatchCandidate {
+  start: number;
+  end: number;
+  transcriptSource: TimedTranscript | null;
+  title?: string;
+}
 
 interface AudioEditorProps {
   file: File;
   sourceUrl?: string;
+  // Raw SRT/WebVTT text, e.g. subtitles fetched along with a YouTube download
+  initialSubtitles?: string;
 }
 
 interface AudioRegion {
@@ -24,7 +105,11 @@ interface AudioRegion {
   end: number;
 }
 
-export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
+export function AudioEditor({
+  file,
+  sourceUrl,
+  initialSubtitles,
+}: AudioEditorProps) {
   console.log(
     "🚀 AudioEditor: Component mounted with file:",
     file.name,
@@ -36,7 +121,11 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
   const regionsPluginRef = useRef<any>(null);
   const fileUrlRef = useRef<string | null>(null);
   const initializationRef = useRef<boolean>(false);
+  const cueRegionsRef = useRef<any[]>([]);
+  const segmentRegionsRef = useRef<any[]>([]);
+  const nextBatchIdRef = useRef(1);
 
+  const { shortcuts, isCheatSheetOpen, openCheatSheet } = useKeyboardShortcuts();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isReady, setIsReady] = useState(false);
@@ -48,11 +137,39 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
     null
   );
   const [extractModalOpen, setExtractModalOpen] = useState(false);
+  const [extractRange, setExtractRange] = useState<{
+    start: number;
+    end: number;
+  } | null>(null);
   const [extractedAudioBlob, setExtractedAudioBlob] = useState<Blob | null>(
     null
   );
   const [extractedTranscript, setExtractedTranscript] = useState<string>("");
+  const [extractedTimedTranscript, setExtractedTimedTranscript] = useState<
+    TimedTranscript | undefined
+  >(undefined);
+  // Timed transcript of the whole source file (source-file time)
+  const [timedTranscript, setTimedTranscript] =
+    useState<TimedTranscript | null>(null);
+  // Subtitle cues (segment indexes) picked for batch extraction
+  const [selectedCues, setSelectedCues] = useState<Set<number>>(new Set());
+  // Regions waiting to be uploaded together
+  const [batchRegions, setBatchRegions] = useState<BatchRegion[]>([]);
+  const [batchModalOpen, setBatchModalOpen] = useState(false);
+  // Auto-segmentation
+  const [showSegmentation, setShowSegmentation] = useState(false);
+  const [segmentOptions, setSegmentOptions] =
+    useState<SegmentationOptions>(DEFAULT_SEGMENTATION);
+  const [energyEnvelope, setEnergyEnvelope] = useState<EnergyEnvelope | null>(
+    null
+  );
+  const [segments, setSegments] = useState<AudioSegment[]>([]);
+  const [activeSegment, setActiveSegment] = useState<number | null>(null);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [waveSurfer, setWaveSurfer] = useState<any>(null);
+  const [showPitch, setShowPitch] = useState(false);
+  const [pitchContour, setPitchContour] = useState<PitchContour | null>(null);
+  const [pitchProgress, setPitchProgress] = useState<number | null>(null);
 
   // Cleanup function
   const cleanup = useCallback(() => {
@@ -78,6 +195,10 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
     setIsReady(false);
     setIsPlaying(false);
     setSelectedRegion(null);
+    setWaveSurfer(null);
+    setPitchContour(null);
+    setEnergyEnvelope(null);
+    setSegments([]);
   }, []);
 
   // Initialize WaveSurfer
@@ -191,7 +312,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
         );
         const wavesurfer = WaveSurfer.create({
           container: container,
-          height: 150,
+          height: WAVEFORM_HEIGHT,
           waveColor: "#e5e7eb",
           progressColor: "#4f46e5",
           cursorColor: "#1f2937",
@@ -228,6 +349,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
           setIsReady(true);
           setIsLoading(false);
           setDuration(wavesurfer.getDuration());
+          setWaveSurfer(wavesurfer);
         });
 
         wavesurfer.on("play", () => setIsPlaying(true));
@@ -264,6 +386,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
 
         // Set up regions plugin event listeners
         regionsPlugin.on("region-created", (region: any) => {
+          if (isMarkerRegion(region)) return;
           console.log(
             "📍 AudioEditor: Region created:",
             region.start,
@@ -274,7 +397,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
           // Clear any existing regions (we only want one at a time)
           const regions = regionsPlugin.getRegions();
           regions.forEach((r: any) => {
-            if (r.id !== region.id) {
+            if (r.id !== region.id && !isMarkerRegion(r)) {
               r.remove();
             }
           });
@@ -287,6 +410,23 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
         });
 
         regionsPlugin.on("region-updated", (region: any) => {
+          // Dragging a segment's edge nudges it
+          const segmentIndex = regionIndex(region, SEGMENT_REGION_PREFIX);
+          if (segmentIndex !== null) {
+            const totalDuration = wavesurfer.getDuration();
+            setSegments((prev) =>
+              moveSegmentEdge(
+                moveSegmentEdge(prev, segmentIndex, "start", region.start, totalDuration),
+                segmentIndex,
+                "end",
+                region.end,
+                totalDuration
+              )
+            );
+            setActiveSegment(segmentIndex);
+            return;
+          }
+          if (isMarkerRegion(region)) return;
           console.log(
             "📍 AudioEditor: Region updated:",
             region.start,
@@ -300,11 +440,33 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
           });
         });
 
-        regionsPlugin.on("region-removed", () => {
+        regionsPlugin.on("region-removed", (region: any) => {
+          if (isMarkerRegion(region)) return;
           console.log("📍 AudioEditor: Region removed");
           setSelectedRegion(null);
         });
 
+        // Clicking a subtitle cue toggles it for batch extraction,
+        // clicking a segment makes it the one to edit
+        regionsPlugin.on("region-clicked", (region: any) => {
+          const segmentIndex = regionIndex(region, SEGMENT_REGION_PREFIX);
+          if (segmentIndex !== null) {
+            setActiveSegment(segmentIndex);
+            return;
+          }
+          const index = regionIndex(region, CUE_REGION_PREFIX);
+          if (index === null) return;
+          setSelectedCues((prev) => {
+            const next = new Set(prev);
+            if (next.has(index)) {
+              next.delete(index);
+            } else {
+              next.add(index);
+            }
+            return next;
+          });
+        });
+
         // Enable region creation by clicking and dragging
         regionsPlugin.enableDragSelection({
           color: "rgba(79, 70, 229, 0.3)",
@@ -355,6 +517,19 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
     wavesurferRef.current.seekTo(0);
   }, []);
 
+  const seekToTime = useCallback(
+    (time: number) => {
+      if (!wavesurferRef.current || duration <= 0) return;
+      wavesurferRef.current.seekTo(Math.min(time / duration, 1));
+    },
+    [duration]
+  );
+
+  const getCurrentTime = useCallback(
+    () => wavesurferRef.current?.getCurrentTime() ?? 0,
+    []
+  );
+
   const changeVolume = useCallback((newVolume: number) => {
     if (!wavesurferRef.current) return;
     const clampedVolume = Math.max(0, Math.min(1, newVolume));
@@ -363,6 +538,15 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
   }, []);
 
   // Region control functions
+  // Removes the selection region but keeps the subtitle cue regions
+  const removeSelectionRegions = useCallback(() => {
+    if (!regionsPluginRef.current) return;
+    regionsPluginRef.current
+      .getRegions()
+      .filter((r: any) => !isMarkerRegion(r))
+      .forEach((r: any) => r.remove());
+  }, []);
+
   const setRegionStart = useCallback(() => {
     if (!wavesurferRef.current || !regionsPluginRef.current) return;
 
@@ -371,7 +555,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
       ? selectedRegion.end
       : Math.min(current + 5, duration);
 
-    regionsPluginRef.current.clearRegions();
+    removeSelectionRegions();
     regionsPluginRef.current.addRegion({
       start: current,
       end: end,
@@ -379,7 +563,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
       drag: true,
       resize: true,
     });
-  }, [currentTime, selectedRegion, duration]);
+  }, [currentTime, selectedRegion, duration, removeSelectionRegions]);
 
   const setRegionEnd = useCallback(() => {
     if (!wavesurferRef.current || !regionsPluginRef.current) return;
@@ -389,7 +573,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
       ? selectedRegion.start
       : Math.max(current - 5, 0);
 
-    regionsPluginRef.current.clearRegions();
+    removeSelectionRegions();
     regionsPluginRef.current.addRegion({
       start: start,
       end: current,
@@ -397,7 +581,7 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
       drag: true,
       resize: true,
     });
-  }, [currentTime, selectedRegion]);
+  }, [currentTime, selectedRegion, removeSelectionRegions]);
 
   const adjustRegionStart = useCallback(
     (delta: number) => {
@@ -432,15 +616,14 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
   );
 
   const clearSelection = useCallback(() => {
-    if (!regionsPluginRef.current) return;
-    regionsPluginRef.current.clearRegions();
-  }, []);
+    removeSelectionRegions();
+  }, [removeSelectionRegions]);
 
-  const playRegion = useCallback(() => {
-    if (!wavesurferRef.current || !selectedRegion) return;
+  const playRange = useCallback((start: number, end: number) => {
+    if (!wavesurferRef.current) return;
 
     const wavesurfer = wavesurferRef.current;
-    const regionEnd = selectedRegion.end;
+    const regionEnd = end;
 
     // Create a listener to stop at region end
     const stopAtRegionEnd = (currentTime: number) => {
@@ -465,9 +648,14 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
     wavesurfer.on("finish", cleanup);
 
     // Start playback from region start
-    wavesurfer.seekTo(selectedRegion.start / duration);
+    wavesurfer.seekTo(start / duration);
     wavesurfer.play();
-  }, [selectedRegion, duration]);
+  }, [duration]);
+
+  const playRegion = useCallback(() => {
+    if (!selectedRegion) return;
+    playRange(selectedRegion.start, selectedRegion.end);
+  }, [selectedRegion, playRange]);
 
   // Zoom control functions
   const zoomIn = useCallback(() => {
@@ -493,129 +681,354 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
     wavesurferRef.current.zoom(newZoom);
   }, [duration]);
 
-  // Clip extraction - creates optimized audio
-  const handleExtractClip = useCallback(async () => {
-    if (!wavesurferRef.current || !selectedRegion) return;
+  // Pitch contour - computed on demand (long sources take a while)
+  useEffect(() => {
+    if (!isReady || !showPitch || pitchContour) return;
+    const audioBuffer: AudioBuffer | null =
+      wavesurferRef.current?.getDecodedData();
+    if (!audioBuffer) return;
+
+    const controller = new AbortController();
+    setPitchProgress(0);
+    extractPitchAsync(audioBuffer, {
+      signal: controller.signal,
+      onProgress: setPitchProgress,
+    })
+      .then(setPitchContour)
+      .catch((err) => {
+        if (err?.name !== "AbortError") {
+          console.log("⚠️ AudioEditor: Pitch extraction failed:", err);
+        }
+      })
+      .finally(() => setPitchProgress(null));
+
+    return () => controller.abort();
+  }, [isReady, showPitch, pitchContour]);
+
+  // Clip extraction - creates optimized audio for [start, end] and opens
+  // the save modal. `transcriptSource` is the timed transcript to cut.
+  const openExtractModal = useCallback(
+    async (
+      start: number,
+      end: number,
+      transcriptSource: TimedTranscript | null
+    ) => {
+      if (!wavesurferRef.current) return;
 
-    try {
-      console.log(
-        "✂️ AudioEditor: Extracting clip from",
-        selectedRegion.start,
-        "to",
-        selectedRegion.end
-      );
-
-      const audioBuffer = wavesurferRef.current.getDecodedData();
-      if (!audioBuffer) {
-        throw new Error("No audio data available");
-      }
+      try {
+        console.log(
+          "✂️ AudioEditor: Extracting clip from",
+          start,
+          "to",
+          end
+        );
 
-      const sampleRate = audioBuffer.sampleRate;
-      const startSample = Math.floor(selectedRegion.start * sampleRate);
-      const endSample = Math.floor(selectedRegion.end * sampleRate);
-      const length = endSample - startSample;
+        const audioBuffer = wavesurferRef.current.getDecodedData();
+        if (!audioBuffer) {
+          throw new Error("No audio data available");
+        }
 
-      if (length <= 0) {
-        throw new Error("Invalid region selection");
-      }
+        console.log(
+          `🔊 Original buffer info: ${audioBuffer.numberOfChannels} channels, ${audioBuffer.sampleRate}Hz`
+        );
+        console.log("🔄 AudioEditor: Converting to audio blob...");
 
-      console.log(
-        `📊 AudioEditor: Extracting ${length} samples at ${sampleRate}Hz`
-      );
-      console.log(
-        `🔊 Original buffer info: ${audioBuffer.numberOfChannels} channels, ${audioBuffer.sampleRate}Hz`
-      );
+        // WAV first (ClipExtractModal converts it for upload)
+        const blob = encodeWavRange(audioBuffer, start, end);
 
-      // Create AudioContext with the SAME sample rate as original
-      const audioContext = new AudioContext({
-        sampleRate: audioBuffer.sampleRate,
-      });
+        console.log(
+          `✅ AudioEditor: Audio blob created, size: ${blob.size} bytes`
+        );
 
-      // Create new audio buffer for the selected region
-      const clipBuffer = audioContext.createBuffer(
-        audioBuffer.numberOfChannels,
-        length,
-        sampleRate
-      );
-
-      // Copy audio data sample-by-sample (no processing to preserve quality)
-      for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-        const channelData = audioBuffer.getChannelData(channel);
-        const clipChannelData = clipBuffer.getChannelData(channel);
-
-        // Direct copy without any processing to preserve quality
-        for (let i = 0; i < length; i++) {
-          clipChannelData[i] = channelData[startSample + i];
+        // Verify the blob is valid by testing it
+        const testUrl = URL.createObjectURL(blob);
+        const testAudio = new Audio();
+
+        await new Promise((resolve, reject) => {
+          const timeout = setTimeout(() => {
+            URL.revokeObjectURL(testUrl);
+            reject(new Error("Generated audio clip test timeout"));
+          }, 3000);
+
+          testAudio.addEventListener("loadedmetadata", () => {
+            console.log(
+              "✅ AudioEditor: Generated clip verified, duration:",
+              testAudio.duration
+            );
+            clearTimeout(timeout);
+            URL.revokeObjectURL(testUrl);
+            resolve(undefined);
+          });
+
+          testAudio.addEventListener("error", (e) => {
+            console.log("❌ AudioEditor: Generated clip test failed:", e);
+            clearTimeout(timeout);
+            URL.revokeObjectURL(testUrl);
+            reject(new Error("Generated audio clip is invalid"));
+          });
+
+          testAudio.src = testUrl;
+        });
+
+        // Pause the main audio playback when opening the extract modal (don't stop, so user can resume)
+        if (wavesurferRef.current) {
+          wavesurferRef.current.pause();
         }
+
+        // Carry the part of the timed transcript under the selection over to the clip
+        const clipTimedTranscript = transcriptSource
+          ? sliceTimedTranscript(transcriptSource, start, end)
+          : undefined;
+
+        setExtractRange({ start, end });
+        setExtractedAudioBlob(blob);
+        setExtractedTranscript(
+          clipTimedTranscript ? timedTranscriptText(clipTimedTranscript) : ""
+        );
+        setExtractedTimedTranscript(clipTimedTranscript);
+        setExtractModalOpen(true);
+      } catch (err) {
+        console.log("💥 AudioEditor: Clip extraction failed:", err);
+        setError(
+          `Failed to extract audio clip: ${
+            err instanceof Error ? err.message : "Unknown error"
+          }`
+        );
       }
+    },
+    []
+  );
 
-      console.log("🔄 AudioEditor: Converting to audio blob...");
+  const handleExtractClip = useCallback(() => {
+    if (!selectedRegion) return;
+    openExtractModal(selectedRegion.start, selectedRegion.end, timedTranscript);
+  }, [selectedRegion, timedTranscript, openExtractModal]);
 
-      // Convert to WAV blob first (for processing by ClipExtractModal)
-      const blob = await bufferToWaveBlob(clipBuffer);
+  // Batch regions are cut from the decoded source when uploaded
+  const getClipAudio = useCallback((start: number, end: number) => {
+    const audioBuffer = wavesurferRef.current?.getDecodedData();
+    if (!audioBuffer) {
+      throw new Error("No audio data available");
+    }
+    return encodeWavRange(audioBuffer, start, end);
+  }, []);
 
-      console.log(
-        `✅ AudioEditor: Audio blob created, size: ${blob.size} bytes`
-      );
+  const addToBatch = useCallback((candidates: BatchCandidate[]) => {
+    if (candidates.length === 0) return;
+    console.log(`✂️ AudioEditor: Adding ${candidates.length} regions to the batch`);
+    setBatchRegions((prev) => [
+      ...prev,
+      ...candidates.map(({ start, end, transcriptSource, title }) => {
+        const id = nextBatchIdRef.current++;
+        const clipTimedTranscript = transcriptSource
+          ? sliceTimedTranscript(transcriptSource, start, end)
+          : undefined;
+        return {
+          id: `${BATCH_REGION_PREFIX}${id}`,
+          title: title || `Region ${id}`,
+          start,
+          end,
+          transcript: clipTimedTranscript
+            ? timedTranscriptText(clipTimedTranscript)
+            : "",
+          timedTranscript: clipTimedTranscript,
+        };
+      }),
+    ]);
+  }, []);
 
-      // Verify the blob is valid by testing it
-      const testUrl = URL.createObjectURL(blob);
-      const testAudio = new Audio();
+  const addSelectionToBatch = useCallback(() => {
+    if (!selectedRegion) return;
+    addToBatch([
+      {
+        start: selectedRegion.start,
+        end: selectedRegion.end,
+        transcriptSource: timedTranscript,
+      },
+    ]);
+    clearSelection();
+  }, [selectedRegion, timedTranscript, addToBatch, clearSelection]);
+
+  // Each cue becomes its own clip, titled and transcribed with its text
+  const addSelectedCuesToBatch = useCallback(() => {
+    if (!timedTranscript) return;
+    addToBatch(
+      Array.from(selectedCues)
+        .sort((a, b) => a - b)
+        .map((index) => {
+          const cue = timedTranscript.segments[index];
+          return {
+            start: cue.start,
+            end: cue.end,
+            transcriptSource: { segments: [cue] },
+            title: cue.text.split(/\s+/).slice(0, CUE_TITLE_WORDS).join(" "),
+          };
+        })
+    );
+    setSelectedCues(new Set());
+  }, [timedTranscript, selectedCues, addToBatch]);
+
+  const addSegmentsToBatch = useCallback(() => {
+    addToBatch(
+      segments.map((segment) => ({
+        ...segment,
+        transcriptSource: timedTranscript,
+      }))
+    );
+    setShowSegmentation(false);
+  }, [segments, timedTranscript, addToBatch]);
+
+  const closeBatchModal = useCallback((uploadedIds: string[]) => {
+    setBatchModalOpen(false);
+    setBatchRegions((prev) =>
+      prev.filter((region) => !uploadedIds.includes(region.id))
+    );
+  }, []);
 
-      await new Promise((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          URL.revokeObjectURL(testUrl);
-          reject(new Error("Generated audio clip test timeout"));
-        }, 3000);
+  const closeExtractModal = useCallback(() => {
+    setExtractModalOpen(false);
+    setExtractedTranscript("");
+    setExtractedTimedTranscript(undefined);
+  }, []);
 
-        testAudio.addEventListener("loadedmetadata", () => {
-          console.log(
-            "✅ AudioEditor: Generated clip verified, duration:",
-            testAudio.duration
-          );
-          clearTimeout(timeout);
-          URL.revokeObjectURL(testUrl);
-          resolve(undefined);
-        });
+  const handleExtractSuccess = useCallback(() => {
+    closeExtractModal();
+    clearSelection();
+  }, [closeExtractModal, clearSelection]);
 
-        testAudio.addEventListener("error", (e) => {
-          console.log("❌ AudioEditor: Generated clip test failed:", e);
-          clearTimeout(timeout);
-          URL.revokeObjectURL(testUrl);
-          reject(new Error("Generated audio clip is invalid"));
-        });
+  // Subtitles handed over with the file (e.g. from a YouTube download)
+  useEffect(() => {
+    if (!initialSubtitles) return;
+    try {
+      setTimedTranscript(parseSubtitles(initialSubtitles));
+    } catch (err) {
+      console.log("⚠️ AudioEditor: Could not read subtitles:", err);
+    }
+  }, [initialSubtitles]);
 
-        testAudio.src = testUrl;
+  // A new transcript invalidates cue indexes
+  useEffect(() => {
+    setSelectedCues(new Set());
+  }, [timedTranscript]);
+
+  // Show the transcript's cues on the waveform
+  useEffect(() => {
+    const regionsPlugin = regionsPluginRef.current;
+    if (!isReady || !regionsPlugin || !timedTranscript) return;
+
+    const cueRegions = timedTranscript.segments.map((segment, index) => {
+      const region = regionsPlugin.addRegion({
+        id: `${CUE_REGION_PREFIX}${index}`,
+        start: segment.start,
+        end: segment.end,
+        color: CUE_COLOR,
+        drag: false,
+        resize: false,
       });
+      placeInStrip(region, "bottom", segment.text);
+      return region;
+    });
+    cueRegionsRef.current = cueRegions;
 
-      // Close the AudioContext to free resources
-      await audioContext.close();
+    return () => {
+      cueRegions.forEach((region: any) => region.remove());
+      cueRegionsRef.current = [];
+    };
+  }, [isReady, timedTranscript]);
 
-      // Pause the main audio playback when opening the extract modal (don't stop, so user can resume)
-      if (wavesurferRef.current) {
-        wavesurferRef.current.pause();
-      }
+  useEffect(() => {
+    cueRegionsRef.current.forEach((region, index) => {
+      region.setOptions({
+        color: selectedCues.has(index) ? CUE_SELECTED_COLOR : CUE_COLOR,
+      });
+    });
+  }, [selectedCues, timedTranscript]);
 
-      setExtractedAudioBlob(blob);
-      setExtractedTranscript("");
-      setExtractModalOpen(true);
-    } catch (err) {
-      console.log("💥 AudioEditor: Clip extraction failed:", err);
-      setError(
-        `Failed to extract audio clip: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`
-      );
-    }
-  }, [selectedRegion]);
+  // Auto-segmentation: the energy envelope is computed once per file
+  useEffect(() => {
+    if (!isReady || !showSegmentation || energyEnvelope) return;
+    const audioBuffer: AudioBuffer | null =
+      wavesurferRef.current?.getDecodedData();
+    if (!audioBuffer) return;
+    console.log("🔇 AudioEditor: Computing energy envelope");
+    setEnergyEnvelope(computeEnergyEnvelope(audioBuffer));
+  }, [isReady, showSegmentation, energyEnvelope]);
+
+  // Re-detect as the settings change - this is the live preview, so it
+  // replaces any manual edits
+  useEffect(() => {
+    if (!energyEnvelope || !showSegmentation) return;
+    const timer = setTimeout(() => {
+      setSegments(detectSegments(energyEnvelope, segmentOptions));
+      setActiveSegment(null);
+    }, SEGMENT_PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [energyEnvelope, segmentOptions, showSegmentation]);
+
+  // Show the proposed segments on the waveform; edges can be dragged
+  useEffect(() => {
+    const regionsPlugin = regionsPluginRef.current;
+    if (!isReady || !regionsPlugin || !showSegmentation) return;
+
+    const segmentRegions = segments.map((segment, index) => {
+      const region = regionsPlugin.addRegion({
+        id: `${SEGMENT_REGION_PREFIX}${index}`,
+        start: segment.start,
+        end: segment.end,
+        color: SEGMENT_COLOR,
+        drag: false,
+        resize: true,
+      });
+      placeInStrip(region, "top", `Segment ${index + 1}`);
+      return region;
+    });
+    segmentRegionsRef.current = segmentRegions;
+
+    return () => {
+      segmentRegions.forEach((region: any) => region.remove());
+      segmentRegionsRef.current = [];
+    };
+  }, [isReady, segments, showSegmentation]);
+
+  useEffect(() => {
+    segmentRegionsRef.current.forEach((region, index) => {
+      region.setOptions({
+        color: index === activeSegment ? SEGMENT_ACTIVE_COLOR : SEGMENT_COLOR,
+      });
+    });
+  }, [activeSegment, segments, showSegmentation]);
 
-  // Keyboard shortcuts - moved after function definitions
+  // Show the batch on the waveform, labelled with each region's title
+  useEffect(() => {
+    const regionsPlugin = regionsPluginRef.current;
+    if (!isReady || !regionsPlugin) return;
+
+    const regions = batchRegions.map((batchRegion) => {
+      const region = regionsPlugin.addRegion({
+        id: batchRegion.id,
+        start: batchRegion.start,
+        end: batchRegion.end,
+        color: BATCH_COLOR,
+        content: batchRegion.title,
+        drag: false,
+        resize: false,
+      });
+      if (region.element) region.element.style.pointerEvents = "none";
+      return region;
+    });
+
+    return () => {
+      regions.forEach((region: any) => region.remove());
+    };
+  }, [isReady, batchRegions]);
+
+  // Keyboard shortcuts (bindings from lib/shortcuts) - after function definitions
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!isReady) return;
 
-      // Don't trigger shortcuts if extract modal is open
-      if (extractModalOpen) return;
+      // Don't trigger shortcuts if extract modal or the shortcut sheet is open
+      if (extractModalOpen || batchModalOpen || isCheatSheetOpen) return;
 
       // Don't trigger shortcuts if user is typing
       if (
@@ -625,52 +1038,60 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
         return;
       }
 
-      switch (e.code) {
-        case "Space":
+      switch (matchShortcut(e, shortcuts, "editor")) {
+        case "playPause":
           e.preventDefault();
           togglePlayPause();
           break;
-        case "BracketLeft":
+        case "skipBack":
           e.preventDefault();
-          if (e.shiftKey) {
-            adjustRegionStart(-0.1);
-          } else {
-            setRegionStart();
-          }
+          seekToTime(Math.max(0, getCurrentTime() - SKIP_SECONDS));
           break;
-        case "BracketRight":
+        case "skipForward":
           e.preventDefault();
-          if (e.shiftKey) {
-            adjustRegionEnd(0.1);
-          } else {
-            setRegionEnd();
-          }
+          seekToTime(getCurrentTime() + SKIP_SECONDS);
+          break;
+        case "setRegionStart":
+          e.preventDefault();
+          setRegionStart();
+          break;
+        case "setRegionEnd":
+          e.preventDefault();
+          setRegionEnd();
           break;
-        case "Enter":
+        case "nudgeRegionStart":
+          e.preventDefault();
+          adjustRegionStart(-0.1);
+          break;
+        case "nudgeRegionEnd":
+          e.preventDefault();
+          adjustRegionEnd(0.1);
+          break;
+        case "extractClip":
           e.preventDefault();
           if (selectedRegion) {
             handleExtractClip();
           }
           break;
-        case "Escape":
+        case "addToBatch":
+          e.preventDefault();
+          addSelectionToBatch();
+          break;
+        case "cancelSelection":
           e.preventDefault();
           clearSelection();
           break;
-        case "Equal": // + key
-        case "NumpadAdd":
+        case "zoomIn":
           e.preventDefault();
           zoomIn();
           break;
-        case "Minus":
-        case "NumpadSubtract":
+        case "zoomOut":
           e.preventDefault();
           zoomOut();
           break;
-        case "Digit0":
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            zoomToFit();
-          }
+        case "zoomToFit":
+          e.preventDefault();
+          zoomToFit();
           break;
       }
     };
@@ -680,80 +1101,25 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
   }, [
     isReady,
     extractModalOpen,
+    batchModalOpen,
+    isCheatSheetOpen,
+    shortcuts,
     selectedRegion,
     togglePlayPause,
+    seekToTime,
+    getCurrentTime,
     setRegionStart,
     setRegionEnd,
     adjustRegionStart,
     adjustRegionEnd,
     clearSelection,
     handleExtractClip,
+    addSelectionToBatch,
     zoomIn,
     zoomOut,
     zoomToFit,
   ]);
 
-  // Helper function to convert AudioBuffer to WAV blob (will be processed by modal)
-  const bufferToWaveBlob = async (audioBuffer: AudioBuffer): Promise<Blob> => {
-    const numberOfChannels = audioBuffer.numberOfChannels;
-    const sampleRate = audioBuffer.sampleRate;
-    const length = audioBuffer.length;
-
-    // Use 16-bit for intermediate processing (will be converted by modal)
-    const bytesPerSample = 2; // 16-bit
-    const blockAlign = numberOfChannels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = length * blockAlign;
-    const bufferSize = 44 + dataSize;
-
-    const arrayBuffer = new ArrayBuffer(bufferSize);
-    const view = new DataView(arrayBuffer);
-
-    // Helper to write string to buffer
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-
-    // WAV file header (44 bytes) for 16-bit
-    writeString(0, "RIFF"); // ChunkID
-    view.setUint32(4, bufferSize - 8, true); // ChunkSize (little-endian)
-    writeString(8, "WAVE"); // Format
-    writeString(12, "fmt "); // Subchunk1ID
-    view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-    view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
-    view.setUint16(22, numberOfChannels, true); // NumChannels
-    view.setUint32(24, sampleRate, true); // SampleRate
-    view.setUint32(28, byteRate, true); // ByteRate
-    view.setUint16(32, blockAlign, true); // BlockAlign
-    view.setUint16(34, 16, true); // BitsPerSample (16-bit)
-    writeString(36, "data"); // Subchunk2ID
-    view.setUint32(40, dataSize, true); // Subchunk2Size
-
-    // Convert float32 audio data to 16-bit int and write to buffer
-    let offset = 44;
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        // Get sample value and clamp to [-1, 1]
-        let sample = Math.max(
-          -1,
-          Math.min(1, audioBuffer.getChannelData(channel)[i])
-        );
-
-        // Convert to 16-bit signed integer (range: -32768 to 32767)
-        const intSample = Math.round(sample * 32767);
-        const clampedSample = Math.max(-32768, Math.min(32767, intSample));
-
-        // Write 16-bit sample as 2 bytes (little-endian)
-        view.setInt16(offset, clampedSample, true);
-        offset += 2;
-      }
-    }
-
-    return new Blob([arrayBuffer], { type: "audio/wav" });
-  };
-
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -850,10 +1216,45 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
             >
               Fit
             </button>
+            <button
+              onClick={() => setShowPitch(!showPitch)}
+              disabled={!isReady}
+              className={`p-1 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed ${
+                showPitch ? "text-amber-600" : "text-gray-600"
+              }`}
+              title={showPitch ? "Hide Pitch Contour" : "Show Pitch Contour"}
+            >
+              <Spline className="w-4 h-4" />
+            </button>
           </div>
 
           <div ref={waveformRef} className="w-full min-h-[150px]" />
 
+          {showPitch && pitchContour && (
+            <PitchContourOverlay
+              wavesurfer={waveSurfer}
+              duration={duration}
+              traces={[{ contour: pitchContour, color: "#d97706" }]}
+              height={WAVEFORM_HEIGHT}
+            />
+          )}
+
+          {showSegmentation && energyEnvelope && (
+            <SilenceOverlay
+              wavesurfer={waveSurfer}
+              duration={duration}
+              envelope={energyEnvelope}
+              thresholdDb={segmentOptions.thresholdDb}
+              height={WAVEFORM_HEIGHT}
+            />
+          )}
+
+          {showPitch && pitchProgress !== null && (
+            <div className="absolute bottom-2 right-2 z-10 text-xs text-gray-500 bg-white/80 rounded px-1.5 py-0.5">
+              Analyzing pitch… {pitchProgress}%
+            </div>
+          )}
+
           {isLoading && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-50 bg-opacity-90">
               <div className="flex items-center">
@@ -978,6 +1379,27 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
                 <Scissors className="w-4 h-4" />
                 Extract Clip
               </button>
+
+              <button
+                onClick={addSelectionToBatch}
+                disabled={!selectedRegion}
+                className="px-3 py-2 bg-indigo-100 text-indigo-700 rounded-md hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50 flex items-center gap-2"
+              >
+                <ListPlus className="w-4 h-4" />
+                Add to Batch
+              </button>
+
+              <button
+                onClick={() => setShowSegmentation((prev) => !prev)}
+                className={`px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 text-sm font-medium flex items-center gap-2 ${
+                  showSegmentation
+                    ? "bg-amber-500 text-white hover:bg-amber-600"
+                    : "bg-amber-100 text-amber-700 hover:bg-amber-200"
+                }`}
+              >
+                <AudioWaveform className="w-4 h-4" />
+                Auto-Segment
+              </button>
             </div>
 
             <div className="text-xs text-gray-600 space-y-1">
@@ -986,42 +1408,97 @@ export function AudioEditor({ file, sourceUrl }: AudioEditorProps) {
                 waveform to select a region
               </p>
               <p>
-                <kbd className="keyboard-hint">Space</kbd> Play/Pause •{" "}
-                <kbd className="keyboard-hint">[</kbd> Set start •{" "}
-                <kbd className="keyboard-hint">]</kbd> Set end
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.playPause)}</kbd> Play/Pause •{" "}
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.setRegionStart)}</kbd> Set start •{" "}
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.setRegionEnd)}</kbd> Set end
               </p>
               <p>
-                <kbd className="keyboard-hint">Shift + [/]</kbd> Fine-tune by
-                0.1s • <kbd className="keyboard-hint">Enter</kbd> Extract clip •{" "}
-                <kbd className="keyboard-hint">Esc</kbd> Clear selection
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.nudgeRegionStart)}</kbd>
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.nudgeRegionEnd)}</kbd> Fine-tune by
+                0.1s • <kbd className="keyboard-hint">{formatBinding(shortcuts.extractClip)}</kbd> Extract clip •{" "}
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.addToBatch)}</kbd> Add to batch •{" "}
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.cancelSelection)}</kbd> Clear selection
               </p>
               <p>
-                <kbd className="keyboard-hint">+/-</kbd> Zoom in/out •{" "}
-                <kbd className="keyboard-hint">Ctrl+0</kbd> Zoom to fit
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.zoomIn)}</kbd>
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.zoomOut)}</kbd> Zoom in/out •{" "}
+                <kbd className="keyboard-hint">{formatBinding(shortcuts.zoomToFit)}</kbd> Zoom to fit •{" "}
+                <button onClick={openCheatSheet} className="text-indigo-600 hover:text-indigo-700">
+                  All shortcuts ({formatBinding(shortcuts.showShortcuts)})
+                </button>
               </p>
             </div>
           </div>
         )}
+
+        {/* Auto-Segment */}
+        {isReady && showSegmentation && (
+          <AutoSegmentPanel
+            options={segmentOptions}
+            onOptionsChange={setSegmentOptions}
+            segments={segments}
+            onSegmentsChange={setSegments}
+            activeSegment={activeSegment}
+            onActiveSegmentChange={setActiveSegment}
+            currentTime={currentTime}
+            duration={duration}
+            onSeek={seekToTime}
+            onAddToBatch={addSegmentsToBatch}
+            onClose={() => setShowSegmentation(false)}
+          />
+        )}
+
+        {/* Batch */}
+        {isReady && batchRegions.length > 0 && (
+          <BatchRegionsPanel
+            regions={batchRegions}
+            onRegionsChange={setBatchRegions}
+            onPlay={(region) => playRange(region.start, region.end)}
+            onExtract={() => {
+              wavesurferRef.current?.pause();
+              setBatchModalOpen(true);
+            }}
+          />
+        )}
+
+        {/* Timed Transcript */}
+        {isReady && (
+          <TimedTranscriptEditor
+            transcript={timedTranscript}
+            onChange={setTimedTranscript}
+            currentTime={currentTime}
+            duration={duration}
+            getCurrentTime={getCurrentTime}
+            onSeek={seekToTime}
+            selectedCues={selectedCues}
+            onSelectedCuesChange={setSelectedCues}
+            onAddCuesToBatch={addSelectedCuesToBatch}
+          />
+        )}
       </div>
 
       {/* Extract Modal */}
-      {extractModalOpen && extractedAudioBlob && selectedRegion && (
+      {extractModalOpen && extractedAudioBlob && extractRange && (
         <ClipExtractModal
           isOpen={extractModalOpen}
-          onClose={() => {
-            setExtractModalOpen(false);
-            setExtractedTranscript("");
-          }}
+          onClose={closeExtractModal}
           audioBlob={extractedAudioBlob}
-          duration={selectedRegion.end - selectedRegion.start}
+          duration={extractRange.end - extractRange.start}
           originalFilename={file.name}
           initialTranscript={extractedTranscript}
+          initialTimedTranscript={extractedTimedTranscript}
+          initialSourceUrl={sourceUrl}
+          onSuccess={handleExtractSuccess}
+        />
+      )}
+
+      {/* Batch Upload Modal */}
+      {batchModalOpen && batchRegions.length > 0 && (
+        <BatchExtractModal
+          regions={batchRegions}
           initialSourceUrl={sourceUrl}
-          onSuccess={() => {
-            setExtractModalOpen(false);
-            setExtractedTranscript("");
-            clearSelection();
-          }}
+          getClipAudio={getClipAudio}
+          onClose={closeBatchModal}
         />
       )}
     </>
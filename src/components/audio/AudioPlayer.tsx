@@ -16,6 +16,7 @@ import { useAudioPlayer } from "@/hooks/useAudioPlayer";
 
 interface AudioPlayerProps {
   url?: string;
+  clipId?: string; // stored clips: draw the waveform from server peaks
   title?: string;
   className?: string;
   showControls?: boolean;
@@ -24,6 +25,7 @@ interface AudioPlayerProps {
 
 export function AudioPlayer({
   url,
+  clipId,
   title = "Audio Player",
   className = "",
   showControls = true,
@@ -43,6 +45,7 @@ export function AudioPlayer({
   const { waveformRef, playbackState, loading, error, isReady, controls } =
     useAudioPlayer({
       url: currentUrl,
+      clipId,
       onReady: handleReady,
       onError: handleError,
     });
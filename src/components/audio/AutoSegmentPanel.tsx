@@ -0,0 +1,230 @@
+"use client";
+
+import { ListPlus, Combine, SplitSquareHorizontal, Trash2, X } from "lucide-react";
+import {
+  mergeWithNext,
+  splitAt,
+  moveSegmentEdge,
+  type AudioSegment,
+  type SegmentationOptions,
+} from "@/lib/audio/silence";
+
+interface AutoSegmentPanelProps {
+  options: SegmentationOptions;
+  onOptionsChange: (options: SegmentationOptions) => void;
+  segments: AudioSegment[];
+  onSegmentsChange: (segments: AudioSegment[]) => void;
+  activeSegment: number | null;
+  onActiveSegmentChange: (index: number | null) => void;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  onAddToBatch: () => void;
+  onClose: () => void;
+}
+
+const NUDGE_SECONDS = 0.1;
+
+const SLIDERS: Array<{
+  key: keyof SegmentationOptions;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}> = [
+  { key: "thresholdDb", label: "Silence threshold", min: -70, max: -10, step: 1, format: (v) => `${v} dB` },
+  { key: "minSilence", label: "Min. pause", min: 0.1, max: 2, step: 0.05, format: (v) => `${v.toFixed(2)}s` },
+  { key: "minSegment", label: "Min. segment", min: 0.2, max: 5, step: 0.1, format: (v) => `${v.toFixed(1)}s` },
+  { key: "padding", label: "Padding", min: 0, max: 0.5, step: 0.05, format: (v) => `${v.toFixed(2)}s` },
+];
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 100);
+  return `${mins}:${secs.toString().padStart(2, "0")}.${ms
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+/**
+ * Pause-detection settings and the proposed segments. Changing a setting
+ * re-detects right away so the result previews live on the waveform;
+ * the segments can then be merged, split and nudged before they are
+ * added to the batch.
+ */
+export function AutoSegmentPanel({
+  options,
+  onOptionsChange,
+  segments,
+  onSegmentsChange,
+  activeSegment,
+  onActiveSegmentChange,
+  currentTime,
+  duration,
+  onSeek,
+  onAddToBatch,
+  onClose,
+}: AutoSegmentPanelProps) {
+  const active = activeSegment !== null ? segments[activeSegment] : undefined;
+
+  const nudge = (edge: "start" | "end", delta: number) => {
+    if (activeSegment === null || !active) return;
+    onSegmentsChange(
+      moveSegmentEdge(segments, activeSegment, edge, active[edge] + delta, duration)
+    );
+  };
+
+  const mergeActive = () => {
+    if (activeSegment === null) return;
+    onSegmentsChange(mergeWithNext(segments, activeSegment));
+  };
+
+  const deleteActive = () => {
+    if (activeSegment === null) return;
+    onSegmentsChange(segments.filter((_, index) => index !== activeSegment));
+    onActiveSegmentChange(null);
+  };
+
+  const canSplit = splitAt(segments, currentTime) !== segments;
+
+  const smallButton =
+    "px-2 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 text-xs font-medium disabled:opacity-50";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Auto-Segment</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-md p-1"
+          aria-label="Close auto-segment"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Detection settings */}
+      <div className="grid sm:grid-cols-2 gap-x-6 gap-y-3">
+        {SLIDERS.map(({ key, label, min, max, step, format }) => (
+          <label key={key} className="block">
+            <span className="flex justify-between text-sm text-gray-700">
+              {label}
+              <span className="font-mono text-xs text-gray-500">
+                {format(options[key])}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={options[key]}
+              onChange={(e) =>
+                onOptionsChange({ ...options, [key]: parseFloat(e.target.value) })
+              }
+              className="w-full"
+            />
+          </label>
+        ))}
+      </div>
+
+      {/* Editing */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onSegmentsChange(splitAt(segments, currentTime))}
+          disabled={!canSplit}
+          className="flex items-center gap-1.5 px-3 py-2 bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+        >
+          <SplitSquareHorizontal className="w-4 h-4" />
+          Split at Playhead
+        </button>
+        <button
+          onClick={mergeActive}
+          disabled={activeSegment === null || activeSegment >= segments.length - 1}
+          className="flex items-center gap-1.5 px-3 py-2 bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+        >
+          <Combine className="w-4 h-4" />
+          Merge with Next
+        </button>
+        <button
+          onClick={deleteActive}
+          disabled={activeSegment === null}
+          className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+        <button
+          onClick={onAddToBatch}
+          disabled={segments.length === 0}
+          className="ml-auto flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+        >
+          <ListPlus className="w-4 h-4" />
+          Add {segments.length} Segment{segments.length === 1 ? "" : "s"} to Batch
+        </button>
+      </div>
+
+      {active && activeSegment !== null && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <span className="font-medium">Segment {activeSegment + 1}:</span>
+          <span>Start</span>
+          <button onClick={() => nudge("start", -NUDGE_SECONDS)} className={smallButton}>
+            -0.1s
+          </button>
+          <span className="font-mono text-xs">{formatTime(active.start)}</span>
+          <button onClick={() => nudge("start", NUDGE_SECONDS)} className={smallButton}>
+            +0.1s
+          </button>
+          <span className="ml-2">End</span>
+          <button onClick={() => nudge("end", -NUDGE_SECONDS)} className={smallButton}>
+            -0.1s
+          </button>
+          <span className="font-mono text-xs">{formatTime(active.end)}</span>
+          <button onClick={() => nudge("end", NUDGE_SECONDS)} className={smallButton}>
+            +0.1s
+          </button>
+        </div>
+      )}
+
+      {/* Segments */}
+      {segments.length > 0 ? (
+        <div className="max-h-48 overflow-y-auto bg-white rounded-md border border-gray-200 divide-y divide-gray-100">
+          {segments.map((segment, index) => (
+            <button
+              key={`${segment.start}-${index}`}
+              onClick={() => {
+                onActiveSegmentChange(index);
+                onSeek(segment.start);
+              }}
+              className={`w-full text-left px-3 py-1.5 text-sm flex gap-3 hover:bg-indigo-50 ${
+                index === activeSegment ? "bg-indigo-50" : ""
+              }`}
+            >
+              <span className="w-8 text-gray-400">#{index + 1}</span>
+              <span className="font-mono text-xs text-gray-500 pt-0.5">
+                {formatTime(segment.start)} - {formatTime(segment.end)}
+              </span>
+              <span className="text-gray-600">
+                {(segment.end - segment.start).toFixed(1)}s
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No speech found above the threshold. Try lowering it.
+        </p>
+      )}
+
+      <div className="text-xs text-gray-600 space-y-1">
+        <p>
+          <strong>💡 Preview:</strong> Dashed lines on the waveform show the
+          silence threshold; proposed segments appear in the strip along the
+          top. Click one to select it, or drag its edges to adjust.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,452 @@
+"use client";
+
+import { useState } from "react";
+import {
+  X,
+  AlertCircle,
+  CheckCircle,
+  Loader2,
+  ExternalLink,
+  RotateCcw,
+  Upload,
+} from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { LanguageSelector } from "@/components/ui/LanguageSelector";
+import type { AudioClip } from "@/types/audio";
+import { convertAudioToCompatibleFormat } from "@/lib/audio/convert-audio";
+import {
+  loadBasicSettings,
+  saveBasicSettings,
+  uploadClip,
+  clipFilename,
+  type BasicSettings,
+} from "@/lib/audio/clip-upload";
+import type { BatchRegion } from "./BatchRegionsPanel";
+
+interface BatchExtractModalProps {
+  regions: BatchRegion[];
+  initialSourceUrl?: string;
+  // WAV audio of [start, end] of the source file
+  getClipAudio: (start: number, end: number) => Blob;
+  // Receives the ids of the regions that were uploaded
+  onClose: (uploadedIds: string[]) => void;
+}
+
+type RegionStatus = "pending" | "encoding" | "uploading" | "success" | "error";
+
+interface RegionState {
+  status: RegionStatus;
+  clip?: AudioClip;
+  error?: string;
+}
+
+interface SharedMetadata extends BasicSettings {
+  tags: string;
+}
+
+// Encoding runs in real time, so a couple of clips are encoded side by side
+const BATCH_SIZE = 2;
+
+const STATUS_LABELS: Record<RegionStatus, string> = {
+  pending: "Waiting",
+  encoding: "Encoding...",
+  uploading: "Uploading...",
+  success: "Uploaded",
+  error: "Failed",
+};
+
+/**
+ * Saves every batch region as its own clip. Speaker, language, source and
+ * tags are entered once for the batch; titles and transcripts come from
+ * the regions. Failed regions can be retried one by one.
+ */
+export function BatchExtractModal({
+  regions,
+  initialSourceUrl = "",
+  getClipAudio,
+  onClose,
+}: BatchExtractModalProps) {
+  const { user, getAuthHeaders, session } = useAuth();
+  const [metadata, setMetadata] = useState<SharedMetadata>(() => {
+    const basicSettings = loadBasicSettings();
+    return {
+      ...basicSettings,
+      sourceUrl: basicSettings.sourceUrl || initialSourceUrl,
+      tags: "",
+    };
+  });
+  const [states, setStates] = useState<Record<string, RegionState>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stateOf = (region: BatchRegion): RegionState =>
+    states[region.id] ?? { status: "pending" };
+
+  const setRegionState = (id: string, state: RegionState) => {
+    setStates((prev) => ({ ...prev, [id]: state }));
+  };
+
+  const handleInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setMetadata((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const processRegion = async (region: BatchRegion) => {
+    if (!region.title.trim()) {
+      setRegionState(region.id, { status: "error", error: "Title is required" });
+      return;
+    }
+
+    try {
+      setRegionState(region.id, { status: "encoding" });
+      const wavFile = new File(
+        [getClipAudio(region.start, region.end)],
+        clipFilename(region.title, "wav"),
+        { type: "audio/wav" }
+      );
+      let clipFile: File;
+      try {
+        clipFile = await convertAudioToCompatibleFormat(wavFile, {
+          monitor: false,
+        });
+      } catch (conversionError) {
+        console.error("Audio conversion failed:", conversionError);
+        clipFile = wavFile; // Fall back to the original WAV
+      }
+
+      setRegionState(region.id, { status: "uploading" });
+      const result = await uploadClip(
+        {
+          ...metadata,
+          file: clipFile,
+          title: region.title,
+          duration: region.end - region.start,
+          transcript: region.transcript,
+          timedTranscript: region.timedTranscript,
+        },
+        getAuthHeaders()
+      );
+      setRegionState(region.id, { status: "success", clip: result.clip });
+    } catch (uploadError) {
+      console.error("Upload error:", uploadError);
+      setRegionState(region.id, {
+        status: "error",
+        error: uploadError instanceof Error ? uploadError.message : "Upload failed",
+      });
+    }
+  };
+
+  const processRegions = async (batch: BatchRegion[]) => {
+    if (!user || !session?.access_token) {
+      setError("Please wait for authentication to complete, or try refreshing the page.");
+      return;
+    }
+    if (!metadata.language.trim()) {
+      setError("Language is required");
+      return;
+    }
+
+    setError(null);
+    setIsProcessing(true);
+    saveBasicSettings(metadata);
+
+    for (let i = 0; i < batch.length; i += BATCH_SIZE) {
+      await Promise.all(batch.slice(i, i + BATCH_SIZE).map(processRegion));
+    }
+
+    setIsProcessing(false);
+  };
+
+  const remaining = regions.filter(
+    (region) => stateOf(region).status !== "success"
+  );
+  const uploadedIds = regions
+    .filter((region) => stateOf(region).status === "success")
+    .map((region) => region.id);
+  const errorCount = regions.filter(
+    (region) => stateOf(region).status === "error"
+  ).length;
+  const doneCount = uploadedIds.length + errorCount;
+
+  const handleClose = () => {
+    if (isProcessing) return;
+    onClose(uploadedIds);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h1 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            Upload {regions.length} Clip{regions.length === 1 ? "" : "s"}
+          </h1>
+          <button
+            onClick={handleClose}
+            disabled={isProcessing}
+            className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-md p-1 disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Shared metadata */}
+          <fieldset disabled={isProcessing} className="space-y-4">
+            <div>
+              <label
+                htmlFor="batch-language"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Language *
+              </label>
+              <LanguageSelector
+                value={metadata.language}
+                onChange={(language) =>
+                  setMetadata((prev) => ({ ...prev, language }))
+                }
+                required
+                className="w-full"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label
+                  htmlFor="batch-speakerGender"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Speaker Gender
+                </label>
+                <select
+                  id="batch-speakerGender"
+                  name="speakerGender"
+                  value={metadata.speakerGender}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="">Select gender</option>
+                  <option value="male">Male</option>
+                  <option value="female">Female</option>
+                  <option value="other">Other</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="batch-speakerAgeRange"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Speaker Age Range
+                </label>
+                <select
+                  id="batch-speakerAgeRange"
+                  name="speakerAgeRange"
+                  value={metadata.speakerAgeRange}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="">Select age range</option>
+                  <option value="teen">Teen</option>
+                  <option value="younger-adult">Younger Adult</option>
+                  <option value="adult">Adult</option>
+                  <option value="senior">Senior</option>
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="batch-speakerDialect"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Speaker Dialect
+                </label>
+                <input
+                  type="text"
+                  id="batch-speakerDialect"
+                  name="speakerDialect"
+                  value={metadata.speakerDialect}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="e.g., American"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="batch-sourceUrl"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Source URL
+                </label>
+                <input
+                  type="url"
+                  id="batch-sourceUrl"
+                  name="sourceUrl"
+                  value={metadata.sourceUrl}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="https://..."
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="batch-tags"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Tags
+                </label>
+                <input
+                  type="text"
+                  id="batch-tags"
+                  name="tags"
+                  value={metadata.tags}
+                  onChange={handleInputChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="beginner, pronunciation"
+                />
+              </div>
+            </div>
+          </fieldset>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          {/* Progress */}
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>
+                {uploadedIds.length} of {regions.length} uploaded
+                {errorCount > 0 && (
+                  <span className="text-red-600"> • {errorCount} failed</span>
+                )}
+              </span>
+              {isProcessing && <span>Encoding plays each clip in real time</span>}
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
+                style={{
+                  width: `${regions.length > 0 ? (doneCount / regions.length) * 100 : 0}%`,
+                }}
+              />
+            </div>
+          </div>
+
+          {/* Regions */}
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {regions.map((region) => {
+              const state = stateOf(region);
+              return (
+                <div
+                  key={region.id}
+                  className={`p-3 rounded-md border ${
+                    state.status === "success"
+                      ? "bg-green-50 border-green-200"
+                      : state.status === "error"
+                      ? "bg-red-50 border-red-200"
+                      : state.status === "pending"
+                      ? "bg-gray-50 border-gray-200"
+                      : "bg-blue-50 border-blue-200"
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    {state.status === "success" && (
+                      <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                    )}
+                    {state.status === "error" && (
+                      <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                    )}
+                    {(state.status === "encoding" || state.status === "uploading") && (
+                      <Loader2 className="w-5 h-5 text-blue-600 animate-spin flex-shrink-0" />
+                    )}
+                    {state.status === "pending" && (
+                      <div className="w-5 h-5 border-2 border-gray-300 rounded-full flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {region.title || "Untitled"}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {(region.end - region.start).toFixed(1)}s •{" "}
+                        {STATUS_LABELS[state.status]}
+                      </p>
+                      {state.error && (
+                        <p className="text-xs text-red-600 mt-1">{state.error}</p>
+                      )}
+                    </div>
+                    {state.status === "error" && (
+                      <button
+                        onClick={() => processRegions([region])}
+                        disabled={isProcessing}
+                        className="flex items-center gap-1 px-2 py-1 bg-red-100 text-red-700 rounded-md hover:bg-red-200 text-xs font-medium disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Retry
+                      </button>
+                    )}
+                    {state.status === "success" && state.clip && (
+                      <a
+                        href={`/chorus/${state.clip.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="p-2 text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 rounded-md transition-colors"
+                        title="View clip"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isProcessing}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {remaining.length === 0 ? "Done" : "Close"}
+            </button>
+            {remaining.length > 0 && (
+              <button
+                type="button"
+                onClick={() => processRegions(remaining)}
+                disabled={isProcessing || !user}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {isProcessing ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    Uploading...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="w-4 h-4" />
+                    {remaining.length === regions.length
+                      ? `Upload ${remaining.length} Clip${remaining.length === 1 ? "" : "s"}`
+                      : `Upload ${remaining.length} Remaining`}
+                  </>
+                )}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
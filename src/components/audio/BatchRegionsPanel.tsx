@@ -0,0 +1,134 @@
+"use client";
+
+import { Play, Trash2, Upload } from "lucide-react";
+import type { TimedTranscript } from "@/types/audio";
+
+// A named region of the source file waiting to be saved as a clip
+export interface BatchRegion {
+  id: string;
+  title: string;
+  start: number;
+  end: number;
+  transcript: string;
+  timedTranscript?: TimedTranscript; // already cut to the region
+}
+
+interface BatchRegionsPanelProps {
+  regions: BatchRegion[];
+  onRegionsChange: (regions: BatchRegion[]) => void;
+  onPlay: (region: BatchRegion) => void;
+  onExtract: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 100);
+  return `${mins}:${secs.toString().padStart(2, "0")}.${ms
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+/**
+ * Regions collected for batch extraction, each with its own title and
+ * transcript. Everything else about the clips is set once for the whole
+ * batch when they are uploaded.
+ */
+export function BatchRegionsPanel({
+  regions,
+  onRegionsChange,
+  onPlay,
+  onExtract,
+}: BatchRegionsPanelProps) {
+  const updateRegion = (id: string, changes: Partial<BatchRegion>) => {
+    onRegionsChange(
+      regions.map((region) =>
+        region.id === id ? { ...region, ...changes } : region
+      )
+    );
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900">
+          Batch ({regions.length} region{regions.length === 1 ? "" : "s"})
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onRegionsChange([])}
+            className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 text-sm font-medium"
+          >
+            Clear
+          </button>
+          <button
+            onClick={onExtract}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Extract & Upload {regions.length} Clip
+            {regions.length === 1 ? "" : "s"}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-2">
+        {regions.map((region, index) => (
+          <div
+            key={region.id}
+            className="bg-white rounded-md border border-gray-200 p-3 space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              <span className="w-8 text-sm text-gray-400">#{index + 1}</span>
+              <input
+                type="text"
+                value={region.title}
+                onChange={(e) => updateRegion(region.id, { title: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="Clip title"
+                aria-label={`Title of region ${index + 1}`}
+              />
+              <span className="font-mono text-xs text-gray-500 whitespace-nowrap">
+                {formatTime(region.start)} - {formatTime(region.end)}
+              </span>
+              <button
+                onClick={() => onPlay(region)}
+                className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label={`Play region ${index + 1}`}
+              >
+                <Play className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() =>
+                  onRegionsChange(regions.filter((r) => r.id !== region.id))
+                }
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500"
+                aria-label={`Remove region ${index + 1}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea
+              value={region.transcript}
+              onChange={(e) =>
+                updateRegion(region.id, { transcript: e.target.value })
+              }
+              rows={2}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="What is said in this region?"
+              aria-label={`Transcript of region ${index + 1}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-600 space-y-1">
+        <p>
+          <strong>💡 Batch:</strong> Select a region and press{" "}
+          <kbd className="keyboard-hint">B</kbd> to add it here. Language,
+          speaker, source and tags are shared by the whole batch.
+        </p>
+      </div>
+    </div>
+  );
+}
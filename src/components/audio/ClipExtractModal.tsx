@@ -6,7 +6,15 @@ import { useAuth } from "@/lib/auth";
 import { LanguageSelector } from "@/components/ui/LanguageSelector";
 import { AudioPlayer } from "@/components/audio/AudioPlayer";
 import Link from "next/link";
-import type { AudioMetadata } from "@/types/audio";
+import type { AudioMetadata, TimedTranscript } from "@/types/audio";
+import {
+  loadBasicSettings,
+  saveBasicSettings,
+  uploadClip,
+  clipFilename,
+  type SpeakerGender,
+  type SpeakerAgeRange,
+} from "@/lib/audio/clip-upload";
 import { createClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/supabase";
 
@@ -17,6 +25,7 @@ interface ClipExtractModalProps {
   duration: number;
   originalFilename: string;
   initialTranscript?: string;
+  initialTimedTranscript?: TimedTranscript;
   initialSourceUrl?: string;
   onSuccess?: () => void;
 }
@@ -24,24 +33,14 @@ interface ClipExtractModalProps {
 interface ExtractFormData {
   title: string;
   language: string;
-  speakerGender: "male" | "female" | "other" | "";
-  speakerAgeRange: "teen" | "younger-adult" | "adult" | "senior" | "";
+  speakerGender: SpeakerGender;
+  speakerAgeRange: SpeakerAgeRange;
   speakerDialect: string;
   transcript: string;
   sourceUrl: string;
   tags: string;
 }
 
-const STORAGE_KEY = 'clipCreator_lastBasicSettings';
-
-interface BasicSettings {
-  language: string;
-  speakerGender: string;
-  speakerAgeRange: string;
-  speakerDialect: string;
-  sourceUrl: string;
-}
-
 // Helper function to generate title suggestions
 const generateTitleSuggestions = (transcript: string, filename?: string): string[] => {
   const suggestions: string[] = [];
@@ -88,6 +87,7 @@ export function ClipExtractModal({
   duration,
   originalFilename,
   initialTranscript = "",
+  initialTimedTranscript,
   initialSourceUrl = "",
   onSuccess,
 }: ClipExtractModalProps) {
@@ -99,49 +99,14 @@ export function ClipExtractModal({
   const [converting, setConverting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
 
-  // Load basic settings from sessionStorage
-  const loadBasicSettings = (): BasicSettings => {
-    try {
-      const stored = sessionStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        return JSON.parse(stored);
-      }
-    } catch (error) {
-      console.error('Failed to load basic settings from sessionStorage:', error);
-    }
-    return {
-      language: '',
-      speakerGender: '',
-      speakerAgeRange: '',
-      speakerDialect: '',
-      sourceUrl: '',
-    };
-  };
-
   const basicSettings = loadBasicSettings();
 
-  // Validate and cast speakerGender to the expected type
-  const getValidSpeakerGender = (value: string): "male" | "female" | "other" | "" => {
-    if (value === "male" || value === "female" || value === "other" || value === "") {
-      return value;
-    }
-    return "";
-  };
-
-  // Validate and cast speakerAgeRange to the expected type
-  const getValidSpeakerAgeRange = (value: string): "teen" | "younger-adult" | "adult" | "senior" | "" => {
-    if (value === "teen" || value === "younger-adult" || value === "adult" || value === "senior" || value === "") {
-      return value;
-    }
-    return "";
-  };
-
   const [formData, setFormData] = useState<ExtractFormData>({
     title: `Clip from ${originalFilename.replace(/\.[^/.]+$/, "")}`,
-    language: basicSettings.language || "",
-    speakerGender: getValidSpeakerGender(basicSettings.speakerGender || ""),
-    speakerAgeRange: getValidSpeakerAgeRange(basicSettings.speakerAgeRange || ""),
-    speakerDialect: basicSettings.speakerDialect || "",
+    language: basicSettings.language,
+    speakerGender: basicSettings.speakerGender,
+    speakerAgeRange: basicSettings.speakerAgeRange,
+    speakerDialect: basicSettings.speakerDialect,
     transcript: initialTranscript,
     sourceUrl: basicSettings.sourceUrl || initialSourceUrl,
     tags: "",
@@ -316,14 +281,7 @@ export function ClipExtractModal({
 
     try {
       // Create a File object from the processed blob
-      const timestamp = new Date()
-        .toISOString()
-        .replace(/[:.]/g, "-")
-        .slice(0, -5);
-      const filename = `${formData.title.replace(
-        /[^a-zA-Z0-9\-_]/g,
-        "_"
-      )}_${timestamp}.mp3`;
+      const filename = clipFilename(formData.title, "mp3");
 
       const clipFile = new File([mp3Blob], filename, {
         type: "audio/mpeg",
@@ -339,12 +297,6 @@ export function ClipExtractModal({
         clipFile.type
       );
 
-      // Prepare form data for upload (reusing existing upload API)
-      const uploadFormData = new FormData();
-      uploadFormData.append("file", clipFile);
-      uploadFormData.append("title", formData.title.trim());
-      uploadFormData.append("duration", duration.toString());
-
       console.log("📤 Sending to server:", {
         title: formData.title.trim(),
         duration: duration,
@@ -352,43 +304,20 @@ export function ClipExtractModal({
         fileName: clipFile.name,
         fileSize: clipFile.size,
       });
-      uploadFormData.append("language", formData.language);
-      uploadFormData.append("speakerGender", formData.speakerGender);
-      uploadFormData.append("speakerAgeRange", formData.speakerAgeRange);
-      uploadFormData.append("speakerDialect", formData.speakerDialect.trim());
-      uploadFormData.append("transcript", formData.transcript.trim());
-      uploadFormData.append("sourceUrl", formData.sourceUrl.trim());
-      uploadFormData.append("tags", formData.tags.trim());
-
-      const response = await fetch("/api/upload", {
-        method: "POST",
-        headers: {
-          ...getAuthHeaders(),
-        },
-        body: uploadFormData,
-      });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Upload failed");
-      }
-
-      const result = await response.json();
+      const result = await uploadClip(
+        {
+          ...formData,
+          file: clipFile,
+          duration,
+          timedTranscript: initialTimedTranscript,
+        },
+        getAuthHeaders()
+      );
       console.log("Upload successful:", result);
 
       // Save basic settings to sessionStorage
-      try {
-        const basicSettingsToSave: BasicSettings = {
-          language: formData.language,
-          speakerGender: formData.speakerGender,
-          speakerAgeRange: formData.speakerAgeRange,
-          speakerDialect: formData.speakerDialect,
-          sourceUrl: formData.sourceUrl,
-        };
-        sessionStorage.setItem(STORAGE_KEY, JSON.stringify(basicSettingsToSave));
-      } catch (error) {
-        console.error('Failed to save basic settings to sessionStorage:', error);
-      }
+      saveBasicSettings(formData);
 
       // Success!
       setShowSuccess(true);
@@ -406,10 +335,10 @@ export function ClipExtractModal({
     const basicSettings = loadBasicSettings();
     setFormData({
       title: "",
-      language: basicSettings.language || "",
-      speakerGender: getValidSpeakerGender(basicSettings.speakerGender || ""),
-      speakerAgeRange: getValidSpeakerAgeRange(basicSettings.speakerAgeRange || ""),
-      speakerDialect: basicSettings.speakerDialect || "",
+      language: basicSettings.language,
+      speakerGender: basicSettings.speakerGender,
+      speakerAgeRange: basicSettings.speakerAgeRange,
+      speakerDialect: basicSettings.speakerDialect,
       transcript: initialTranscript || "",
       sourceUrl: basicSettings.sourceUrl || initialSourceUrl || "",
       tags: "",
@@ -637,6 +566,16 @@ export function ClipExtractModal({
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
               placeholder="What is said in this audio clip?"
             />
+            {initialTimedTranscript && (
+              <p className="mt-1 text-xs text-gray-500">
+                Word timings from the timed transcript (
+                {initialTimedTranscript.segments.length}{" "}
+                {initialTimedTranscript.segments.length === 1
+                  ? "segment"
+                  : "segments"}
+                ) are saved with the clip for karaoke playback.
+              </p>
+            )}
           </div>
 
           {/* Source URL */}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+import type { DivergenceKind, DivergentRegion } from "@/types/audio";
+import { getVisibleWindow, onWaveformViewChange } from "@/lib/audio/waveform-view";
+
+interface DivergenceOverlayProps {
+  wavesurfer: any | null;
+  duration: number;
+  regions: DivergentRegion[];
+  height: number;
+}
+
+export const DIVERGENCE_COLORS: Record<DivergenceKind, string> = {
+  timing: "220, 38, 38", // red-600
+  intonation: "217, 119, 6", // amber-600
+  pronunciation: "147, 51, 234", // purple-600
+};
+
+/**
+ * Shades the parts of a WaveSurfer waveform where a take diverged most from
+ * the clip. Follows the waveform's zoom and scroll position.
+ */
+export function DivergenceOverlay({
+  wavesurfer,
+  duration,
+  regions,
+  height,
+}: DivergenceOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || duration <= 0) return;
+
+    const cssWidth = canvas.clientWidth;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(cssWidth * dpr);
+    canvas.height = Math.round(height * dpr);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, cssWidth, height);
+
+    const { start: visibleStart, end: visibleEnd } = getVisibleWindow(
+      wavesurfer,
+      duration,
+      cssWidth
+    );
+    const span = visibleEnd - visibleStart;
+    if (span <= 0) return;
+
+    for (const region of regions) {
+      if (region.end < visibleStart || region.start > visibleEnd) continue;
+      const x1 = ((Math.max(region.start, visibleStart) - visibleStart) / span) * cssWidth;
+      const x2 = ((Math.min(region.end, visibleEnd) - visibleStart) / span) * cssWidth;
+      const color = DIVERGENCE_COLORS[region.kind];
+      ctx.fillStyle = `rgba(${color}, ${0.1 + 0.15 * region.severity})`;
+      ctx.fillRect(x1, 0, Math.max(2, x2 - x1), height);
+      ctx.fillStyle = `rgba(${color}, 0.8)`;
+      ctx.fillRect(x1, height - 3, Math.max(2, x2 - x1), 3);
+    }
+  }, [wavesurfer, duration, regions, height]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  // Redraw when the waveform is zoomed, scrolled or resized
+  useEffect(
+    () => onWaveformViewChange(wavesurfer, canvasRef.current, draw),
+    [wavesurfer, draw]
+  );
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 left-0 w-full pointer-events-none z-[4]"
+      style={{ height }}
+      aria-hidden="true"
+    />
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+import type { PitchContour } from "@/types/audio";
+import { getVisibleWindow, onWaveformViewChange } from "@/lib/audio/waveform-view";
+
+export interface PitchTrace {
+  contour: PitchContour;
+  color: string;
+  offset?: number; // seconds on the waveform timeline where the contour starts
+  timeScale?: number; // waveform seconds per contour second (e.g. playback rate)
+}
+
+interface PitchContourOverlayProps {
+  wavesurfer: any | null;
+  duration: number;
+  traces: PitchTrace[];
+  height: number;
+}
+
+// Never squash the curve into less than an octave of vertical space
+const MIN_RANGE_SEMITONES = 12;
+const PADDING_SEMITONES = 1;
+
+const toSemitones = (hz: number) => 12 * Math.log2(hz / 55);
+
+/**
+ * Draws pitch curves on a canvas laid over a WaveSurfer waveform.
+ * Follows the waveform's zoom and scroll position.
+ */
+export function PitchContourOverlay({
+  wavesurfer,
+  duration,
+  traces,
+  height,
+}: PitchContourOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || duration <= 0) return;
+
+    const cssWidth = canvas.clientWidth;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(cssWidth * dpr);
+    canvas.height = Math.round(height * dpr);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, cssWidth, height);
+
+    // Visible time window of the (possibly zoomed) waveform
+    const { start: visibleStart, end: visibleEnd } = getVisibleWindow(
+      wavesurfer,
+      duration,
+      cssWidth
+    );
+    const span = visibleEnd - visibleStart;
+    if (span <= 0) return;
+
+    // Shared vertical (semitone) scale so curves are comparable
+    let low = Infinity;
+    let high = -Infinity;
+    for (const trace of traces) {
+      for (const f of trace.contour.frequencies) {
+        if (f <= 0) continue;
+        const st = toSemitones(f);
+        if (st < low) low = st;
+        if (st > high) high = st;
+      }
+    }
+    if (!isFinite(low)) return;
+    low -= PADDING_SEMITONES;
+    high += PADDING_SEMITONES;
+    if (high - low < MIN_RANGE_SEMITONES) {
+      const mid = (high + low) / 2;
+      low = mid - MIN_RANGE_SEMITONES / 2;
+      high = mid + MIN_RANGE_SEMITONES / 2;
+    }
+    const yFor = (f: number) =>
+      height - ((toSemitones(f) - low) / (high - low)) * height;
+
+    ctx.lineWidth = 2;
+    ctx.lineJoin = "round";
+    for (const trace of traces) {
+      const { hopSize, frequencies } = trace.contour;
+      const offset = trace.offset ?? 0;
+      const timeScale = trace.timeScale ?? 1;
+      ctx.strokeStyle = trace.color;
+      ctx.beginPath();
+      let penDown = false;
+      for (let i = 0; i < frequencies.length; i++) {
+        const f = frequencies[i];
+        const t = offset + i * hopSize * timeScale;
+        if (f <= 0 || t < visibleStart || t > visibleEnd) {
+          penDown = false;
+          continue;
+        }
+        const x = ((t - visibleStart) / span) * cssWidth;
+        const y = yFor(f);
+        if (penDown) {
+          ctx.lineTo(x, y);
+        } else {
+          ctx.moveTo(x, y);
+          penDown = true;
+        }
+      }
+      ctx.stroke();
+    }
+
+    // Range labels
+    ctx.fillStyle = "rgba(55, 65, 81, 0.7)";
+    ctx.font = "10px ui-monospace, monospace";
+    const hzFor = (st: number) => Math.round(55 * Math.pow(2, st / 12));
+    ctx.fillText(`${hzFor(high)} Hz`, 4, 11);
+    ctx.fillText(`${hzFor(low)} Hz`, 4, height - 4);
+  }, [wavesurfer, duration, traces, height]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  // Redraw when the waveform is zoomed, scrolled or resized
+  useEffect(
+    () => onWaveformViewChange(wavesurfer, canvasRef.current, draw),
+    [wavesurfer, draw]
+  );
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 left-0 w-full pointer-events-none z-[5]"
+      style={{ height }}
+      aria-hidden="true"
+    />
+  );
+}
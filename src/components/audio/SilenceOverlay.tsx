@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+import type { EnergyEnvelope } from "@/lib/audio/silence";
+import { getVisibleWindow, onWaveformViewChange } from "@/lib/audio/waveform-view";
+
+interface SilenceOverlayProps {
+  wavesurfer: any | null;
+  duration: number;
+  envelope: EnergyEnvelope;
+  thresholdDb: number;
+  height: number;
+}
+
+// Vertical dB scale of the level curve
+const FLOOR_DB = -80;
+
+/**
+ * Live preview of the silence threshold: draws the loudness curve on a
+ * dB scale, the threshold as a dashed line, and shades everything that
+ * counts as silence. Follows the waveform's zoom and scroll position.
+ */
+export function SilenceOverlay({
+  wavesurfer,
+  duration,
+  envelope,
+  thresholdDb,
+  height,
+}: SilenceOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || duration <= 0) return;
+
+    const cssWidth = canvas.clientWidth;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(cssWidth * dpr);
+    canvas.height = Math.round(height * dpr);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, cssWidth, height);
+
+    const { start, end } = getVisibleWindow(wavesurfer, duration, cssWidth);
+    const span = end - start;
+    if (span <= 0 || cssWidth <= 0) return;
+
+    const { frameSeconds, db } = envelope;
+    const yFor = (level: number) =>
+      height - (Math.max(level - FLOOR_DB, 0) / -FLOOR_DB) * height;
+
+    // Loudest frame under each pixel column
+    const columns = Math.ceil(cssWidth);
+    const levels = new Float32Array(columns).fill(-Infinity);
+    const firstFrame = Math.max(0, Math.floor(start / frameSeconds));
+    const lastFrame = Math.min(db.length - 1, Math.ceil(end / frameSeconds));
+    for (let f = firstFrame; f <= lastFrame; f++) {
+      const x = Math.floor(((f * frameSeconds - start) / span) * cssWidth);
+      if (x >= 0 && x < columns && db[f] > levels[x]) levels[x] = db[f];
+    }
+
+    // Silence shading
+    ctx.fillStyle = "rgba(107, 114, 128, 0.15)";
+    for (let x = 0; x < columns; x++) {
+      if (levels[x] !== -Infinity && levels[x] < thresholdDb) {
+        ctx.fillRect(x, 0, 1, height);
+      }
+    }
+
+    // Level curve
+    ctx.strokeStyle = "rgba(217, 119, 6, 0.6)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    let penDown = false;
+    for (let x = 0; x < columns; x++) {
+      if (levels[x] === -Infinity) {
+        penDown = false;
+        continue;
+      }
+      const y = yFor(levels[x]);
+      if (penDown) {
+        ctx.lineTo(x, y);
+      } else {
+        ctx.moveTo(x, y);
+        penDown = true;
+      }
+    }
+    ctx.stroke();
+
+    // Threshold
+    const thresholdY = yFor(thresholdDb);
+    ctx.strokeStyle = "rgba(217, 119, 6, 0.9)";
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(0, thresholdY);
+    ctx.lineTo(cssWidth, thresholdY);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = "rgba(55, 65, 81, 0.7)";
+    ctx.font = "10px ui-monospace, monospace";
+    ctx.fillText(`${thresholdDb} dB`, 4, Math.max(11, thresholdY - 3));
+  }, [wavesurfer, duration, envelope, thresholdDb, height]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  // Redraw when the waveform is zoomed, scrolled or resized
+  useEffect(
+    () => onWaveformViewChange(wavesurfer, canvasRef.current, draw),
+    [wavesurfer, draw]
+  );
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 left-0 w-full pointer-events-none z-[5]"
+      style={{ height }}
+      aria-hidden="true"
+    />
+  );
+}
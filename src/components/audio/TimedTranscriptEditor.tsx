@@ -0,0 +1,373 @@
+"use client";
+
+import { useEffect, useRef, useState, useCallback, useMemo } from "react";
+import {
+  Upload,
+  Timer,
+  Undo2,
+  X,
+  AlertCircle,
+  ListPlus,
+} from "lucide-react";
+import type { TimedTranscript } from "@/types/audio";
+import {
+  parseSubtitles,
+  splitTapUnits,
+  applyTapTimes,
+  tapUnitsText,
+  findTranscriptPosition,
+} from "@/lib/timed-transcript";
+
+interface TimedTranscriptEditorProps {
+  transcript: TimedTranscript | null;
+  onChange: (transcript: TimedTranscript | null) => void;
+  currentTime: number;
+  duration: number;
+  // Read at the moment of a tap - currentTime state lags behind playback
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+  // Cues (segment indexes) picked for batch extraction
+  selectedCues: Set<number>;
+  onSelectedCuesChange: (cues: Set<number>) => void;
+  onAddCuesToBatch: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 100);
+  return `${mins}:${secs.toString().padStart(2, "0")}.${ms
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+/**
+ * Timed transcript for the source file: import SRT/WebVTT subtitles or
+ * tap word boundaries while the audio plays. Times are source-file time;
+ * AudioEditor cuts them to the selected region when a clip is extracted.
+ */
+export function TimedTranscriptEditor({
+  transcript,
+  onChange,
+  currentTime,
+  duration,
+  getCurrentTime,
+  onSeek,
+  selectedCues,
+  onSelectedCuesChange,
+  onAddCuesToBatch,
+}: TimedTranscriptEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tapText, setTapText] = useState("");
+  const [isTapping, setIsTapping] = useState(false);
+  const [taps, setTaps] = useState<number[]>([]);
+
+  const tapLines = useMemo(() => splitTapUnits(tapText), [tapText]);
+  const tapWords = useMemo(() => tapLines.flat(), [tapLines]);
+
+  const activeSegment = useMemo(
+    () =>
+      transcript
+        ? findTranscriptPosition(transcript, currentTime)?.segmentIndex ?? null
+        : null,
+    [transcript, currentTime]
+  );
+
+  // Subtitles loaded elsewhere (e.g. with a YouTube download) become the
+  // text to re-time unless some has been typed already
+  useEffect(() => {
+    if (transcript) {
+      setTapText((prev) => prev || tapUnitsText(transcript));
+    }
+  }, [transcript]);
+
+  const toggleCue = (index: number) => {
+    const next = new Set(selectedCues);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    onSelectedCuesChange(next);
+  };
+
+  const handleImport = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+
+      try {
+        const imported = parseSubtitles(await file.text());
+        setError(null);
+        setIsTapping(false);
+        setTapText(tapUnitsText(imported));
+        onChange(imported);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to read subtitle file"
+        );
+      }
+    },
+    [onChange]
+  );
+
+  const startTapping = useCallback(() => {
+    if (tapWords.length === 0) {
+      setError("Enter the text to time first, one phrase per line");
+      return;
+    }
+    setError(null);
+    setTaps([]);
+    setIsTapping(true);
+  }, [tapWords.length]);
+
+  // One tap per word start, plus a final tap for the end of the last word
+  const tap = useCallback(() => {
+    const time = getCurrentTime();
+    // Ignore taps after seeking backwards
+    if (taps.length > 0 && time < taps[taps.length - 1]) return;
+
+    const next = [...taps, time];
+    setTaps(next);
+    if (next.length > tapWords.length) {
+      onChange(applyTapTimes(tapLines, taps, time));
+      setIsTapping(false);
+    }
+  }, [getCurrentTime, taps, tapLines, tapWords.length, onChange]);
+
+  const undoTap = useCallback(() => {
+    setTaps((prev) => prev.slice(0, -1));
+  }, []);
+
+  // Stopping early keeps the words tapped so far
+  const finishTapping = useCallback(() => {
+    if (taps.length > 0) {
+      onChange(applyTapTimes(tapLines, taps, Math.min(getCurrentTime(), duration)));
+    }
+    setIsTapping(false);
+  }, [taps, tapLines, getCurrentTime, duration, onChange]);
+
+  useEffect(() => {
+    if (!isTapping) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+      if (e.code === "KeyT") {
+        e.preventDefault();
+        tap();
+      } else if (e.code === "Backspace") {
+        e.preventDefault();
+        undoTap();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isTapping, tap, undoTap]);
+
+  const nextWordIndex = taps.length;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Timed Transcript</h3>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".srt,.vtt,text/vtt"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isTapping}
+            className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            Import SRT/VTT
+          </button>
+          {transcript && !isTapping && (
+            <button
+              onClick={() => onChange(null)}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 text-sm font-medium"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {/* Segments */}
+      {transcript && !isTapping && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-600">
+              {selectedCues.size} of {transcript.segments.length} cues selected
+            </span>
+            <button
+              onClick={() =>
+                onSelectedCuesChange(
+                  new Set(transcript.segments.map((_, index) => index))
+                )
+              }
+              className="text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              All
+            </button>
+            <button
+              onClick={() => onSelectedCuesChange(new Set())}
+              disabled={selectedCues.size === 0}
+              className="text-indigo-600 hover:text-indigo-700 font-medium disabled:opacity-50"
+            >
+              None
+            </button>
+            <button
+              onClick={onAddCuesToBatch}
+              disabled={selectedCues.size === 0}
+              className="ml-auto flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+            >
+              <ListPlus className="w-4 h-4" />
+              Add {selectedCues.size || ""} Cue
+              {selectedCues.size === 1 ? "" : "s"} to Batch
+            </button>
+          </div>
+
+          <div className="max-h-48 overflow-y-auto bg-white rounded-md border border-gray-200 divide-y divide-gray-100">
+            {transcript.segments.map((segment, index) => (
+              <div
+                key={`${segment.start}-${index}`}
+                className={`flex items-start gap-2 px-3 hover:bg-indigo-50 ${
+                  index === activeSegment ? "bg-indigo-50" : ""
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedCues.has(index)}
+                  onChange={() => toggleCue(index)}
+                  className="mt-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  aria-label={`Select cue ${index + 1}`}
+                />
+                <button
+                  onClick={() => onSeek(segment.start)}
+                  className="flex-1 text-left py-1.5 text-sm flex gap-3"
+                >
+                  <span className="font-mono text-xs text-gray-500 pt-0.5 shrink-0">
+                    {formatTime(segment.start)}
+                  </span>
+                  <span className="text-gray-800">
+                    {segment.text}
+                    {segment.words && (
+                      <span className="ml-2 text-xs text-gray-400">
+                        {segment.words.length} timed
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Tap-to-time */}
+      {isTapping ? (
+        <div className="space-y-3">
+          <div className="bg-white rounded-md border border-gray-200 p-3 text-sm leading-relaxed">
+            {tapWords.map((word, index) => (
+              <span
+                key={index}
+                className={`mr-1.5 px-0.5 rounded ${
+                  index < nextWordIndex
+                    ? "text-gray-400"
+                    : index === nextWordIndex
+                    ? "bg-indigo-100 text-indigo-800 font-medium"
+                    : "text-gray-800"
+                }`}
+              >
+                {word}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={tap}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium"
+            >
+              {nextWordIndex < tapWords.length
+                ? `Tap: "${tapWords[nextWordIndex]}" starts`
+                : "Tap: end of last word"}
+            </button>
+            <button
+              onClick={undoTap}
+              disabled={taps.length === 0}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+            >
+              <Undo2 className="w-4 h-4" />
+              Undo
+            </button>
+            <button
+              onClick={finishTapping}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 text-sm font-medium"
+            >
+              <X className="w-4 h-4" />
+              Stop
+            </button>
+            <span className="text-xs text-gray-500">
+              {taps.length}/{tapWords.length + 1} taps
+            </span>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <textarea
+            value={tapText}
+            onChange={(e) => setTapText(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+            placeholder="Text to time - one phrase per line, spaces between the units to tap (e.g. 私 は 学生 です)"
+          />
+          <button
+            onClick={startTapping}
+            disabled={tapWords.length === 0}
+            className="flex items-center gap-2 px-3 py-2 bg-indigo-100 text-indigo-700 rounded-md hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+          >
+            <Timer className="w-4 h-4" />
+            Tap to Time Words
+          </button>
+        </div>
+      )}
+
+      <div className="text-xs text-gray-600 space-y-1">
+        <p>
+          <strong>💡 How to time:</strong> Play the audio and tap as each word
+          starts, then once more when the last word ends
+        </p>
+        <p>
+          <kbd className="keyboard-hint">T</kbd> Tap •{" "}
+          <kbd className="keyboard-hint">Backspace</kbd> Undo tap • Timings
+          are cut to the selection when you extract a clip
+        </p>
+        <p>
+          <strong>✂️ Cues:</strong> Click cues in the green strip under the
+          waveform (or tick them here), then add them to the batch - each
+          one becomes a clip with its text as the title and transcript
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   CheckCircle,
   Music,
   Clock,
+  Captions,
   Cookie,
   Upload,
   Trash2,
@@ -26,7 +27,8 @@ interface VideoInfo {
 }
 
 interface YouTubeDownloaderProps {
-  onAudioReady: (file: File, sourceUrl: string) => void;
+  // `subtitles` is the raw WebVTT text when subtitles were requested and found
+  onAudioReady: (file: File, sourceUrl: string, subtitles?: string) => void;
 }
 
 export function YouTubeDownloader({ onAudioReady }: YouTubeDownloaderProps) {
@@ -36,6 +38,7 @@ export function YouTubeDownloader({ onAudioReady }: YouTubeDownloaderProps) {
   const [downloading, setDownloading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<string>("");
+  const [subtitleLanguage, setSubtitleLanguage] = useState("");
   const [needsCookies, setNeedsCookies] = useState(false);
   const [hasCookies, setHasCookies] = useState(false);
   const [cookieUploading, setCookieUploading] = useState(false);
@@ -102,11 +105,17 @@ export function YouTubeDownloader({ onAudioReady }: YouTubeDownloaderProps) {
       const res = await fetch("/api/youtube-download", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: videoInfo.url, title: videoInfo.title }),
+        body: JSON.stringify({
+          url: videoInfo.url,
+          title: videoInfo.title,
+          ...(subtitleLanguage.trim() && {
+            subtitleLanguage: subtitleLanguage.trim(),
+          }),
+        }),
       });
+      const data = await res.json();
 
       if (!res.ok) {
-        const data = await res.json();
         if (data.needsCookies) {
           setNeedsCookies(true);
         }
@@ -115,17 +124,32 @@ export function YouTubeDownloader({ onAudioReady }: YouTubeDownloaderProps) {
 
       setProgress("Processing audio file...");
 
-      const blob = await res.blob();
-      const titleHeader = res.headers.get("X-Audio-Title");
-      const title = titleHeader ? decodeURIComponent(titleHeader) : videoInfo.title;
+      const audioRes = await fetch(data.url);
+      if (!audioRes.ok) {
+        throw new Error("Failed to load downloaded audio");
+      }
+      const blob = await audioRes.blob();
+      const title = data.title || videoInfo.title;
       const filename = `${title}.mp3`;
 
       const file = new File([blob], filename, { type: "audio/mpeg" });
 
-      setProgress("Audio ready!");
+      let subtitles: string | undefined;
+      if (data.subtitlesUrl) {
+        const subtitlesRes = await fetch(data.subtitlesUrl);
+        if (subtitlesRes.ok) {
+          subtitles = await subtitlesRes.text();
+        }
+      }
+
+      setProgress(
+        subtitleLanguage.trim() && !subtitles
+          ? "Audio ready! (no subtitles found)"
+          : "Audio ready!"
+      );
 
       setTimeout(() => {
-        onAudioReady(file, videoInfo.url);
+        onAudioReady(file, videoInfo.url, subtitles);
       }, 500);
     } catch (err: any) {
       setError(err.message || "Download failed");
@@ -395,7 +419,25 @@ export function YouTubeDownloader({ onAudioReady }: YouTubeDownloaderProps) {
             </div>
           </div>
 
-          <div className="px-4 pb-4">
+          <div className="px-4 pb-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <Captions className="w-4 h-4 text-gray-500" />
+              <label
+                htmlFor="subtitle-language"
+                className="text-sm text-gray-700"
+              >
+                Subtitles
+              </label>
+              <input
+                id="subtitle-language"
+                type="text"
+                value={subtitleLanguage}
+                onChange={(e) => setSubtitleLanguage(e.target.value)}
+                placeholder="Language code, e.g. ja (optional)"
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                disabled={downloading}
+              />
+            </div>
             <button
               onClick={handleDownload}
               disabled={downloading}
@@ -418,10 +460,15 @@ export function YouTubeDownloader({ onAudioReady }: YouTubeDownloaderProps) {
       )}
 
       {/* Success indicator */}
-      {progress === "Audio ready!" && (
+      {progress.startsWith("Audio ready!") && (
         <div className="p-3 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2 text-green-700">
           <CheckCircle className="w-4 h-4" />
-          <span className="text-sm">Audio downloaded! Opening editor...</span>
+          <span className="text-sm">
+            Audio downloaded!
+            {progress.includes("no subtitles") &&
+              " No subtitles in that language."}{" "}
+            Opening editor...
+          </span>
         </div>
       )}
     </div>
@@ -1,11 +1,15 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { User, LogOut, ChevronDown } from 'lucide-react';
+import Link from 'next/link';
+import { User, LogOut, ChevronDown, ShieldCheck, Flag, Keyboard } from 'lucide-react';
 import { useAuth } from '@/lib/auth';
+import { useKeyboardShortcuts } from '@/lib/keyboard-shortcuts';
+import { can } from '@/lib/permissions';
 
 export function UserMenu() {
   const { user, logout } = useAuth();
+  const { openCheatSheet } = useKeyboardShortcuts();
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -44,7 +48,38 @@ export function UserMenu() {
           <div className="py-1">
             <div className="px-4 py-2 text-sm text-gray-500 border-b border-gray-100">
               Signed in as <span className="font-medium text-gray-900">{user.username}</span>
+              {user.role && <div className="text-xs capitalize">{user.role}</div>}
             </div>
+            {can(user, 'clips.moderate') && (
+              <Link
+                href="/moderation"
+                onClick={() => setIsOpen(false)}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+              >
+                <Flag className="w-4 h-4" />
+                Moderation
+              </Link>
+            )}
+            {can(user, 'users.manageRoles') && (
+              <Link
+                href="/admin/users"
+                onClick={() => setIsOpen(false)}
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                Manage roles
+              </Link>
+            )}
+            <button
+              onClick={() => {
+                openCheatSheet();
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+            >
+              <Keyboard className="w-4 h-4" />
+              Keyboard shortcuts
+            </button>
             <button
               onClick={handleLogout}
               className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
@@ -20,13 +20,32 @@ import {
   Trash2,
   Zap,
   Info,
+  Layers,
+  CheckSquare,
+  Square,
+  Headphones,
 } from "lucide-react";
 import Link from "next/link";
 import { AudioPlayer } from "@/components/audio/AudioPlayer";
 import { EditClipModal } from "./EditClipModal";
+import { AddToDeckModal } from "@/components/decks/AddToDeckModal";
+import { HighlightedText, SearchSnippets } from "./SearchSnippets";
 import { LanguageSelector } from "@/components/ui/LanguageSelector";
 import { useAuth } from "@/lib/auth";
-import type { AudioClip, AudioFilters, AudioSort, FilterPreferences } from "@/types/audio";
+import { can } from "@/lib/permissions";
+import {
+  loadShadowingSession,
+  shadowingUrl,
+  startShadowingSession,
+} from "@/lib/shadowing";
+import type { ShadowingSession } from "@/types/practice";
+import type {
+  AudioClip,
+  AudioFilters,
+  AudioSort,
+  ClipSearchMatch,
+  FilterPreferences,
+} from "@/types/audio";
 
 interface AudioBrowserProps {
   onRefresh?: () => void;
@@ -46,8 +65,12 @@ interface ClipWithStarInfo extends AudioClip {
   userVote?: "up" | "down" | null;
   charactersPerSecond?: number;
   speedCategory?: "slow" | "medium" | "fast";
+  search?: ClipSearchMatch; // present when the list is a search result
 }
 
+// How long typing pauses before the search runs on the server
+const SEARCH_DEBOUNCE_MS = 300;
+
 export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
   const { user, getAuthHeaders } = useAuth();
   const searchParams = useSearchParams();
@@ -57,6 +80,9 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
   const [clips, setClips] = useState<ClipWithStarInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [isFiltering, setIsFiltering] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalClips, setTotalClips] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [preferencesLoading, setPreferencesLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedClip, setExpandedClip] = useState<string | null>(null);
@@ -66,6 +92,18 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     null
   );
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
+  // Clips picked for a deck, in the order they were picked
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedClipIds, setSelectedClipIds] = useState<string[]>([]);
+  const [addToDeckOpen, setAddToDeckOpen] = useState(false);
+  const [addedToDeck, setAddedToDeck] = useState<{ id: string; name: string } | null>(null);
+  // An unfinished shadowing session that can be picked up again
+  const [savedSession, setSavedSession] = useState<ShadowingSession | null>(null);
+
+  useEffect(() => {
+    const session = loadShadowingSession();
+    setSavedSession(session && !session.completedAt ? session : null);
+  }, []);
 
   // Initialize state from URL params
   const [filters, setFilters] = useState<AudioFilters>(() => {
@@ -104,6 +142,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
   const [searchTerm, setSearchTerm] = useState(
     () => searchParams?.get("search") || ""
   );
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(searchTerm);
   const [showFilters, setShowFilters] = useState(true);
   const [showStarred, setShowStarred] = useState(
     () => searchParams?.get("starred") === "true"
@@ -117,9 +156,13 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
   const sortRef = useRef(sort);
   const showStarredRef = useRef(showStarred);
   const showMyUploadsRef = useRef(showMyUploads);
+  const sortBeforeSearchRef = useRef<AudioSort | null>(null);
   const fetchClipsRef = useRef<typeof fetchClips>();
   const clipsLengthRef = useRef(clips.length);
   const fetchCountRef = useRef(0);
+  const listingRef = useRef(0); // bumped for every new listing (first page)
+  const loadingMoreRef = useRef(false);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
 
   // Refs for preference management
   const preferencesLoadedRef = useRef(false);
@@ -178,7 +221,12 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     if (filters.speedFilter) {
       currentPreferences.speedFilter = filters.speedFilter;
     }
-    currentPreferences.defaultSort = sort;
+    // Relevance only means something while searching, so it isn't saved
+    const defaultSort =
+      sort.field === "relevance" ? sortBeforeSearchRef.current : sort;
+    if (defaultSort) {
+      currentPreferences.defaultSort = defaultSort;
+    }
 
     // Check if preferences have changed
     const lastSaved = lastSavedPreferencesRef.current;
@@ -418,8 +466,44 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     loadPreferences();
   }, [user, searchParams, getAuthHeaders, updateURL, searchTerm]);
 
+  // Query string for the clip listing, without the page cursor
+  const buildClipsQuery = useCallback(() => {
+    const params = new URLSearchParams();
+
+    // Add filters
+    if (filters.language) params.append("language", filters.language);
+    if (filters.speakerGender)
+      params.append("speakerGender", filters.speakerGender);
+    if (filters.speakerAgeRange)
+      params.append("speakerAgeRange", filters.speakerAgeRange);
+    if (filters.uploadedBy) params.append("uploadedBy", filters.uploadedBy);
+    if (filters.tags && filters.tags.length > 0) {
+      params.append("tags", filters.tags.join(","));
+    }
+    if (filters.speedFilter) {
+      params.append("speedFilter", filters.speedFilter);
+    }
+
+    // Add special filters
+    if (showStarred) params.append("starred", "true");
+    if (showMyUploads) params.append("myUploads", "true");
+
+    // Add search
+    if (debouncedSearchTerm.trim()) {
+      params.append("q", debouncedSearchTerm.trim());
+    }
+
+    // Add sorting
+    params.append("sortField", sort.field);
+    params.append("sortDirection", sort.direction);
+
+    return params;
+  }, [filters, sort, debouncedSearchTerm, showStarred, showMyUploads]);
+
   const fetchClips = useCallback(async (isFilterChange: boolean = false, retryCount = 0) => {
     fetchCountRef.current += 1;
+    // A page still loading for the previous listing must not be appended
+    const listing = ++listingRef.current;
     console.log(`🔄 fetchClips called #${fetchCountRef.current} (isFilterChange=${isFilterChange}, retry=${retryCount})`);
 
     // Only set loading: true on initial load, not when filters change
@@ -431,29 +515,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     setError(null);
 
     try {
-      const params = new URLSearchParams();
-
-      // Add filters
-      if (filters.language) params.append("language", filters.language);
-      if (filters.speakerGender)
-        params.append("speakerGender", filters.speakerGender);
-      if (filters.speakerAgeRange)
-        params.append("speakerAgeRange", filters.speakerAgeRange);
-      if (filters.uploadedBy) params.append("uploadedBy", filters.uploadedBy);
-      if (filters.tags && filters.tags.length > 0) {
-        params.append("tags", filters.tags.join(","));
-      }
-      if (filters.speedFilter) {
-        params.append("speedFilter", filters.speedFilter);
-      }
-
-      // Add special filters
-      if (showStarred) params.append("starred", "true");
-      if (showMyUploads) params.append("myUploads", "true");
-
-      // Add sorting
-      params.append("sortField", sort.field);
-      params.append("sortDirection", sort.direction);
+      const params = buildClipsQuery();
 
       const headers: HeadersInit = {
         ...getAuthHeaders(),
@@ -509,13 +571,18 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
       const data = await response.json();
       
       // Gracefully handle partial data
+      if (listing !== listingRef.current) return;
       if (data.clips && Array.isArray(data.clips)) {
         setClips(data.clips);
+        setNextCursor(data.nextCursor ?? null);
+        setTotalClips(typeof data.total === "number" ? data.total : data.clips.length);
         onClipsLoaded?.(data.clips);
       } else {
         // If response format is unexpected, show empty array instead of error
         console.warn("Unexpected response format from /api/clips:", data);
         setClips([]);
+        setNextCursor(null);
+        setTotalClips(0);
         onClipsLoaded?.([]);
       }
     } catch (error) {
@@ -535,7 +602,62 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
         setLoading(false);
       }
     }
-  }, [filters, sort, showStarred, showMyUploads, getAuthHeaders, onClipsLoaded]);
+  }, [buildClipsQuery, getAuthHeaders, onClipsLoaded]);
+
+  // Next page of the current listing, appended as the list is scrolled
+  const loadMoreClips = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) return;
+    const listing = listingRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const params = buildClipsQuery();
+      params.append("cursor", nextCursor);
+      const response = await fetch(`/api/clips?${params.toString()}`, {
+        headers: { ...getAuthHeaders() },
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to load more clips");
+      }
+
+      const data = await response.json();
+      if (listing !== listingRef.current || !Array.isArray(data.clips)) return;
+
+      // A clip can move between pages while scrolling (e.g. after a vote)
+      const seen = new Set(clips.map((clip) => clip.id));
+      const merged = [
+        ...clips,
+        ...data.clips.filter((clip: ClipWithStarInfo) => !seen.has(clip.id)),
+      ];
+      setClips(merged);
+      onClipsLoaded?.(merged);
+      setNextCursor(data.nextCursor ?? null);
+    } catch (error) {
+      console.warn("Failed to load more clips:", error);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [clips, nextCursor, buildClipsQuery, getAuthHeaders, onClipsLoaded]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMoreClips();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreClips]);
 
   // Initial load - wait for preferences to load AND be applied first, then fetch with correct filters
   useEffect(() => {
@@ -590,7 +712,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     
     return () => clearTimeout(timeoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filters, sort, showStarred, showMyUploads]); // All filter changes use background loading
+  }, [filters, sort, debouncedSearchTerm, showStarred, showMyUploads]); // All filter changes use background loading
 
   const handleFilterChange = (key: keyof AudioFilters, value: any) => {
     setFilters((prev) => {
@@ -631,7 +753,8 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
         // Duration: asc (shortest first)
         // Language: asc (A-Z)
         // CreatedAt: desc (newest first)
-        if (field === "voteScore" || field === "createdAt") {
+        // Relevance: desc (best match first)
+        if (field === "voteScore" || field === "createdAt" || field === "relevance") {
           newDirection = "desc";
         } else {
           newDirection = "asc";
@@ -649,9 +772,34 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
   };
 
   const handleSearchChange = (term: string) => {
+    const wasSearching = searchTerm.trim() !== "";
+    const isSearching = term.trim() !== "";
+
+    // Rank by relevance while searching, then go back to the previous order
+    if (!wasSearching && isSearching && sort.field !== "relevance") {
+      sortBeforeSearchRef.current = sort;
+      setSort({ field: "relevance", direction: "desc" });
+    } else if (wasSearching && !isSearching) {
+      if (sort.field === "relevance") {
+        setSort(
+          sortBeforeSearchRef.current ?? { field: "createdAt", direction: "desc" }
+        );
+      }
+      sortBeforeSearchRef.current = null;
+    }
+
     setSearchTerm(term);
   };
 
+  // Search on the server once typing pauses
+  useEffect(() => {
+    const timeoutId = setTimeout(
+      () => setDebouncedSearchTerm(searchTerm),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm]);
+
   // Debounce search term URL updates (only for search term, other filters update immediately)
   // Use a longer debounce (1.5s) so URL only updates when user has stopped typing
   // This prevents reload-like behavior while still preserving search in URL
@@ -681,6 +829,24 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     // fetchClips will be called by useEffect when showMyUploads changes
   };
 
+  const handleSelectModeChange = (value: boolean) => {
+    setSelectMode(value);
+    setSelectedClipIds([]);
+    setAddedToDeck(null);
+  };
+
+  const toggleSelected = (clipId: string) => {
+    setSelectedClipIds((prev) =>
+      prev.includes(clipId) ? prev.filter((id) => id !== clipId) : [...prev, clipId]
+    );
+  };
+
+  const handleAddedToDeck = (deck: { id: string; name: string }) => {
+    setAddToDeckOpen(false);
+    setSelectedClipIds([]);
+    setAddedToDeck({ id: deck.id, name: deck.name });
+  };
+
   const toggleExpanded = (clipId: string) => {
     setExpandedClip((prev) => (prev === clipId ? null : clipId));
   };
@@ -746,6 +912,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
       if (response.ok) {
         // Remove the clip from local state
         setClips((prev) => prev.filter((clip) => clip.id !== deletingClip.id));
+        setTotalClips((prev) => (prev === null ? prev : Math.max(0, prev - 1)));
         setDeleteConfirmOpen(false);
         setDeletingClip(null);
 
@@ -786,23 +953,18 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     const defaultSort: AudioSort = { field: "createdAt", direction: "desc" };
     setFilters(emptyFilters);
     setSearchTerm("");
+    setDebouncedSearchTerm("");
+    sortBeforeSearchRef.current = null;
+    if (sort.field === "relevance") setSort(defaultSort);
     setShowStarred(false);
     setShowMyUploads(false);
     updateURL(emptyFilters, defaultSort, "", false, false);
   };
 
-  // Filter clips by search term (client-side for simplicity)
-  const filteredClips = clips.filter((clip) => {
-    if (!searchTerm) return true;
-    const term = searchTerm.toLowerCase();
-    return (
-      clip.title.toLowerCase().includes(term) ||
-      clip.metadata.language.toLowerCase().includes(term) ||
-      clip.metadata.tags.some((tag) => tag.toLowerCase().includes(term)) ||
-      (clip.metadata.transcript &&
-        clip.metadata.transcript.toLowerCase().includes(term))
-    );
-  });
+  // Where a search matched the title (nothing to mark otherwise)
+  const titleHighlights = (clip: ClipWithStarInfo) =>
+    clip.search?.snippets.find((snippet) => snippet.field === "title")
+      ?.highlights ?? [];
 
   const formatDuration = (seconds: number) => {
     if (seconds < 60) return `${Math.round(seconds)}s`;
@@ -815,6 +977,15 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
     return new Date(dateString).toLocaleDateString();
   };
 
+  // Shadow the clips listed so far, in the order shown
+  const handleStartShadowing = () => {
+    const session = startShadowingSession(
+      clips.map((clip) => clip.id),
+      showStarred ? "starred" : "library"
+    );
+    router.push(shadowingUrl(session));
+  };
+
   // Only show full-page spinner on initial load when we have no clips yet
   // After initial load, all changes use background loading (isFiltering state) and clips stay visible
   if (loading && clips.length === 0) {
@@ -838,7 +1009,25 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
             }`}
             aria-hidden="true"
           />
-          <span>{filteredClips.length} clips found</span>
+          <span>{totalClips ?? clips.length} clips found</span>
+          {savedSession && (
+            <Link
+              href={shadowingUrl(savedSession)}
+              className="ml-2 px-3 py-1.5 text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100"
+            >
+              Resume session ({savedSession.index + 1}/{savedSession.clipIds.length})
+            </Link>
+          )}
+          {clips.length > 0 && (
+            <button
+              onClick={handleStartShadowing}
+              className="flex items-center gap-2 px-3 py-1.5 font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+              title="Play the clips listed so far one after another"
+            >
+              <Headphones className="w-4 h-4" />
+              Shadow {clips.length === 1 ? "this clip" : `these ${clips.length}`}
+            </button>
+          )}
         </div>
       </div>
 
@@ -871,6 +1060,56 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
             <Upload className="w-4 h-4" />
             My Uploads
           </button>
+          <button
+            onClick={() => handleSelectModeChange(!selectMode)}
+            className={`flex items-center gap-2 px-3 py-2 text-sm rounded-md border ${
+              selectMode
+                ? "bg-indigo-50 border-indigo-300 text-indigo-700"
+                : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            <Layers className="w-4 h-4" />
+            Build a Deck
+          </button>
+        </div>
+      )}
+
+      {/* Deck selection */}
+      {user && selectMode && (
+        <div className="flex items-center justify-between gap-4 px-4 py-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm">
+          {addedToDeck && selectedClipIds.length === 0 ? (
+            <span className="text-indigo-800">
+              Added to{" "}
+              <Link href={`/decks/${addedToDeck.id}`} className="font-medium underline">
+                {addedToDeck.name}
+              </Link>
+              . Pick more clips to keep going.
+            </span>
+          ) : (
+            <span className="text-indigo-800">
+              {selectedClipIds.length === 0
+                ? "Tick clips in the order you want to practice them"
+                : `${selectedClipIds.length} ${selectedClipIds.length === 1 ? "clip" : "clips"} selected`}
+            </span>
+          )}
+          <div className="flex items-center gap-2">
+            {selectedClipIds.length > 0 && (
+              <button
+                onClick={() => setSelectedClipIds([])}
+                className="px-3 py-1.5 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Clear
+              </button>
+            )}
+            <button
+              onClick={() => setAddToDeckOpen(true)}
+              disabled={selectedClipIds.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Layers className="w-4 h-4" />
+              Add to Deck
+            </button>
+          </div>
         </div>
       )}
 
@@ -884,7 +1123,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
                 type="text"
                 value={searchTerm}
                 onChange={(e) => handleSearchChange(e.target.value)}
-                placeholder="Search clips, languages, tags, or transcripts..."
+                placeholder="Search titles, transcripts, tags, dialects or sources..."
                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
               />
             </div>
@@ -1054,6 +1293,9 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
       <div className="flex gap-2 text-sm flex-wrap">
         <span className="text-gray-600">Sort by:</span>
         {([
+          ...(searchTerm.trim()
+            ? [{ field: "relevance" as const, label: "Relevance" }]
+            : []),
           { field: "voteScore" as const, label: "Vote Score (Best First)" },
           { field: "difficulty" as const, label: "Difficulty (Easiest First)" },
           { field: "charactersPerSecond" as const, label: "Speed (Slowest First)" },
@@ -1087,7 +1329,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
 
       {/* Clips List */}
       <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
-        {filteredClips.length === 0 ? (
+        {clips.length === 0 ? (
           <div className="p-8 text-center text-gray-500">
             <div className="text-4xl mb-4">🎵</div>
             <p className="text-lg font-medium mb-2">No clips found</p>
@@ -1118,7 +1360,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
-            {filteredClips.map((clip, index) => (
+            {clips.map((clip, index) => (
               <div key={clip.id} className="hover:bg-gray-50">
                 {/* Clip Header - Now fully clickable */}
                 <div
@@ -1127,6 +1369,22 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4 flex-1">
+                      {selectMode && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleSelected(clip.id);
+                          }}
+                          className="text-indigo-600"
+                          title={selectedClipIds.includes(clip.id) ? "Deselect" : "Select for a deck"}
+                        >
+                          {selectedClipIds.includes(clip.id) ? (
+                            <CheckSquare className="w-5 h-5" />
+                          ) : (
+                            <Square className="w-5 h-5 text-gray-400" />
+                          )}
+                        </button>
+                      )}
                       <div className="text-gray-400 hover:text-gray-600">
                         {expandedClip === clip.id ? (
                           <ChevronDown className="w-5 h-5" />
@@ -1137,7 +1395,10 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
 
                       <div className="flex-1">
                         <h3 className="font-medium text-gray-900">
-                          {clip.title}
+                          <HighlightedText
+                            text={clip.title}
+                            highlights={titleHighlights(clip)}
+                          />
                         </h3>
                         <div className="flex items-center gap-4 text-sm text-gray-500 mt-1 flex-wrap">
                           <span className="flex items-center gap-1">
@@ -1230,8 +1491,8 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
                               }`}
                             />
                           </button>
-                          {/* Only show edit button for clips uploaded by current user or admins */}
-                          {(clip.uploadedBy === user.id || user.isAdmin) && (
+                          {/* Only show edit button to users who may edit the clip */}
+                          {can(user, "clips.edit", clip) && (
                             <button
                               onClick={() => handleEdit(clip)}
                               className="p-2 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100"
@@ -1239,8 +1500,8 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
                               <Edit className="w-4 h-4" />
                             </button>
                           )}
-                          {/* Only show delete button for clips uploaded by current user or admins */}
-                          {(clip.uploadedBy === user.id || user.isAdmin) && (
+                          {/* Only show delete button to users who may delete the clip */}
+                          {can(user, "clips.delete", clip) && (
                             <button
                               onClick={() => handleDeleteRequest(clip)}
                               className="p-2 text-gray-400 hover:text-red-600 rounded-md hover:bg-red-50"
@@ -1261,6 +1522,11 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
                     </div>
                   </div>
 
+                  {/* Search matches */}
+                  {clip.search && (
+                    <SearchSnippets snippets={clip.search.snippets} />
+                  )}
+
                   {/* Quick Info */}
                   {clip.metadata.tags.length > 0 && (
                     <div className="flex items-center gap-2 mt-2">
@@ -1293,6 +1559,7 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
                         <AudioPlayer
                           key={clip.id} // Force new instance for each clip
                           url={clip.url}
+                          clipId={clip.id}
                           title={clip.title}
                           showControls={true}
                         />
@@ -1387,6 +1654,21 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
         )}
       </div>
 
+      {/* Infinite scroll: the next page loads as this comes into view */}
+      {nextCursor && (
+        <div
+          ref={loadMoreSentinelRef}
+          className="flex items-center justify-center py-4 text-sm text-gray-600"
+        >
+          {loadingMore && (
+            <>
+              <div className="w-4 h-4 border-2 border-gray-300 border-t-indigo-600 rounded-full animate-spin" />
+              <span className="ml-2">Loading more clips...</span>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Edit Modal */}
       {editingClip && (
         <EditClipModal
@@ -1397,6 +1679,16 @@ export function AudioBrowser({ onRefresh, onClipsLoaded }: AudioBrowserProps) {
         />
       )}
 
+      {/* Add to Deck Modal */}
+      {addToDeckOpen && (
+        <AddToDeckModal
+          clipIds={selectedClipIds}
+          isOpen={addToDeckOpen}
+          onClose={() => setAddToDeckOpen(false)}
+          onAdded={handleAddedToDeck}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirmOpen && deletingClip && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -0,0 +1,60 @@
+"use client";
+
+import type { SearchField, SearchSnippet } from "@/types/audio";
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  title: "Title",
+  transcript: "Transcript",
+  tags: "Tags",
+  speakerDialect: "Dialect",
+  sourceUrl: "Source",
+};
+
+// Text with the ranges a search matched marked
+export function HighlightedText({
+  text,
+  highlights,
+}: {
+  text: string;
+  highlights: Array<[number, number]>;
+}) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(<span key={`text-${index}`}>{text.slice(position, start)}</span>);
+    }
+    parts.push(
+      <mark key={`match-${index}`} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) {
+    parts.push(<span key="text-end">{text.slice(position)}</span>);
+  }
+  return <>{parts}</>;
+}
+
+/**
+ * Where a search matched a clip, one line per field. The title is left
+ * out: it is highlighted in place.
+ */
+export function SearchSnippets({ snippets }: { snippets: SearchSnippet[] }) {
+  const shown = snippets.filter((snippet) => snippet.field !== "title");
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1 text-sm text-gray-600">
+      {shown.map((snippet) => (
+        <p key={snippet.field} className="line-clamp-2">
+          <span className="text-xs font-medium text-gray-400 mr-2">
+            {FIELD_LABELS[snippet.field]}
+          </span>
+          <HighlightedText text={snippet.text} highlights={snippet.highlights} />
+        </p>
+      ))}
+    </div>
+  );
+}
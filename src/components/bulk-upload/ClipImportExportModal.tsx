@@ -3,6 +3,8 @@
 import { useState, useRef } from 'react';
 import { Download, Upload, AlertCircle, CheckCircle, Loader } from 'lucide-react';
 import type { AudioClip } from '@/types/audio';
+import { useAuth } from '@/lib/auth';
+import { can } from '@/lib/permissions';
 
 interface ClipImportExportModalProps {
   isOpen: boolean;
@@ -19,6 +21,8 @@ export function ClipImportExportModal({
   selectedClipIds = [],
   onImportSuccess,
 }: ClipImportExportModalProps) {
+  const { user, getAuthHeaders } = useAuth();
+  const canImport = can(user, 'clips.bulkUpload');
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
   const [exportFormat, setExportFormat] = useState<'zip' | 'json'>('zip');
   const [exporting, setExporting] = useState(false);
@@ -91,6 +95,7 @@ export function ClipImportExportModal({
 
       const response = await fetch('/api/clips/import-export', {
         method: 'POST',
+        headers: getAuthHeaders(),
         body: formData,
       });
 
@@ -153,20 +158,23 @@ export function ClipImportExportModal({
           >
             Export
           </button>
-          <button
-            onClick={() => {
-              setActiveTab('import');
-              setError(null);
-              setMessage(null);
-            }}
-            className={`flex-1 py-3 text-sm font-medium transition-colors ${
-              activeTab === 'import'
-                ? 'text-indigo-600 border-b-2 border-indigo-600'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            Import
-          </button>
+          {/* Importing counts as a bulk upload */}
+          {canImport && (
+            <button
+              onClick={() => {
+                setActiveTab('import');
+                setError(null);
+                setMessage(null);
+              }}
+              className={`flex-1 py-3 text-sm font-medium transition-colors ${
+                activeTab === 'import'
+                  ? 'text-indigo-600 border-b-2 border-indigo-600'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Import
+            </button>
+          )}
         </div>
 
         {/* Content */}
@@ -3,7 +3,7 @@
 // -------------------------------------------------------------------
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import {
   Play,
   Pause,
@@ -16,8 +16,47 @@ import {
   Gauge,
   Plus,
   Minus,
+  Mic,
+  Spline,
 } from "lucide-react";
-import type { AudioClip } from "@/types/audio";
+import type {
+  AudioClip,
+  PitchContour,
+  RecordingScore,
+  RecordingTake,
+} from "@/types/audio";
+import { useLoopRecorder, type TakeContext } from "@/hooks/useLoopRecorder";
+import { useAudioSettings } from "@/hooks/useAudioSettings";
+import { useMicMonitor } from "@/hooks/useMicMonitor";
+import { useTakeScoring } from "@/hooks/useTakeScoring";
+import {
+  extractPitch,
+  extractPitchAsync,
+  decodeAudioBlob,
+  getCachedPitch,
+  cachePitch,
+} from "@/lib/audio/pitch";
+import {
+  PitchContourOverlay,
+  type PitchTrace,
+} from "@/components/audio/PitchContourOverlay";
+import { DivergenceOverlay } from "@/components/audio/DivergenceOverlay";
+import { fetchClipPeaks } from "@/lib/audio/clip-peaks";
+import { useKeyboardShortcuts } from "@/lib/keyboard-shortcuts";
+import {
+  SKIP_SECONDS,
+  VOLUME_STEP,
+  formatBinding,
+  matchShortcut,
+} from "@/lib/shortcuts";
+import { RecordingComparison } from "./RecordingComparison";
+import { MonitoringControls } from "./MonitoringControls";
+import { RecordingScorePanel } from "./RecordingScorePanel";
+import { KaraokeTranscript } from "./KaraokeTranscript";
+
+const WAVEFORM_HEIGHT = 120;
+const CLIP_PITCH_COLOR = "#d97706"; // amber-600
+const TAKE_PITCH_COLOR = "#059669"; // emerald-600
 
 /* ----------  ONE-AND-ONLY global WaveSurfer instance  -------------- */
 let _activeWs: any | null = null;
@@ -25,6 +64,13 @@ let _activeWs: any | null = null;
 interface ChorusingPlayerProps {
   clip: AudioClip & { url: string };
   onLoopComplete?: () => void;
+  onPlaybackChange?: (isPlaying: boolean, playbackRate: number) => void;
+  onRecordingScored?: (score: RecordingScore) => void; // each take, once aligned with the clip
+  // Set by shadowing sessions: the speed to play at, a pause after each loop
+  // to repeat aloud, and whether to start looping as soon as the clip loads
+  targetPlaybackRate?: number;
+  repeatGapSeconds?: number;
+  autoPlay?: boolean;
 }
 interface AudioRegion {
   id: string;
@@ -32,7 +78,15 @@ interface AudioRegion {
   end: number;
 }
 
-export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps) {
+export function ChorusingPlayer({
+  clip,
+  onLoopComplete,
+  onPlaybackChange,
+  onRecordingScored,
+  targetPlaybackRate,
+  repeatGapSeconds = 0,
+  autoPlay = false,
+}: ChorusingPlayerProps) {
   const waveformRef = useRef<HTMLDivElement>(null);
   const wsRef = useRef<any>(null);
   const regionsRef = useRef<any>(null);
@@ -51,12 +105,49 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
   const [loop, setLoop] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isRepeating, setIsRepeating] = useState(false); // paused between loops
   const originalDurationRef = useRef<number>(0);
+  // True when the waveform was drawn from server peaks instead of decoded audio
+  const peaksLoadedRef = useRef(false);
+  const [waveSurfer, setWaveSurfer] = useState<any>(null);
+
+  // Pitch contour overlay
+  const [showPitch, setShowPitch] = useState(true);
+  const [clipPitch, setClipPitch] = useState<PitchContour | null>(null);
+  const [pitchProgress, setPitchProgress] = useState<number | null>(null);
+  const [selectedTake, setSelectedTake] = useState<RecordingTake | null>(null);
+  const [takePitch, setTakePitch] = useState<PitchContour | null>(null);
+  const takePitchCacheRef = useRef<Map<string, PitchContour>>(new Map());
+  // Decoded clip audio for pitch and take scoring, loaded on first use
+  const clipBufferRef = useRef<Promise<AudioBuffer | null> | null>(null);
 
   // Use refs for loop and region state to avoid stale closures in event handlers
   const loopRef = useRef(false);
   const regionRef = useRef<AudioRegion | null>(null);
   const onLoopCompleteRef = useRef(onLoopComplete);
+  const onPlaybackChangeRef = useRef(onPlaybackChange);
+  const playbackRateRef = useRef(1);
+  const repeatGapRef = useRef(repeatGapSeconds);
+  const gapTimerRef = useRef<number | null>(null);
+  const autoPlayedRef = useRef(false);
+
+  const { shortcuts, isCheatSheetOpen, openCheatSheet } = useKeyboardShortcuts();
+
+  // Record-and-compare: one microphone take per loop
+  const recorder = useLoopRecorder();
+  const recorderRef = useRef(recorder);
+
+  // Volumes, live monitoring and the latency takes are recorded with
+  const {
+    settings: audioSettings,
+    isLoaded: audioSettingsLoaded,
+    updateSettings: updateAudioSettings,
+  } = useAudioSettings();
+  const monitor = useMicMonitor(audioSettings.userVolume);
+  const { start: startMonitor, stop: stopMonitor, calibrate: calibrateMonitor } = monitor;
+  const latencyMsRef = useRef(audioSettings.monitoringLatencyMs);
+  const monitorRestoredRef = useRef(false);
+  const audioVolumeRestoredRef = useRef(false);
 
   // Sync refs with state
   useEffect(() => {
@@ -71,6 +162,92 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     onLoopCompleteRef.current = onLoopComplete;
   }, [onLoopComplete]);
 
+  useEffect(() => {
+    onPlaybackChangeRef.current = onPlaybackChange;
+  }, [onPlaybackChange]);
+
+  useEffect(() => {
+    playbackRateRef.current = playbackRate;
+  }, [playbackRate]);
+
+  useEffect(() => {
+    repeatGapRef.current = repeatGapSeconds;
+  }, [repeatGapSeconds]);
+
+  // Report play state and speed to the page (practice session tracking)
+  useEffect(() => {
+    onPlaybackChangeRef.current?.(isPlaying, playbackRate);
+  }, [isPlaying, playbackRate]);
+
+  useEffect(() => {
+    recorderRef.current = recorder;
+  }, [recorder]);
+
+  useEffect(() => {
+    latencyMsRef.current = audioSettings.monitoringLatencyMs;
+  }, [audioSettings.monitoringLatencyMs]);
+
+  // What the learner is chorusing along with right now (stored on each take)
+  const getTakeContext = useCallback((): TakeContext => {
+    const currentRegion = regionRef.current;
+    return {
+      regionStart: currentRegion ? currentRegion.start : 0,
+      regionEnd: currentRegion ? currentRegion.end : originalDurationRef.current,
+      playbackRate: playbackRateRef.current,
+      latencyMs: latencyMsRef.current,
+    };
+  }, []);
+
+  // Single place where a finished loop is reported. When playback continues
+  // into another loop the running take is closed and a new one started; a
+  // repeat gap ends it, and the next take starts when playback resumes.
+  const notifyLoopComplete = useCallback(
+    (continues: boolean) => {
+      onLoopCompleteRef.current?.();
+      if (continues && repeatGapRef.current <= 0) {
+        recorderRef.current.cycleTake(getTakeContext());
+      } else {
+        recorderRef.current.stopTake();
+      }
+    },
+    [getTakeContext]
+  );
+
+  const cancelRepeatGap = useCallback(() => {
+    if (gapTimerRef.current !== null) {
+      window.clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+    }
+    setIsRepeating(false);
+  }, []);
+
+  // Starts the next loop from `position` (0-1), after the repeat gap if set.
+  // Callers disable the regions plugin around this so the seek isn't blocked.
+  const continueLoop = useCallback((ws: any, position: number) => {
+    const gap = repeatGapRef.current;
+    if (gap <= 0) {
+      ws.seekTo(position);
+      ws.play();
+      return;
+    }
+
+    ws.pause();
+    ws.seekTo(position);
+    setIsRepeating(true);
+    gapTimerRef.current = window.setTimeout(() => {
+      gapTimerRef.current = null;
+      if (!mounted.current) return;
+      setIsRepeating(false);
+      if (loopRef.current) ws.play();
+    }, gap * 1000);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (gapTimerRef.current !== null) window.clearTimeout(gapTimerRef.current);
+    };
+  }, []);
+
   /* ----------  Robust destroy helper  ------------------------------ */
   const destroy = useCallback((ws?: any) => {
     try {
@@ -94,10 +271,11 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
         destroy(_activeWs);
         _activeWs = null;
 
-        const [{ default: WaveSurfer }, { default: Regions }] =
+        const [{ default: WaveSurfer }, { default: Regions }, peaks] =
           await Promise.all([
             import("wavesurfer.js"),
             import("wavesurfer.js/dist/plugins/regions.js"),
+            fetchClipPeaks(clip.id),
           ]);
         if (cancelled || !waveformElement) return;
 
@@ -108,7 +286,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
         // MediaElement backend works well with regions and supports native pitch preservation
         const ws = WaveSurfer.create({
           container: waveformElement,
-          height: 120,
+          height: WAVEFORM_HEIGHT,
           waveColor: "#e5e7eb",
           progressColor: "#4f46e5",
           cursorColor: "#1f2937",
@@ -165,6 +343,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
           setDuration(dur);
           setLoading(false);
           setIsReady(true);
+          setWaveSurfer(ws);
           // Initialize playback rate to 1.0
           try {
             ws.setPlaybackRate(1.0);
@@ -225,8 +404,18 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
             // Ignore if playback rate setting fails
           }
         });
-        ws.on("play", () => mounted.current && setIsPlaying(true));
-        ws.on("pause", () => mounted.current && setIsPlaying(false));
+        ws.on("play", () => {
+          if (!mounted.current) return;
+          setIsPlaying(true);
+          if (recorderRef.current.isArmed) {
+            recorderRef.current.startTake(getTakeContext());
+          }
+        });
+        ws.on("pause", () => {
+          if (!mounted.current) return;
+          setIsPlaying(false);
+          recorderRef.current.stopTake();
+        });
         ws.on("finish", () => {
           if (!mounted.current) return;
           const currentLoop = loopRef.current; // Use ref to get current loop state
@@ -237,7 +426,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
             // Loop is enabled - handle looping directly in finish event
             // Only notify if there's no region - region loops are counted by the interval checker
             if (!currentRegion) {
-              onLoopCompleteRef.current?.();
+              notifyLoopComplete(true);
             }
 
             // Temporarily disable regions to allow seeks
@@ -251,8 +440,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
             try {
               const seekTime = currentRegion ? currentRegion.start : 0;
               if (dur > 0) {
-                ws.seekTo(seekTime / dur);
-                ws.play();
+                continueLoop(ws, seekTime / dur);
                 // Don't set isPlaying(false) - keep it playing
               } else {
                 setIsPlaying(false);
@@ -273,7 +461,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
             // Loop is disabled - stop playback
             // Still counts as a completed play-through (only if no region, region boundary is handled by interval)
             if (!currentRegion) {
-              onLoopCompleteRef.current?.();
+              notifyLoopComplete(false);
             }
             setIsPlaying(false);
           }
@@ -309,7 +497,13 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
 
         regions.enableDragSelection({ color: "rgba(79,70,229,0.3)" });
 
-        await ws.load(clip.url);
+        // Server peaks let the waveform render before the audio is decoded
+        peaksLoadedRef.current = !!peaks;
+        if (peaks) {
+          await ws.load(clip.url, [peaks.peaks], peaks.duration);
+        } else {
+          await ws.load(clip.url);
+        }
       } catch (e: any) {
         if (!cancelled) {
           setError(e?.message ?? "Failed to load audio");
@@ -358,7 +552,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
         }
       });
     };
-  }, [clip.url, destroy]);
+  }, [clip.id, clip.url, destroy, getTakeContext, notifyLoopComplete, continueLoop]);
 
   /* ------------------------------------------------------------------ */
   /* Playback controls                                                  */
@@ -380,12 +574,14 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
       }
     }
 
+    cancelRepeatGap();
     isPlaying ? ws.pause() : ws.play();
-  }, [isReady, isPlaying]);
+  }, [isReady, isPlaying, cancelRepeatGap]);
 
   const stop = useCallback(() => {
     const ws = wsRef.current;
     if (!isReady || !ws) return;
+    cancelRepeatGap();
 
     // CRITICAL: The regions plugin blocks seeks. Temporarily disable it.
     const regions = regionsRef.current;
@@ -415,7 +611,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     }
 
     setIsPlaying(false);
-  }, [isReady, region]);
+  }, [isReady, region, cancelRepeatGap]);
 
   const restart = useCallback(async () => {
     const ws = wsRef.current;
@@ -433,6 +629,8 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
       }
     }
 
+    cancelRepeatGap();
+
     // CRITICAL: Temporarily disable regions to allow seeks
     const regions = regionsRef.current;
     let regionsWereEnabled = false;
@@ -461,12 +659,13 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     }
     ws.play();
     setIsPlaying(true);
-  }, [isReady, region]);
+  }, [isReady, region, cancelRepeatGap]);
 
-  const changeVolume = useCallback(
-    (v: number) => {
+  // Sets the clip volume; returns what was applied, or null if nothing was
+  const applyVolume = useCallback(
+    (v: number): number | null => {
       const ws = wsRef.current;
-      if (!isReady || !ws) return;
+      if (!isReady || !ws) return null;
       // Clamp volume to 0-3.0 (0-300%)
       const vol = Math.max(0, Math.min(3, v));
 
@@ -510,17 +709,36 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
           }
         }
         setVolume(vol);
+        return vol;
       } catch (err) {
         console.error("Failed to set volume:", err);
         // Fallback to standard volume
         const volClamped = Math.max(0, Math.min(1, vol));
         ws.setVolume(volClamped);
         setVolume(volClamped);
+        return null;
       }
     },
     [isReady]
   );
 
+  // Volume changes made by the user are remembered
+  const changeVolume = useCallback(
+    (v: number) => {
+      const vol = applyVolume(v);
+      if (vol !== null) updateAudioSettings({ audioVolume: vol });
+    },
+    [applyVolume, updateAudioSettings]
+  );
+
+  // Start at the clip volume the user last chose. It came from storage, so
+  // it's applied without being saved again.
+  useEffect(() => {
+    if (!isReady || !audioSettingsLoaded || audioVolumeRestoredRef.current) return;
+    audioVolumeRestoredRef.current = true;
+    if (audioSettings.audioVolume !== 1) applyVolume(audioSettings.audioVolume);
+  }, [isReady, audioSettingsLoaded, audioSettings.audioVolume, applyVolume]);
+
   const changePlaybackRate = useCallback(
     (rate: number) => {
       const ws = wsRef.current;
@@ -552,6 +770,24 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     [isReady]
   );
 
+  // Follow the speed a shadowing session asks for
+  useEffect(() => {
+    if (targetPlaybackRate !== undefined) changePlaybackRate(targetPlaybackRate);
+  }, [targetPlaybackRate, changePlaybackRate]);
+
+  // Start looping once, as soon as the clip is ready
+  useEffect(() => {
+    const ws = wsRef.current;
+    if (!isReady || !ws || !autoPlay || autoPlayedRef.current) return;
+    autoPlayedRef.current = true;
+    loopRef.current = true;
+    setLoop(true);
+    Promise.resolve(ws.play()).catch((err: unknown) => {
+      // Browsers may block playback until the page has been interacted with
+      console.warn("Autoplay was blocked:", err);
+    });
+  }, [isReady, autoPlay]);
+
   const clearSelection = useCallback(() => {
     const regions = regionsRef.current;
     if (regions) {
@@ -565,6 +801,214 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     setRegion(null);
   }, []);
 
+  // Loop a word or phrase picked in the karaoke transcript
+  const loopRange = useCallback(
+    (start: number, end: number) => {
+      const ws = wsRef.current;
+      const regions = regionsRef.current;
+      const dur = ws?.getDuration() ?? 0;
+      if (!isReady || !ws || !regions || dur <= 0) return;
+
+      regions.clearRegions();
+      const created = regions.addRegion({
+        start,
+        end,
+        color: "rgba(79,70,229,0.3)",
+        drag: true,
+        resize: true,
+      });
+      // region-created has already updated state; sync the refs now so the
+      // boundary checker doesn't act on the old region before the re-render
+      regionRef.current = { id: created.id, start: created.start, end: created.end };
+      loopRef.current = true;
+      setLoop(true);
+
+      // Temporarily disable regions to allow seeks
+      let regionsWereEnabled = false;
+      if (typeof regions.disable === "function") {
+        regions.disable();
+        regionsWereEnabled = true;
+      }
+      try {
+        ws.seekTo(created.start / dur);
+        if (!ws.isPlaying()) ws.play();
+      } catch (err) {
+        // Ignore seek errors
+      }
+      if (regionsWereEnabled && typeof regions.enable === "function") {
+        regions.enable();
+      }
+    },
+    [isReady]
+  );
+
+  /* ------------------------------------------------------------------ */
+  /* Pitch contours                                                     */
+  /* ------------------------------------------------------------------ */
+  const loadClipBuffer = useCallback((): Promise<AudioBuffer | null> => {
+    if (!clipBufferRef.current) {
+      // A waveform drawn from peaks has no real samples to analyse
+      clipBufferRef.current = (
+        peaksLoadedRef.current
+          ? fetch(clip.url)
+              .then((response) => response.blob())
+              .then(decodeAudioBlob)
+          : Promise.resolve(wsRef.current?.getDecodedData?.() ?? null)
+      )
+        .then((buffer) => {
+          if (!buffer) clipBufferRef.current = null; // try again next time
+          return buffer;
+        })
+        .catch((err) => {
+          clipBufferRef.current = null;
+          throw err;
+        });
+    }
+    return clipBufferRef.current;
+  }, [clip.url]);
+
+  useEffect(() => {
+    clipBufferRef.current = null;
+  }, [clip.url]);
+
+  // Clip contour: cached per clip so it isn't recomputed on every visit
+  useEffect(() => {
+    if (!isReady || !showPitch || clipPitch) return;
+
+    const cached = getCachedPitch(clip.id, clip.updatedAt);
+    if (cached) {
+      setClipPitch(cached);
+      return;
+    }
+
+    const controller = new AbortController();
+    setPitchProgress(0);
+    loadClipBuffer()
+      .then((buffer) =>
+        buffer
+          ? extractPitchAsync(buffer, {
+              signal: controller.signal,
+              onProgress: (p) => mounted.current && setPitchProgress(p),
+            })
+          : null
+      )
+      .then((contour) => {
+        if (!contour) return;
+        cachePitch(clip.id, clip.updatedAt, contour);
+        if (mounted.current) setClipPitch(contour);
+      })
+      .catch((err) => {
+        if (err?.name !== "AbortError") {
+          console.warn("Pitch extraction failed:", err);
+        }
+      })
+      .finally(() => {
+        if (mounted.current) setPitchProgress(null);
+      });
+
+    return () => controller.abort();
+  }, [isReady, showPitch, clipPitch, clip.id, clip.updatedAt, loadClipBuffer]);
+
+  // Score of the selected take, worked out once recording stops
+  const takeScoring = useTakeScoring({
+    take: selectedTake,
+    enabled: isReady && !recorder.isRecording,
+    loadClipBuffer,
+    clipPitch,
+    onScored: onRecordingScored,
+  });
+
+  // Forget the selected take once it has been deleted
+  useEffect(() => {
+    if (selectedTake && !recorder.takes.some((t) => t.id === selectedTake.id)) {
+      setSelectedTake(null);
+    }
+  }, [recorder.takes, selectedTake]);
+
+  // Contour of the learner take selected for comparison
+  useEffect(() => {
+    if (!selectedTake || !showPitch) {
+      setTakePitch(null);
+      return;
+    }
+    const cached = takePitchCacheRef.current.get(selectedTake.id);
+    if (cached) {
+      setTakePitch(cached);
+      return;
+    }
+
+    let cancelled = false;
+    decodeAudioBlob(selectedTake.blob)
+      .then((buffer) => {
+        const contour = extractPitch(buffer);
+        takePitchCacheRef.current.set(selectedTake.id, contour);
+        if (!cancelled) setTakePitch(contour);
+      })
+      .catch((err) => console.warn("Take pitch extraction failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTake, showPitch]);
+
+  const pitchTraces = useMemo<PitchTrace[]>(() => {
+    const traces: PitchTrace[] = [];
+    if (clipPitch) {
+      traces.push({ contour: clipPitch, color: CLIP_PITCH_COLOR });
+    }
+    if (takePitch && selectedTake) {
+      // The take was recorded in real time while the clip played at
+      // playbackRate, so one take second covers playbackRate clip seconds
+      traces.push({
+        contour: takePitch,
+        color: TAKE_PITCH_COLOR,
+        // The voice reaches the take latencyMs after the clip sound left
+        offset:
+          selectedTake.regionStart -
+          (selectedTake.latencyMs / 1000) * selectedTake.playbackRate,
+        timeScale: selectedTake.playbackRate,
+      });
+    }
+    return traces;
+  }, [clipPitch, takePitch, selectedTake]);
+
+  const toggleRecording = useCallback(async () => {
+    if (recorder.isArmed) {
+      recorder.disarm();
+      return;
+    }
+    await recorder.arm();
+    // Already playing: start capturing from the current loop
+    const ws = wsRef.current;
+    if (ws?.isPlaying?.()) {
+      recorderRef.current.startTake(getTakeContext());
+    }
+  }, [recorder, getTakeContext]);
+
+  const toggleMonitoring = useCallback(async () => {
+    if (monitor.isMonitoring) {
+      stopMonitor();
+      updateAudioSettings({ enableMonitoring: false });
+      return;
+    }
+    const started = await startMonitor();
+    updateAudioSettings({ enableMonitoring: started });
+  }, [monitor.isMonitoring, startMonitor, stopMonitor, updateAudioSettings]);
+
+  const calibrateLatency = useCallback(async () => {
+    const latencyMs = await calibrateMonitor();
+    if (latencyMs !== null) {
+      updateAudioSettings({ monitoringLatencyMs: latencyMs });
+    }
+  }, [calibrateMonitor, updateAudioSettings]);
+
+  // Turn monitoring back on if it was left on last time
+  useEffect(() => {
+    if (!audioSettingsLoaded || monitorRestoredRef.current) return;
+    monitorRestoredRef.current = true;
+    if (audioSettings.enableMonitoring) startMonitor();
+  }, [audioSettingsLoaded, audioSettings.enableMonitoring, startMonitor]);
+
   /* ------------------------------------------------------------------ */
   /* Slider control buttons                                             */
   /* ------------------------------------------------------------------ */
@@ -612,11 +1056,66 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     changePlaybackRate(1.0);
   }, [changePlaybackRate]);
 
+  // Moves the playhead, staying inside the selection if there is one
+  const skip = useCallback(
+    (seconds: number) => {
+      const ws = wsRef.current;
+      const dur = ws?.getDuration() ?? 0;
+      if (!isReady || !ws || dur <= 0) return;
+
+      const min = region ? region.start : 0;
+      const max = region ? region.end : dur;
+      const target = Math.max(min, Math.min(max, ws.getCurrentTime() + seconds));
+
+      const regions = regionsRef.current;
+      let regionsWereEnabled = false;
+      if (regions && typeof regions.disable === "function") {
+        regions.disable();
+        regionsWereEnabled = true;
+      }
+      ws.seekTo(target / dur);
+      setCurrent(target);
+      if (regions && regionsWereEnabled && typeof regions.enable === "function") {
+        regions.enable();
+      }
+    },
+    [isReady, region]
+  );
+
+  // Marks one end of the selection at the playhead, keeping the other end
+  // when it still makes sense
+  const setRegionEdge = useCallback(
+    (edge: "start" | "end") => {
+      const ws = wsRef.current;
+      const regions = regionsRef.current;
+      const dur = ws?.getDuration() ?? 0;
+      if (!isReady || !ws || !regions || dur <= 0) return;
+
+      const t = ws.getCurrentTime();
+      const start =
+        edge === "start" ? t : region && region.start < t ? region.start : 0;
+      const end = edge === "end" ? t : region && region.end > t ? region.end : dur;
+      if (end - start < 0.05) return;
+
+      regions.clearRegions();
+      const created = regions.addRegion({
+        start,
+        end,
+        color: "rgba(79,70,229,0.3)",
+        drag: true,
+        resize: true,
+      });
+      // Sync the ref now, as loopRange does, before the boundary checker runs
+      regionRef.current = { id: created.id, start: created.start, end: created.end };
+    },
+    [isReady, region]
+  );
+
   /* ------------------------------------------------------------------ */
-  /* Keyboard shortcuts                                                 */
+  /* Keyboard shortcuts (bindings from lib/shortcuts)                   */
   /* ------------------------------------------------------------------ */
   useEffect(() => {
-    if (!isReady) return;
+    if (!isReady || isCheatSheetOpen) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't trigger shortcuts if user is typing in an input or textarea
@@ -629,35 +1128,73 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
         return;
       }
 
-      switch (e.code) {
-        case "Space":
+      switch (matchShortcut(e, shortcuts, "chorus")) {
+        case "playPause":
           e.preventDefault();
           playPause();
           break;
-        case "KeyS":
+        case "stop":
           e.preventDefault();
           stop();
           break;
-        case "KeyR":
+        case "restart":
           e.preventDefault();
           restart();
           break;
-        case "KeyL":
+        case "toggleLoop":
           e.preventDefault();
           setLoop(!loop);
           break;
-        case "KeyQ":
+        case "clearRegion":
           e.preventDefault();
           if (region) {
             clearSelection();
           }
           break;
+        case "skipBack":
+          e.preventDefault();
+          skip(-SKIP_SECONDS);
+          break;
+        case "skipForward":
+          e.preventDefault();
+          skip(SKIP_SECONDS);
+          break;
+        case "volumeUp":
+          e.preventDefault();
+          changeVolume(volume + VOLUME_STEP);
+          break;
+        case "volumeDown":
+          e.preventDefault();
+          changeVolume(volume - VOLUME_STEP);
+          break;
+        case "setRegionStart":
+          e.preventDefault();
+          setRegionEdge("start");
+          break;
+        case "setRegionEnd":
+          e.preventDefault();
+          setRegionEdge("end");
+          break;
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [isReady, playPause, stop, restart, loop, region, clearSelection]);
+  }, [
+    isReady,
+    isCheatSheetOpen,
+    shortcuts,
+    playPause,
+    stop,
+    restart,
+    loop,
+    region,
+    clearSelection,
+    skip,
+    volume,
+    changeVolume,
+    setRegionEdge,
+  ]);
 
   /* ------------------------------------------------------------------ */
   /* Loop checker and region boundary enforcement                       */
@@ -675,6 +1212,9 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     if (!shouldRun) return;
 
     const id = window.setInterval(() => {
+      // Paused on purpose between loops
+      if (gapTimerRef.current !== null) return;
+
       // getCurrentTime returns time in original audio timeline
       // This is correct for region boundaries (regions are in original time)
       const t = ws.getCurrentTime();
@@ -696,16 +1236,15 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
 
           if (currentLoop) {
             // Loop: seek back to region start
-            onLoopCompleteRef.current?.();
+            notifyLoopComplete(true);
             try {
-              ws.seekTo(currentRegion.start / dur);
-              ws.play();
+              continueLoop(ws, currentRegion.start / dur);
             } catch (err) {
               // Ignore seek errors
             }
           } else {
             // No loop: stop at region end
-            onLoopCompleteRef.current?.();
+            notifyLoopComplete(false);
             ws.pause();
             setIsPlaying(false);
           }
@@ -758,8 +1297,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
           }
 
           try {
-            ws.seekTo(0);
-            ws.play();
+            continueLoop(ws, 0);
           } catch (err) {
             // Ignore seek errors
           }
@@ -776,7 +1314,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
     }, 60);
 
     return () => clearInterval(id);
-  }, [isPlaying, loop, region]); // Keep dependencies but use refs inside
+  }, [isPlaying, loop, region, notifyLoopComplete, continueLoop]); // Keep dependencies but use refs inside
 
   /* ------------------------------------------------------------------ */
   /* Helpers                                                             */
@@ -800,6 +1338,33 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
       {/* Waveform */}
       <div className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden relative">
         <div ref={waveformRef} data-debug-ws className="w-full min-h-[120px]" />
+        {showPitch && pitchTraces.length > 0 && (
+          <PitchContourOverlay
+            wavesurfer={waveSurfer}
+            duration={originalDurationRef.current}
+            traces={pitchTraces}
+            height={WAVEFORM_HEIGHT}
+          />
+        )}
+        {takeScoring.analysis && takeScoring.analysis.divergentRegions.length > 0 && (
+          <DivergenceOverlay
+            wavesurfer={waveSurfer}
+            duration={originalDurationRef.current}
+            regions={takeScoring.analysis.divergentRegions}
+            height={WAVEFORM_HEIGHT}
+          />
+        )}
+        {isRepeating && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1.5 text-sm font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-full px-3 py-1">
+            <Mic className="w-4 h-4" />
+            Your turn - repeat it
+          </div>
+        )}
+        {showPitch && pitchProgress !== null && (
+          <div className="absolute bottom-1 right-2 z-10 text-xs text-gray-500 bg-white/80 rounded px-1.5 py-0.5">
+            Analyzing pitch… {pitchProgress}%
+          </div>
+        )}
         {loading && (
           <div className="absolute inset-0 flex items-center justify-center bg-gray-50/90">
             <Loader2 className="w-6 h-6 animate-spin text-indigo-600" />
@@ -814,6 +1379,55 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
         )}
       </div>
 
+      {showPitch && clipPitch && takePitch && (
+        <div className="flex items-center gap-4 text-xs text-gray-600 -mt-4">
+          <span className="flex items-center gap-1.5">
+            <span className="inline-block w-4 h-0.5 bg-amber-600" />
+            Clip pitch
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="inline-block w-4 h-0.5 bg-emerald-600" />
+            Your pitch
+          </span>
+        </div>
+      )}
+
+      {/* Timed transcript - follows playback */}
+      {isReady && clip.metadata.timedTranscript && (
+        <KaraokeTranscript
+          transcript={clip.metadata.timedTranscript}
+          currentTime={current}
+          onSelectRange={loopRange}
+        />
+      )}
+
+      {/* Learner recordings - shown under the clip waveform */}
+      {isReady && (recorder.isArmed || recorder.takes.length > 0) && (
+        <RecordingComparison
+          clipUrl={clip.url}
+          clipDuration={originalDurationRef.current}
+          takes={recorder.takes}
+          isRecording={recorder.isRecording}
+          onDeleteTake={recorder.removeTake}
+          onClearTakes={recorder.clearTakes}
+          onSelectedTakeChange={setSelectedTake}
+        />
+      )}
+      {isReady && selectedTake && (
+        <RecordingScorePanel
+          analysis={takeScoring.analysis}
+          isAnalyzing={takeScoring.isAnalyzing}
+          error={takeScoring.error}
+          onLoopRegion={loopRange}
+        />
+      )}
+      {recorder.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span className="text-sm">{recorder.error}</span>
+        </div>
+      )}
+
       {isReady && (
         <div className="space-y-4">
           {/* Main controls */}
@@ -840,6 +1454,33 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
               >
                 <Repeat className="w-4 h-4" />
               </button>
+              <button
+                onClick={toggleRecording}
+                className={`audio-control-btn relative ${
+                  recorder.isArmed ? "bg-red-50 text-red-600 border-red-200" : ""
+                }`}
+                title={
+                  recorder.isArmed
+                    ? "Stop recording takes"
+                    : "Record a take for every loop"
+                }
+                aria-label="Toggle recording"
+              >
+                <Mic className="w-4 h-4" />
+                {recorder.isRecording && (
+                  <span className="absolute top-1 right-1 w-2 h-2 bg-red-600 rounded-full animate-pulse" />
+                )}
+              </button>
+              <button
+                onClick={() => setShowPitch(!showPitch)}
+                className={`audio-control-btn ${
+                  showPitch ? "bg-amber-50 text-amber-700" : ""
+                }`}
+                title={showPitch ? "Hide pitch contour" : "Show pitch contour"}
+                aria-label="Toggle pitch contour"
+              >
+                <Spline className="w-4 h-4" />
+              </button>
               {region && (
                 <button
                   onClick={clearSelection}
@@ -872,6 +1513,7 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
                     value={volume}
                     onChange={(e) => changeVolume(parseFloat(e.target.value))}
                     className="w-20"
+                    title="Clip volume"
                   />
                   <span className="text-xs text-gray-600 min-w-[3rem]">
                     {Math.round(volume * 100)}%
@@ -954,20 +1596,39 @@ export function ChorusingPlayer({ clip, onLoopComplete }: ChorusingPlayerProps)
             </div>
           </div>
 
+          <MonitoringControls
+            isMonitoring={monitor.isMonitoring}
+            isCalibrating={monitor.isCalibrating}
+            userVolume={audioSettings.userVolume}
+            latencyMs={audioSettings.monitoringLatencyMs}
+            error={monitor.error}
+            onToggle={toggleMonitoring}
+            onUserVolumeChange={(userVolume) => updateAudioSettings({ userVolume })}
+            onCalibrate={calibrateLatency}
+          />
+
           {/* Keyboard Shortcuts Info */}
-          <div className="text-xs text-gray-600 bg-gray-50 rounded-md p-3">
+          <div className="text-xs text-gray-600 bg-gray-50 rounded-md p-3 flex items-center justify-between gap-4">
             <p>
-              <kbd className="keyboard-hint">Space</kbd> Play/Pause •{" "}
-              <kbd className="keyboard-hint">S</kbd> Stop •{" "}
-              <kbd className="keyboard-hint">R</kbd> Restart •{" "}
-              <kbd className="keyboard-hint">L</kbd> Toggle Loop
+              <kbd className="keyboard-hint">{formatBinding(shortcuts.playPause)}</kbd> Play/Pause •{" "}
+              <kbd className="keyboard-hint">{formatBinding(shortcuts.stop)}</kbd> Stop •{" "}
+              <kbd className="keyboard-hint">{formatBinding(shortcuts.restart)}</kbd> Restart •{" "}
+              <kbd className="keyboard-hint">{formatBinding(shortcuts.toggleLoop)}</kbd> Toggle Loop •{" "}
+              <kbd className="keyboard-hint">{formatBinding(shortcuts.setRegionStart)}</kbd>
+              <kbd className="keyboard-hint">{formatBinding(shortcuts.setRegionEnd)}</kbd> Mark selection
               {region && (
                 <>
                   {" • "}
-                  <kbd className="keyboard-hint">Q</kbd> Clear Selection
+                  <kbd className="keyboard-hint">{formatBinding(shortcuts.clearRegion)}</kbd> Clear Selection
                 </>
               )}
             </p>
+            <button
+              onClick={openCheatSheet}
+              className="flex-shrink-0 text-indigo-600 hover:text-indigo-700"
+            >
+              All shortcuts ({formatBinding(shortcuts.showShortcuts)})
+            </button>
           </div>
         </div>
       )}
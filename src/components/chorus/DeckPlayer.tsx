@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Layers, ChevronLeft, ChevronRight, CheckCircle } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import {
+  DEFAULT_LOOPS_PER_CLIP,
+  LOOPS_PER_CLIP_OPTIONS,
+  deckNeighbours,
+} from "@/lib/decks";
+import type { Deck } from "@/types/deck";
+
+interface DeckPlayerProps {
+  deckId: string;
+  clipId: string;
+  loops: number; // loops completed since this clip was opened
+}
+
+const LOOPS_PER_CLIP_KEY = "chorus-deck-loops-per-clip";
+
+export function DeckPlayer({ deckId, clipId, loops }: DeckPlayerProps) {
+  const { getAuthHeaders } = useAuth();
+  const router = useRouter();
+  const [deck, setDeck] = useState<Deck | null>(null);
+  const [playOrder, setPlayOrder] = useState<string[]>([]);
+  const [loopsPerClip, setLoopsPerClip] = useState(DEFAULT_LOOPS_PER_CLIP);
+  const advancedRef = useRef(false);
+
+  // Load the deck; its clip list already leaves out clips that can't be played
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDeck = async () => {
+      try {
+        const response = await fetch(`/api/decks/${deckId}`, {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (cancelled) return;
+        setDeck(data.deck);
+        setPlayOrder(data.clips.map((clip: { id: string }) => clip.id));
+      } catch (err) {
+        console.error("Failed to load deck:", err);
+      }
+    };
+
+    fetchDeck();
+    return () => {
+      cancelled = true;
+    };
+  }, [deckId, getAuthHeaders]);
+
+  useEffect(() => {
+    try {
+      const stored = parseInt(localStorage.getItem(LOOPS_PER_CLIP_KEY) ?? "", 10);
+      if (LOOPS_PER_CLIP_OPTIONS.includes(stored)) setLoopsPerClip(stored);
+    } catch {
+      // localStorage unavailable — keep the default
+    }
+  }, []);
+
+  const handleLoopsPerClipChange = (value: number) => {
+    setLoopsPerClip(value);
+    try {
+      localStorage.setItem(LOOPS_PER_CLIP_KEY, String(value));
+    } catch {
+      // ignore
+    }
+  };
+
+  const { index, previous, next } = deckNeighbours(playOrder, clipId);
+
+  useEffect(() => {
+    advancedRef.current = false;
+  }, [clipId]);
+
+  // Move on once this clip has been looped enough
+  useEffect(() => {
+    if (!next || advancedRef.current || loops < loopsPerClip) return;
+    advancedRef.current = true;
+    router.push(`/chorus/${next}?deck=${deckId}`);
+  }, [next, loops, loopsPerClip, deckId, router]);
+
+  if (!deck || index === -1) return null;
+
+  const isLast = !next;
+  const isDone = isLast && loops >= loopsPerClip;
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3 min-w-0">
+        <Layers className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+        <div className="min-w-0">
+          <Link
+            href={`/decks/${deck.id}`}
+            className="font-medium text-gray-900 hover:text-indigo-600 truncate block"
+          >
+            {deck.name}
+          </Link>
+          <p className="text-xs text-gray-500">
+            Clip {index + 1} of {playOrder.length}
+            {isDone ? (
+              <span className="ml-2 inline-flex items-center gap-1 text-green-700">
+                <CheckCircle className="w-3 h-3" />
+                Deck complete
+              </span>
+            ) : (
+              <span className="ml-2">
+                {Math.min(loops, loopsPerClip)}/{loopsPerClip} loops
+                {isLast ? "" : " before the next clip"}
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <label className="flex items-center gap-1 text-xs text-gray-600">
+          Loops per clip
+          <select
+            value={loopsPerClip}
+            onChange={(e) => handleLoopsPerClipChange(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {LOOPS_PER_CLIP_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        {previous ? (
+          <Link
+            href={`/chorus/${previous}?deck=${deckId}`}
+            className="p-2 text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Previous clip"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Link>
+        ) : (
+          <span className="p-2 text-gray-300 border border-gray-200 rounded-md">
+            <ChevronLeft className="w-4 h-4" />
+          </span>
+        )}
+        {next ? (
+          <Link
+            href={`/chorus/${next}?deck=${deckId}`}
+            className="p-2 text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Next clip"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Link>
+        ) : (
+          <span className="p-2 text-gray-300 border border-gray-200 rounded-md">
+            <ChevronRight className="w-4 h-4" />
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useRef, useState, useMemo } from "react";
+import type { TimedTranscript } from "@/types/audio";
+import { findTranscriptPosition } from "@/lib/timed-transcript";
+
+interface KaraokeTranscriptProps {
+  transcript: TimedTranscript;
+  currentTime: number;
+  onSelectRange: (start: number, end: number) => void;
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Timed transcript that follows playback, highlighting the current word.
+ * Clicking a word loops it, shift-clicking extends the loop to a phrase,
+ * and clicking a segment's timestamp loops the whole segment.
+ */
+export function KaraokeTranscript({
+  transcript,
+  currentTime,
+  onSelectRange,
+}: KaraokeTranscriptProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const segmentRefs = useRef<Array<HTMLDivElement | null>>([]);
+  // First word of a shift-click phrase selection
+  const [anchor, setAnchor] = useState<TimeRange | null>(null);
+
+  const position = useMemo(
+    () => findTranscriptPosition(transcript, currentTime),
+    [transcript, currentTime]
+  );
+  const activeSegment = position?.segmentIndex ?? null;
+
+  // Keep the current segment in view without scrolling the page
+  useEffect(() => {
+    const container = containerRef.current;
+    const element =
+      activeSegment !== null ? segmentRefs.current[activeSegment] : null;
+    if (!container || !element) return;
+
+    const top = element.offsetTop;
+    const bottom = top + element.offsetHeight;
+    if (top < container.scrollTop || bottom > container.scrollTop + container.clientHeight) {
+      container.scrollTo({
+        top: top - container.clientHeight / 3,
+        behavior: "smooth",
+      });
+    }
+  }, [activeSegment]);
+
+  const selectRange = (range: TimeRange, extend: boolean) => {
+    if (extend && anchor) {
+      onSelectRange(
+        Math.min(anchor.start, range.start),
+        Math.max(anchor.end, range.end)
+      );
+      return;
+    }
+    setAnchor(range);
+    onSelectRange(range.start, range.end);
+  };
+
+  const formatTime = (s: number) => {
+    const m = Math.floor(s / 60);
+    const sec = Math.floor(s % 60)
+      .toString()
+      .padStart(2, "0");
+    return `${m}:${sec}`;
+  };
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        className="relative max-h-40 overflow-y-auto rounded-lg border border-gray-200 bg-gray-50 p-3 space-y-1.5"
+      >
+        {transcript.segments.map((segment, segmentIndex) => {
+          const isActive = segmentIndex === activeSegment;
+          const isPast = currentTime >= segment.end;
+
+          return (
+            <div
+              key={`${segment.start}-${segmentIndex}`}
+              ref={(el) => {
+                segmentRefs.current[segmentIndex] = el;
+              }}
+              className={`flex gap-3 rounded-md px-2 py-1 ${
+                isActive ? "bg-white shadow-sm" : ""
+              }`}
+            >
+              <button
+                onClick={(e) => selectRange(segment, e.shiftKey)}
+                className="font-mono text-xs text-gray-400 hover:text-indigo-600 pt-1 shrink-0"
+                title="Loop this phrase"
+              >
+                {formatTime(segment.start)}
+              </button>
+              <p className="text-lg leading-relaxed">
+                {segment.words ? (
+                  segment.words.map((word, wordIndex) => {
+                    const isCurrent =
+                      isActive && position?.wordIndex === wordIndex;
+                    const isSpoken = isPast || currentTime >= word.end;
+                    return (
+                      <button
+                        key={`${word.start}-${wordIndex}`}
+                        onClick={(e) => selectRange(word, e.shiftKey)}
+                        className={`mr-1 rounded px-0.5 transition-colors hover:bg-indigo-100 ${
+                          isCurrent
+                            ? "bg-indigo-600 text-white hover:bg-indigo-600"
+                            : isSpoken
+                            ? "text-indigo-700"
+                            : "text-gray-800"
+                        }`}
+                      >
+                        {word.text}
+                      </button>
+                    );
+                  })
+                ) : (
+                  <button
+                    onClick={(e) => selectRange(segment, e.shiftKey)}
+                    className={`text-left rounded px-0.5 transition-colors hover:bg-indigo-100 ${
+                      isActive
+                        ? "text-indigo-700 font-medium"
+                        : isPast
+                        ? "text-gray-500"
+                        : "text-gray-800"
+                    }`}
+                  >
+                    {segment.text}
+                  </button>
+                )}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        Click a word to loop it • Shift+click to loop a phrase from the last
+        clicked word
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { Ear, Mic, Timer, Loader2, AlertCircle } from "lucide-react";
+import { MONITORING_LIMITS } from "@/lib/audio/monitoring";
+
+interface MonitoringControlsProps {
+  isMonitoring: boolean;
+  isCalibrating: boolean;
+  userVolume: number;
+  latencyMs: number; // 0 until calibrated
+  error: string | null;
+  onToggle: () => void;
+  onUserVolumeChange: (volume: number) => void;
+  onCalibrate: () => void;
+}
+
+// Hear your own voice over the clip, and measure the delay takes are recorded with
+export function MonitoringControls({
+  isMonitoring,
+  isCalibrating,
+  userVolume,
+  latencyMs,
+  error,
+  onToggle,
+  onUserVolumeChange,
+  onCalibrate,
+}: MonitoringControlsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <button
+          onClick={onToggle}
+          disabled={isCalibrating}
+          className={`audio-control-btn flex items-center gap-2 ${
+            isMonitoring ? "bg-indigo-100 text-indigo-700" : ""
+          } disabled:opacity-50`}
+          title={isMonitoring ? "Stop hearing your microphone" : "Hear your microphone over the clip"}
+          aria-label="Toggle microphone monitoring"
+        >
+          <Ear className="w-4 h-4" />
+          <span className="text-xs font-medium">Monitor</span>
+        </button>
+
+        {isMonitoring && (
+          <label className="flex items-center gap-2" title="Volume of your own voice">
+            <Mic className="w-4 h-4 text-gray-500" />
+            <input
+              type="range"
+              min={MONITORING_LIMITS.userVolume.min}
+              max={MONITORING_LIMITS.userVolume.max}
+              step="0.05"
+              value={userVolume}
+              onChange={(e) => onUserVolumeChange(parseFloat(e.target.value))}
+              className="w-20"
+            />
+            <span className="text-xs text-gray-600 min-w-[3rem]">
+              {Math.round(userVolume * 100)}%
+            </span>
+          </label>
+        )}
+
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <Timer className="w-4 h-4 text-gray-500" />
+          <span>Latency: {latencyMs > 0 ? `${latencyMs} ms` : "not measured"}</span>
+          <button
+            onClick={onCalibrate}
+            disabled={isCalibrating}
+            className="flex items-center gap-1 text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+            title="Play a few beeps through the speakers and time how long the microphone takes to hear them"
+          >
+            {isCalibrating && <Loader2 className="w-3 h-3 animate-spin" />}
+            {isCalibrating ? "Listening…" : latencyMs > 0 ? "Recalibrate" : "Calibrate"}
+          </button>
+        </div>
+      </div>
+
+      {isMonitoring && (
+        <p className="text-xs text-gray-500">
+          Wear headphones while monitoring, or the speakers will feed back into the microphone.
+        </p>
+      )}
+      {isCalibrating && (
+        <p className="text-xs text-gray-500">
+          Calibrating: take your headphones off and keep quiet for a few seconds.
+        </p>
+      )}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
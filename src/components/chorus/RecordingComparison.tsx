@@ -0,0 +1,396 @@
+"use client";
+
+import { useEffect, useRef, useState, useCallback } from "react";
+import {
+  Play,
+  Square,
+  Trash2,
+  Loader2,
+  ListOrdered,
+  Layers,
+  Shuffle,
+} from "lucide-react";
+import type { ComparePlaybackMode, RecordingTake } from "@/types/audio";
+
+interface RecordingComparisonProps {
+  clipUrl: string;
+  clipDuration: number;
+  takes: RecordingTake[];
+  isRecording: boolean;
+  onDeleteTake: (id: string) => void;
+  onClearTakes: () => void;
+  onSelectedTakeChange?: (take: RecordingTake | null) => void;
+}
+
+const MODES: Array<{
+  id: ComparePlaybackMode;
+  label: string;
+  title: string;
+  icon: typeof ListOrdered;
+}> = [
+  {
+    id: "sequence",
+    label: "Sequence",
+    title: "Play the clip, then your take",
+    icon: ListOrdered,
+  },
+  {
+    id: "overlay",
+    label: "Overlay",
+    title: "Play the clip and your take at the same time",
+    icon: Layers,
+  },
+  {
+    id: "alternate",
+    label: "Alternate",
+    title: "Keep alternating clip and take until stopped",
+    icon: Shuffle,
+  },
+];
+
+// Gap between clip and take in sequence/alternate modes
+const SEQUENCE_GAP_MS = 300;
+
+interface PlaybackToken {
+  cancelled: boolean;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Plays [start, end) of the reference clip on a plain audio element.
+ * Resolves when the segment ends or the token is cancelled.
+ */
+function playReferenceSegment(
+  audio: HTMLAudioElement,
+  start: number,
+  end: number,
+  rate: number,
+  token: PlaybackToken
+): Promise<void> {
+  return new Promise((resolve) => {
+    let frame = 0;
+    const finish = () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener("ended", finish);
+      audio.pause();
+      resolve();
+    };
+    const tick = () => {
+      if (token.cancelled || audio.currentTime >= end) {
+        finish();
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    audio.playbackRate = rate;
+    (audio as any).preservesPitch = true;
+    audio.currentTime = start;
+    audio.addEventListener("ended", finish);
+    audio
+      .play()
+      .then(() => {
+        frame = requestAnimationFrame(tick);
+      })
+      .catch((err) => {
+        console.warn("Reference playback failed:", err);
+        finish();
+      });
+  });
+}
+
+/**
+ * Plays the learner's take on its WaveSurfer instance, skipping the
+ * recording latency so the voice starts with the clip.
+ */
+function playTake(ws: any, startAt: number, token: PlaybackToken): Promise<void> {
+  return new Promise((resolve) => {
+    let poll = 0;
+    const done = () => {
+      window.clearInterval(poll);
+      unsubscribe?.();
+      resolve();
+    };
+    const unsubscribe: (() => void) | undefined = ws.once?.("finish", done);
+    poll = window.setInterval(() => {
+      if (token.cancelled) {
+        ws.pause();
+        done();
+      }
+    }, 50);
+    ws.setTime(Math.min(startAt, ws.getDuration?.() || startAt));
+    Promise.resolve(ws.play()).catch((err: unknown) => {
+      console.warn("Take playback failed:", err);
+      done();
+    });
+  });
+}
+
+export function RecordingComparison({
+  clipUrl,
+  clipDuration,
+  takes,
+  isRecording,
+  onDeleteTake,
+  onClearTakes,
+  onSelectedTakeChange,
+}: RecordingComparisonProps) {
+  const takeWaveformRef = useRef<HTMLDivElement>(null);
+  const takeWsRef = useRef<any>(null);
+  const referenceRef = useRef<HTMLAudioElement | null>(null);
+  const tokenRef = useRef<PlaybackToken | null>(null);
+
+  const [selectedTakeId, setSelectedTakeId] = useState<string | null>(null);
+  const [mode, setMode] = useState<ComparePlaybackMode>("sequence");
+  const [isComparing, setIsComparing] = useState(false);
+  const [takeReady, setTakeReady] = useState(false);
+  const [waveformCreated, setWaveformCreated] = useState(false);
+
+  const selectedTake =
+    takes.find((t) => t.id === selectedTakeId) ?? takes[takes.length - 1];
+
+  // Follow the newest take unless the user picked an older one
+  useEffect(() => {
+    if (selectedTakeId && !takes.some((t) => t.id === selectedTakeId)) {
+      setSelectedTakeId(null);
+    }
+  }, [takes, selectedTakeId]);
+
+  useEffect(() => {
+    onSelectedTakeChange?.(selectedTake ?? null);
+  }, [selectedTake, onSelectedTakeChange]);
+
+  // Reference audio element (shares the browser cache with the main player)
+  useEffect(() => {
+    const audio = new Audio();
+    audio.preload = "auto";
+    audio.src = clipUrl;
+    referenceRef.current = audio;
+    return () => {
+      audio.pause();
+      audio.removeAttribute("src");
+      referenceRef.current = null;
+    };
+  }, [clipUrl]);
+
+  // Learner waveform - rendered under the clip waveform
+  useEffect(() => {
+    const container = takeWaveformRef.current;
+    if (!container) return;
+    let cancelled = false;
+
+    const init = async () => {
+      const { default: WaveSurfer } = await import("wavesurfer.js");
+      if (cancelled) return;
+      const ws = WaveSurfer.create({
+        container,
+        height: 80,
+        waveColor: "#a7f3d0",
+        progressColor: "#059669",
+        cursorColor: "#065f46",
+        cursorWidth: 2,
+        interact: false,
+        normalize: true,
+      });
+      takeWsRef.current = ws;
+      ws.on("ready", () => !cancelled && setTakeReady(true));
+      setWaveformCreated(true);
+    };
+    init();
+
+    return () => {
+      cancelled = true;
+      if (tokenRef.current) tokenRef.current.cancelled = true;
+      try {
+        takeWsRef.current?.destroy();
+      } catch {
+        /* noop */
+      }
+      takeWsRef.current = null;
+    };
+  }, []);
+
+  // Load the selected take into the learner waveform
+  useEffect(() => {
+    const ws = takeWsRef.current;
+    if (!waveformCreated || !ws || !selectedTake) return;
+    setTakeReady(false);
+    ws.load(selectedTake.url).catch((err: any) => {
+      if (err?.name !== "AbortError") {
+        console.warn("Failed to load take waveform:", err);
+      }
+    });
+  }, [waveformCreated, selectedTake]);
+
+  const stopComparison = useCallback(() => {
+    if (tokenRef.current) tokenRef.current.cancelled = true;
+    tokenRef.current = null;
+    referenceRef.current?.pause();
+    takeWsRef.current?.pause();
+    setIsComparing(false);
+  }, []);
+
+  const startComparison = useCallback(async () => {
+    const reference = referenceRef.current;
+    const ws = takeWsRef.current;
+    if (!reference || !ws || !selectedTake || !takeReady) return;
+
+    stopComparison();
+    const token: PlaybackToken = { cancelled: false };
+    tokenRef.current = token;
+    setIsComparing(true);
+
+    const start = selectedTake.regionStart;
+    const end =
+      selectedTake.regionEnd > start ? selectedTake.regionEnd : clipDuration;
+    const rate = selectedTake.playbackRate;
+    const takeStart = selectedTake.latencyMs / 1000;
+
+    try {
+      if (mode === "overlay") {
+        await Promise.all([
+          playReferenceSegment(reference, start, end, rate, token),
+          playTake(ws, takeStart, token),
+        ]);
+      } else {
+        do {
+          await playReferenceSegment(reference, start, end, rate, token);
+          if (token.cancelled) break;
+          await wait(SEQUENCE_GAP_MS);
+          if (token.cancelled) break;
+          await playTake(ws, takeStart, token);
+          if (token.cancelled || mode !== "alternate") break;
+          await wait(SEQUENCE_GAP_MS);
+        } while (!token.cancelled);
+      }
+    } finally {
+      if (tokenRef.current === token) {
+        tokenRef.current = null;
+        setIsComparing(false);
+      }
+    }
+  }, [selectedTake, takeReady, mode, clipDuration, stopComparison]);
+
+  // Don't compare while a new take is being captured
+  useEffect(() => {
+    if (isRecording) stopComparison();
+  }, [isRecording, stopComparison]);
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-emerald-50 rounded-lg border border-emerald-200 overflow-hidden relative">
+        <div ref={takeWaveformRef} className="w-full min-h-[80px]" />
+        {takes.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-emerald-700">
+            {isRecording ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                Recording your first take…
+              </>
+            ) : (
+              "Press play to record a take for every loop"
+            )}
+          </div>
+        )}
+      </div>
+
+      {takes.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={isComparing ? stopComparison : startComparison}
+              disabled={!takeReady || isRecording}
+              className="flex items-center gap-2 px-3 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+            >
+              {isComparing ? (
+                <>
+                  <Square className="w-4 h-4" />
+                  Stop
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  Compare
+                </>
+              )}
+            </button>
+            <div className="flex rounded-md border border-gray-200 overflow-hidden">
+              {MODES.map(({ id, label, title, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setMode(id)}
+                  disabled={isComparing}
+                  title={title}
+                  className={`flex items-center gap-1 px-2.5 py-2 text-xs font-medium disabled:cursor-not-allowed ${
+                    mode === id
+                      ? "bg-emerald-100 text-emerald-800"
+                      : "bg-white text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => {
+              stopComparison();
+              onClearTakes();
+            }}
+            className="text-xs text-gray-500 hover:text-red-600"
+          >
+            Clear all takes
+          </button>
+        </div>
+      )}
+
+      {takes.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {takes.map((take) => {
+            const isSelected = take.id === selectedTake?.id;
+            return (
+              <div
+                key={take.id}
+                className={`flex items-center gap-1 rounded-md border text-xs ${
+                  isSelected
+                    ? "border-emerald-400 bg-emerald-50 text-emerald-800"
+                    : "border-gray-200 bg-white text-gray-600"
+                }`}
+              >
+                <button
+                  onClick={() => {
+                    stopComparison();
+                    setSelectedTakeId(take.id);
+                  }}
+                  className="px-2 py-1"
+                  title={`Recorded at ${take.playbackRate.toFixed(2)}x${
+                    take.latencyMs > 0 ? `, aligned for ${take.latencyMs} ms latency` : ""
+                  }`}
+                >
+                  Loop {take.loopIndex} · {take.duration.toFixed(1)}s
+                  {take.playbackRate !== 1 && (
+                    <span className="ml-1 text-gray-400">
+                      {take.playbackRate.toFixed(2)}x
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => {
+                    if (isSelected) stopComparison();
+                    onDeleteTake(take.id);
+                  }}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  aria-label={`Delete take ${take.loopIndex}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
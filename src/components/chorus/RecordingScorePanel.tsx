@@ -0,0 +1,116 @@
+"use client";
+
+import { Activity, Loader2, AlertCircle } from "lucide-react";
+import { DIVERGENCE_COLORS } from "@/components/audio/DivergenceOverlay";
+import type { DivergenceKind, RecordingAnalysis } from "@/types/audio";
+
+interface RecordingScorePanelProps {
+  analysis: RecordingAnalysis | null;
+  isAnalyzing: boolean;
+  error: string | null;
+  onLoopRegion: (start: number, end: number) => void;
+}
+
+const KIND_LABELS: Record<DivergenceKind, string> = {
+  timing: "Timing",
+  intonation: "Intonation",
+  pronunciation: "Sounds",
+};
+
+// Within this much of the clip counts as on time
+const ON_TIME_MS = 60;
+
+const formatOffset = (ms: number) =>
+  Math.abs(ms) <= ON_TIME_MS ? "On time" : `${Math.abs(ms)} ms ${ms > 0 ? "late" : "early"}`;
+
+const formatSeconds = (s: number) => `${s.toFixed(1)}s`;
+
+function ScoreBar({ label, value }: { label: string; value?: number }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-20 text-gray-600">{label}</span>
+      <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+        {value !== undefined && (
+          <div
+            className={`h-full rounded-full ${
+              value >= 80 ? "bg-green-500" : value >= 50 ? "bg-amber-500" : "bg-red-500"
+            }`}
+            style={{ width: `${value}%` }}
+          />
+        )}
+      </div>
+      <span className="w-10 text-right font-medium text-gray-900">
+        {value !== undefined ? `${value}%` : "–"}
+      </span>
+    </div>
+  );
+}
+
+// How the selected take compares with the clip, once aligned
+export function RecordingScorePanel({
+  analysis,
+  isAnalyzing,
+  error,
+  onLoopRegion,
+}: RecordingScorePanelProps) {
+  if (isAnalyzing) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Scoring your take…
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <AlertCircle className="w-4 h-4 text-amber-600" />
+        {error}
+      </div>
+    );
+  }
+
+  if (!analysis) return null;
+  const { score, divergentRegions } = analysis;
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+          <Activity className="w-4 h-4 text-indigo-600" />
+          Take score
+          <span className="text-indigo-700">{score.overall}%</span>
+        </h3>
+        <span className="text-xs text-gray-600">{formatOffset(score.timingOffsetMs)}</span>
+      </div>
+
+      <div className="space-y-1.5 text-xs">
+        <ScoreBar label="Rhythm" value={score.rhythmSimilarity} />
+        <ScoreBar label="Intonation" value={score.intonationSimilarity} />
+      </div>
+
+      {divergentRegions.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">Work on:</span>
+          {divergentRegions.map((region) => (
+            <button
+              key={region.start}
+              onClick={() => onLoopRegion(region.start, region.end)}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-md border border-gray-200 bg-white hover:bg-gray-50 text-gray-700"
+              title="Loop this part"
+            >
+              <span
+                className="inline-block w-2 h-2 rounded-full"
+                style={{ backgroundColor: `rgb(${DIVERGENCE_COLORS[region.kind]})` }}
+              />
+              {KIND_LABELS[region.kind]} {formatSeconds(region.start)}–{formatSeconds(region.end)}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No part of this take stands out from the clip.</p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Clock, User, Star, Zap, Loader2, AlertCircle } from "lucide-react";
+import { Clock, User, Star, Zap, Loader2, AlertCircle, Headphones } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth";
+import { shadowingUrl, startShadowingSession } from "@/lib/shadowing";
 import type { AudioClip } from "@/types/audio";
 import { createClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/supabase";
@@ -24,6 +26,7 @@ interface ClipWithStarInfo extends AudioClip {
 
 export function RelatedClips({ currentClip }: RelatedClipsProps) {
   const { user, getAuthHeaders } = useAuth();
+  const router = useRouter();
   const [relatedClips, setRelatedClips] = useState<ClipWithStarInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -94,6 +97,15 @@ export function RelatedClips({ currentClip }: RelatedClipsProps) {
     return new Date(dateString).toLocaleDateString();
   };
 
+  // Shadow this clip and then the related ones
+  const handleStartShadowing = () => {
+    const session = startShadowingSession(
+      [currentClip.id, ...relatedClips.map((clip) => clip.id)],
+      "related"
+    );
+    router.push(shadowingUrl(session));
+  };
+
   return (
     <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 h-fit">
       <div className="flex items-center justify-between mb-4">
@@ -104,6 +116,15 @@ export function RelatedClips({ currentClip }: RelatedClipsProps) {
           {relatedClips.length} found
         </span>
       </div>
+      {relatedClips.length > 0 && (
+        <button
+          onClick={handleStartShadowing}
+          className="w-full mb-4 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100"
+        >
+          <Headphones className="w-4 h-4" />
+          Shadow this clip and these
+        </button>
+      )}
 
       {loading && (
         <div className="flex items-center justify-center py-8">
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { Flag, X, AlertCircle, Check } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import {
+  REPORT_REASONS,
+  REPORT_REASON_LABELS,
+  type ReportReason,
+} from "@/types/moderation";
+
+interface ReportClipProps {
+  clipId: string;
+}
+
+// "Report clip" button and dialog; reports go to the curators' moderation queue
+export function ReportClip({ clipId }: ReportClipProps) {
+  const { user, getAuthHeaders } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isReported, setIsReported] = useState(false);
+
+  if (!user) return null;
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/clips/${clipId}/report`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({ reason, details: details.trim() || undefined }),
+      });
+
+      // Already reported counts as done
+      if (!response.ok && response.status !== 409) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to report clip");
+      }
+
+      setIsReported(true);
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Failed to report clip:", err);
+      setError(err instanceof Error ? err.message : "Failed to report clip");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={isReported}
+        className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-red-600 disabled:hover:text-gray-500 disabled:cursor-default"
+        title={isReported ? "Thanks - a curator will take a look" : "Report a problem with this clip"}
+      >
+        {isReported ? <Check className="w-4 h-4" /> : <Flag className="w-4 h-4" />}
+        {isReported ? "Reported" : "Report clip"}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h1 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+                <Flag className="w-5 h-5" />
+                Report Clip
+              </h1>
+              <button
+                onClick={handleClose}
+                className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-md p-1"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+                  <AlertCircle className="w-4 h-4" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              <fieldset className="space-y-2">
+                <legend className="block text-sm font-medium text-gray-700 mb-2">
+                  What&apos;s wrong with it?
+                </legend>
+                {REPORT_REASONS.map((value) => (
+                  <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="reason"
+                      value={value}
+                      checked={reason === value}
+                      onChange={() => setReason(value)}
+                      className="text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {REPORT_REASON_LABELS[value]}
+                  </label>
+                ))}
+              </fieldset>
+
+              <div>
+                <label htmlFor="report-details" className="block text-sm font-medium text-gray-700 mb-1">
+                  Details{reason === "other" ? " *" : ""}
+                </label>
+                <textarea
+                  id="report-details"
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  required={reason === "other"}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="e.g. the correct transcript, or where the audio comes from"
+                />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!reason || isSubmitting}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? "Reporting..." : "Report"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { REVIEW_GRADES, formatDueIn, gradeFromAccuracy } from "@/lib/srs";
+import type { ClipReviewState, ReviewGrade } from "@/types/practice";
+
+interface ReviewGradingProps {
+  clipId: string;
+  accuracy: number | null; // latest transcription accuracy, if checked
+  onReviewed?: (review: ClipReviewState) => void;
+}
+
+const GRADE_LABELS: Record<ReviewGrade, { label: string; className: string }> = {
+  again: {
+    label: "Again",
+    className: "bg-red-50 text-red-700 border-red-200 hover:bg-red-100",
+  },
+  hard: {
+    label: "Hard",
+    className: "bg-orange-50 text-orange-700 border-orange-200 hover:bg-orange-100",
+  },
+  good: {
+    label: "Good",
+    className: "bg-green-50 text-green-700 border-green-200 hover:bg-green-100",
+  },
+  easy: {
+    label: "Easy",
+    className: "bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100",
+  },
+};
+
+export function ReviewGrading({
+  clipId,
+  accuracy,
+  onReviewed,
+}: ReviewGradingProps) {
+  const { user, getAuthHeaders } = useAuth();
+  const [review, setReview] = useState<ClipReviewState | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestedGrade = accuracy !== null ? gradeFromAccuracy(accuracy) : null;
+
+  // Load the current schedule for this clip
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const fetchReview = async () => {
+      try {
+        const response = await fetch(`/api/clips/${clipId}/review`, {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setReview(data.review);
+      } catch (err) {
+        console.error("Failed to load review state:", err);
+      }
+    };
+
+    fetchReview();
+    return () => {
+      cancelled = true;
+    };
+  }, [clipId, user, getAuthHeaders]);
+
+  const submitGrade = async (grade: ReviewGrade) => {
+    if (!user) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/clips/${clipId}/review`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          grade,
+          ...(accuracy !== null && { accuracy }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save review");
+      }
+
+      const data = await response.json();
+      setReview(data.review);
+      onReviewed?.(data.review);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save review");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <p className="text-sm text-gray-500">
+        Sign in to schedule this clip for review
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">
+          How well could you follow this clip?
+          {suggestedGrade && (
+            <span className="ml-1 text-gray-400">
+              ({accuracy}% transcription accuracy suggests &quot;
+              {GRADE_LABELS[suggestedGrade].label}&quot;)
+            </span>
+          )}
+        </p>
+        {isSubmitting && (
+          <Loader2 className="w-4 h-4 animate-spin text-gray-400 flex-shrink-0" />
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {REVIEW_GRADES.map((grade) => (
+          <button
+            key={grade}
+            onClick={() => submitGrade(grade)}
+            disabled={isSubmitting}
+            className={`px-3 py-2 rounded-md border text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+              GRADE_LABELS[grade].className
+            } ${grade === suggestedGrade ? "ring-2 ring-indigo-400" : ""}`}
+          >
+            {GRADE_LABELS[grade].label}
+          </button>
+        ))}
+      </div>
+
+      {review && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <CalendarClock className="w-3.5 h-3.5" />
+          Next review {formatDueIn(review.dueAt)}
+          {review.repetitions > 0 && (
+            <span>
+              · {review.repetitions} successful{" "}
+              {review.repetitions === 1 ? "review" : "reviews"} in a row
+            </span>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
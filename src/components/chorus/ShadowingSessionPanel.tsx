@@ -0,0 +1,165 @@
+"use client";
+
+import Link from "next/link";
+import {
+  Headphones,
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import {
+  REPEAT_GAP_OPTIONS,
+  SHADOWING_LOOPS_OPTIONS,
+  SHADOWING_SOURCE_LABELS,
+  SPEED_STEP_DOWN_SCHEDULE,
+} from "@/lib/shadowing";
+import type { ShadowingSession, ShadowingSettings } from "@/types/practice";
+
+interface ShadowingSessionPanelProps {
+  session: ShadowingSession;
+  playbackRate?: number; // rate of the loop being played
+  onSettingsChange: (changes: Partial<ShadowingSettings>) => void;
+  onRestart: () => void;
+  onEnd: () => void;
+}
+
+const formatSchedule = (schedule: number[]) =>
+  schedule.map((rate) => `${rate.toFixed(2)}x`).join(" → ");
+
+export function ShadowingSessionPanel({
+  session,
+  playbackRate,
+  onSettingsChange,
+  onRestart,
+  onEnd,
+}: ShadowingSessionPanelProps) {
+  const { clipIds, index, loopsDone, settings } = session;
+  const previous = clipIds[index - 1];
+  const next = clipIds[index + 1];
+  const isSteppingSpeed = settings.speedSchedule.length > 1;
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <Headphones className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+          <div className="min-w-0">
+            <div className="font-medium text-gray-900">
+              Shadowing session
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {SHADOWING_SOURCE_LABELS[session.source]}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Clip {index + 1} of {clipIds.length}
+              {session.completedAt ? (
+                <span className="ml-2 inline-flex items-center gap-1 text-green-700">
+                  <CheckCircle className="w-3 h-3" />
+                  Session complete
+                </span>
+              ) : (
+                <span className="ml-2">
+                  Loop {Math.min(loopsDone + 1, settings.loopsPerClip)} of{" "}
+                  {settings.loopsPerClip}
+                  {playbackRate !== undefined && ` at ${playbackRate.toFixed(2)}x`}
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {previous ? (
+            <Link
+              href={`/chorus/${previous}?shadowing=1`}
+              className="p-2 text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              title="Previous clip"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Link>
+          ) : (
+            <span className="p-2 text-gray-300 border border-gray-200 rounded-md">
+              <ChevronLeft className="w-4 h-4" />
+            </span>
+          )}
+          {next ? (
+            <Link
+              href={`/chorus/${next}?shadowing=1`}
+              className="p-2 text-gray-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              title="Next clip"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Link>
+          ) : (
+            <span className="p-2 text-gray-300 border border-gray-200 rounded-md">
+              <ChevronRight className="w-4 h-4" />
+            </span>
+          )}
+          {session.completedAt && (
+            <button
+              onClick={onRestart}
+              className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Start over
+            </button>
+          )}
+          <button
+            onClick={onEnd}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            title="End the session and stay on this clip"
+          >
+            <X className="w-4 h-4" />
+            End
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          Loops per clip
+          <select
+            value={settings.loopsPerClip}
+            onChange={(e) => onSettingsChange({ loopsPerClip: Number(e.target.value) })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {SHADOWING_LOOPS_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Pause to repeat
+          <select
+            value={settings.repeatGapSeconds}
+            onChange={(e) => onSettingsChange({ repeatGapSeconds: Number(e.target.value) })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {REPEAT_GAP_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option === 0 ? "None" : `${option}s`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={isSteppingSpeed}
+            onChange={(e) =>
+              onSettingsChange({
+                speedSchedule: e.target.checked ? SPEED_STEP_DOWN_SCHEDULE : [1],
+              })
+            }
+            className="rounded text-indigo-600 focus:ring-indigo-500"
+          />
+          Build up speed ({formatSchedule(SPEED_STEP_DOWN_SCHEDULE)})
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, Fragment } from "react";
 import {
   Eye,
   EyeOff,
@@ -9,48 +9,104 @@ import {
   AlertCircle,
   Save,
   RotateCcw,
+  SlidersHorizontal,
 } from "lucide-react";
 import { useAuth } from "@/lib/auth";
+import { useKeyboardShortcuts } from "@/lib/keyboard-shortcuts";
+import { formatBinding, matchShortcut } from "@/lib/shortcuts";
 import type {
   AudioClip,
   TranscriptionPracticeState,
   TranscriptionComparison,
   TranscriptionDiff,
+  DiffGranularity,
+  NormalizationRules,
 } from "@/types/audio";
 import { createClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/supabase";
-import { calculateAccuracy, generateDiff } from "@/lib/transcription-diff";
+import {
+  calculateAccuracy,
+  generateDiff,
+  compareWords,
+  isUnspacedLanguage,
+} from "@/lib/transcription-diff";
+import {
+  NORMALIZATION_RULE_KEYS,
+  NORMALIZATION_RULE_LABELS,
+  baseLanguage,
+  getDefaultNormalizationRules,
+  isRuleApplicable,
+  normalizeTranscript,
+} from "@/lib/text-normalization";
+
+const rulesStorageKey = (language: string) =>
+  `transcription-rules-${baseLanguage(language) || "default"}`;
 
 interface TranscriptionPracticeProps {
   clip: AudioClip & { url: string };
   onTranscriptionUpdate?: (newTranscript: string) => void;
+  onAccuracyChecked?: (accuracy: number, rules: NormalizationRules) => void;
 }
 
 export function TranscriptionPractice({
   clip,
   onTranscriptionUpdate,
+  onAccuracyChecked,
 }: TranscriptionPracticeProps) {
   const { user, getAuthHeaders } = useAuth();
+  const { shortcuts, isCheatSheetOpen } = useKeyboardShortcuts();
   const [state, setState] = useState<TranscriptionPracticeState>({
     isRevealed: false,
     userInput: "",
     showComparison: false,
     isSubmitting: false,
   });
+  const [granularity, setGranularity] = useState<DiffGranularity>("word");
+  const [showRules, setShowRules] = useState(false);
 
+  const language = clip.metadata.language;
   const hasOriginalTranscript = Boolean(clip.metadata.transcript?.trim());
+  const [rules, setRules] = useState<NormalizationRules>(() =>
+    getDefaultNormalizationRules(language)
+  );
+
+  // Rules are remembered per language
+  useEffect(() => {
+    const defaults = getDefaultNormalizationRules(language);
+    try {
+      const stored = localStorage.getItem(rulesStorageKey(language));
+      setRules(stored ? { ...defaults, ...JSON.parse(stored) } : defaults);
+    } catch {
+      setRules(defaults);
+    }
+  }, [language]);
+
+  const toggleRule = useCallback(
+    (rule: keyof NormalizationRules) => {
+      setRules((prev) => {
+        const next = { ...prev, [rule]: !prev[rule] };
+        try {
+          localStorage.setItem(rulesStorageKey(language), JSON.stringify(next));
+        } catch {
+          // localStorage full or unavailable — ignore
+        }
+        return next;
+      });
+    },
+    [language]
+  );
 
   // Calculate character-level diff between original and user text using optimal alignment
   const calculateDiff = useCallback(
     (original: string, userText: string): TranscriptionComparison => {
+      const options = { rules, language };
+
       // Use the new diff algorithm that handles insertions/deletions gracefully
-      const diffs = generateDiff(original, userText);
-      const accuracy = calculateAccuracy(original, userText);
+      const diffs = generateDiff(original, userText, options);
+      const accuracy = calculateAccuracy(original, userText, options);
 
       // Calculate total and correct characters from the normalized original text
-      const normalizeText = (text: string) =>
-        text.trim().toLowerCase().replace(/\s+/g, " ");
-      const origNorm = normalizeText(original);
+      const origNorm = normalizeTranscript(original, rules, language);
       const totalCharacters = origNorm.length;
 
       // Count correct characters from match segments
@@ -58,14 +114,22 @@ export function TranscriptionPractice({
         .filter((diff) => diff.type === "match")
         .reduce((sum, diff) => sum + diff.originalText.length, 0);
 
+      // Word-level alignment (Intl.Segmenter handles CJK word boundaries)
+      const words = compareWords(original, userText, options);
+
       return {
         accuracy,
         diffs,
         totalCharacters,
         correctCharacters,
+        wordErrorRate: words.wordErrorRate,
+        wordDiffs: words.diffs,
+        totalWords: words.totalWords,
+        correctWords: words.correctWords,
+        normalizationRules: rules,
       };
     },
-    []
+    [rules, language]
   );
 
   const toggleReveal = useCallback(() => {
@@ -88,13 +152,25 @@ export function TranscriptionPractice({
       comparison,
       showComparison: true,
     }));
+    onAccuracyChecked?.(comparison.accuracy, comparison.normalizationRules);
   }, [
     hasOriginalTranscript,
     state.userInput,
     clip.metadata.transcript,
     calculateDiff,
+    onAccuracyChecked,
   ]);
 
+  // Re-score the shown comparison when the rules change
+  const originalTranscript = clip.metadata.transcript;
+  useEffect(() => {
+    setState((prev) =>
+      prev.showComparison && originalTranscript
+        ? { ...prev, comparison: calculateDiff(originalTranscript, prev.userInput) }
+        : prev
+    );
+  }, [calculateDiff, originalTranscript]);
+
   const resetInput = useCallback(() => {
     setState((prev) => ({
       ...prev,
@@ -151,27 +227,27 @@ export function TranscriptionPractice({
     }
   }, [user, state.userInput, clip, onTranscriptionUpdate, getAuthHeaders]);
 
-  // Keyboard shortcuts
+  // Keyboard shortcuts (bindings from lib/shortcuts)
   useEffect(() => {
+    if (isCheatSheetOpen) return;
+
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't trigger shortcuts if user is typing in the textarea
       if (e.target instanceof HTMLTextAreaElement) {
         return;
       }
 
-      switch (e.code) {
-        case "KeyT":
+      switch (matchShortcut(e, shortcuts, "chorus")) {
+        case "toggleReveal":
           e.preventDefault();
           toggleReveal();
           break;
-        case "Enter":
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            if (hasOriginalTranscript && state.userInput.trim()) {
-              checkTranscription();
-            } else if (!hasOriginalTranscript && state.userInput.trim()) {
-              submitNewTranscription();
-            }
+        case "checkTranscription":
+          e.preventDefault();
+          if (hasOriginalTranscript && state.userInput.trim()) {
+            checkTranscription();
+          } else if (!hasOriginalTranscript && state.userInput.trim()) {
+            submitNewTranscription();
           }
           break;
       }
@@ -180,6 +256,8 @@ export function TranscriptionPractice({
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [
+    isCheatSheetOpen,
+    shortcuts,
     toggleReveal,
     checkTranscription,
     submitNewTranscription,
@@ -187,51 +265,56 @@ export function TranscriptionPractice({
     state.userInput,
   ]);
 
-  const renderDiffText = (diffs: TranscriptionDiff[]) => {
+  // Word segments are separated by spaces unless the language doesn't use them
+  const renderDiffText = (diffs: TranscriptionDiff[], separator = "") => {
     return (
       <div className="font-mono text-sm leading-relaxed">
-        {diffs.map((diff, index) => {
-          switch (diff.type) {
-            case "match":
-              return (
-                <span key={index} className="bg-green-100 text-green-800">
-                  {diff.originalText}
-                </span>
-              );
-            case "replace":
-              return (
-                <span key={index} className="relative">
-                  <span className="bg-red-100 text-red-800 line-through">
-                    {diff.originalText}
-                  </span>
-                  <span className="bg-yellow-100 text-yellow-800 ml-1">
-                    {diff.userText}
-                  </span>
-                </span>
-              );
-            case "delete":
-              return (
-                <span
-                  key={index}
-                  className="bg-red-100 text-red-800 line-through"
-                >
-                  {diff.originalText}
-                </span>
-              );
-            case "insert":
-              return (
-                <span key={index} className="bg-blue-100 text-blue-800">
-                  +{diff.userText}
-                </span>
-              );
-            default:
-              return null;
-          }
-        })}
+        {diffs.map((diff, index) => (
+          <Fragment key={index}>
+            {index > 0 && separator}
+            {renderDiffSegment(diff)}
+          </Fragment>
+        ))}
       </div>
     );
   };
 
+  const renderDiffSegment = (diff: TranscriptionDiff) => {
+    switch (diff.type) {
+      case "match":
+        return (
+          <span className="bg-green-100 text-green-800">
+            {diff.originalText}
+          </span>
+        );
+      case "replace":
+        return (
+          <span className="relative">
+            <span className="bg-red-100 text-red-800 line-through">
+              {diff.originalText}
+            </span>
+            <span className="bg-yellow-100 text-yellow-800 ml-1">
+              {diff.userText}
+            </span>
+          </span>
+        );
+      case "delete":
+        return (
+          <span className="bg-red-100 text-red-800 line-through">
+            {diff.originalText}
+          </span>
+        );
+      case "insert":
+        return (
+          <span className="bg-blue-100 text-blue-800">
+            +{diff.userText}
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
   return (
     <div className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 space-y-6">
       {/* Header */}
@@ -319,6 +402,18 @@ export function TranscriptionPractice({
               <RotateCcw className="w-4 h-4" />
               Reset
             </button>
+            <button
+              onClick={() => setShowRules(!showRules)}
+              className={`ml-auto flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+                showRules
+                  ? "bg-indigo-100 text-indigo-700"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+              title="Choose which differences count as errors"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              Comparison Rules
+            </button>
           </>
         ) : (
           <button
@@ -341,6 +436,40 @@ export function TranscriptionPractice({
         )}
       </div>
 
+      {/* Normalization Rules */}
+      {hasOriginalTranscript && showRules && (
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <h4 className="text-sm font-medium text-gray-900 mb-3">
+            Ignore these differences when comparing
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {NORMALIZATION_RULE_KEYS
+              .filter((rule) => isRuleApplicable(rule, language))
+              .map((rule) => (
+                <label
+                  key={rule}
+                  className="flex items-start gap-2 text-sm cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={rules[rule]}
+                    onChange={() => toggleRule(rule)}
+                    className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-700">
+                      {NORMALIZATION_RULE_LABELS[rule].label}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {NORMALIZATION_RULE_LABELS[rule].description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+          </div>
+        </div>
+      )}
+
       {/* Error Message */}
       {state.error && (
         <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
@@ -372,15 +501,47 @@ export function TranscriptionPractice({
                 {state.comparison.correctCharacters} /{" "}
                 {state.comparison.totalCharacters} characters
               </div>
+              <div
+                className="text-xs text-gray-600"
+                title="Word error rate: substituted, missing and extra words divided by the number of words in the original"
+              >
+                {state.comparison.wordErrorRate}% WER ·{" "}
+                {state.comparison.correctWords} /{" "}
+                {state.comparison.totalWords} words
+              </div>
             </div>
           </div>
 
           <div>
-            <h5 className="text-sm font-medium text-gray-700 mb-2">
-              Character-by-character comparison:
-            </h5>
+            <div className="flex items-center justify-between mb-2">
+              <h5 className="text-sm font-medium text-gray-700">
+                {granularity === "word"
+                  ? "Word-by-word comparison:"
+                  : "Character-by-character comparison:"}
+              </h5>
+              <div className="flex rounded-md border border-gray-200 overflow-hidden">
+                {(["word", "character"] as DiffGranularity[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setGranularity(option)}
+                    className={`px-2.5 py-1 text-xs font-medium ${
+                      granularity === option
+                        ? "bg-indigo-100 text-indigo-800"
+                        : "bg-white text-gray-600 hover:bg-gray-50"
+                    }`}
+                  >
+                    {option === "word" ? "Words" : "Characters"}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="bg-white rounded-md p-3 border border-gray-200">
-              {renderDiffText(state.comparison.diffs)}
+              {granularity === "word"
+                ? renderDiffText(
+                    state.comparison.wordDiffs,
+                    isUnspacedLanguage(language) ? "" : " "
+                  )
+                : renderDiffText(state.comparison.diffs)}
             </div>
           </div>
 
@@ -401,13 +562,13 @@ export function TranscriptionPractice({
               <span className="bg-yellow-100 text-yellow-800 px-1 rounded">
                 Yellow
               </span>{" "}
-              = Incorrect character
+              = Incorrect {granularity}
             </p>
             <p>
               <span className="bg-blue-100 text-blue-800 px-1 rounded">
                 Blue +
               </span>{" "}
-              = Extra character
+              = Extra {granularity}
             </p>
           </div>
         </div>
@@ -416,8 +577,9 @@ export function TranscriptionPractice({
       {/* Keyboard Shortcuts Info */}
       <div className="text-xs text-gray-600 bg-gray-50 rounded-md p-3">
         <p>
-          <kbd className="keyboard-hint">T</kbd> Toggle transcription reveal •{" "}
-          <kbd className="keyboard-hint">Ctrl+Enter</kbd>{" "}
+          <kbd className="keyboard-hint">{formatBinding(shortcuts.toggleReveal)}</kbd> Toggle
+          transcription reveal •{" "}
+          <kbd className="keyboard-hint">{formatBinding(shortcuts.checkTranscription)}</kbd>{" "}
           {hasOriginalTranscript ? "Check answer" : "Save transcription"}
         </p>
       </div>
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { X, AlertCircle, Layers, Plus, Loader2, Lock, Globe } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { MAX_DECK_NAME_LENGTH } from "@/lib/decks";
+import type { Deck } from "@/types/deck";
+
+interface AddToDeckModalProps {
+  clipIds: string[]; // in the order they should be added
+  isOpen: boolean;
+  onClose: () => void;
+  onAdded: (deck: Deck) => void;
+}
+
+// Adds clips to the end of one of the user's decks, or to a new deck
+export function AddToDeckModal({ clipIds, isOpen, onClose, onAdded }: AddToDeckModalProps) {
+  const { getAuthHeaders } = useAuth();
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingDeckId, setSavingDeckId] = useState<string | null>(null);
+  const [newDeckName, setNewDeckName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchDecks = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch("/api/decks", { headers: getAuthHeaders() });
+        if (!response.ok) {
+          throw new Error("Failed to fetch decks");
+        }
+        setDecks((await response.json()).decks);
+      } catch (err) {
+        console.error("Failed to fetch decks:", err);
+        setError(err instanceof Error ? err.message : "Failed to load decks");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDecks();
+  }, [isOpen, getAuthHeaders]);
+
+  const save = async (deckId: string, request: () => Promise<Response>) => {
+    setSavingDeckId(deckId);
+    setError(null);
+    try {
+      const response = await request();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save deck");
+      }
+      onAdded(data.deck);
+    } catch (err) {
+      console.error("Failed to save deck:", err);
+      setError(err instanceof Error ? err.message : "Failed to save deck");
+    } finally {
+      setSavingDeckId(null);
+    }
+  };
+
+  const handleAdd = (deck: Deck) =>
+    save(deck.id, () =>
+      fetch(`/api/decks/${deck.id}`, {
+        method: "PATCH",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ clipIds: [...deck.clipIds, ...clipIds] }),
+      })
+    );
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDeckName.trim()) return;
+    save("new", () =>
+      fetch("/api/decks", {
+        method: "POST",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newDeckName.trim(), isPublic: false, clipIds }),
+      })
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h1 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Add {clipIds.length} {clipIds.length === 1 ? "clip" : "clips"} to a deck
+          </h1>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-md p-1"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newDeckName}
+              onChange={(e) => setNewDeckName(e.target.value)}
+              maxLength={MAX_DECK_NAME_LENGTH}
+              placeholder="New deck name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <button
+              type="submit"
+              disabled={!newDeckName.trim() || savingDeckId !== null}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {savingDeckId === "new" ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4" />
+              )}
+              Create
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-6 text-gray-600">
+              <Loader2 className="w-5 h-5 animate-spin text-indigo-600" />
+              Loading decks...
+            </div>
+          ) : decks.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-4">
+              You have no decks yet. Name one above to create it.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {decks.map((deck) => (
+                <li key={deck.id}>
+                  <button
+                    onClick={() => handleAdd(deck)}
+                    disabled={savingDeckId !== null}
+                    className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <span className="min-w-0">
+                      <span className="block font-medium text-gray-900 truncate">{deck.name}</span>
+                      <span className="flex items-center gap-1 text-xs text-gray-500">
+                        {deck.isPublic ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                        {deck.clipIds.length} {deck.clipIds.length === 1 ? "clip" : "clips"}
+                      </span>
+                    </span>
+                    {savingDeckId === deck.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
+                    ) : (
+                      <Plus className="w-4 h-4 text-gray-400" />
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="text-right">
+            <Link href="/decks" className="text-sm text-indigo-600 hover:text-indigo-700">
+              Manage decks
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { X, Keyboard, AlertCircle, Loader2, RotateCcw } from "lucide-react";
+import { useKeyboardShortcuts } from "@/lib/keyboard-shortcuts";
+import {
+  DEFAULT_KEYBOARD_SHORTCUTS,
+  SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_SCOPE_LABELS,
+  bindingFromEvent,
+  findShortcutConflicts,
+  formatBinding,
+  type ShortcutScope,
+} from "@/lib/shortcuts";
+import type { KeyboardShortcuts, ShortcutAction } from "@/types/audio";
+
+const SCOPES = Object.keys(SHORTCUT_SCOPE_LABELS) as ShortcutScope[];
+
+// Cheat sheet of every shortcut, where any of them can be rebound
+export function KeyboardShortcutsDialog() {
+  const { shortcuts, saveOverrides, isCheatSheetOpen, closeCheatSheet } =
+    useKeyboardShortcuts();
+  const [draft, setDraft] = useState<KeyboardShortcuts>(shortcuts);
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved bindings every time the sheet opens
+  useEffect(() => {
+    if (!isCheatSheetOpen) return;
+    setDraft(shortcuts);
+    setRecording(null);
+    setError(null);
+  }, [isCheatSheetOpen, shortcuts]);
+
+  // Close on Escape, or take the next key press as the new binding. Runs in
+  // the capture phase so the players never see these keys.
+  useEffect(() => {
+    if (!isCheatSheetOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!recording) {
+        if (e.code === "Escape") {
+          e.preventDefault();
+          closeCheatSheet();
+        }
+        return;
+      }
+
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code === "Escape" && !e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey) {
+        setRecording(null);
+        return;
+      }
+      const binding = bindingFromEvent(e);
+      if (!binding) return; // wait for the key that goes with the modifier
+      setDraft((prev) => ({ ...prev, [recording]: binding }));
+      setRecording(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [isCheatSheetOpen, recording, closeCheatSheet]);
+
+  if (!isCheatSheetOpen) return null;
+
+  const conflicts = findShortcutConflicts(draft);
+  const conflictingActions = new Set(conflicts.flatMap((conflict) => conflict.actions));
+  const hasChanges = SHORTCUT_ACTIONS.some((action) => draft[action] !== shortcuts[action]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const overrides: Partial<KeyboardShortcuts> = {};
+      SHORTCUT_ACTIONS.forEach((action) => {
+        if (draft[action] !== DEFAULT_KEYBOARD_SHORTCUTS[action]) {
+          overrides[action] = draft[action];
+        }
+      });
+      await saveOverrides(overrides);
+      closeCheatSheet();
+    } catch (err) {
+      console.error("Failed to save keyboard shortcuts:", err);
+      setError(err instanceof Error ? err.message : "Failed to save keyboard shortcuts");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={closeCheatSheet}
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h1 className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+            <Keyboard className="w-5 h-5" />
+            Keyboard shortcuts
+          </h1>
+          <button
+            onClick={closeCheatSheet}
+            className="text-gray-400 hover:text-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-md p-1"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-gray-600">
+            Click a key to change it, then press the new key (with Ctrl, Alt or Shift if
+            you like). Esc cancels.
+          </p>
+
+          {SCOPES.map((scope) => (
+            <div key={scope}>
+              <h2 className="text-sm font-semibold text-gray-900 mb-2">
+                {SHORTCUT_SCOPE_LABELS[scope]}
+              </h2>
+              <ul className="divide-y divide-gray-100">
+                {SHORTCUT_ACTIONS.filter((action) => SHORTCUTS[action].scopes.includes(scope)).map(
+                  (action) => (
+                    <li key={action} className="py-1.5 flex items-center justify-between gap-4">
+                      <span className="text-sm text-gray-700">{SHORTCUTS[action].label}</span>
+                      <div className="flex items-center gap-2">
+                        {SHORTCUTS[action].aliases?.map((alias) => (
+                          <kbd key={alias} className="keyboard-hint">
+                            {formatBinding(alias)}
+                          </kbd>
+                        ))}
+                        <button
+                          onClick={() => setRecording(recording === action ? null : action)}
+                          className={`min-w-[5rem] px-2 py-1 text-sm font-mono rounded-md border ${
+                            recording === action
+                              ? "bg-indigo-50 border-indigo-400 text-indigo-700"
+                              : conflictingActions.has(action)
+                                ? "bg-red-50 border-red-300 text-red-700"
+                                : "bg-gray-50 border-gray-300 text-gray-800 hover:bg-gray-100"
+                          }`}
+                          title="Change this shortcut"
+                        >
+                          {recording === action ? "Press a key…" : formatBinding(draft[action])}
+                        </button>
+                      </div>
+                    </li>
+                  )
+                )}
+              </ul>
+            </div>
+          ))}
+
+          {conflicts.map((conflict) => (
+            <div
+              key={conflict.binding}
+              className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700"
+            >
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span className="text-sm">
+                {formatBinding(conflict.binding)} is used by{" "}
+                {conflict.actions.map((action) => SHORTCUTS[action].label).join(" and ")}
+              </span>
+            </div>
+          ))}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md flex items-center gap-2 text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={() => setDraft(DEFAULT_KEYBOARD_SHORTCUTS)}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to defaults
+          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={closeCheatSheet}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges || conflicts.length > 0 || saving}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
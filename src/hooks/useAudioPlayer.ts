@@ -4,10 +4,12 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import WaveSurfer from "wavesurfer.js";
 import { createWaveSurferConfig } from "@/lib/audio/config";
+import { fetchClipPeaks } from "@/lib/audio/clip-peaks";
 import type { PlaybackState } from "@/types/audio";
 
 interface UseAudioPlayerProps {
   url?: string;
+  clipId?: string; // when set, the waveform is drawn from the clip's server peaks
   onReady?: () => void;
   onPlay?: () => void;
   onPause?: () => void;
@@ -17,6 +19,7 @@ interface UseAudioPlayerProps {
 
 export function useAudioPlayer({
   url,
+  clipId,
   onReady,
   onPlay,
   onPause,
@@ -28,6 +31,7 @@ export function useAudioPlayer({
   const isMountedRef = useRef(true);
   const isInitializedRef = useRef(false); // Use ref instead of state to avoid dependency loop
   const isLoopingRef = useRef(false); // Track looping state with ref
+  const loadIdRef = useRef(0); // Lets a newer load supersede one still fetching peaks
 
   // Store callbacks in refs to avoid re-initialization
   const callbacksRef = useRef({ onReady, onPlay, onPause, onFinish, onError });
@@ -57,6 +61,36 @@ export function useAudioPlayer({
     }
   }, []);
 
+  // Loads audio, drawing the waveform from server peaks when the clip has
+  // them so it shows before the whole file is downloaded and decoded
+  const loadAudio = useCallback(
+    async (audioUrl: string, audioClipId?: string) => {
+      const loadId = ++loadIdRef.current;
+      try {
+        const peaks = audioClipId ? await fetchClipPeaks(audioClipId) : null;
+        const wavesurfer = wavesurferRef.current;
+        if (!wavesurfer || loadId !== loadIdRef.current) return;
+
+        if (peaks) {
+          await wavesurfer.load(audioUrl, [peaks.peaks], peaks.duration);
+        } else {
+          await wavesurfer.load(audioUrl);
+        }
+      } catch (err) {
+        // Handle load errors
+        if (err instanceof Error && err.name !== "AbortError") {
+          const errorMessage = err.message || "Failed to load audio URL";
+          if (isMountedRef.current) {
+            setError(errorMessage);
+            setLoading(false);
+          }
+          callbacksRef.current.onError?.(errorMessage);
+        }
+      }
+    },
+    []
+  );
+
   // Initialize WaveSurfer instance (only once)
   useEffect(() => {
     if (!waveformRef.current || isInitializedRef.current) return;
@@ -81,18 +115,7 @@ export function useAudioPlayer({
           setLoading(true);
           setError(null);
           setIsReady(false);
-          try {
-            wavesurferRef.current.load(url);
-          } catch (err) {
-            if (err instanceof Error && err.name !== "AbortError") {
-              const errorMessage = err.message || "Failed to load audio URL";
-              if (isMountedRef.current) {
-                setError(errorMessage);
-                setLoading(false);
-              }
-              callbacksRef.current.onError?.(errorMessage);
-            }
-          }
+          loadAudio(url, clipId);
         }
 
         // Set up event listeners with safe state updates
@@ -215,7 +238,7 @@ export function useAudioPlayer({
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [safeSetState]); // Only depend on safeSetState. url is handled by separate load effect, isInitialized uses ref
+  }, [safeSetState]); // Only depend on safeSetState. url and clipId are handled by separate load effect, isInitialized uses ref
 
   // Load audio URL (separate effect)
   useEffect(() => {
@@ -227,20 +250,8 @@ export function useAudioPlayer({
     setError(null);
     setIsReady(false);
 
-    try {
-      wavesurferRef.current.load(url);
-    } catch (err) {
-      // Handle load errors
-      if (err instanceof Error && err.name !== "AbortError") {
-        const errorMessage = err.message || "Failed to load audio URL";
-        if (isMountedRef.current) {
-          setError(errorMessage);
-          setLoading(false);
-        }
-        callbacksRef.current.onError?.(errorMessage);
-      }
-    }
-  }, [url]); // Only depend on url, not isInitialized (use ref instead)
+    loadAudio(url, clipId);
+  }, [url, clipId, loadAudio]); // Not isInitialized (use ref instead)
 
   // Mark component as unmounted when effect cleanup runs
   useEffect(() => {
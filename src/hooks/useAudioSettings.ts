@@ -0,0 +1,116 @@
+// src/hooks/useAudioSettings.ts
+"use client";
+
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useAuth } from "@/lib/auth";
+import {
+  loadMonitoringPreferences,
+  resolveMonitoringSettings,
+  saveMonitoringPreferences,
+} from "@/lib/audio/monitoring";
+import type { AudioSettingsPreferences, MonitoringSettings } from "@/types/audio";
+
+// Slider changes are sent once the user has stopped moving it
+const SAVE_DELAY_MS = 800;
+
+/**
+ * The user's volume, monitoring and latency settings for the players.
+ *
+ * Kept in localStorage so they apply straight away, and with the account
+ * when signed in (the account's copy wins once it has loaded).
+ */
+export function useAudioSettings() {
+  const { user, getAuthHeaders } = useAuth();
+  const [preferences, setPreferences] = useState<AudioSettingsPreferences>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const pendingRef = useRef<Partial<MonitoringSettings>>({});
+  const saveTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    setPreferences(loadMonitoringPreferences());
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/user/audio-settings", {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) return;
+        const { settings } = await response.json();
+        if (cancelled) return;
+        // Keyboard shortcuts are looked after by KeyboardShortcutsProvider
+        const { keyboardShortcuts: _shortcuts, ...saved } = settings ?? {};
+        setPreferences(saved);
+        saveMonitoringPreferences(saved);
+      } catch (err) {
+        console.error("Failed to load audio settings:", err);
+      }
+    };
+
+    fetchSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, getAuthHeaders]);
+
+  const flush = useCallback(async () => {
+    saveTimerRef.current = null;
+    const changes = pendingRef.current;
+    pendingRef.current = {};
+    if (!user || Object.keys(changes).length === 0) return;
+
+    try {
+      const response = await fetch("/api/user/audio-settings", {
+        method: "PUT",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error("Failed to save audio settings:", data.error || response.status);
+      }
+    } catch (err) {
+      console.error("Failed to save audio settings:", err);
+    }
+  }, [user, getAuthHeaders]);
+
+  // For changes the user makes: stored values are applied with
+  // setPreferences above, so loading never queues a save
+  const updateSettings = useCallback(
+    (changes: Partial<MonitoringSettings>) => {
+      setPreferences((prev) => {
+        const next = { ...prev, ...changes };
+        saveMonitoringPreferences(next);
+        return next;
+      });
+      pendingRef.current = { ...pendingRef.current, ...changes };
+      if (saveTimerRef.current) window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = window.setTimeout(flush, SAVE_DELAY_MS);
+    },
+    [flush]
+  );
+
+  // Send anything still waiting when the player goes away
+  const flushRef = useRef(flush);
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current) {
+        window.clearTimeout(saveTimerRef.current);
+        flushRef.current();
+      }
+    };
+  }, []);
+
+  const settings = useMemo(() => resolveMonitoringSettings(preferences), [preferences]);
+
+  return { settings, isLoaded, updateSettings };
+}
@@ -0,0 +1,241 @@
+// src/hooks/useLoopRecorder.ts
+"use client";
+
+import { useEffect, useRef, useState, useCallback } from "react";
+import type { RecordingTake } from "@/types/audio";
+
+// Keep memory bounded - older takes are dropped (and their URLs revoked)
+const MAX_TAKES = 20;
+// Takes shorter than this are almost always an accidental play/pause
+const MIN_TAKE_SECONDS = 0.3;
+
+const PREFERRED_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+];
+
+export interface TakeContext {
+  regionStart: number;
+  regionEnd: number;
+  playbackRate: number;
+  latencyMs: number;
+}
+
+interface ActiveTake {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  context: TakeContext;
+}
+
+function pickMimeType(): string {
+  if (typeof MediaRecorder === "undefined") return "";
+  for (const mimeType of PREFERRED_MIME_TYPES) {
+    if (MediaRecorder.isTypeSupported(mimeType)) {
+      return mimeType;
+    }
+  }
+  return "";
+}
+
+/**
+ * Captures the learner's microphone as one take per loop.
+ *
+ * The player calls startTake() when playback starts, cycleTake() at every
+ * loop boundary and stopTake() when playback pauses. All returned callbacks
+ * are stable so they can be called from WaveSurfer event handlers.
+ */
+export function useLoopRecorder() {
+  const streamRef = useRef<MediaStream | null>(null);
+  const activeRef = useRef<ActiveTake | null>(null);
+  const loopIndexRef = useRef(0);
+  const takesRef = useRef<RecordingTake[]>([]);
+  const isMountedRef = useRef(true);
+
+  const [isArmed, setIsArmed] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [takes, setTakes] = useState<RecordingTake[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateTakes = useCallback(
+    (updater: (prev: RecordingTake[]) => RecordingTake[]) => {
+      const next = updater(takesRef.current);
+      // Revoke URLs for takes that were dropped
+      const kept = new Set(next.map((t) => t.id));
+      takesRef.current
+        .filter((t) => !kept.has(t.id))
+        .forEach((t) => URL.revokeObjectURL(t.url));
+      takesRef.current = next;
+      if (isMountedRef.current) setTakes(next);
+    },
+    []
+  );
+
+  const arm = useCallback(async () => {
+    if (streamRef.current) {
+      setIsArmed(true);
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Microphone recording is not supported in this browser");
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+      streamRef.current = stream;
+      loopIndexRef.current = 0;
+      setError(null);
+      setIsArmed(true);
+    } catch (err: any) {
+      console.error("❌ Microphone access failed:", err);
+      setError(
+        err?.name === "NotAllowedError"
+          ? "Microphone permission was denied"
+          : err?.message || "Could not access the microphone"
+      );
+    }
+  }, []);
+
+  const startTake = useCallback((context: TakeContext) => {
+    const stream = streamRef.current;
+    if (!stream || activeRef.current) return;
+
+    const mimeType = pickMimeType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = mimeType
+        ? new MediaRecorder(stream, { mimeType })
+        : new MediaRecorder(stream);
+    } catch (err: any) {
+      console.error("❌ Failed to start MediaRecorder:", err);
+      setError(err?.message || "Failed to start recording");
+      return;
+    }
+
+    const active: ActiveTake = {
+      recorder,
+      chunks: [],
+      startedAt: performance.now(),
+      context,
+    };
+    recorder.ondataavailable = (e) => {
+      if (e.data && e.data.size > 0) active.chunks.push(e.data);
+    };
+    recorder.start();
+    activeRef.current = active;
+    if (isMountedRef.current) setIsRecording(true);
+  }, []);
+
+  const stopTake = useCallback((): boolean => {
+    const active = activeRef.current;
+    if (!active) return false;
+    activeRef.current = null;
+
+    const duration = (performance.now() - active.startedAt) / 1000;
+    const { recorder, chunks, context } = active;
+
+    recorder.onstop = () => {
+      if (duration < MIN_TAKE_SECONDS || chunks.length === 0) return;
+      const type = recorder.mimeType || chunks[0].type || "audio/webm";
+      const blob = new Blob(chunks, { type });
+      loopIndexRef.current += 1;
+      const take: RecordingTake = {
+        id: `take-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        blob,
+        url: URL.createObjectURL(blob),
+        mimeType: type,
+        duration,
+        loopIndex: loopIndexRef.current,
+        regionStart: context.regionStart,
+        regionEnd: context.regionEnd,
+        playbackRate: context.playbackRate,
+        latencyMs: context.latencyMs,
+        createdAt: new Date().toISOString(),
+      };
+      updateTakes((prev) => [...prev, take].slice(-MAX_TAKES));
+    };
+
+    try {
+      if (recorder.state !== "inactive") recorder.stop();
+    } catch (err) {
+      console.warn("MediaRecorder stop failed:", err);
+    }
+    if (isMountedRef.current) setIsRecording(false);
+    return true;
+  }, [updateTakes]);
+
+  // Close the running take and immediately open a new one (loop boundary).
+  // Does nothing when no take is running, so a loop that ends playback
+  // doesn't start a stray recording.
+  const cycleTake = useCallback(
+    (context: TakeContext) => {
+      if (stopTake()) {
+        startTake(context);
+      }
+    },
+    [stopTake, startTake]
+  );
+
+  const disarm = useCallback(() => {
+    stopTake();
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (isMountedRef.current) setIsArmed(false);
+  }, [stopTake]);
+
+  const removeTake = useCallback(
+    (id: string) => {
+      updateTakes((prev) => prev.filter((t) => t.id !== id));
+    },
+    [updateTakes]
+  );
+
+  const clearTakes = useCallback(() => {
+    loopIndexRef.current = 0;
+    updateTakes(() => []);
+  }, [updateTakes]);
+
+  // Release the microphone and object URLs on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      const active = activeRef.current;
+      activeRef.current = null;
+      try {
+        if (active && active.recorder.state !== "inactive") {
+          active.recorder.onstop = null;
+          active.recorder.stop();
+        }
+      } catch {
+        // ignore
+      }
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+      takesRef.current.forEach((t) => URL.revokeObjectURL(t.url));
+      takesRef.current = [];
+    };
+  }, []);
+
+  return {
+    isArmed,
+    isRecording,
+    takes,
+    error,
+    arm,
+    disarm,
+    startTake,
+    stopTake,
+    cycleTake,
+    removeTake,
+    clearTakes,
+  };
+}
@@ -0,0 +1,141 @@
+// src/hooks/useMicMonitor.ts
+"use client";
+
+import { useEffect, useRef, useState, useCallback } from "react";
+import { RAW_MICROPHONE, measureRoundTripLatency } from "@/lib/audio/latency";
+
+interface MonitorChain {
+  context: AudioContext;
+  stream: MediaStream;
+  gain: GainNode;
+}
+
+/**
+ * Live microphone monitoring: microphone → gain (userVolume) → output, on
+ * its own low-latency AudioContext so the clip player's volume boost is
+ * left alone. Headphones are needed, or the speakers feed back into the mic.
+ *
+ * Also runs the latency calibration, pausing monitoring while it listens.
+ */
+export function useMicMonitor(userVolume: number) {
+  const chainRef = useRef<MonitorChain | null>(null);
+  const userVolumeRef = useRef(userVolume);
+  const isMountedRef = useRef(true);
+
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    const chain = chainRef.current;
+    if (!chain) return;
+    chainRef.current = null;
+    chain.stream.getTracks().forEach((track) => track.stop());
+    chain.context.close().catch(() => {});
+    if (isMountedRef.current) setIsMonitoring(false);
+  }, []);
+
+  // Returns whether monitoring is running afterwards
+  const start = useCallback(async (): Promise<boolean> => {
+    if (chainRef.current) return true;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Microphone monitoring is not supported in this browser");
+      return false;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: RAW_MICROPHONE });
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const context: AudioContext = new AudioContextClass({ latencyHint: "interactive" });
+      const source = context.createMediaStreamSource(stream);
+      const gain = context.createGain();
+      gain.gain.value = userVolumeRef.current;
+      source.connect(gain);
+      gain.connect(context.destination);
+
+      if (!isMountedRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        context.close().catch(() => {});
+        return false;
+      }
+      chainRef.current = { context, stream, gain };
+
+      // Started without a click (e.g. turned back on from the saved setting):
+      // the browser only lets audio run after the next interaction
+      if (context.state === "suspended") {
+        const resume = () => {
+          context.resume().catch(() => {});
+          window.removeEventListener("pointerdown", resume);
+          window.removeEventListener("keydown", resume);
+        };
+        window.addEventListener("pointerdown", resume);
+        window.addEventListener("keydown", resume);
+        context.resume().catch(() => {});
+      }
+
+      setError(null);
+      setIsMonitoring(true);
+      return true;
+    } catch (err: any) {
+      console.error("❌ Microphone monitoring failed:", err);
+      setError(
+        err?.name === "NotAllowedError"
+          ? "Microphone permission was denied"
+          : err?.message || "Could not access the microphone"
+      );
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    userVolumeRef.current = userVolume;
+    const chain = chainRef.current;
+    if (chain) {
+      chain.gain.gain.setTargetAtTime(userVolume, chain.context.currentTime, 0.02);
+    }
+  }, [userVolume]);
+
+  /**
+   * Measures the round-trip latency; monitoring is paused meanwhile so the
+   * beeps aren't fed back
+   * @returns Latency in milliseconds, or null if it couldn't be measured
+   */
+  const calibrate = useCallback(async (): Promise<number | null> => {
+    const wasMonitoring = !!chainRef.current;
+    stop();
+    setIsCalibrating(true);
+    setError(null);
+    try {
+      return await measureRoundTripLatency();
+    } catch (err: any) {
+      console.error("❌ Latency calibration failed:", err);
+      if (isMountedRef.current) {
+        setError(
+          err?.name === "NotAllowedError"
+            ? "Microphone permission was denied"
+            : err?.message || "Latency calibration failed"
+        );
+      }
+      return null;
+    } finally {
+      if (isMountedRef.current) {
+        setIsCalibrating(false);
+        if (wasMonitoring) start();
+      }
+    }
+  }, [start, stop]);
+
+  // Release the microphone on unmount
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      const chain = chainRef.current;
+      chainRef.current = null;
+      chain?.stream.getTracks().forEach((track) => track.stop());
+      chain?.context.close().catch(() => {});
+    };
+  }, []);
+
+  return { isMonitoring, isCalibrating, error, start, stop, calibrate };
+}
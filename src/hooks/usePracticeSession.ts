@@ -0,0 +1,158 @@
+// src/hooks/usePracticeSession.ts
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+import { useAuth } from "@/lib/auth";
+import type { NormalizationRules, RecordingScore } from "@/types/audio";
+
+// Visits shorter than this with no loops or transcription aren't worth storing
+const MIN_SESSION_SECONDS = 5;
+
+interface SessionState {
+  startedAt: number | null;
+  playingSince: number | null;
+  secondsPracticed: number;
+  loops: number;
+  playbackRates: Set<number>;
+  transcriptionAccuracy?: number;
+  normalizationRules?: NormalizationRules;
+  recordingScore?: RecordingScore;
+}
+
+const emptySession = (): SessionState => ({
+  startedAt: null,
+  playingSince: null,
+  secondsPracticed: 0,
+  loops: 0,
+  playbackRates: new Set(),
+});
+
+/**
+ * Tracks one practice session on the chorus page and stores it server-side
+ * when the learner leaves the clip (navigation, clip change or tab close).
+ *
+ * All returned callbacks are stable and only touch refs, so they can be
+ * passed straight to player callbacks without causing re-renders.
+ */
+export function usePracticeSession(clipId: string | null) {
+  const { user, getAuthHeaders } = useAuth();
+  const sessionRef = useRef<SessionState>(emptySession());
+  const authRef = useRef({ user, getAuthHeaders });
+
+  useEffect(() => {
+    authRef.current = { user, getAuthHeaders };
+  }, [user, getAuthHeaders]);
+
+  const touch = useCallback(() => {
+    if (sessionRef.current.startedAt === null) {
+      sessionRef.current.startedAt = Date.now();
+    }
+  }, []);
+
+  const recordPlayback = useCallback((isPlaying: boolean, playbackRate: number) => {
+    const session = sessionRef.current;
+    const now = Date.now();
+    if (session.playingSince !== null) {
+      session.secondsPracticed += (now - session.playingSince) / 1000;
+      session.playingSince = null;
+    }
+    if (isPlaying) {
+      touch();
+      session.playingSince = now;
+      session.playbackRates.add(Math.round(playbackRate * 100) / 100);
+    }
+  }, [touch]);
+
+  const recordLoop = useCallback(() => {
+    touch();
+    sessionRef.current.loops += 1;
+  }, [touch]);
+
+  const recordAccuracy = useCallback(
+    (accuracy: number, rules?: NormalizationRules) => {
+      touch();
+      const session = sessionRef.current;
+      // Keep the best attempt together with the rules it was scored with
+      if (
+        session.transcriptionAccuracy === undefined ||
+        accuracy >= session.transcriptionAccuracy
+      ) {
+        session.transcriptionAccuracy = accuracy;
+        session.normalizationRules = rules;
+      }
+    },
+    [touch]
+  );
+
+  const recordRecordingScore = useCallback(
+    (score: RecordingScore) => {
+      touch();
+      const session = sessionRef.current;
+      if (!session.recordingScore || score.overall >= session.recordingScore.overall) {
+        session.recordingScore = score;
+      }
+    },
+    [touch]
+  );
+
+  const flush = useCallback((targetClipId: string) => {
+    const session = sessionRef.current;
+    const { user, getAuthHeaders } = authRef.current;
+    sessionRef.current = emptySession();
+
+    if (!user || session.startedAt === null) return;
+
+    const now = Date.now();
+    let secondsPracticed = session.secondsPracticed;
+    if (session.playingSince !== null) {
+      secondsPracticed += (now - session.playingSince) / 1000;
+    }
+    if (
+      session.loops === 0 &&
+      session.transcriptionAccuracy === undefined &&
+      session.recordingScore === undefined &&
+      secondsPracticed < MIN_SESSION_SECONDS
+    ) {
+      return;
+    }
+
+    // keepalive lets the request outlive the page on tab close
+    fetch("/api/practice-sessions", {
+      method: "POST",
+      keepalive: true,
+      headers: {
+        "Content-Type": "application/json",
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify({
+        clipId: targetClipId,
+        startedAt: new Date(session.startedAt).toISOString(),
+        endedAt: new Date(now).toISOString(),
+        secondsPracticed,
+        loops: session.loops,
+        playbackRates: Array.from(session.playbackRates),
+        transcriptionAccuracy: session.transcriptionAccuracy,
+        normalizationRules: session.normalizationRules,
+        recordingScore: session.recordingScore,
+      }),
+    }).catch((err) => {
+      console.error("Failed to save practice session:", err);
+    });
+  }, []);
+
+  // Store the session when leaving the clip or closing the tab
+  useEffect(() => {
+    if (!clipId) return;
+    sessionRef.current = emptySession();
+
+    const handlePageHide = () => flush(clipId);
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      flush(clipId);
+    };
+  }, [clipId, flush]);
+
+  return { recordPlayback, recordLoop, recordAccuracy, recordRecordingScore };
+}
@@ -0,0 +1,100 @@
+// src/hooks/useShadowingSession.ts
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import {
+  clearShadowingSession,
+  loadShadowingSession,
+  saveShadowingSession,
+  saveShadowingSettings,
+  shadowingRate,
+  shadowingUrl,
+} from "@/lib/shadowing";
+import type { ShadowingSession, ShadowingSettings } from "@/types/practice";
+
+/**
+ * Runs the stored shadowing session on the chorus page: counts loops on the
+ * current clip and moves to the next clip once there have been enough.
+ *
+ * Opening another clip of the session (the previous/next links, or a reload)
+ * makes it the current one; clips outside the session leave it inactive.
+ */
+export function useShadowingSession(clipId: string, enabled: boolean) {
+  const router = useRouter();
+  const [session, setSession] = useState<ShadowingSession | null>(null);
+  const sessionRef = useRef<ShadowingSession | null>(null);
+
+  const update = useCallback((next: ShadowingSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+    if (next) {
+      saveShadowingSession(next);
+    } else {
+      clearShadowingSession();
+    }
+  }, []);
+
+  useEffect(() => {
+    const stored = enabled ? loadShadowingSession() : null;
+    const index = stored ? stored.clipIds.indexOf(clipId) : -1;
+
+    if (!stored || index === -1) {
+      sessionRef.current = null;
+      setSession(null);
+    } else if (index === stored.index) {
+      // Same clip as before the reload - keep its loop count
+      sessionRef.current = stored;
+      setSession(stored);
+    } else {
+      update({ ...stored, index, loopsDone: 0, completedAt: undefined });
+    }
+  }, [clipId, enabled, update]);
+
+  const recordLoop = useCallback(() => {
+    const current = sessionRef.current;
+    if (!current || current.completedAt) return;
+
+    const loopsDone = current.loopsDone + 1;
+    if (loopsDone < current.settings.loopsPerClip) {
+      update({ ...current, loopsDone });
+    } else if (current.index + 1 < current.clipIds.length) {
+      const next = { ...current, index: current.index + 1, loopsDone: 0 };
+      update(next);
+      router.push(shadowingUrl(next));
+    } else {
+      update({ ...current, loopsDone, completedAt: new Date().toISOString() });
+    }
+  }, [router, update]);
+
+  const updateSettings = useCallback(
+    (changes: Partial<ShadowingSettings>) => {
+      const current = sessionRef.current;
+      if (!current) return;
+      const settings = { ...current.settings, ...changes };
+      saveShadowingSettings(settings);
+      update({ ...current, settings });
+    },
+    [update]
+  );
+
+  const restart = useCallback(() => {
+    const current = sessionRef.current;
+    if (!current) return;
+    const next = { ...current, index: 0, loopsDone: 0, completedAt: undefined };
+    update(next);
+    router.push(shadowingUrl(next));
+  }, [router, update]);
+
+  const end = useCallback(() => {
+    update(null);
+    router.replace(`/chorus/${clipId}`);
+  }, [clipId, router, update]);
+
+  const playbackRate =
+    session && !session.completedAt
+      ? shadowingRate(session.settings, session.loopsDone)
+      : undefined;
+
+  return { session, playbackRate, recordLoop, updateSettings, restart, end };
+}
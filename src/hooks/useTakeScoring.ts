@@ -0,0 +1,111 @@
+// src/hooks/useTakeScoring.ts
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { analyzeRecording } from "@/lib/audio/alignment";
+import { decodeAudioBlob } from "@/lib/audio/pitch";
+import type {
+  PitchContour,
+  RecordingAnalysis,
+  RecordingScore,
+  RecordingTake,
+} from "@/types/audio";
+
+interface TakeScoringOptions {
+  take: RecordingTake | null;
+  enabled: boolean; // false while a take is being recorded
+  loadClipBuffer: () => Promise<AudioBuffer | null>;
+  clipPitch: PitchContour | null; // reused when it has already been extracted
+  onScored?: (score: RecordingScore) => void;
+}
+
+type ScoringResult = { analysis: RecordingAnalysis } | { error: string };
+
+async function scoreTake(
+  take: RecordingTake,
+  loadClipBuffer: () => Promise<AudioBuffer | null>,
+  clipPitch: PitchContour | null
+): Promise<ScoringResult> {
+  try {
+    const [reference, takeBuffer] = await Promise.all([
+      loadClipBuffer(),
+      decodeAudioBlob(take.blob),
+    ]);
+    if (!reference) throw new Error("The clip audio isn't available");
+    const analysis = await analyzeRecording({
+      reference,
+      take: takeBuffer,
+      regionStart: take.regionStart,
+      regionEnd: take.regionEnd,
+      playbackRate: take.playbackRate,
+      latencyMs: take.latencyMs,
+      referencePitch: clipPitch,
+    });
+    return { analysis };
+  } catch (err) {
+    console.warn("Take scoring failed:", err);
+    return { error: err instanceof Error ? err.message : "Couldn't score this take" };
+  }
+}
+
+/**
+ * Scores the selected take against the clip (lib/audio/alignment). Runs
+ * once recording has stopped so it doesn't compete with playback; each take
+ * is analysed once and its score reported once.
+ */
+export function useTakeScoring({
+  take,
+  enabled,
+  loadClipBuffer,
+  clipPitch,
+  onScored,
+}: TakeScoringOptions) {
+  const scoringRef = useRef<Map<string, Promise<ScoringResult>>>(new Map());
+  const clipPitchRef = useRef(clipPitch);
+  const onScoredRef = useRef(onScored);
+  const [result, setResult] = useState<ScoringResult | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    clipPitchRef.current = clipPitch;
+  }, [clipPitch]);
+
+  useEffect(() => {
+    onScoredRef.current = onScored;
+  }, [onScored]);
+
+  useEffect(() => {
+    setResult(null);
+    if (!take) return;
+
+    // One analysis per take, shared by every render that shows it
+    let scoring = scoringRef.current.get(take.id);
+    if (!scoring) {
+      if (!enabled) return;
+      scoring = scoreTake(take, loadClipBuffer, clipPitchRef.current).then((next) => {
+        if ("analysis" in next) onScoredRef.current?.(next.analysis.score);
+        return next;
+      });
+      scoringRef.current.set(take.id, scoring);
+    }
+
+    let cancelled = false;
+    setIsAnalyzing(true);
+    scoring.then((next) => {
+      if (cancelled) return;
+      setResult(next);
+      setIsAnalyzing(false);
+    });
+
+    return () => {
+      cancelled = true;
+      setIsAnalyzing(false);
+    };
+  }, [take, enabled, loadClipBuffer]);
+
+  return {
+    analysis: result && "analysis" in result ? result.analysis : null,
+    error: result && "error" in result ? result.error : null,
+    isAnalyzing,
+  };
+}
@@ -3,6 +3,9 @@
  * Checks if a user is an admin based on ADMIN_USER_IDS environment variable
  */
 
+import type { UserRole } from "@/types/auth";
+import { DEFAULT_ROLE } from "@/lib/permissions";
+
 /**
  * Checks if a user ID is in the list of admin user IDs
  * @param userId - The user ID to check
@@ -23,3 +26,16 @@ export function isAdmin(userId: string): boolean {
 
   return adminIds.includes(userId);
 }
+
+/**
+ * The role a user acts with: ADMIN_USER_IDS are admins whatever role is
+ * stored, so there is always someone who can assign roles
+ * @param userId - The user ID
+ * @param storedRole - The role saved with the user, if any
+ */
+export function resolveRole(userId: string, storedRole: UserRole | null | undefined): UserRole {
+  if (isAdmin(userId)) {
+    return "admin";
+  }
+  return storedRole ?? DEFAULT_ROLE;
+}
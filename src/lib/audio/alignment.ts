@@ -0,0 +1,551 @@
+/**
+ * Recording scoring
+ * Aligns a learner's take to the clip with dynamic time warping over MFCC
+ * frames, then compares timing along the warping path and pitch at the
+ * aligned frames. Runs in the browser on decoded AudioBuffers.
+ */
+
+import type {
+  DivergenceKind,
+  DivergentRegion,
+  PitchContour,
+  RecordingAnalysis,
+  RecordingScore,
+} from "@/types/audio";
+import { extractPitch, extractPitchAsync } from "./pitch";
+
+export interface ScoringInput {
+  reference: AudioBuffer; // the whole clip
+  take: AudioBuffer;
+  regionStart: number; // clip seconds the take was recorded against
+  regionEnd: number;
+  playbackRate: number;
+  latencyMs: number;
+  referencePitch?: PitchContour | null; // whole-clip contour, if already extracted
+  takePitch?: PitchContour | null; // whole-take contour, if already extracted
+}
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const FRAME_SECONDS = 0.025;
+const HOP_SECONDS = 0.01;
+const MEL_FILTERS = 26;
+const MFCC_COEFFICIENTS = 12; // c1-c12; c0 (loudness) is left out
+const MAX_MEL_FREQUENCY = 7600;
+const PRE_EMPHASIS = 0.97;
+// Frames this far below the loudest one are silence
+const SPEECH_RANGE_DB = 35;
+// Longer stretches are averaged down so the DTW matrix stays small
+const MAX_FRAMES = 1200;
+// How far (as a share of the length) the path may stray from the diagonal
+const BAND_RATIO = 0.3;
+
+// Differences that cost all the points of a score
+const TIMING_TOLERANCE_MS = 500;
+const RHYTHM_TOLERANCE_MS = 250;
+const INTONATION_TOLERANCE_SEMITONES = 4;
+// Fewer aligned voiced frames than this and intonation isn't scored
+const MIN_VOICED_PAIRS = 20;
+
+const REGION_SECONDS = 0.3;
+const MAX_REGIONS = 3;
+// Mean divergence (1 = at tolerance) a stretch needs to be highlighted
+const REGION_THRESHOLD = 1;
+
+const DIVERGENCE_KINDS: DivergenceKind[] = ["timing", "intonation", "pronunciation"];
+
+interface Features {
+  mfcc: Float32Array[];
+  energyDb: Float32Array;
+  hopSeconds: number;
+}
+
+interface Sequence {
+  frames: Float32Array[];
+  firstFrame: number; // index in the unreduced frames
+  group: number; // unreduced frames averaged into each frame
+  hopSeconds: number;
+}
+
+const yieldToBrowser = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const toScore = (difference: number, tolerance: number) =>
+  Math.round(100 * Math.max(0, 1 - difference / tolerance));
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Mono mix of [start, end) seconds, decimated (box filter) to about 16 kHz
+ */
+function monoSegment(
+  buffer: AudioBuffer,
+  start: number,
+  end: number
+): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / ANALYSIS_SAMPLE_RATE));
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+
+  const length = Math.max(0, Math.floor((to - from) / factor));
+  const samples = new Float32Array(length);
+  const norm = factor * channels.length;
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    const base = from + i * factor;
+    for (const data of channels) {
+      for (let k = 0; k < factor; k++) {
+        sum += data[base + k];
+      }
+    }
+    samples[i] = sum / norm;
+  }
+
+  return { samples, sampleRate: buffer.sampleRate / factor };
+}
+
+/**
+ * In-place radix-2 FFT; the length must be a power of two
+ */
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const bRe = re[b] * wRe - im[b] * wIm;
+        const bIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - bRe;
+        im[b] = im[a] - bIm;
+        re[a] += bRe;
+        im[a] += bIm;
+        const next = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = next;
+      }
+    }
+  }
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+/**
+ * Triangular mel filters as weights over the FFT bins
+ */
+function melFilterbank(fftSize: number, sampleRate: number): Float32Array[] {
+  const bins = fftSize / 2 + 1;
+  const maxMel = hzToMel(Math.min(MAX_MEL_FREQUENCY, sampleRate / 2));
+  const points: number[] = [];
+  for (let m = 0; m < MEL_FILTERS + 2; m++) {
+    const hz = melToHz((maxMel * m) / (MEL_FILTERS + 1));
+    points.push(Math.min(bins - 1, Math.floor(((fftSize + 1) * hz) / sampleRate)));
+  }
+
+  const filters: Float32Array[] = [];
+  for (let m = 1; m <= MEL_FILTERS; m++) {
+    const weights = new Float32Array(bins);
+    const [left, center, right] = [points[m - 1], points[m], points[m + 1]];
+    for (let k = left; k < center; k++) {
+      weights[k] = (k - left) / Math.max(1, center - left);
+    }
+    for (let k = center; k <= right; k++) {
+      weights[k] = (right - k) / Math.max(1, right - center);
+    }
+    filters.push(weights);
+  }
+  return filters;
+}
+
+/**
+ * MFCCs (c1-c12) and loudness of every 25 ms frame, 10 ms apart
+ */
+function computeFeatures(samples: Float32Array, sampleRate: number): Features {
+  const frameLength = Math.round(FRAME_SECONDS * sampleRate);
+  const hop = Math.round(HOP_SECONDS * sampleRate);
+  let fftSize = 1;
+  while (fftSize < frameLength) fftSize <<= 1;
+
+  const hamming = new Float32Array(frameLength);
+  for (let k = 0; k < frameLength; k++) {
+    hamming[k] = 0.54 - 0.46 * Math.cos((2 * Math.PI * k) / (frameLength - 1));
+  }
+  const filters = melFilterbank(fftSize, sampleRate);
+  const frameCount =
+    samples.length >= frameLength ? Math.floor((samples.length - frameLength) / hop) + 1 : 0;
+
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const logMel = new Float32Array(MEL_FILTERS);
+  const mfcc: Float32Array[] = [];
+  const energyDb = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    re.fill(0);
+    im.fill(0);
+    let energy = 0;
+    for (let k = 0; k < frameLength; k++) {
+      const i = f * hop + k;
+      const v = samples[i] - (i > 0 ? PRE_EMPHASIS * samples[i - 1] : 0);
+      energy += samples[i] * samples[i];
+      re[k] = v * hamming[k];
+    }
+    energyDb[f] = 10 * Math.log10(energy / frameLength + 1e-12);
+
+    fft(re, im);
+    for (let m = 0; m < MEL_FILTERS; m++) {
+      const weights = filters[m];
+      let sum = 0;
+      for (let k = 0; k < weights.length; k++) {
+        if (weights[k] > 0) sum += weights[k] * (re[k] * re[k] + im[k] * im[k]);
+      }
+      logMel[m] = Math.log(Math.max(sum, 1e-10));
+    }
+
+    const coefficients = new Float32Array(MFCC_COEFFICIENTS);
+    for (let c = 1; c <= MFCC_COEFFICIENTS; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_FILTERS; m++) {
+        sum += logMel[m] * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTERS);
+      }
+      coefficients[c - 1] = sum;
+    }
+    mfcc.push(coefficients);
+  }
+
+  return { mfcc, energyDb, hopSeconds: hop / sampleRate };
+}
+
+/**
+ * First and last frame of speech, or null when it's all silence
+ */
+function speechSpan(energyDb: Float32Array): { first: number; last: number } | null {
+  let loudest = -Infinity;
+  for (const db of energyDb) loudest = Math.max(loudest, db);
+  // Digital silence, or nothing louder than a quiet room
+  if (!isFinite(loudest) || loudest < -60) return null;
+
+  const threshold = loudest - SPEECH_RANGE_DB;
+  let first = -1;
+  let last = -1;
+  for (let f = 0; f < energyDb.length; f++) {
+    if (energyDb[f] >= threshold) {
+      if (first === -1) first = f;
+      last = f;
+    }
+  }
+  return first === -1 || last - first < 2 ? null : { first, last };
+}
+
+/**
+ * The speech frames with their mean removed (so microphones and rooms
+ * compare), averaged down to at most MAX_FRAMES
+ */
+function toSequence(features: Features, first: number, last: number): Sequence {
+  const frames = features.mfcc.slice(first, last + 1);
+  const mean = new Float32Array(MFCC_COEFFICIENTS);
+  for (const frame of frames) {
+    for (let c = 0; c < MFCC_COEFFICIENTS; c++) mean[c] += frame[c] / frames.length;
+  }
+
+  const group = Math.ceil(frames.length / MAX_FRAMES);
+  const reduced: Float32Array[] = [];
+  for (let start = 0; start < frames.length; start += group) {
+    const end = Math.min(frames.length, start + group);
+    const averaged = new Float32Array(MFCC_COEFFICIENTS);
+    for (let f = start; f < end; f++) {
+      for (let c = 0; c < MFCC_COEFFICIENTS; c++) {
+        averaged[c] += (frames[f][c] - mean[c]) / (end - start);
+      }
+    }
+    reduced.push(averaged);
+  }
+
+  return { frames: reduced, firstFrame: first, group, hopSeconds: features.hopSeconds };
+}
+
+// Seconds from the start of the analysed audio to the middle of a frame
+function frameTime(sequence: Sequence, index: number): number {
+  const frame = sequence.firstFrame + index * sequence.group + (sequence.group - 1) / 2;
+  return frame * sequence.hopSeconds + FRAME_SECONDS / 2;
+}
+
+function distance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let c = 0; c < a.length; c++) {
+    const d = a[c] - b[c];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Lowest-cost warping path from (0, 0) to (n-1, m-1), kept within a band
+ * around the diagonal
+ * @returns Path points [referenceFrame, takeFrame] with their frame distance
+ */
+function dtw(
+  reference: Float32Array[],
+  take: Float32Array[]
+): { path: Array<[number, number]>; distances: number[] } {
+  const n = reference.length;
+  const m = take.length;
+  const band = Math.ceil(BAND_RATIO * Math.max(n, m)) + 1;
+  const cost = new Float32Array(n * m).fill(Infinity);
+
+  for (let i = 0; i < n; i++) {
+    const center = Math.round((i * (m - 1)) / Math.max(1, n - 1));
+    const from = Math.max(0, center - band);
+    const to = Math.min(m - 1, center + band);
+    for (let j = from; j <= to; j++) {
+      const d = distance(reference[i], take[j]);
+      if (i === 0 && j === 0) {
+        cost[0] = d;
+        continue;
+      }
+      const up = i > 0 ? cost[(i - 1) * m + j] : Infinity;
+      const left = j > 0 ? cost[i * m + j - 1] : Infinity;
+      const diagonal = i > 0 && j > 0 ? cost[(i - 1) * m + j - 1] : Infinity;
+      cost[i * m + j] = d + Math.min(up, left, diagonal);
+    }
+  }
+
+  const path: Array<[number, number]> = [];
+  let i = n - 1;
+  let j = m - 1;
+  path.push([i, j]);
+  while (i > 0 || j > 0) {
+    const up = i > 0 ? cost[(i - 1) * m + j] : Infinity;
+    const left = j > 0 ? cost[i * m + j - 1] : Infinity;
+    const diagonal = i > 0 && j > 0 ? cost[(i - 1) * m + j - 1] : Infinity;
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+    path.push([i, j]);
+  }
+  path.reverse();
+
+  return {
+    path,
+    distances: path.map(([pi, pj]) => distance(reference[pi], take[pj])),
+  };
+}
+
+// Pitch in semitones at a time, or null when unvoiced
+function semitonesAt(contour: PitchContour, time: number): number | null {
+  const f = contour.frequencies[Math.round(time / contour.hopSize)];
+  return f > 0 ? 12 * Math.log2(f) : null;
+}
+
+// Typical pitch of a speaker over a stretch, so voices in different
+// registers can be compared by their melody alone
+function medianSemitones(contour: PitchContour, start: number, end: number): number {
+  const values: number[] = [];
+  const from = Math.max(0, Math.floor(start / contour.hopSize));
+  const to = Math.min(contour.frequencies.length, Math.ceil(end / contour.hopSize));
+  for (let i = from; i < to; i++) {
+    const f = contour.frequencies[i];
+    if (f > 0) values.push(12 * Math.log2(f));
+  }
+  return median(values);
+}
+
+/**
+ * The stretches of the clip that diverge the most, from per-frame
+ * divergences (1 = at tolerance) along the reference
+ */
+function findDivergentRegions(
+  divergence: Record<DivergenceKind, Float32Array>,
+  regionFrames: number,
+  timeOf: (index: number) => [number, number]
+): DivergentRegion[] {
+  const length = divergence.timing.length;
+  const width = Math.min(length, Math.max(1, regionFrames));
+  const prefix = {} as Record<DivergenceKind, Float64Array>;
+  for (const kind of DIVERGENCE_KINDS) {
+    prefix[kind] = new Float64Array(length + 1);
+    for (let i = 0; i < length; i++) {
+      prefix[kind][i + 1] = prefix[kind][i] + divergence[kind][i];
+    }
+  }
+
+  const windows: Array<{ start: number; total: number; means: Record<DivergenceKind, number> }> = [];
+  for (let start = 0; start + width <= length; start++) {
+    const means = {} as Record<DivergenceKind, number>;
+    let total = 0;
+    for (const kind of DIVERGENCE_KINDS) {
+      means[kind] = (prefix[kind][start + width] - prefix[kind][start]) / width;
+      total += means[kind];
+    }
+    windows.push({ start, total, means });
+  }
+  windows.sort((a, b) => b.total - a.total);
+
+  const chosen: typeof windows = [];
+  for (const window of windows) {
+    if (chosen.length >= MAX_REGIONS || window.total < REGION_THRESHOLD) break;
+    const overlaps = chosen.some(
+      (other) => Math.abs(other.start - window.start) < width
+    );
+    if (!overlaps) chosen.push(window);
+  }
+  if (chosen.length === 0) return [];
+
+  const worst = chosen[0].total;
+  return chosen
+    .map((window) => {
+      const [start] = timeOf(window.start);
+      const [, end] = timeOf(window.start + width - 1);
+      const kind = DIVERGENCE_KINDS.reduce((a, b) =>
+        window.means[b] > window.means[a] ? b : a
+      );
+      return {
+        start,
+        end,
+        kind,
+        severity: Math.round((window.total / worst) * 100) / 100,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Scores a take against the part of the clip it was recorded with
+ * @throws When there's no speech to compare in the clip part or the take
+ */
+export async function analyzeRecording(input: ScoringInput): Promise<RecordingAnalysis> {
+  const { reference, take, playbackRate } = input;
+  const segmentStart = Math.max(0, input.regionStart);
+  const segmentEnd =
+    input.regionEnd > segmentStart ? Math.min(input.regionEnd, reference.duration) : reference.duration;
+  const latency = Math.min(input.latencyMs / 1000, take.duration);
+
+  const referenceAudio = monoSegment(reference, segmentStart, segmentEnd);
+  const takeAudio = monoSegment(take, latency, take.duration);
+  const referenceFeatures = computeFeatures(referenceAudio.samples, referenceAudio.sampleRate);
+  await yieldToBrowser();
+  const takeFeatures = computeFeatures(takeAudio.samples, takeAudio.sampleRate);
+  await yieldToBrowser();
+
+  const referenceSpan = speechSpan(referenceFeatures.energyDb);
+  if (!referenceSpan) throw new Error("There's no speech in this part of the clip");
+  const takeSpan = speechSpan(takeFeatures.energyDb);
+  if (!takeSpan) throw new Error("No speech was heard in this take");
+
+  const referenceSequence = toSequence(referenceFeatures, referenceSpan.first, referenceSpan.last);
+  const takeSequence = toSequence(takeFeatures, takeSpan.first, takeSpan.last);
+  const { path, distances } = dtw(referenceSequence.frames, takeSequence.frames);
+  await yieldToBrowser();
+
+  const referencePitch = input.referencePitch ?? (await extractPitchAsync(reference));
+  const takePitch = input.takePitch ?? extractPitch(take);
+
+  // Clip seconds of a reference frame, and take seconds (from the start of
+  // the recording, latency included) of a take frame
+  const referenceTime = (i: number) => segmentStart + frameTime(referenceSequence, i);
+  const takeTime = (j: number) => latency + frameTime(takeSequence, j);
+
+  // How late the take is at each path point, in real milliseconds: the
+  // take runs in real time while the clip played at playbackRate
+  const offsets = path.map(
+    ([i, j]) =>
+      ((segmentStart + (takeTime(j) - latency) * playbackRate - referenceTime(i)) /
+        playbackRate) *
+      1000
+  );
+  const timingOffsetMs = median(offsets);
+  const rhythmDeviation = Math.sqrt(
+    offsets.reduce((sum, offset) => sum + (offset - timingOffsetMs) ** 2, 0) / offsets.length
+  );
+
+  const referenceKey = medianSemitones(
+    referencePitch,
+    referenceTime(0),
+    referenceTime(referenceSequence.frames.length - 1)
+  );
+  const takeKey = medianSemitones(
+    takePitch,
+    takeTime(0),
+    takeTime(takeSequence.frames.length - 1)
+  );
+  const pitchDifferences = path.map(([i, j]) => {
+    const referenceSt = semitonesAt(referencePitch, referenceTime(i));
+    const takeSt = semitonesAt(takePitch, takeTime(j));
+    return referenceSt === null || takeSt === null
+      ? null
+      : Math.abs(referenceSt - referenceKey - (takeSt - takeKey));
+  });
+  const voiced = pitchDifferences.filter((d): d is number => d !== null);
+
+  const rhythmSimilarity = toScore(rhythmDeviation, RHYTHM_TOLERANCE_MS);
+  const intonationSimilarity =
+    voiced.length >= MIN_VOICED_PAIRS
+      ? toScore(voiced.reduce((a, b) => a + b, 0) / voiced.length, INTONATION_TOLERANCE_SEMITONES)
+      : undefined;
+  const parts = [rhythmSimilarity, toScore(Math.abs(timingOffsetMs), TIMING_TOLERANCE_MS)];
+  if (intonationSimilarity !== undefined) parts.push(intonationSimilarity);
+
+  const score: RecordingScore = {
+    timingOffsetMs: Math.round(timingOffsetMs),
+    rhythmSimilarity,
+    intonationSimilarity,
+    overall: Math.round(parts.reduce((a, b) => a + b, 0) / parts.length),
+  };
+
+  // Per reference frame: the mean divergence of the path points on it
+  const frames = referenceSequence.frames.length;
+  const typicalDistance = median(distances) || 1;
+  const divergence: Record<DivergenceKind, Float32Array> = {
+    timing: new Float32Array(frames),
+    intonation: new Float32Array(frames),
+    pronunciation: new Float32Array(frames),
+  };
+  const counts = new Float32Array(frames);
+  path.forEach(([i], k) => {
+    counts[i] += 1;
+    divergence.timing[i] += Math.abs(offsets[k] - timingOffsetMs) / RHYTHM_TOLERANCE_MS;
+    divergence.intonation[i] += (pitchDifferences[k] ?? 0) / INTONATION_TOLERANCE_SEMITONES;
+    divergence.pronunciation[i] += distances[k] / (2 * typicalDistance);
+  });
+  for (const kind of DIVERGENCE_KINDS) {
+    for (let i = 0; i < frames; i++) divergence[kind][i] /= counts[i] || 1;
+  }
+
+  const frameSeconds = referenceSequence.hopSeconds * referenceSequence.group;
+  const divergentRegions = findDivergentRegions(
+    divergence,
+    Math.round(REGION_SECONDS / frameSeconds),
+    (i) => [referenceTime(i) - frameSeconds / 2, referenceTime(i) + frameSeconds / 2]
+  );
+
+  return { score, divergentRegions };
+}
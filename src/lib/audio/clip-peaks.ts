@@ -0,0 +1,27 @@
+/**
+ * Waveform peaks stored with each uploaded clip, so players can draw the
+ * waveform without downloading and decoding the whole file first
+ */
+
+import type { ClipPeaks } from "@/types/audio";
+
+// Peaks live next to the audio, e.g. "clip.mp3" -> "clip.mp3.peaks.json"
+export function peaksFilename(filename: string): string {
+  return `${filename}.peaks.json`;
+}
+
+/**
+ * Fetches a clip's peaks. Resolves with null when the server has none
+ * (e.g. ffmpeg was unavailable), so callers can fall back to decoding.
+ */
+export async function fetchClipPeaks(clipId: string): Promise<ClipPeaks | null> {
+  try {
+    const response = await fetch(`/api/clips/${clipId}/peaks`);
+    if (!response.ok) return null;
+    const data: ClipPeaks = await response.json();
+    return Array.isArray(data.peaks) && data.duration > 0 ? data : null;
+  } catch (error) {
+    console.warn("Failed to load clip peaks:", error);
+    return null;
+  }
+}
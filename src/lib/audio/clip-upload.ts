@@ -0,0 +1,120 @@
+/**
+ * Saving clips extracted in the clip creator: the speaker and source
+ * settings remembered between saves, and the upload request itself
+ */
+
+import type { TimedTranscript } from "@/types/audio";
+
+export type SpeakerGender = "male" | "female" | "other" | "";
+export type SpeakerAgeRange = "teen" | "younger-adult" | "adult" | "senior" | "";
+
+// Settings carried over from one saved clip to the next (per tab)
+export interface BasicSettings {
+  language: string;
+  speakerGender: SpeakerGender;
+  speakerAgeRange: SpeakerAgeRange;
+  speakerDialect: string;
+  sourceUrl: string;
+}
+
+export interface ClipUpload extends BasicSettings {
+  file: File;
+  title: string;
+  duration: number;
+  transcript: string;
+  timedTranscript?: TimedTranscript;
+  tags: string;
+}
+
+const STORAGE_KEY = "clipCreator_lastBasicSettings";
+
+const SPEAKER_GENDERS: SpeakerGender[] = ["male", "female", "other", ""];
+const SPEAKER_AGE_RANGES: SpeakerAgeRange[] = ["teen", "younger-adult", "adult", "senior", ""];
+
+const toSpeakerGender = (value: string): SpeakerGender =>
+  SPEAKER_GENDERS.find((gender) => gender === value) ?? "";
+
+const toSpeakerAgeRange = (value: string): SpeakerAgeRange =>
+  SPEAKER_AGE_RANGES.find((range) => range === value) ?? "";
+
+export function loadBasicSettings(): BasicSettings {
+  let stored: Partial<Record<keyof BasicSettings, string>> = {};
+  try {
+    stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || "{}");
+  } catch (error) {
+    console.error("Failed to load basic settings from sessionStorage:", error);
+  }
+  return {
+    language: stored.language || "",
+    speakerGender: toSpeakerGender(stored.speakerGender || ""),
+    speakerAgeRange: toSpeakerAgeRange(stored.speakerAgeRange || ""),
+    speakerDialect: stored.speakerDialect || "",
+    sourceUrl: stored.sourceUrl || "",
+  };
+}
+
+export function saveBasicSettings(settings: BasicSettings): void {
+  try {
+    const basicSettingsToSave: BasicSettings = {
+      language: settings.language,
+      speakerGender: settings.speakerGender,
+      speakerAgeRange: settings.speakerAgeRange,
+      speakerDialect: settings.speakerDialect,
+      sourceUrl: settings.sourceUrl,
+    };
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(basicSettingsToSave));
+  } catch (error) {
+    console.error("Failed to save basic settings to sessionStorage:", error);
+  }
+}
+
+/**
+ * Posts a clip to the upload API. Resolves with the API response and
+ * throws with the server's error message when the upload is rejected.
+ */
+export async function uploadClip(
+  upload: ClipUpload,
+  authHeaders: HeadersInit
+): Promise<any> {
+  const uploadFormData = new FormData();
+  uploadFormData.append("file", upload.file);
+  uploadFormData.append("title", upload.title.trim());
+  uploadFormData.append("duration", upload.duration.toString());
+  uploadFormData.append("language", upload.language);
+  uploadFormData.append("speakerGender", upload.speakerGender);
+  uploadFormData.append("speakerAgeRange", upload.speakerAgeRange);
+  uploadFormData.append("speakerDialect", upload.speakerDialect.trim());
+  uploadFormData.append("transcript", upload.transcript.trim());
+  if (upload.timedTranscript) {
+    uploadFormData.append("timedTranscript", JSON.stringify(upload.timedTranscript));
+  }
+  uploadFormData.append("sourceUrl", upload.sourceUrl.trim());
+  uploadFormData.append("tags", upload.tags.trim());
+
+  const response = await fetch("/api/upload", {
+    method: "POST",
+    headers: {
+      ...authHeaders,
+    },
+    body: uploadFormData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Upload failed");
+  }
+
+  return response.json();
+}
+
+/**
+ * Filename for an uploaded clip: the title made filesystem-safe plus a
+ * timestamp
+ */
+export function clipFilename(title: string, extension: string): string {
+  const timestamp = new Date()
+    .toISOString()
+    .replace(/[:.]/g, "-")
+    .slice(0, -5);
+  return `${title.replace(/[^a-zA-Z0-9\-_]/g, "_")}_${timestamp}.${extension}`;
+}
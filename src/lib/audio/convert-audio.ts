@@ -7,6 +7,8 @@
 export interface ConversionOptions {
   onProgress?: (progress: number) => void;
   audioBitsPerSecond?: number;
+  // Play the audio through the speakers while it is encoded (default true)
+  monitor?: boolean;
 }
 
 /**
@@ -21,7 +23,7 @@ export async function convertAudioToCompatibleFormat(
   audioFile: File,
   options: ConversionOptions = {}
 ): Promise<File> {
-  const { onProgress, audioBitsPerSecond = 128000 } = options;
+  const { onProgress, audioBitsPerSecond = 128000, monitor = true } = options;
 
   console.log("🔄 Starting audio conversion:", audioFile.name, audioFile.type);
 
@@ -67,7 +69,9 @@ export async function convertAudioToCompatibleFormat(
     const source = audioContext.createBufferSource();
     source.buffer = audioBuffer;
     source.connect(mediaStreamDestination);
-    source.connect(audioContext.destination);
+    if (monitor) {
+      source.connect(audioContext.destination);
+    }
 
     // Set up MediaRecorder to record as MP3 (or webm if MP3 not supported)
     const mimeTypes = ["audio/mpeg", "audio/webm;codecs=opus", "audio/webm"];
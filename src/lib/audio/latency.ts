@@ -0,0 +1,169 @@
+/**
+ * Round-trip latency calibration
+ * Plays a few short beeps through the speakers and listens for them on the
+ * microphone. The beeps are also fed straight into the same recording, so
+ * both arrive on one sample clock and the gap between the two onsets is the
+ * output + acoustic + input delay.
+ */
+
+export interface CalibrationOptions {
+  beeps?: number;
+  intervalSeconds?: number; // time between beeps
+  beepSeconds?: number;
+  frequency?: number; // Hz
+  maxLatencyMs?: number; // onsets later than this don't count
+}
+
+const DEFAULTS: Required<CalibrationOptions> = {
+  beeps: 5,
+  intervalSeconds: 0.6,
+  beepSeconds: 0.02,
+  frequency: 1000,
+  maxLatencyMs: 500,
+};
+
+// Quiet time before the first beep, used to measure the room's noise level
+const LEAD_IN_SECONDS = 0.5;
+const BUFFER_SIZE = 4096;
+// A sample counts as the beep when it is this many times the noise peak
+const NOISE_FACTOR = 4;
+const MIN_THRESHOLD = 0.02;
+
+// Microphone settings that leave the signal as it is: echo cancellation
+// would remove the very beeps being listened for
+export const RAW_MICROPHONE: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function firstAbove(
+  samples: Float32Array,
+  threshold: number,
+  from: number,
+  to: number
+): number {
+  for (let i = from; i < Math.min(to, samples.length); i++) {
+    if (Math.abs(samples[i]) >= threshold) return i;
+  }
+  return -1;
+}
+
+function concat(chunks: Float32Array[]): Float32Array {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Float32Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Measures the round-trip latency of the current speakers and microphone.
+ * Needs the sound to reach the microphone, so it won't work with headphones on.
+ * @returns Latency in milliseconds (median over the beeps that were heard)
+ */
+export async function measureRoundTripLatency(
+  options: CalibrationOptions = {}
+): Promise<number> {
+  const opts = { ...DEFAULTS, ...options };
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error("Microphone access is not supported in this browser");
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: RAW_MICROPHONE });
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContextClass({ latencyHint: "interactive" });
+
+  try {
+    if (context.state === "suspended") await context.resume();
+    const sampleRate = context.sampleRate;
+
+    // Channel 0: microphone, channel 1: the beeps as they were sent out
+    const microphone = context.createMediaStreamSource(stream);
+    const merger = context.createChannelMerger(2);
+    const processor = context.createScriptProcessor(BUFFER_SIZE, 2, 1);
+    const beepGain = context.createGain();
+    beepGain.gain.value = 0;
+    microphone.connect(merger, 0, 0);
+    beepGain.connect(merger, 0, 1);
+    beepGain.connect(context.destination);
+    merger.connect(processor);
+    processor.connect(context.destination); // processors only run when connected
+
+    const micChunks: Float32Array[] = [];
+    const referenceChunks: Float32Array[] = [];
+    processor.onaudioprocess = (e) => {
+      micChunks.push(new Float32Array(e.inputBuffer.getChannelData(0)));
+      referenceChunks.push(new Float32Array(e.inputBuffer.getChannelData(1)));
+    };
+
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = opts.frequency;
+    oscillator.connect(beepGain);
+    const startAt = context.currentTime + LEAD_IN_SECONDS;
+    for (let i = 0; i < opts.beeps; i++) {
+      const at = startAt + i * opts.intervalSeconds;
+      beepGain.gain.setValueAtTime(0.8, at);
+      beepGain.gain.setValueAtTime(0, at + opts.beepSeconds);
+    }
+    oscillator.start();
+
+    const totalSeconds =
+      LEAD_IN_SECONDS + opts.beeps * opts.intervalSeconds + opts.maxLatencyMs / 1000;
+    await wait(totalSeconds * 1000 + (2 * BUFFER_SIZE * 1000) / sampleRate);
+
+    oscillator.stop();
+    processor.onaudioprocess = null;
+    processor.disconnect();
+    merger.disconnect();
+
+    const mic = concat(micChunks);
+    const reference = concat(referenceChunks);
+    const firstBeep = firstAbove(reference, 0.1, 0, reference.length);
+    if (firstBeep < 0) {
+      throw new Error("The test beeps could not be played");
+    }
+
+    let noisePeak = 0;
+    for (let i = 0; i < firstBeep; i++) {
+      noisePeak = Math.max(noisePeak, Math.abs(mic[i]));
+    }
+    const threshold = Math.max(MIN_THRESHOLD, noisePeak * NOISE_FACTOR);
+    if (threshold >= 1) {
+      throw new Error("It's too noisy to hear the test beeps");
+    }
+
+    const searchWindow = Math.round((opts.maxLatencyMs / 1000) * sampleRate);
+    const interval = Math.round(opts.intervalSeconds * sampleRate);
+    const latencies: number[] = [];
+    let searchFrom = firstBeep;
+    for (let i = 0; i < opts.beeps; i++) {
+      const sent = firstAbove(reference, 0.1, searchFrom, reference.length);
+      if (sent < 0) break;
+      const heard = firstAbove(mic, threshold, sent, sent + searchWindow);
+      if (heard >= 0) latencies.push(((heard - sent) / sampleRate) * 1000);
+      searchFrom = sent + Math.round(interval / 2);
+    }
+
+    if (latencies.length < Math.ceil(opts.beeps / 2)) {
+      throw new Error(
+        "Couldn't hear the test beeps. Take off your headphones, turn the speakers up and try again"
+      );
+    }
+    return Math.round(median(latencies));
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+    context.close().catch(() => {});
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Microphone monitoring settings: hearing your own voice in the headphones
+ * while the clip plays, and the measured round-trip latency used to line
+ * recorded takes up with the clip. Stored like keyboard shortcuts, as the
+ * fields a user changed (AudioSettingsPreferences).
+ */
+
+import type { AudioSettingsPreferences, MonitoringSettings } from "@/types/audio";
+
+export const DEFAULT_MONITORING_SETTINGS: MonitoringSettings = {
+  userVolume: 1,
+  audioVolume: 1,
+  enableMonitoring: false,
+  monitoringLatencyMs: 0,
+};
+
+// Allowed range of each numeric setting
+export const MONITORING_LIMITS = {
+  userVolume: { min: 0, max: 2 },
+  audioVolume: { min: 0, max: 3 },
+  monitoringLatencyMs: { min: 0, max: 1000 },
+} as const;
+
+type MonitoringChanges = {
+  [K in keyof MonitoringSettings]?: MonitoringSettings[K] | null;
+};
+
+const STORAGE_KEY = "chorus-audio-settings";
+
+// Defaults with the user's changes applied
+export function resolveMonitoringSettings(
+  preferences?: AudioSettingsPreferences | null
+): MonitoringSettings {
+  const settings = { ...DEFAULT_MONITORING_SETTINGS };
+  (Object.keys(DEFAULT_MONITORING_SETTINGS) as (keyof MonitoringSettings)[]).forEach((key) => {
+    const value = preferences?.[key];
+    if (value !== undefined) (settings as Record<string, unknown>)[key] = value;
+  });
+  return settings;
+}
+
+/**
+ * Checks monitoring settings sent to the API. Fields left out are skipped;
+ * null puts one back to its default.
+ * @returns The changes to apply, or an error
+ */
+export function sanitizeMonitoringSettings(
+  body: Record<string, unknown>
+): { changes: MonitoringChanges; error?: undefined } | { changes?: undefined; error: string } {
+  const changes: MonitoringChanges = {};
+
+  if (body.enableMonitoring !== undefined) {
+    if (body.enableMonitoring !== null && typeof body.enableMonitoring !== "boolean") {
+      return { error: "enableMonitoring must be true or false" };
+    }
+    changes.enableMonitoring = body.enableMonitoring;
+  }
+
+  for (const key of Object.keys(MONITORING_LIMITS) as (keyof typeof MONITORING_LIMITS)[]) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (value === null) {
+      changes[key] = null;
+      continue;
+    }
+    const { min, max } = MONITORING_LIMITS[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+      return { error: `${key} must be a number from ${min} to ${max}` };
+    }
+    changes[key] = key === "monitoringLatencyMs" ? Math.round(value) : value;
+  }
+
+  return { changes };
+}
+
+export function loadMonitoringPreferences(): AudioSettingsPreferences {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function saveMonitoringPreferences(preferences: AudioSettingsPreferences): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // localStorage unavailable — ignore
+  }
+}
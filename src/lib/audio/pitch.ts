@@ -0,0 +1,304 @@
+/**
+ * Client-side pitch (F0) extraction
+ * Runs the YIN algorithm over a decoded AudioBuffer and caches
+ * per-clip results in localStorage
+ */
+
+import type { PitchContour } from "@/types/audio";
+
+export interface PitchOptions {
+  minFrequency?: number; // Hz
+  maxFrequency?: number; // Hz
+  hopSeconds?: number;
+  threshold?: number; // YIN aperiodicity threshold (lower = stricter)
+  silenceRms?: number; // frames quieter than this are unvoiced
+}
+
+export interface AsyncPitchOptions extends PitchOptions {
+  onProgress?: (progress: number) => void; // 0-100
+  signal?: AbortSignal;
+}
+
+const DEFAULTS: Required<PitchOptions> = {
+  minFrequency: 60,
+  maxFrequency: 500,
+  hopSeconds: 0.01,
+  threshold: 0.15,
+  silenceRms: 0.01,
+};
+
+// Speech F0 sits well below 1 kHz, so analysis runs on a decimated signal
+const ANALYSIS_SAMPLE_RATE = 8000;
+// Frames analysed between yields in the async variant
+const FRAMES_PER_CHUNK = 400;
+
+interface PreparedSignal {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * Mixes down to mono and decimates (box filter) to roughly 8 kHz
+ */
+function prepareSignal(buffer: AudioBuffer): PreparedSignal {
+  const factor = Math.max(
+    1,
+    Math.floor(buffer.sampleRate / ANALYSIS_SAMPLE_RATE)
+  );
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+
+  const length = Math.floor(buffer.length / factor);
+  const samples = new Float32Array(length);
+  const norm = factor * channels.length;
+
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    const base = i * factor;
+    for (const data of channels) {
+      for (let k = 0; k < factor; k++) {
+        sum += data[base + k];
+      }
+    }
+    samples[i] = sum / norm;
+  }
+
+  return { samples, sampleRate: buffer.sampleRate / factor };
+}
+
+/**
+ * Estimates F0 of a single frame with YIN. Returns 0 when unvoiced.
+ */
+function yinFrame(
+  samples: Float32Array,
+  offset: number,
+  windowSize: number,
+  tauMin: number,
+  tauMax: number,
+  sampleRate: number,
+  diff: Float32Array,
+  opts: Required<PitchOptions>
+): number {
+  // Energy gate
+  let energy = 0;
+  for (let j = 0; j < windowSize; j++) {
+    const v = samples[offset + j];
+    energy += v * v;
+  }
+  if (Math.sqrt(energy / windowSize) < opts.silenceRms) {
+    return 0;
+  }
+
+  // Difference function
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const delta = samples[offset + j] - samples[offset + j + tau];
+      sum += delta * delta;
+    }
+    diff[tau] = sum;
+  }
+
+  // Cumulative mean normalized difference
+  diff[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    running += diff[tau];
+    diff[tau] = running > 0 ? (diff[tau] * tau) / running : 1;
+  }
+
+  // Absolute threshold: first dip below threshold, then walk to its minimum
+  let tau = tauMin;
+  while (tau <= tauMax) {
+    if (diff[tau] < opts.threshold) {
+      while (tau + 1 <= tauMax && diff[tau + 1] < diff[tau]) {
+        tau++;
+      }
+      break;
+    }
+    tau++;
+  }
+  if (tau > tauMax) {
+    return 0;
+  }
+
+  // Parabolic interpolation around the minimum
+  let betterTau = tau;
+  if (tau > 1 && tau < tauMax) {
+    const s0 = diff[tau - 1];
+    const s1 = diff[tau];
+    const s2 = diff[tau + 1];
+    const denom = 2 * (2 * s1 - s2 - s0);
+    if (denom !== 0) {
+      betterTau = tau + (s2 - s0) / denom;
+    }
+  }
+
+  const frequency = sampleRate / betterTau;
+  return frequency >= opts.minFrequency && frequency <= opts.maxFrequency
+    ? frequency
+    : 0;
+}
+
+/**
+ * Removes single-frame octave jumps with a 5-point median over voiced frames
+ */
+function smoothContour(frequencies: number[]): number[] {
+  const out = frequencies.slice();
+  for (let i = 0; i < frequencies.length; i++) {
+    if (frequencies[i] === 0) continue;
+    const window: number[] = [];
+    for (let k = i - 2; k <= i + 2; k++) {
+      if (k >= 0 && k < frequencies.length && frequencies[k] > 0) {
+        window.push(frequencies[k]);
+      }
+    }
+    window.sort((a, b) => a - b);
+    out[i] = window[Math.floor(window.length / 2)];
+  }
+  return out;
+}
+
+function createAnalysis(buffer: AudioBuffer, options: PitchOptions) {
+  const opts = { ...DEFAULTS, ...options };
+  const { samples, sampleRate } = prepareSignal(buffer);
+  const tauMin = Math.max(2, Math.floor(sampleRate / opts.maxFrequency));
+  const tauMax = Math.ceil(sampleRate / opts.minFrequency);
+  const windowSize = tauMax;
+  const hop = Math.max(1, Math.round(opts.hopSeconds * sampleRate));
+  const frameCount = Math.max(
+    0,
+    Math.floor((samples.length - windowSize - tauMax) / hop) + 1
+  );
+  const diff = new Float32Array(tauMax + 2);
+  const frequencies = new Array<number>(frameCount).fill(0);
+
+  const analyze = (from: number, to: number) => {
+    for (let f = from; f < to; f++) {
+      frequencies[f] = yinFrame(
+        samples,
+        f * hop,
+        windowSize,
+        tauMin,
+        tauMax,
+        sampleRate,
+        diff,
+        opts
+      );
+    }
+  };
+
+  // Frame times are taken at the frame start; the analysis window is short
+  // enough (< 40 ms) for display and comparison purposes
+  const contour = (): PitchContour => ({
+    hopSize: hop / sampleRate,
+    frequencies: smoothContour(frequencies),
+  });
+
+  return { frameCount, analyze, contour };
+}
+
+/**
+ * Extracts a pitch contour synchronously. Fine for short clips and takes.
+ */
+export function extractPitch(
+  buffer: AudioBuffer,
+  options: PitchOptions = {}
+): PitchContour {
+  const analysis = createAnalysis(buffer, options);
+  analysis.analyze(0, analysis.frameCount);
+  return analysis.contour();
+}
+
+/**
+ * Extracts a pitch contour in chunks, yielding to the event loop between
+ * chunks so long recordings don't block the UI.
+ */
+export async function extractPitchAsync(
+  buffer: AudioBuffer,
+  options: AsyncPitchOptions = {}
+): Promise<PitchContour> {
+  const { onProgress, signal, ...pitchOptions } = options;
+  const analysis = createAnalysis(buffer, pitchOptions);
+
+  for (let from = 0; from < analysis.frameCount; from += FRAMES_PER_CHUNK) {
+    if (signal?.aborted) {
+      throw new DOMException("Pitch extraction aborted", "AbortError");
+    }
+    const to = Math.min(analysis.frameCount, from + FRAMES_PER_CHUNK);
+    analysis.analyze(from, to);
+    onProgress?.(Math.round((to / analysis.frameCount) * 100));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return analysis.contour();
+}
+
+/**
+ * Decodes an audio blob (e.g. a MediaRecorder take) to an AudioBuffer
+ */
+export async function decodeAudioBlob(blob: Blob): Promise<AudioBuffer> {
+  const arrayBuffer = await blob.arrayBuffer();
+  const audioContext = new AudioContext();
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+}
+
+// ============================================
+// PER-CLIP CACHE (localStorage)
+// ============================================
+
+const PITCH_CACHE_PREFIX = "chorus-pitch-";
+
+interface CachedPitch extends PitchContour {
+  version: string; // clip.updatedAt - invalidates the cache when audio changes
+}
+
+export function getCachedPitch(
+  clipId: string,
+  version: string
+): PitchContour | null {
+  try {
+    const stored = localStorage.getItem(`${PITCH_CACHE_PREFIX}${clipId}`);
+    if (!stored) return null;
+    const cached: CachedPitch = JSON.parse(stored);
+    if (cached.version !== version || !Array.isArray(cached.frequencies)) {
+      return null;
+    }
+    return { hopSize: cached.hopSize, frequencies: cached.frequencies };
+  } catch {
+    return null;
+  }
+}
+
+export function cachePitch(
+  clipId: string,
+  version: string,
+  contour: PitchContour
+): void {
+  const value: CachedPitch = {
+    version,
+    hopSize: contour.hopSize,
+    // One decimal is plenty for display and keeps the entry small
+    frequencies: contour.frequencies.map((f) => Math.round(f * 10) / 10),
+  };
+  const key = `${PITCH_CACHE_PREFIX}${clipId}`;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded - drop all cached contours and try once more
+    try {
+      Object.keys(localStorage)
+        .filter((k) => k.startsWith(PITCH_CACHE_PREFIX))
+        .forEach((k) => localStorage.removeItem(k));
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // localStorage unavailable — ignore
+    }
+  }
+}
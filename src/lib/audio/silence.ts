@@ -0,0 +1,196 @@
+/**
+ * Silence-based segmentation
+ * Splits a long recording into phrases at pauses using a frame energy
+ * envelope, plus the edits used to refine the proposed segments
+ */
+
+export interface SegmentationOptions {
+  thresholdDb: number; // frames quieter than this (dBFS RMS) are silence
+  minSilence: number; // seconds of silence needed to split
+  minSegment: number; // seconds; shorter segments are merged into a neighbour
+  padding: number; // seconds of silence kept around each segment
+}
+
+export const DEFAULT_SEGMENTATION: SegmentationOptions = {
+  thresholdDb: -40,
+  minSilence: 0.35,
+  minSegment: 0.8,
+  padding: 0.1,
+};
+
+export interface AudioSegment {
+  start: number;
+  end: number;
+}
+
+export interface EnergyEnvelope {
+  frameSeconds: number;
+  db: Float32Array; // RMS level of each frame in dBFS
+}
+
+const FRAME_SECONDS = 0.01;
+const SILENT_DB = -100;
+// Shortest segment an edit may leave behind
+const MIN_EDIT_LENGTH = 0.1;
+
+/**
+ * RMS level of every 10 ms frame, mixed down to mono
+ */
+export function computeEnergyEnvelope(buffer: AudioBuffer): EnergyEnvelope {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frameCount = Math.ceil(buffer.length / frameSize);
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+
+  const db = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const from = f * frameSize;
+    const to = Math.min(buffer.length, from + frameSize);
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      let sample = 0;
+      for (const data of channels) {
+        sample += data[i];
+      }
+      sample /= channels.length;
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / Math.max(1, to - from));
+    db[f] = rms > 0 ? Math.max(SILENT_DB, 20 * Math.log10(rms)) : SILENT_DB;
+  }
+
+  return { frameSeconds: frameSize / buffer.sampleRate, db };
+}
+
+/**
+ * Proposes phrase segments: runs of frames above the threshold, joined
+ * across pauses shorter than `minSilence`. Segments shorter than
+ * `minSegment` are merged into the closer neighbour, then every segment
+ * is padded into the surrounding silence without overlapping the next.
+ */
+export function detectSegments(
+  envelope: EnergyEnvelope,
+  options: SegmentationOptions
+): AudioSegment[] {
+  const { frameSeconds, db } = envelope;
+  const duration = db.length * frameSeconds;
+
+  // Voiced runs, bridged across short pauses
+  const segments: AudioSegment[] = [];
+  let runStart: number | null = null;
+  for (let f = 0; f <= db.length; f++) {
+    const voiced = f < db.length && db[f] >= options.thresholdDb;
+    if (voiced && runStart === null) {
+      runStart = f;
+    } else if (!voiced && runStart !== null) {
+      const start = runStart * frameSeconds;
+      const end = f * frameSeconds;
+      const previous = segments[segments.length - 1];
+      if (previous && start - previous.end < options.minSilence) {
+        previous.end = end;
+      } else {
+        segments.push({ start, end });
+      }
+      runStart = null;
+    }
+  }
+
+  // Fold short segments into whichever neighbour is closer
+  let shortest = findShortSegment(segments, options.minSegment);
+  while (shortest !== -1 && segments.length > 1) {
+    const gapBefore =
+      shortest > 0 ? segments[shortest].start - segments[shortest - 1].end : Infinity;
+    const gapAfter =
+      shortest < segments.length - 1
+        ? segments[shortest + 1].start - segments[shortest].end
+        : Infinity;
+    mergeInPlace(segments, gapBefore <= gapAfter ? shortest - 1 : shortest);
+    shortest = findShortSegment(segments, options.minSegment);
+  }
+
+  // Pad into the silence, meeting halfway when two segments are close
+  return segments.map((segment, index) => {
+    const previous = segments[index - 1];
+    const next = segments[index + 1];
+    const minStart = previous ? (previous.end + segment.start) / 2 : 0;
+    const maxEnd = next ? (segment.end + next.start) / 2 : duration;
+    return {
+      start: round(Math.max(minStart, segment.start - options.padding)),
+      end: round(Math.min(maxEnd, segment.end + options.padding)),
+    };
+  });
+}
+
+function findShortSegment(segments: AudioSegment[], minSegment: number): number {
+  return segments.findIndex((segment) => segment.end - segment.start < minSegment);
+}
+
+function mergeInPlace(segments: AudioSegment[], index: number): void {
+  segments[index] = { start: segments[index].start, end: segments[index + 1].end };
+  segments.splice(index + 1, 1);
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// ============================================
+// EDITING
+// ============================================
+
+/**
+ * Joins a segment with the one after it
+ */
+export function mergeWithNext(segments: AudioSegment[], index: number): AudioSegment[] {
+  if (index < 0 || index >= segments.length - 1) return segments;
+  const merged = segments.slice();
+  mergeInPlace(merged, index);
+  return merged;
+}
+
+/**
+ * Splits the segment that contains `time` in two. Returns the segments
+ * unchanged when no segment contains it or a half would be too short.
+ */
+export function splitAt(segments: AudioSegment[], time: number): AudioSegment[] {
+  const index = segments.findIndex(
+    (segment) =>
+      time - segment.start >= MIN_EDIT_LENGTH && segment.end - time >= MIN_EDIT_LENGTH
+  );
+  if (index === -1) return segments;
+  const { start, end } = segments[index];
+  return [
+    ...segments.slice(0, index),
+    { start, end: round(time) },
+    { start: round(time), end },
+    ...segments.slice(index + 1),
+  ];
+}
+
+/**
+ * Moves one edge of a segment, keeping it clear of its neighbours and at
+ * least MIN_EDIT_LENGTH long
+ */
+export function moveSegmentEdge(
+  segments: AudioSegment[],
+  index: number,
+  edge: "start" | "end",
+  time: number,
+  duration: number
+): AudioSegment[] {
+  const segment = segments[index];
+  if (!segment) return segments;
+
+  const updated = { ...segment };
+  if (edge === "start") {
+    const min = index > 0 ? segments[index - 1].end : 0;
+    updated.start = round(Math.min(Math.max(time, min), segment.end - MIN_EDIT_LENGTH));
+  } else {
+    const max = index < segments.length - 1 ? segments[index + 1].start : duration;
+    updated.end = round(Math.max(Math.min(time, max), segment.start + MIN_EDIT_LENGTH));
+  }
+
+  const result = segments.slice();
+  result[index] = updated;
+  return result;
+}
@@ -0,0 +1,363 @@
+/**
+ * Server-side clip processing with ffmpeg
+ * Uploaded clips arrive in whatever format and loudness the uploading
+ * browser produced. Every clip is trimmed of leading and trailing
+ * silence, loudness-normalized to EBU R128 (two-pass loudnorm) and
+ * transcoded to one canonical format. The stored audio is then decoded
+ * once more for its true duration and waveform peaks.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AudioProcessing, ClipPeaks } from "@/types/audio";
+
+const execFileAsync = promisify(execFile);
+
+// Canonical output of the pipeline
+export const PROCESSING_PROFILE = {
+  codec: "mp3",
+  encoder: "libmp3lame",
+  extension: "mp3",
+  mimeType: "audio/mpeg",
+  bitrateKbps: 128,
+  sampleRate: 44100,
+  channels: 1,
+  // EBU R128 targets (integrated LUFS, true peak dBTP, loudness range LU)
+  targetLufs: -16,
+  targetTruePeakDb: -1.5,
+  targetLoudnessRange: 11,
+  // Quieter than this at either end counts as silence
+  silenceThresholdDb: -50,
+  // Silence left in place at each end so words aren't clipped
+  keepSilenceSeconds: 0.15,
+} as const;
+
+export interface ProcessedAudio {
+  file: File;
+  duration: number;
+  processing: AudioProcessing;
+}
+
+// What the measuring pass learns about the input
+interface InputAnalysis {
+  loudness: LoudnormMeasurement;
+  leadingSilence: number; // seconds
+}
+
+interface LoudnormMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+// ffmpeg demuxer for each accepted upload extension. Inputs are always
+// opened with their format named and only the file protocol allowed, so
+// an upload can't be probed into a playlist or concat script that reads
+// other local or remote resources.
+const INPUT_FORMATS: Record<string, string> = {
+  mp3: "mp3",
+  wav: "wav",
+  m4a: "mov",
+  ogg: "ogg",
+  webm: "matroska",
+};
+
+const FFMPEG_TIMEOUT_MS = 120000;
+const MAX_BUFFER = 10 * 1024 * 1024;
+
+// Peaks are taken from mono audio decoded at a low rate: plenty for a
+// waveform overview and small enough to hold a long clip in memory
+const PEAKS_SAMPLE_RATE = 8000;
+const PEAKS_PER_SECOND = 100;
+const MAX_PCM_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Runs the full pipeline on an uploaded file. Resolves with null when
+ * ffmpeg is not installed (the caller keeps the original file) and
+ * rejects when the audio itself cannot be processed.
+ */
+export async function processClipAudio(file: File): Promise<ProcessedAudio | null> {
+  const inputExtension = file.name.split(".").pop()?.toLowerCase() || "audio";
+  const inputFormat = INPUT_FORMATS[inputExtension];
+  if (!inputFormat) {
+    throw new Error(`Unsupported audio format: .${inputExtension}`);
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "chorus-clip-"));
+  const inputPath = path.join(workDir, `input.${inputExtension}`);
+  const outputPath = path.join(workDir, `output.${PROCESSING_PROFILE.extension}`);
+
+  try {
+    await fs.promises.writeFile(inputPath, Buffer.from(await file.arrayBuffer()));
+
+    let analysis: InputAnalysis;
+    try {
+      analysis = await analyzeInput(inputPath, inputFormat);
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        console.warn("⚠️ ffmpeg not found - storing the clip without processing");
+        return null;
+      }
+      throw error;
+    }
+
+    const inputDuration = await probeDuration(inputPath, inputFormat);
+    await runFfmpeg([
+      ...inputArgs(inputPath, inputFormat),
+      "-af", buildFilterChain(analysis),
+      "-ar", String(PROCESSING_PROFILE.sampleRate),
+      "-ac", String(PROCESSING_PROFILE.channels),
+      "-c:a", PROCESSING_PROFILE.encoder,
+      "-b:a", `${PROCESSING_PROFILE.bitrateKbps}k`,
+      "-y", outputPath,
+    ]);
+
+    const duration = await probeDuration(outputPath, INPUT_FORMATS[PROCESSING_PROFILE.extension]);
+    if (!duration || duration <= 0) {
+      throw new Error("No audio left after trimming silence");
+    }
+
+    const output = await fs.promises.readFile(outputPath);
+    const baseName = file.name.replace(/\.[^/.]+$/, "");
+    const processedFile = new File(
+      [output],
+      `${baseName}.${PROCESSING_PROFILE.extension}`,
+      { type: PROCESSING_PROFILE.mimeType }
+    );
+
+    const trimmedStart = round(analysis.leadingSilence);
+    const processing: AudioProcessing = {
+      codec: PROCESSING_PROFILE.codec,
+      bitrateKbps: PROCESSING_PROFILE.bitrateKbps,
+      sampleRate: PROCESSING_PROFILE.sampleRate,
+      channels: PROCESSING_PROFILE.channels,
+      loudness: {
+        standard: "EBU R128",
+        targetLufs: PROCESSING_PROFILE.targetLufs,
+        targetTruePeakDb: PROCESSING_PROFILE.targetTruePeakDb,
+        targetLoudnessRange: PROCESSING_PROFILE.targetLoudnessRange,
+        inputLufs: Number(analysis.loudness.input_i),
+        inputTruePeakDb: Number(analysis.loudness.input_tp),
+        inputLoudnessRange: Number(analysis.loudness.input_lra),
+      },
+      silenceTrim: {
+        thresholdDb: PROCESSING_PROFILE.silenceThresholdDb,
+        keepSeconds: PROCESSING_PROFILE.keepSilenceSeconds,
+        trimmedStart,
+        trimmedEnd: inputDuration
+          ? round(Math.max(0, inputDuration - trimmedStart - duration))
+          : undefined,
+      },
+      inputFormat: inputExtension,
+      inputDuration: inputDuration ?? undefined,
+      processedAt: new Date().toISOString(),
+    };
+
+    console.log(
+      `🎚️ Processed ${file.name}: ${processing.loudness.inputLufs} → ${PROCESSING_PROFILE.targetLufs} LUFS, ${duration.toFixed(2)}s`
+    );
+
+    return { file: processedFile, duration, processing };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Decodes an audio file and computes its duration and waveform peaks.
+ * Resolves with null when the file can't be decoded or ffmpeg is not
+ * installed - peaks are an optimization, never a reason to fail.
+ */
+export async function computeClipPeaks(filePath: string): Promise<ClipPeaks | null> {
+  const format = INPUT_FORMATS[path.extname(filePath).slice(1).toLowerCase()];
+  if (!format) return null;
+
+  let pcm: Buffer;
+  try {
+    const { stdout } = await execFileAsync(
+      "ffmpeg",
+      [
+        "-hide_banner", "-nostats", "-v", "error",
+        ...inputArgs(filePath, format),
+        "-ac", "1",
+        "-ar", String(PEAKS_SAMPLE_RATE),
+        "-f", "f32le", "-",
+      ],
+      { encoding: "buffer", timeout: FFMPEG_TIMEOUT_MS, maxBuffer: MAX_PCM_BUFFER }
+    );
+    pcm = stdout;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      console.warn("⚠️ ffmpeg not found - skipping waveform peaks");
+    } else {
+      console.error("❌ Could not decode audio for peaks:", error?.stderr?.toString() || error);
+    }
+    return null;
+  }
+
+  const sampleCount = Math.floor(pcm.length / 4);
+  if (sampleCount === 0) return null;
+
+  const samplesPerPeak = PEAKS_SAMPLE_RATE / PEAKS_PER_SECOND;
+  const peaks: number[] = [];
+  for (let start = 0; start < sampleCount; start += samplesPerPeak) {
+    const end = Math.min(sampleCount, start + samplesPerPeak);
+    let max = 0;
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(pcm.readFloatLE(i * 4));
+      if (value > max) max = value;
+    }
+    peaks.push(Math.round(Math.min(1, max) * 1000) / 1000);
+  }
+
+  return {
+    duration: round(sampleCount / PEAKS_SAMPLE_RATE),
+    peaksPerSecond: PEAKS_PER_SECOND,
+    peaks,
+  };
+}
+
+/**
+ * computeClipPeaks for audio that only exists in memory (e.g. before it
+ * is uploaded to Supabase Storage)
+ */
+export async function computeFilePeaks(file: File): Promise<ClipPeaks | null> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "chorus-peaks-"));
+  const extension = file.name.split(".").pop()?.toLowerCase() || "audio";
+  const filePath = path.join(workDir, `audio.${extension}`);
+
+  try {
+    await fs.promises.writeFile(filePath, Buffer.from(await file.arrayBuffer()));
+    return await computeClipPeaks(filePath);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * First pass: measures loudness for loudnorm and finds leading silence
+ */
+async function analyzeInput(inputPath: string, inputFormat: string): Promise<InputAnalysis> {
+  const { silenceThresholdDb, targetLufs, targetTruePeakDb, targetLoudnessRange } =
+    PROCESSING_PROFILE;
+  const stderr = await runFfmpeg([
+    ...inputArgs(inputPath, inputFormat),
+    "-af",
+    [
+      `silencedetect=noise=${silenceThresholdDb}dB:d=0.05`,
+      `loudnorm=I=${targetLufs}:TP=${targetTruePeakDb}:LRA=${targetLoudnessRange}:print_format=json`,
+    ].join(","),
+    "-f", "null", "-",
+  ]);
+
+  const jsonStart = stderr.lastIndexOf("{");
+  const jsonEnd = stderr.lastIndexOf("}");
+  let loudness: LoudnormMeasurement;
+  try {
+    loudness = JSON.parse(stderr.slice(jsonStart, jsonEnd + 1));
+  } catch {
+    throw new Error("Could not measure the clip's loudness");
+  }
+  if (!isFinite(Number(loudness.input_i))) {
+    throw new Error("The clip is silent");
+  }
+
+  return { loudness, leadingSilence: findLeadingSilence(stderr) };
+}
+
+/**
+ * Length of the silence the input starts with, as reported by
+ * silencedetect, less the silence we keep
+ */
+function findLeadingSilence(stderr: string): number {
+  const start = stderr.match(/silence_start: (-?[\d.]+)/);
+  const end = stderr.match(/silence_end: ([\d.]+)/);
+  if (!start || !end || Number(start[1]) > 0.01) return 0;
+  return Math.max(0, Number(end[1]) - PROCESSING_PROFILE.keepSilenceSeconds);
+}
+
+/**
+ * Second pass: cuts the leading silence found by the first pass, strips
+ * trailing silence by running silenceremove on the reversed audio, then
+ * normalizes with the measured loudness (linear mode keeps dynamics)
+ */
+function buildFilterChain({ loudness, leadingSilence }: InputAnalysis): string {
+  const {
+    silenceThresholdDb,
+    keepSilenceSeconds,
+    targetLufs,
+    targetTruePeakDb,
+    targetLoudnessRange,
+  } = PROCESSING_PROFILE;
+
+  return [
+    `atrim=start=${leadingSilence.toFixed(3)}`,
+    "asetpts=PTS-STARTPTS",
+    "areverse",
+    `silenceremove=start_periods=1:start_threshold=${silenceThresholdDb}dB:start_silence=${keepSilenceSeconds}`,
+    "areverse",
+    [
+      `loudnorm=I=${targetLufs}`,
+      `TP=${targetTruePeakDb}`,
+      `LRA=${targetLoudnessRange}`,
+      `measured_I=${loudness.input_i}`,
+      `measured_TP=${loudness.input_tp}`,
+      `measured_LRA=${loudness.input_lra}`,
+      `measured_thresh=${loudness.input_thresh}`,
+      `offset=${loudness.target_offset}`,
+      "linear=true",
+    ].join(":"),
+  ].join(",");
+}
+
+// Container duration in seconds; null when the container doesn't say
+// (e.g. WebM straight from MediaRecorder)
+async function probeDuration(filePath: string, format: string): Promise<number | null> {
+  try {
+    const { stdout } = await execFileAsync(
+      "ffprobe",
+      [
+        "-v", "error",
+        "-protocol_whitelist", "file",
+        "-f", format,
+        "-show_entries", "format=duration",
+        "-of", "default=nw=1:nk=1",
+        filePath,
+      ],
+      { timeout: FFMPEG_TIMEOUT_MS, maxBuffer: MAX_BUFFER }
+    );
+    const duration = parseFloat(stdout.trim());
+    return isFinite(duration) && duration > 0 ? duration : null;
+  } catch (error) {
+    console.warn("⚠️ ffprobe failed:", error);
+    return null;
+  }
+}
+
+// Opens a local file as the given format, and nothing else
+function inputArgs(filePath: string, format: string): string[] {
+  return ["-protocol_whitelist", "file", "-f", format, "-i", filePath];
+}
+
+// Runs ffmpeg and returns its log (stderr)
+async function runFfmpeg(args: string[]): Promise<string> {
+  try {
+    const { stderr } = await execFileAsync(
+      "ffmpeg",
+      ["-hide_banner", "-nostats", ...args],
+      { timeout: FFMPEG_TIMEOUT_MS, maxBuffer: MAX_BUFFER }
+    );
+    return stderr;
+  } catch (error: any) {
+    if (error?.code === "ENOENT") throw error;
+    console.error("❌ ffmpeg failed:", error?.stderr || error);
+    throw new Error("Could not process the audio file");
+  }
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
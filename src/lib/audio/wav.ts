@@ -0,0 +1,70 @@
+/**
+ * WAV encoding for clips cut out of a decoded source file
+ */
+
+/**
+ * Encodes [start, end] (seconds) of `audioBuffer` as a 16-bit PCM WAV
+ * blob. Samples are copied as-is, without resampling or processing.
+ */
+export function encodeWavRange(
+  audioBuffer: AudioBuffer,
+  start: number,
+  end: number
+): Blob {
+  const numberOfChannels = audioBuffer.numberOfChannels;
+  const sampleRate = audioBuffer.sampleRate;
+  const startSample = Math.max(0, Math.floor(start * sampleRate));
+  const endSample = Math.min(audioBuffer.length, Math.floor(end * sampleRate));
+  const length = endSample - startSample;
+
+  if (length <= 0) {
+    throw new Error("Invalid region selection");
+  }
+
+  const bytesPerSample = 2; // 16-bit
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const byteRate = sampleRate * blockAlign;
+  const dataSize = length * blockAlign;
+  const bufferSize = 44 + dataSize;
+
+  const arrayBuffer = new ArrayBuffer(bufferSize);
+  const view = new DataView(arrayBuffer);
+
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  // WAV file header (44 bytes) for 16-bit PCM
+  writeString(0, "RIFF"); // ChunkID
+  view.setUint32(4, bufferSize - 8, true); // ChunkSize (little-endian)
+  writeString(8, "WAVE"); // Format
+  writeString(12, "fmt "); // Subchunk1ID
+  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
+  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
+  view.setUint16(22, numberOfChannels, true); // NumChannels
+  view.setUint32(24, sampleRate, true); // SampleRate
+  view.setUint32(28, byteRate, true); // ByteRate
+  view.setUint16(32, blockAlign, true); // BlockAlign
+  view.setUint16(34, 16, true); // BitsPerSample (16-bit)
+  writeString(36, "data"); // Subchunk2ID
+  view.setUint32(40, dataSize, true); // Subchunk2Size
+
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
+  }
+
+  // Interleave the channels as 16-bit signed integers
+  let offset = 44;
+  for (let i = startSample; i < endSample; i++) {
+    for (const data of channels) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      view.setInt16(offset, Math.round(sample * 32767), true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([arrayBuffer], { type: "audio/wav" });
+}
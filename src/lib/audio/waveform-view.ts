@@ -0,0 +1,62 @@
+/**
+ * Helpers for canvases laid over a WaveSurfer waveform that must follow
+ * its zoom and scroll position
+ */
+
+export interface VisibleWindow {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+/**
+ * Time range currently visible in a (possibly zoomed) waveform that is
+ * `width` CSS pixels wide. Falls back to the whole file.
+ */
+export function getVisibleWindow(
+  wavesurfer: any | null,
+  duration: number,
+  width: number
+): VisibleWindow {
+  try {
+    const wrapper: HTMLElement | undefined = wavesurfer?.getWrapper?.();
+    const totalWidth = wrapper?.scrollWidth || width;
+    const scroll: number = wavesurfer?.getScroll?.() ?? 0;
+    if (totalWidth > 0) {
+      return {
+        start: (scroll / totalWidth) * duration,
+        end: ((scroll + width) / totalWidth) * duration,
+      };
+    }
+  } catch {
+    // Fall back to the whole clip
+  }
+  return { start: 0, end: duration };
+}
+
+/**
+ * Calls `redraw` whenever the waveform is zoomed, scrolled or resized.
+ * Returns an unsubscribe function.
+ */
+export function onWaveformViewChange(
+  wavesurfer: any | null,
+  canvas: HTMLCanvasElement | null,
+  redraw: () => void
+): () => void {
+  const unsubscribers: Array<() => void> = [];
+  if (wavesurfer?.on) {
+    for (const event of ["scroll", "zoom", "redrawcomplete", "resize"]) {
+      const unsubscribe = wavesurfer.on(event, redraw);
+      if (typeof unsubscribe === "function") unsubscribers.push(unsubscribe);
+    }
+  }
+  const observer =
+    canvas && typeof ResizeObserver !== "undefined"
+      ? new ResizeObserver(() => redraw())
+      : null;
+  if (canvas && observer) observer.observe(canvas);
+
+  return () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    observer?.disconnect();
+  };
+}
@@ -38,56 +38,61 @@ const AuthContext = createContext<ExtendedAuthContextType | undefined>(
 
 // Local storage keys
 const SESSION_STORAGE_KEY = 'chorus-lab-session';
+// Accounts older versions kept in the browser, with plain-text passwords
+const LEGACY_USERS_STORAGE_KEY = 'chorus-lab-users';
 
-// Default test user (always available for local development)
-const DEFAULT_USERS: Array<{
-  id: string;
+interface LegacyLocalUser {
   email: string;
   username: string;
   password: string;
-  isAdmin: boolean;
-}> = [
-  {
-    id: 'test-user-id-12345',
-    email: 'test@example.com',
-    username: 'TestUser',
-    password: 'password123',
-    isAdmin: true,
-  },
-];
-
-// Helper to get users from localStorage (with defaults)
-function getLocalUsers() {
-  if (typeof window === 'undefined') return DEFAULT_USERS;
-  
-  try {
-    const stored = localStorage.getItem('chorus-lab-users');
-    if (stored) {
-      const users = JSON.parse(stored);
-      // Merge with defaults (ensure test user always exists)
-      const merged = [...DEFAULT_USERS];
-      for (const user of users) {
-        if (!merged.find(u => u.email === user.email)) {
-          merged.push(user);
-        }
-      }
-      return merged;
-    }
-  } catch (e) {
-    console.error('Error reading users:', e);
-  }
-  return DEFAULT_USERS;
 }
 
-// Helper to save users to localStorage
-function saveLocalUsers(users: typeof DEFAULT_USERS) {
-  if (typeof window === 'undefined') return;
-  localStorage.setItem('chorus-lab-users', JSON.stringify(users));
+// Reads { user, session } from the auth API, throwing its error message
+async function requestSession(
+  url: string,
+  body: Record<string, string>
+): Promise<LocalSession> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Authentication failed');
+  }
+  return { ...data.session, user: data.user };
 }
 
-// Generate a simple token
-function generateToken(): string {
-  return `local-token-${Date.now()}-${Math.random().toString(36).substring(2)}`;
+// Moves a browser-only account from an older version to the server the
+// first time it signs in, then forgets the plain-text copy
+async function migrateLegacyUser(credentials: LoginCredentials): Promise<LocalSession | null> {
+  let legacyUsers: LegacyLocalUser[];
+  try {
+    legacyUsers = JSON.parse(localStorage.getItem(LEGACY_USERS_STORAGE_KEY) || '[]');
+  } catch {
+    return null;
+  }
+
+  const legacyUser = legacyUsers.find(
+    u => u.email === credentials.email && u.password === credentials.password
+  );
+  if (!legacyUser) return null;
+
+  const session = await requestSession('/api/auth/register', {
+    email: legacyUser.email,
+    username: legacyUser.username,
+    password: legacyUser.password,
+  });
+
+  const remaining = legacyUsers.filter(u => u.email !== legacyUser.email);
+  if (remaining.length > 0) {
+    localStorage.setItem(LEGACY_USERS_STORAGE_KEY, JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(LEGACY_USERS_STORAGE_KEY);
+  }
+  console.log('🔐 Moved browser account to the server:', legacyUser.username);
+  return session;
 }
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -100,24 +105,32 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   // Load session from localStorage on mount
   useEffect(() => {
-    const loadSession = () => {
+    const loadSession = async () => {
       try {
         const stored = localStorage.getItem(SESSION_STORAGE_KEY);
         if (stored) {
           const savedSession: LocalSession = JSON.parse(stored);
-          
-          // Check if session is expired
-          if (savedSession.expires_at > Date.now()) {
-            setSession(savedSession);
+
+          // The server confirms the session hasn't expired or been revoked
+          const response = savedSession.expires_at > Date.now()
+            ? await fetch('/api/auth/session', {
+                headers: { Authorization: `Bearer ${savedSession.access_token}` },
+              })
+            : null;
+
+          if (response?.ok) {
+            const { user } = await response.json();
+            const restoredSession = { ...savedSession, user };
+            setSession(restoredSession);
             setAuthState({
-              user: savedSession.user,
+              user,
               isLoading: false,
               error: null,
             });
-            console.log('🔐 Restored local session for:', savedSession.user.username);
+            console.log('🔐 Restored local session for:', user.username);
             return;
           } else {
-            // Clear expired session
+            // Clear expired or revoked session
             localStorage.removeItem(SESSION_STORAGE_KEY);
           }
         }
@@ -135,58 +148,43 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     loadSession();
   }, []);
 
-  // Get auth headers for API calls - includes user info for server-side auth
+  // Get auth headers for API calls - the server looks the user up from the token
   const getAuthHeaders = useCallback((): HeadersInit => {
-    if (session?.access_token && session?.user) {
-      return {
-        Authorization: `Bearer ${session.access_token}`,
-        'X-User-Id': session.user.id,
-        'X-Username': session.user.username,
-      };
+    if (session?.access_token) {
+      return { Authorization: `Bearer ${session.access_token}` };
     }
     return {};
-  }, [session?.access_token, session?.user]);
+  }, [session?.access_token]);
+
+  const startSession = (newSession: LocalSession) => {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
+    setSession(newSession);
+    setAuthState({
+      user: newSession.user,
+      isLoading: false,
+      error: null,
+    });
+  };
 
   // Login function
   const login = async (credentials: LoginCredentials) => {
     setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      // Simulate network delay for realistic feel
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      const users = getLocalUsers();
-      const user = users.find(
-        u => u.email === credentials.email && u.password === credentials.password
-      );
-
-      if (!user) {
-        throw new Error('Invalid email or password');
+      let newSession: LocalSession;
+      try {
+        newSession = await requestSession('/api/auth/login', {
+          email: credentials.email,
+          password: credentials.password,
+        });
+      } catch (error) {
+        const migrated = await migrateLegacyUser(credentials);
+        if (!migrated) throw error;
+        newSession = migrated;
       }
 
-      const newSession: LocalSession = {
-        access_token: generateToken(),
-        user: {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          createdAt: new Date().toISOString(),
-          isAdmin: user.isAdmin,
-        },
-        expires_at: Date.now() + (24 * 60 * 60 * 1000), // 24 hours
-      };
-
-      // Save to localStorage
-      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
-
-      setSession(newSession);
-      setAuthState({
-        user: newSession.user,
-        isLoading: false,
-        error: null,
-      });
-
-      console.log('✅ Logged in as:', user.username);
+      startSession(newSession);
+      console.log('✅ Logged in as:', newSession.user.username);
     } catch (error: any) {
       setAuthState({
         user: null,
@@ -210,53 +208,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         throw new Error('Password must be at least 6 characters');
       }
 
-      const users = getLocalUsers();
-
-      // Check if email exists
-      if (users.find(u => u.email === credentials.email)) {
-        throw new Error('Email already registered');
-      }
-
-      // Check if username exists
-      if (users.find(u => u.username === credentials.username)) {
-        throw new Error('Username already taken');
-      }
-
-      // Create new user
-      const newUser = {
-        id: `user-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      // Auto-login after registration
+      const newSession = await requestSession('/api/auth/register', {
         email: credentials.email,
         username: credentials.username,
         password: credentials.password,
-        isAdmin: false,
-      };
-
-      users.push(newUser);
-      saveLocalUsers(users);
-
-      // Auto-login after registration
-      const newSession: LocalSession = {
-        access_token: generateToken(),
-        user: {
-          id: newUser.id,
-          email: newUser.email,
-          username: newUser.username,
-          createdAt: new Date().toISOString(),
-          isAdmin: newUser.isAdmin,
-        },
-        expires_at: Date.now() + (24 * 60 * 60 * 1000),
-      };
-
-      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
-
-      setSession(newSession);
-      setAuthState({
-        user: newSession.user,
-        isLoading: false,
-        error: null,
       });
 
-      console.log('✅ Registered and logged in as:', newUser.username);
+      startSession(newSession);
+      console.log('✅ Registered and logged in as:', newSession.user.username);
     } catch (error: any) {
       setAuthState({
         user: null,
@@ -267,8 +227,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  // Logout function
+  // Logout function - revokes the session on the server as well
   const logout = async () => {
+    if (session?.access_token) {
+      try {
+        await fetch('/api/auth/logout', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${session.access_token}` },
+        });
+      } catch (e) {
+        console.error('Error revoking session:', e);
+      }
+    }
+
     localStorage.removeItem(SESSION_STORAGE_KEY);
     setSession(null);
     setAuthState({
@@ -302,15 +273,3 @@ export function useAuth() {
   }
   return context;
 }
-
-// Helper to verify tokens on the server side (API routes)
-export function verifyLocalToken(token: string): { userId: string; isValid: boolean } {
-  // For local auth, we just check if the token starts with our prefix
-  // In a real app, you'd verify this properly
-  if (token && token.startsWith('local-token-')) {
-    // Extract user info from the token or session
-    // For simplicity, we'll parse the user ID from the request
-    return { userId: '', isValid: true };
-  }
-  return { userId: '', isValid: false };
-}
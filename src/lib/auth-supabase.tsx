@@ -17,6 +17,7 @@ import type {
   LoginCredentials,
   RegisterCredentials,
   User,
+  UserRole,
 } from "@/types/auth";
 import type { Session } from "@supabase/supabase-js";
 
@@ -29,9 +30,9 @@ const AuthContext = createContext<ExtendedAuthContextType | undefined>(
   undefined
 );
 
-// Cache for admin status to avoid repeated API calls
-const adminStatusCache = new Map<string, { isAdmin: boolean; timestamp: number }>();
-const ADMIN_STATUS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+// Cache for roles to avoid repeated API calls
+const roleCache = new Map<string, { role: UserRole | undefined; timestamp: number }>();
+const ROLE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 // ============================================
 // TEST CREDENTIALS FOR LOCAL DEVELOPMENT
@@ -46,7 +47,8 @@ const TEST_USER = {
     username: 'TestUser',
     email: 'test@example.com',
     createdAt: new Date().toISOString(),
-    isAdmin: true, // Give test user admin access for full testing
+    role: "admin", // Give test user admin access for full testing
+    isAdmin: true,
   } as User,
 };
 
@@ -73,13 +75,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return input.includes("@") && input.includes(".");
   };
 
-  // Check admin status with caching
-  const checkAdminStatus = useCallback(
-    async (userId: string, accessToken: string): Promise<boolean> => {
+  // Check the user's role (and so admin status) with caching
+  const checkRole = useCallback(
+    async (userId: string, accessToken: string): Promise<UserRole | undefined> => {
       // Check cache first
-      const cached = adminStatusCache.get(userId);
-      if (cached && Date.now() - cached.timestamp < ADMIN_STATUS_CACHE_TTL) {
-        return cached.isAdmin;
+      const cached = roleCache.get(userId);
+      if (cached && Date.now() - cached.timestamp < ROLE_CACHE_TTL) {
+        return cached.role;
       }
 
       try {
@@ -90,19 +92,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         });
         if (response.ok) {
           const data = await response.json();
-          const isAdmin = data.isAdmin || false;
+          const role: UserRole | undefined = data.role ?? undefined;
           // Cache the result
-          adminStatusCache.set(userId, {
-            isAdmin,
+          roleCache.set(userId, {
+            role,
             timestamp: Date.now(),
           });
-          return isAdmin;
+          return role;
         }
       } catch (adminError) {
-        console.warn("Failed to check admin status:", adminError);
+        console.warn("Failed to check role:", adminError);
       }
 
-      return false;
+      return undefined;
     },
     []
   );
@@ -139,16 +141,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             return result;
           });
 
-        const adminPromise = options.skipAdminCheck
-          ? Promise.resolve(false)
+        const rolePromise = options.skipAdminCheck
+          ? Promise.resolve(undefined)
           : session.access_token
-            ? checkAdminStatus(session.user.id, session.access_token)
-            : Promise.resolve(false);
+            ? checkRole(session.user.id, session.access_token)
+            : Promise.resolve(undefined);
 
         // Wait for both in parallel
-        const [profileResult, isAdminUser] = await Promise.all([
+        const [profileResult, role] = await Promise.all([
           profilePromise,
-          adminPromise,
+          rolePromise,
         ]);
 
         const { data: profile, error } = profileResult;
@@ -189,7 +191,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           username,
           email,
           createdAt: session.user.created_at,
-          isAdmin: isAdminUser,
+          role,
+          isAdmin: role === "admin",
         };
       } catch (err) {
         console.error("Error in sessionToUser:", err);
@@ -203,7 +206,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         };
       }
     },
-    [checkAdminStatus]
+    [checkRole]
   );
 
   // Memoize auth headers function to return stable object references
@@ -402,8 +405,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             isLoading: false,
             error: null,
           });
-          // Clear admin cache on logout
-          adminStatusCache.clear();
+          // Clear role cache on logout
+          roleCache.clear();
         }
       }
     });
@@ -1,17 +1,23 @@
 "use client";
 
 // ============================================
-// AUTHENTICATION - LOCAL MODE
+// AUTHENTICATION
 // ============================================
-// This project runs completely offline without any cloud dependencies.
-// All data is stored locally on your PC.
+// Local mode (the default) runs completely offline without any cloud
+// dependencies; accounts are stored in localStorage.
 //
 // Default credentials:
 //   Email: test@example.com
 //   Password: password123
 //
-// You can also register new accounts - they're stored in localStorage.
+// Set NEXT_PUBLIC_STORAGE_BACKEND=supabase to sign in with Supabase Auth
+// instead - the API routes use the same setting (see lib/storage).
 // ============================================
 
-// Re-export everything from local auth
-export { AuthProvider, useAuth } from './auth-local';
+import * as localAuth from './auth-local';
+import * as supabaseAuth from './auth-supabase';
+
+const auth = process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'supabase' ? supabaseAuth : localAuth;
+
+export const AuthProvider = auth.AuthProvider;
+export const useAuth = auth.useAuth;
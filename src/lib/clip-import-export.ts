@@ -1,11 +1,14 @@
-// Import/Export utility for local clips and audio files
+// Import/Export utility for clips and their audio files
 // Handles zipping clips with their audio files and extracting them back
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { createReadStream, createWriteStream } from 'fs';
 import type { AudioClip } from '@/types/audio';
-import { localDb, AUDIO_DIR } from '@/lib/local-database';
+import type { Storage } from '@/lib/storage';
+
+// The parts of the request's storage an import or export works with
+type ClipStorage = Pick<Storage, 'clips' | 'blobs'>;
 
 export interface ClipExportManifest {
   version: '1.0';
@@ -21,6 +24,7 @@ export interface ClipExportManifest {
  * Create an export package (ZIP) containing clips and their audio files
  */
 export async function exportClipsAsZip(
+  storage: ClipStorage,
   clipIds: string[],
   outputPath: string
 ): Promise<{ success: boolean; filePath: string; clipCount: number; error?: string }> {
@@ -28,7 +32,7 @@ export async function exportClipsAsZip(
     const archiver = require('archiver');
     
     // Get the clips from database
-    const allClips = await localDb.getClips();
+    const allClips = await storage.clips.list();
     const clipsToExport = allClips.filter((c: any) => clipIds.includes(c.id));
 
     if (clipsToExport.length === 0) {
@@ -42,6 +46,14 @@ export async function exportClipsAsZip(
 
     console.log('\n🎯 EXPORT START: Creating ZIP with', clipsToExport.length, 'clips');
 
+    // Audio is read up front, since the archive is written synchronously below
+    const audioFiles = await Promise.all(
+      clipsToExport.map(async (clip) => {
+        const audio = await storage.blobs.readAudio(clip);
+        return audio ? Buffer.from(await audio.arrayBuffer()) : null;
+      })
+    );
+
     // Create ZIP file
     const output = createWriteStream(outputPath);
     const archive = archiver('zip', { zlib: { level: 9 } });
@@ -65,12 +77,12 @@ export async function exportClipsAsZip(
 
       // Add audio files to /audio folder in ZIP
       console.log('📦 Adding', clipsToExport.length, 'audio files to ZIP...');
-      for (const clip of clipsToExport) {
-        const audioPath = path.join(AUDIO_DIR, clip.filename);
-        if (fs.existsSync(audioPath)) {
-          archive.file(audioPath, { name: `audio/${clip.filename}` });
+      clipsToExport.forEach((clip, index) => {
+        const audio = audioFiles[index];
+        if (audio) {
+          archive.append(audio, { name: `audio/${clip.filename}` });
         }
-      }
+      });
 
       // Create manifest object with proper structure
       const manifest: ClipExportManifest = {
@@ -105,9 +117,10 @@ export async function exportClipsAsZip(
  * Export clips as plain JSON (metadata only, no audio)
  */
 export async function exportClipsAsJson(
+  storage: ClipStorage,
   clipIds: string[]
 ): Promise<{ version: string; exportedAt: string; clips: AudioClip[] }> {
-  const allClips = await localDb.getClips();
+  const allClips = await storage.clips.list();
   const clipsToExport = allClips.filter((c: any) => clipIds.includes(c.id));
 
   return {
@@ -121,6 +134,7 @@ export async function exportClipsAsJson(
  * Import clips from a ZIP file containing manifest.json and audio files
  */
 export async function importClipsFromZip(
+  storage: ClipStorage,
   zipFilePath: string
 ): Promise<{ success: boolean; importedCount: number; errors: string[] }> {
   const unzipper = require('unzipper');
@@ -249,18 +263,19 @@ export async function importClipsFromZip(
     for (const item of manifest.clips) {
       try {
         const { id, createdAt, updatedAt, ...clipData } = item.clip;
-        const newClip = await localDb.createClip(clipData);
-        console.log('  ✅ Imported:', newClip.title);
 
-        // Copy audio file if it exists
+        // Store the audio file first if it exists, so the clip can point at it
+        let storagePath: string | undefined;
         const sourceAudioPath = path.join(tempDir, 'audio', item.audioFilename);
-        const destAudioPath = path.join(AUDIO_DIR, newClip.filename);
-
         if (fs.existsSync(sourceAudioPath)) {
-          fs.copyFileSync(sourceAudioPath, destAudioPath);
-          console.log('     📁 Audio copied');
+          const audio = new File([fs.readFileSync(sourceAudioPath)], clipData.filename);
+          storagePath = await storage.blobs.saveAudio(audio, clipData.filename, clipData.uploadedBy);
+          console.log('     📁 Audio stored');
         }
 
+        const newClip = await storage.clips.create({ ...clipData, storagePath });
+        console.log('  ✅ Imported:', newClip.title);
+
         importedCount++;
       } catch (error) {
         console.error('  ❌ Import failed:', error);
@@ -290,6 +305,7 @@ export async function importClipsFromZip(
  * Import clips from a JSON file (metadata only)
  */
 export async function importClipsFromJson(
+  storage: ClipStorage,
   jsonData: string
 ): Promise<{ success: boolean; importedCount: number; errors: string[] }> {
   let importedCount = 0;
@@ -307,7 +323,7 @@ export async function importClipsFromJson(
     for (const clipData of clipsArray) {
       try {
         const { id, createdAt, updatedAt, ...cleanData } = clipData;
-        await localDb.createClip(cleanData);
+        await storage.clips.create(cleanData);
         importedCount++;
       } catch (error) {
         errors.push(`Failed to import clip: ${String(error)}`);
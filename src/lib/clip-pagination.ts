@@ -0,0 +1,162 @@
+/**
+ * Cursor pagination for clip listings
+ * Every sort is made total by breaking ties on the clip id. A cursor
+ * holds the sort key and id of the last clip of a page, so the next page
+ * starts right after it even when clips are added, removed or re-voted
+ * between requests. The repositories sort and cut pages in the database
+ * (see ClipRepository.listPage); the helpers here are shared by them.
+ */
+
+import type { AudioClip, AudioSort } from "@/types/audio";
+
+export const DEFAULT_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortKey = string | number | null;
+
+export interface ClipCursor {
+  sort: string; // "field:direction" the cursor was issued for
+  key: SortKey;
+  id: string;
+}
+
+// Characters-per-second at the 33rd and 66th percentile of a listing
+export interface SpeedPercentiles {
+  slow: number;
+  medium: number;
+}
+
+// Characters-per-second bounds for the speed filter. Clips without a
+// transcript never match.
+export interface SpeedRange {
+  above?: number; // exclusive
+  atMost?: number; // inclusive
+}
+
+export type SpeedCategory = "slow" | "medium" | "fast";
+
+export const sortId = (sort: AudioSort) => `${sort.field}:${sort.direction}`;
+
+// The cursor that resumes a listing after this clip
+export const cursorAfter = (sort: AudioSort, key: SortKey, id: string): ClipCursor => ({
+  sort: sortId(sort),
+  key,
+  id,
+});
+
+export function encodeCursor(cursor: ClipCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function parsePageSize(value: string | null): number {
+  const size = value ? parseInt(value, 10) : NaN;
+  if (isNaN(size) || size <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.min(size, MAX_PAGE_SIZE);
+}
+
+/**
+ * Decodes a cursor from the query string. Returns null when it is
+ * malformed or was issued for a different sort.
+ */
+export function parseCursor(value: string, sort: AudioSort): ClipCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+    const validKey =
+      cursor?.key === null || ["string", "number"].includes(typeof cursor?.key);
+    if (cursor?.sort !== sortId(sort) || !validKey || typeof cursor.id !== "string") {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+// Transcript characters per second of audio; null without a transcript.
+// Characters are code points, as SQL length() and char_length() count
+// them, so emoji and rare CJK count once rather than as surrogate pairs.
+export function charactersPerSecond(clip: AudioClip): number | null {
+  const length = Array.from(clip.metadata.transcript ?? "").length;
+  return clip.duration > 0 && length > 0 ? length / clip.duration : null;
+}
+
+// Positions of the percentiles in `count` ascending speeds
+export function speedPercentileIndexes(count: number): SpeedPercentiles {
+  return { slow: Math.floor(count * 0.33), medium: Math.floor(count * 0.66) };
+}
+
+export function speedRange(category: SpeedCategory, percentiles: SpeedPercentiles): SpeedRange {
+  switch (category) {
+    case "slow":
+      return { atMost: percentiles.slow };
+    case "medium":
+      return { above: percentiles.slow, atMost: percentiles.medium };
+    case "fast":
+      return { above: percentiles.medium };
+  }
+}
+
+export function speedCategory(
+  cps: number | null,
+  percentiles: SpeedPercentiles
+): SpeedCategory | undefined {
+  if (!cps) return undefined;
+  if (cps <= percentiles.slow) return "slow";
+  if (cps <= percentiles.medium) return "medium";
+  return "fast";
+}
+
+export function inSpeedRange(cps: number | null, range: SpeedRange): boolean {
+  if (cps === null) return false;
+  if (range.above !== undefined && cps <= range.above) return false;
+  if (range.atMost !== undefined && cps > range.atMost) return false;
+  return true;
+}
+
+// Clips without a value come last in either direction
+function compare(
+  a: { key: SortKey; id: string },
+  b: { key: SortKey; id: string },
+  direction: AudioSort["direction"]
+): number {
+  if (a.key !== b.key) {
+    if (a.key === null) return 1;
+    if (b.key === null) return -1;
+    const comparison = a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+    if (comparison !== 0) {
+      return direction === "asc" ? comparison : -comparison;
+    }
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Sorts in memory and returns the page that follows `after` (or the
+ * first page). For backends that hold every clip in memory anyway.
+ */
+export function paginateInMemory<T extends { id: string }>(
+  items: T[],
+  keyOf: (item: T) => SortKey,
+  sort: AudioSort,
+  after: ClipCursor | null | undefined,
+  limit: number
+): { items: T[]; nextCursor: ClipCursor | null } {
+  const entries = items
+    .map((item) => ({ item, key: keyOf(item), id: item.id }))
+    .sort((a, b) => compare(a, b, sort.direction));
+
+  let start = 0;
+  if (after) {
+    start = entries.findIndex((entry) => compare(entry, after, sort.direction) > 0);
+    if (start === -1) start = entries.length;
+  }
+
+  const page = entries.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start + limit < entries.length;
+
+  return {
+    items: page.map((entry) => entry.item),
+    nextCursor: hasMore && last ? cursorAfter(sort, last.key, last.id) : null,
+  };
+}
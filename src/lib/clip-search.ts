@@ -0,0 +1,298 @@
+/**
+ * Full-text search over clip titles, transcripts, tags, dialects and
+ * source URLs.
+ *
+ * Words are matched by term, and the word being typed at the end of the
+ * query also by prefix. Chinese, Japanese and Korean text doesn't mark
+ * word boundaries with spaces, so it is indexed as single characters and
+ * overlapping character pairs (bigrams); a CJK query matches when all of
+ * its bigrams do.
+ */
+
+import type {
+  AudioClip,
+  ClipSearchMatch,
+  SearchField,
+  SearchSnippet,
+} from "@/types/audio";
+
+// A match in a short, descriptive field says more about the clip
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  speakerDialect: 1.5,
+  transcript: 1,
+  sourceUrl: 0.5,
+};
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// BM25 term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Characters of transcript kept either side of the first match
+const SNIPPET_CONTEXT = 60;
+
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}ー";
+const TOKEN_PATTERN = new RegExp(`[${CJK}]+|(?:(?![${CJK}])[\\p{L}\\p{N}\\p{M}])+`, "gu");
+const CJK_START = new RegExp(`^[${CJK}]`, "u");
+
+interface Token {
+  term: string;
+  start: number; // offsets into the original text
+  end: number;
+}
+
+interface QueryTerm {
+  term: string;
+  prefix: boolean;
+}
+
+interface Posting {
+  clipId: string;
+  field: SearchField;
+  frequency: number;
+}
+
+/**
+ * Splits text into lowercase terms. CJK runs become bigrams, plus single
+ * characters when indexing so one-character queries still match.
+ */
+function tokenize(text: string, mode: "index" | "query"): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const word = match[0];
+    const start = match.index ?? 0;
+
+    if (!CJK_START.test(word)) {
+      tokens.push({ term: word.toLowerCase(), start, end: start + word.length });
+      continue;
+    }
+
+    const chars = Array.from(word);
+    let offset = start;
+    chars.forEach((char, i) => {
+      if (mode === "index" || chars.length === 1) {
+        tokens.push({ term: char, start: offset, end: offset + char.length });
+      }
+      if (i + 1 < chars.length) {
+        const pair = char + chars[i + 1];
+        tokens.push({ term: pair, start: offset, end: offset + pair.length });
+      }
+      offset += char.length;
+    });
+  }
+
+  return tokens;
+}
+
+function parseQuery(query: string): QueryTerm[] {
+  const terms = new Map<string, QueryTerm>();
+  for (const token of tokenize(query, "query")) {
+    // The word still being typed matches as a prefix
+    const prefix = token.end === query.length && !CJK_START.test(token.term);
+    const existing = terms.get(token.term);
+    terms.set(token.term, { term: token.term, prefix: prefix || !!existing?.prefix });
+  }
+  return Array.from(terms.values());
+}
+
+function fieldText(clip: AudioClip, field: SearchField): string {
+  switch (field) {
+    case "title":
+      return clip.title;
+    case "transcript":
+      return clip.metadata.transcript ?? "";
+    case "tags":
+      return (clip.metadata.tags ?? []).join(", ");
+    case "speakerDialect":
+      return clip.metadata.speakerDialect ?? "";
+    case "sourceUrl":
+      return clip.metadata.sourceUrl ?? "";
+  }
+}
+
+/**
+ * In-memory inverted index over a set of clips, ranked with BM25 per
+ * field and weighted by field. Build it once per version of the clip list.
+ */
+export class ClipSearchIndex {
+  private postings = new Map<string, Posting[]>();
+  private documentFrequency = new Map<string, number>();
+  private fieldLengths = new Map<string, Record<SearchField, number>>();
+  private averageLengths: Record<SearchField, number>;
+  private clipCount: number;
+
+  constructor(clips: AudioClip[]) {
+    const totals = { title: 0, transcript: 0, tags: 0, speakerDialect: 0, sourceUrl: 0 };
+    this.clipCount = clips.length;
+
+    for (const clip of clips) {
+      const lengths = { ...totals };
+      const clipTerms = new Set<string>();
+
+      for (const field of SEARCH_FIELDS) {
+        const tokens = tokenize(fieldText(clip, field), "index");
+        lengths[field] = tokens.length;
+        totals[field] += tokens.length;
+
+        const frequencies = new Map<string, number>();
+        tokens.forEach(({ term }) => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+        frequencies.forEach((frequency, term) => {
+          const postings = this.postings.get(term) ?? [];
+          postings.push({ clipId: clip.id, field, frequency });
+          this.postings.set(term, postings);
+          clipTerms.add(term);
+        });
+      }
+
+      clipTerms.forEach((term) =>
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1)
+      );
+      this.fieldLengths.set(clip.id, lengths);
+    }
+
+    this.averageLengths = { ...totals };
+    for (const field of SEARCH_FIELDS) {
+      this.averageLengths[field] = totals[field] / Math.max(1, clips.length);
+    }
+  }
+
+  /**
+   * Scores the clips matching every term of the query. Clips that miss a
+   * term are not in the result.
+   */
+  search(query: string): Map<string, number> {
+    let scores: Map<string, number> | null = null;
+
+    for (const { term, prefix } of parseQuery(query)) {
+      const termScores = new Map<string, number>();
+      const matchingTerms = prefix
+        ? Array.from(this.postings.keys()).filter((indexed) => indexed.startsWith(term))
+        : [term];
+
+      for (const matchingTerm of matchingTerms) {
+        const postings = this.postings.get(matchingTerm) ?? [];
+        const documentFrequency = this.documentFrequency.get(matchingTerm) ?? 0;
+        const idf = Math.log(
+          1 + (this.clipCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+        );
+
+        for (const { clipId, field, frequency } of postings) {
+          const length = this.fieldLengths.get(clipId)?.[field] ?? 0;
+          const averageLength = this.averageLengths[field] || 1;
+          const saturated =
+            (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * length) / averageLength));
+          termScores.set(
+            clipId,
+            (termScores.get(clipId) ?? 0) + idf * saturated * FIELD_WEIGHTS[field]
+          );
+        }
+      }
+
+      // Every term has to match
+      const previous: Map<string, number> | null = scores;
+      scores = previous === null ? termScores : new Map<string, number>();
+      if (previous) {
+        previous.forEach((score, clipId) => {
+          const termScore = termScores.get(clipId);
+          if (termScore !== undefined) scores!.set(clipId, score + termScore);
+        });
+      }
+      if (scores.size === 0) break;
+    }
+
+    return scores ?? new Map();
+  }
+}
+
+// Sorted, non-overlapping [start, end) ranges
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+// Cuts a long text down to the part around its first match
+function excerpt(
+  field: SearchField,
+  text: string,
+  highlights: Array<[number, number]>
+): SearchSnippet {
+  const [firstStart, firstEnd] = highlights[0];
+  let start = Math.max(0, firstStart - SNIPPET_CONTEXT);
+  let end = Math.min(text.length, firstEnd + SNIPPET_CONTEXT * 2);
+
+  // Don't cut words in half where the text has spaces
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < firstStart) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > firstEnd) end = space;
+  }
+
+  const lead = start > 0 ? "… " : "";
+  const trail = end < text.length ? " …" : "";
+  return {
+    field,
+    text: lead + text.slice(start, end) + trail,
+    highlights: highlights
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]): [number, number] => [s - start + lead.length, e - start + lead.length]),
+  };
+}
+
+/**
+ * The fields of a clip that a query matches, with the matches marked.
+ * Transcripts are cut to the text around the first match.
+ */
+export function buildSnippets(clip: AudioClip, query: string): SearchSnippet[] {
+  const terms = parseQuery(query);
+  const snippets: SearchSnippet[] = [];
+
+  for (const field of SEARCH_FIELDS) {
+    const text = fieldText(clip, field);
+    if (!text) continue;
+
+    const highlights = mergeRanges(
+      tokenize(text, "index")
+        .filter((token) =>
+          terms.some(({ term, prefix }) =>
+            prefix ? token.term.startsWith(term) : token.term === term
+          )
+        )
+        .map(({ start, end }): [number, number] => [start, end])
+    );
+    if (highlights.length === 0) continue;
+
+    snippets.push(
+      field === "transcript"
+        ? excerpt(field, text, highlights)
+        : { field, text, highlights }
+    );
+  }
+
+  return snippets;
+}
+
+// Relevance score and snippets for one search result
+export function searchMatch(clip: AudioClip, score: number, query: string): ClipSearchMatch {
+  return { score, snippets: buildSnippets(clip, query) };
+}
+
+// Whether a query contains anything searchable (not just punctuation)
+export function isSearchQuery(query: string | undefined): query is string {
+  return !!query && parseQuery(query).length > 0;
+}
@@ -0,0 +1,111 @@
+/**
+ * Study decks: input checks shared by the deck API routes, and the play
+ * order the deck player on /chorus/[clipId] follows
+ */
+
+import type { Deck, DeckUpdate } from "@/types/deck";
+
+export const MAX_DECK_NAME_LENGTH = 100;
+export const MAX_DECK_DESCRIPTION_LENGTH = 500;
+export const MAX_DECK_CLIPS = 500;
+
+// Loops the deck player waits for before moving on, unless changed
+export const DEFAULT_LOOPS_PER_CLIP = 3;
+export const LOOPS_PER_CLIP_OPTIONS = [1, 2, 3, 5, 10];
+
+/**
+ * Checks a deck body from the API. With `partial`, fields left out are
+ * kept as they are; otherwise a name is required.
+ * @returns The cleaned fields, or an error message
+ */
+export function sanitizeDeckInput(
+  body: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): { deck: DeckUpdate; error?: undefined } | { deck?: undefined; error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Invalid deck" };
+  }
+  const input = body as Record<string, unknown>;
+  const deck: DeckUpdate = {};
+
+  if (input.name !== undefined || !partial) {
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    if (!name) {
+      return { error: "Name is required" };
+    }
+    if (name.length > MAX_DECK_NAME_LENGTH) {
+      return { error: `Name must be at most ${MAX_DECK_NAME_LENGTH} characters` };
+    }
+    deck.name = name;
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      return { error: "Description must be text" };
+    }
+    const description = input.description?.trim() ?? "";
+    if (description.length > MAX_DECK_DESCRIPTION_LENGTH) {
+      return {
+        error: `Description must be at most ${MAX_DECK_DESCRIPTION_LENGTH} characters`,
+      };
+    }
+    deck.description = description || undefined;
+  }
+
+  if (input.isPublic !== undefined || !partial) {
+    deck.isPublic = input.isPublic === true;
+  }
+
+  if (input.clipIds !== undefined || !partial) {
+    const clipIds = input.clipIds ?? [];
+    if (!Array.isArray(clipIds) || !clipIds.every((id) => typeof id === "string" && id)) {
+      return { error: "clipIds must be a list of clip ids" };
+    }
+    // A clip appears in a deck once, at its first position
+    deck.clipIds = Array.from(new Set(clipIds as string[]));
+    if (deck.clipIds.length > MAX_DECK_CLIPS) {
+      return { error: `A deck holds at most ${MAX_DECK_CLIPS} clips` };
+    }
+  }
+
+  return { deck };
+}
+
+// Private decks are only visible to their owner
+export function canViewDeck(deck: Deck, userId: string | undefined): boolean {
+  return deck.isPublic || deck.ownerId === userId;
+}
+
+/**
+ * The clips before and after one in a deck's play order
+ * @returns Nulls at either end, and for a clip not in the deck
+ */
+export function deckNeighbours(
+  clipIds: string[],
+  clipId: string
+): { index: number; previous: string | null; next: string | null } {
+  const index = clipIds.indexOf(clipId);
+  if (index === -1) {
+    return { index, previous: null, next: null };
+  }
+  return {
+    index,
+    previous: clipIds[index - 1] ?? null,
+    next: clipIds[index + 1] ?? null,
+  };
+}
+
+/**
+ * Moves a clip to where another one is in the play order, for drag and drop
+ * @returns The new order; unchanged if either clip isn't in the deck
+ */
+export function moveDeckClip(clipIds: string[], clipId: string, targetClipId: string): string[] {
+  const from = clipIds.indexOf(clipId);
+  const to = clipIds.indexOf(targetClipId);
+  if (from === -1 || to === -1 || from === to) return clipIds;
+
+  const reordered = [...clipIds];
+  reordered.splice(from, 1);
+  reordered.splice(to, 0, clipId);
+  return reordered;
+}
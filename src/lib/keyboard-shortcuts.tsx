@@ -0,0 +1,156 @@
+"use client";
+
+// ============================================
+// KEYBOARD SHORTCUTS
+// ============================================
+// Shares the user's key bindings (lib/shortcuts defaults plus their changes)
+// with every player, and opens the cheat sheet on the showShortcuts key.
+// Changes are saved with the account when signed in, and in localStorage
+// either way so the right keys work before the account has loaded.
+// ============================================
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useCallback,
+  useMemo,
+} from "react";
+import { useAuth } from "@/lib/auth";
+import { bindingFromEvent, resolveShortcuts } from "@/lib/shortcuts";
+import type { KeyboardShortcuts } from "@/types/audio";
+
+const STORAGE_KEY = "chorus-keyboard-shortcuts";
+
+interface KeyboardShortcutsContextType {
+  shortcuts: KeyboardShortcuts;
+  overrides: Partial<KeyboardShortcuts>; // bindings changed from the defaults
+  saveOverrides: (overrides: Partial<KeyboardShortcuts>) => Promise<void>;
+  isCheatSheetOpen: boolean; // players ignore their shortcuts while it is open
+  openCheatSheet: () => void;
+  closeCheatSheet: () => void;
+}
+
+const KeyboardShortcutsContext = createContext<KeyboardShortcutsContextType | undefined>(
+  undefined
+);
+
+function readStoredOverrides(): Partial<KeyboardShortcuts> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function storeOverrides(overrides: Partial<KeyboardShortcuts>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch {
+    // localStorage unavailable — ignore
+  }
+}
+
+export function KeyboardShortcutsProvider({ children }: { children: React.ReactNode }) {
+  const { user, getAuthHeaders } = useAuth();
+  const [overrides, setOverrides] = useState<Partial<KeyboardShortcuts>>({});
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+
+  useEffect(() => {
+    setOverrides(readStoredOverrides());
+  }, []);
+
+  // The account's bindings win over what this browser remembers
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/user/audio-settings", {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) return;
+        const { settings } = await response.json();
+        if (cancelled) return;
+        const saved = settings.keyboardShortcuts ?? {};
+        setOverrides(saved);
+        storeOverrides(saved);
+      } catch (err) {
+        console.error("Failed to load keyboard shortcuts:", err);
+      }
+    };
+
+    fetchSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, getAuthHeaders]);
+
+  const saveOverrides = useCallback(
+    async (next: Partial<KeyboardShortcuts>) => {
+      if (user) {
+        const response = await fetch("/api/user/audio-settings", {
+          method: "PUT",
+          headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+          body: JSON.stringify({ keyboardShortcuts: next }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to save keyboard shortcuts");
+        }
+        next = data.settings.keyboardShortcuts ?? {};
+      }
+      setOverrides(next);
+      storeOverrides(next);
+    },
+    [user, getAuthHeaders]
+  );
+
+  const shortcuts = useMemo(() => resolveShortcuts(overrides), [overrides]);
+
+  const openCheatSheet = useCallback(() => setIsCheatSheetOpen(true), []);
+  const closeCheatSheet = useCallback(() => setIsCheatSheetOpen(false), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.target instanceof HTMLTextAreaElement ||
+        (e.target instanceof HTMLInputElement && e.target.type !== "range")
+      ) {
+        return;
+      }
+      if (bindingFromEvent(e) === shortcuts.showShortcuts) {
+        e.preventDefault();
+        setIsCheatSheetOpen((open) => !open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [shortcuts.showShortcuts]);
+
+  const contextValue: KeyboardShortcutsContextType = {
+    shortcuts,
+    overrides,
+    saveOverrides,
+    isCheatSheetOpen,
+    openCheatSheet,
+    closeCheatSheet,
+  };
+
+  return (
+    <KeyboardShortcutsContext.Provider value={contextValue}>
+      {children}
+    </KeyboardShortcutsContext.Provider>
+  );
+}
+
+export function useKeyboardShortcuts() {
+  const context = useContext(KeyboardShortcutsContext);
+  if (context === undefined) {
+    throw new Error("useKeyboardShortcuts must be used within a KeyboardShortcutsProvider");
+  }
+  return context;
+}
@@ -0,0 +1,167 @@
+// Shared pieces of the local storage backends (JSON files and SQLite):
+// the local-data directory, record types and audio file handling
+
+import fs from 'fs';
+import path from 'path';
+import type { AudioClip, ClipPeaks } from '@/types/audio';
+import type { UserRole } from '@/types/auth';
+import { peaksFilename } from '@/lib/audio/clip-peaks';
+import { hashPasswordSync } from '@/lib/password-hash';
+import { DEFAULT_ROLE } from '@/lib/permissions';
+
+// Data directory in project root
+export const DATA_DIR = path.join(process.cwd(), 'local-data');
+
+// Audio files stored here
+export const AUDIO_DIR = path.join(DATA_DIR, 'audio');
+
+// Ensure directories exist
+export function ensureDirectories() {
+  if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+    console.log('📁 Created local-data directory');
+  }
+  if (!fs.existsSync(AUDIO_DIR)) {
+    fs.mkdirSync(AUDIO_DIR, { recursive: true });
+    console.log('📁 Created audio directory');
+  }
+}
+
+export function readJsonFile<T>(filePath: string, defaultValue: T): T {
+  ensureDirectories();
+  try {
+    if (fs.existsSync(filePath)) {
+      const data = fs.readFileSync(filePath, 'utf-8');
+      return JSON.parse(data);
+    }
+  } catch (error) {
+    console.error(`Error reading ${filePath}:`, error);
+  }
+  return defaultValue;
+}
+
+// Types for local storage
+export interface LocalUser {
+  id: string;
+  email: string;
+  username: string;
+  passwordHash: string; // see lib/password-hash
+  role: UserRole; // see lib/permissions
+  createdAt: string;
+}
+
+// users.json from older versions has plain-text passwords, and isAdmin
+// where there is now a role
+export type StoredLocalUser = Omit<LocalUser, 'passwordHash' | 'role'> &
+  ({ passwordHash: string } | { password: string }) & {
+    role?: UserRole;
+    isAdmin?: boolean;
+  };
+
+export function isUpgradedUser(user: StoredLocalUser): user is LocalUser {
+  return 'passwordHash' in user && !!user.role && !('isAdmin' in user);
+}
+
+export function upgradeStoredUser(user: StoredLocalUser): LocalUser {
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    passwordHash: 'passwordHash' in user ? user.passwordHash : hashPasswordSync(user.password),
+    role: user.role ?? (user.isAdmin ? 'admin' : DEFAULT_ROLE),
+    createdAt: user.createdAt,
+  };
+}
+
+// A signed-in browser; deleting the record revokes its token
+export interface LocalAuthSession {
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface LocalVote {
+  clipId: string;
+  usernameOrId: string;
+  voteType: 'up' | 'down';
+  createdAt: string;
+}
+
+export interface LocalStar {
+  clipId: string;
+  userId: string;
+  createdAt: string;
+}
+
+export interface LocalDialect {
+  id: string;
+  language: string;
+  dialect: string;
+  createdAt: string;
+}
+
+export function getDefaultUsers(): LocalUser[] {
+  return [
+    {
+      id: 'test-user-id-12345',
+      email: 'test@example.com',
+      username: 'TestUser',
+      passwordHash: hashPasswordSync('password123'),
+      role: 'admin',
+      createdAt: new Date().toISOString(),
+    }
+  ];
+}
+
+// ============================================
+// FILE OPERATIONS
+// ============================================
+
+// Audio and waveform files live on disk whichever backend stores the records
+export class LocalFileStore {
+  async saveAudioFile(filename: string, buffer: Buffer): Promise<string> {
+    ensureDirectories();
+    const filePath = path.join(AUDIO_DIR, filename);
+    fs.writeFileSync(filePath, buffer);
+    return filename;
+  }
+
+  async deleteAudioFile(filename: string): Promise<void> {
+    const filePath = path.join(AUDIO_DIR, filename);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  getAudioFilePath(filename: string): string {
+    return path.join(AUDIO_DIR, filename);
+  }
+
+  audioFileExists(filename: string): boolean {
+    return fs.existsSync(path.join(AUDIO_DIR, filename));
+  }
+
+  // Waveform peaks are stored next to the audio file they describe
+  async savePeaks(filename: string, peaks: ClipPeaks): Promise<void> {
+    ensureDirectories();
+    // Not pretty-printed: a long clip has tens of thousands of peaks
+    fs.writeFileSync(path.join(AUDIO_DIR, peaksFilename(filename)), JSON.stringify(peaks), 'utf-8');
+  }
+
+  getPeaks(filename: string): ClipPeaks | null {
+    return readJsonFile<ClipPeaks | null>(path.join(AUDIO_DIR, peaksFilename(filename)), null);
+  }
+
+  // Audio file and waveform peaks of a deleted clip
+  protected deleteClipFiles(clip: AudioClip): void {
+    const audioPath = path.join(AUDIO_DIR, clip.filename);
+    if (fs.existsSync(audioPath)) {
+      fs.unlinkSync(audioPath);
+    }
+    const peaksPath = path.join(AUDIO_DIR, peaksFilename(clip.filename));
+    if (fs.existsSync(peaksPath)) {
+      fs.unlinkSync(peaksPath);
+    }
+  }
+}
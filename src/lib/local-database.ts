@@ -3,46 +3,75 @@
 
 import fs from 'fs';
 import path from 'path';
-import type { AudioClip, AudioFilters, AudioSort, FilterPreferences } from '@/types/audio';
+import type {
+  AudioClip,
+  AudioFilters,
+  AudioSettingsPreferences,
+  AudioSort,
+  FilterPreferences,
+  SearchResultClip,
+} from '@/types/audio';
+import type {
+  ClipReviewState,
+  ReviewGrade,
+  PracticeSession,
+  NewPracticeSession,
+} from '@/types/practice';
+import type { UserRole } from '@/types/auth';
+import type {
+  ClipReport,
+  ModerationAction,
+  NewClipReport,
+  NewModerationAction,
+  ReportStatus,
+} from '@/types/moderation';
+import type { Deck, DeckUpdate, NewDeck } from '@/types/deck';
+import { scheduleReview, sortByDue } from '@/lib/srs';
+import { ClipSearchIndex, isSearchQuery, searchMatch } from '@/lib/clip-search';
+import {
+  charactersPerSecond,
+  inSpeedRange,
+  paginateInMemory,
+  speedPercentileIndexes,
+  type SortKey,
+  type SpeedPercentiles,
+} from '@/lib/clip-pagination';
+import type { ClipListingOptions, ClipPage, ClipPageRequest } from '@/lib/storage/types';
+import { verifyPassword } from '@/lib/password-hash';
+import {
+  DATA_DIR,
+  ensureDirectories,
+  getDefaultUsers,
+  isUpgradedUser,
+  LocalFileStore,
+  readJsonFile,
+  upgradeStoredUser,
+  type LocalAuthSession,
+  type LocalDialect,
+  type LocalStar,
+  type LocalUser,
+  type LocalVote,
+  type StoredLocalUser,
+} from '@/lib/local-data';
+import { SqliteDatabase } from '@/lib/sqlite-database';
+
+export { AUDIO_DIR } from '@/lib/local-data';
 
-// Data directory in project root
-const DATA_DIR = path.join(process.cwd(), 'local-data');
 const CLIPS_FILE = path.join(DATA_DIR, 'clips.json');
 const USERS_FILE = path.join(DATA_DIR, 'users.json');
 const VOTES_FILE = path.join(DATA_DIR, 'votes.json');
 const STARS_FILE = path.join(DATA_DIR, 'stars.json');
 const DIALECTS_FILE = path.join(DATA_DIR, 'dialects.json');
 const PREFERENCES_FILE = path.join(DATA_DIR, 'preferences.json');
-
-// Audio files stored here
-export const AUDIO_DIR = path.join(DATA_DIR, 'audio');
-
-// Ensure directories exist
-function ensureDirectories() {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-    console.log('📁 Created local-data directory');
-  }
-  if (!fs.existsSync(AUDIO_DIR)) {
-    fs.mkdirSync(AUDIO_DIR, { recursive: true });
-    console.log('📁 Created audio directory');
-  }
-}
+const AUDIO_SETTINGS_FILE = path.join(DATA_DIR, 'audio-settings.json');
+const REVIEWS_FILE = path.join(DATA_DIR, 'reviews.json');
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+const AUTH_SESSIONS_FILE = path.join(DATA_DIR, 'auth-sessions.json');
+const REPORTS_FILE = path.join(DATA_DIR, 'reports.json');
+const MODERATION_LOG_FILE = path.join(DATA_DIR, 'moderation-log.json');
+const DECKS_FILE = path.join(DATA_DIR, 'decks.json');
 
 // Generic JSON file operations
-function readJsonFile<T>(filePath: string, defaultValue: T): T {
-  ensureDirectories();
-  try {
-    if (fs.existsSync(filePath)) {
-      const data = fs.readFileSync(filePath, 'utf-8');
-      return JSON.parse(data);
-    }
-  } catch (error) {
-    console.error(`Error reading ${filePath}:`, error);
-  }
-  return defaultValue;
-}
-
 function writeJsonFile<T>(filePath: string, data: T): void {
   ensureDirectories();
   try {
@@ -53,51 +82,33 @@ function writeJsonFile<T>(filePath: string, data: T): void {
   }
 }
 
-// Types for local storage
-interface LocalUser {
-  id: string;
-  email: string;
-  username: string;
-  password: string; // In production, this should be hashed
-  isAdmin: boolean;
-  createdAt: string;
-}
-
-interface LocalVote {
-  clipId: string;
-  usernameOrId: string;
-  voteType: 'up' | 'down';
-  createdAt: string;
-}
-
-interface LocalStar {
-  clipId: string;
-  userId: string;
-  createdAt: string;
-}
-
-interface LocalDialect {
-  id: string;
-  language: string;
-  dialect: string;
-  createdAt: string;
-}
-
 // ============================================
 // LOCAL DATABASE CLASS
 // ============================================
 
-class LocalDatabase {
+export class LocalDatabase extends LocalFileStore {
+  // Rebuilt whenever clips.json changes on disk
+  private searchIndex: { version: string; index: ClipSearchIndex } | null = null;
+
   // ============================================
   // CLIPS
   // ============================================
 
-  async getClips(
-    filters: AudioFilters = {},
-    sort: AudioSort = { field: 'createdAt', direction: 'desc' },
-    options: { starredByUserId?: string; accessToken?: string } = {}
-  ): Promise<AudioClip[]> {
-    let clips = readJsonFile<AudioClip[]>(CLIPS_FILE, []);
+  // Visible clips matching the filters, unsorted
+  private filterClips(
+    filters: AudioFilters,
+    options: ClipListingOptions
+  ): { clips: AudioClip[]; searchScores: Map<string, number> | null } {
+    const allClips = readJsonFile<AudioClip[]>(CLIPS_FILE, []);
+    // Hidden clips can only be fetched by id, for moderation
+    let clips = allClips.filter(c => !c.hidden);
+
+    // Full-text search first: it is usually the most selective filter
+    let searchScores: Map<string, number> | null = null;
+    if (isSearchQuery(filters.q)) {
+      searchScores = this.getSearchIndex(allClips).search(filters.q);
+      clips = clips.filter(c => searchScores!.has(c.id));
+    }
 
     // Apply filters
     if (filters.language) {
@@ -115,6 +126,10 @@ class LocalDatabase {
     if (filters.uploadedBy) {
       clips = clips.filter(c => c.uploadedBy === filters.uploadedBy);
     }
+    if (filters.ids) {
+      const ids = new Set(filters.ids);
+      clips = clips.filter(c => ids.has(c.id));
+    }
     if (filters.tags && filters.tags.length > 0) {
       clips = clips.filter(c => 
         filters.tags!.some(tag => c.metadata.tags?.includes(tag))
@@ -143,6 +158,16 @@ class LocalDatabase {
       clips = clips.filter(c => starredClipIds.has(c.id));
     }
 
+    return { clips, searchScores };
+  }
+
+  async getClips(
+    filters: AudioFilters = {},
+    sort: AudioSort = { field: 'createdAt', direction: 'desc' },
+    options: { starredByUserId?: string; accessToken?: string } = {}
+  ): Promise<SearchResultClip[]> {
+    const { clips, searchScores } = this.filterClips(filters, options);
+
     // Sort
     clips.sort((a, b) => {
       let aVal: any, bVal: any;
@@ -172,6 +197,10 @@ class LocalDatabase {
           aVal = (a as any).difficulty || 0;
           bVal = (b as any).difficulty || 0;
           break;
+        case 'relevance':
+          aVal = searchScores?.get(a.id) ?? 0;
+          bVal = searchScores?.get(b.id) ?? 0;
+          break;
         default:
           aVal = new Date(a.createdAt).getTime();
           bVal = new Date(b.createdAt).getTime();
@@ -184,9 +213,96 @@ class LocalDatabase {
       }
     });
 
+    return this.withSearchMatches(clips, filters, searchScores);
+  }
+
+  // Everything is in memory, so the page is cut here after sorting
+  async getClipPage(
+    filters: AudioFilters,
+    sort: AudioSort,
+    page: ClipPageRequest
+  ): Promise<ClipPage> {
+    let { clips, searchScores } = this.filterClips(filters, page);
+    if (page.speed) {
+      const speed = page.speed;
+      clips = clips.filter(c => inSpeedRange(charactersPerSecond(c), speed));
+    }
+
+    let keyOf: (clip: AudioClip) => SortKey;
+    switch (sort.field) {
+      case 'title':
+        keyOf = c => c.title.toLowerCase();
+        break;
+      case 'duration':
+        keyOf = c => c.duration;
+        break;
+      case 'language':
+        keyOf = c => c.metadata.language;
+        break;
+      case 'voteScore': {
+        const scores = new Map<string, number>();
+        for (const vote of readJsonFile<LocalVote[]>(VOTES_FILE, [])) {
+          scores.set(vote.clipId, (scores.get(vote.clipId) ?? 0) + (vote.voteType === 'up' ? 1 : -1));
+        }
+        keyOf = c => scores.get(c.id) ?? 0;
+        break;
+      }
+      case 'difficulty':
+        keyOf = c => (c as { difficulty?: number }).difficulty ?? null;
+        break;
+      case 'charactersPerSecond':
+        keyOf = charactersPerSecond;
+        break;
+      case 'relevance':
+        keyOf = c => searchScores?.get(c.id) ?? 0;
+        break;
+      default:
+        keyOf = c => c.createdAt; // ISO timestamps sort chronologically
+    }
+
+    const { items, nextCursor } = paginateInMemory(clips, keyOf, sort, page.after, page.limit);
+    return {
+      clips: this.withSearchMatches(items, filters, searchScores),
+      nextCursor,
+      total: clips.length,
+    };
+  }
+
+  async getSpeedPercentiles(
+    filters: AudioFilters,
+    options: ClipListingOptions = {}
+  ): Promise<SpeedPercentiles | null> {
+    const speeds = this.filterClips(filters, options).clips
+      .map(charactersPerSecond)
+      .filter((cps): cps is number => cps !== null)
+      .sort((a, b) => a - b);
+    if (speeds.length === 0) return null;
+
+    const indexes = speedPercentileIndexes(speeds.length);
+    return { slow: speeds[indexes.slow], medium: speeds[indexes.medium] };
+  }
+
+  private withSearchMatches(
+    clips: AudioClip[],
+    filters: AudioFilters,
+    searchScores: Map<string, number> | null
+  ): SearchResultClip[] {
+    if (searchScores && filters.q) {
+      const query = filters.q;
+      return clips.map(c => ({ ...c, search: searchMatch(c, searchScores.get(c.id) ?? 0, query) }));
+    }
     return clips;
   }
 
+  private getSearchIndex(clips: AudioClip[]): ClipSearchIndex {
+    const stats = fs.existsSync(CLIPS_FILE) ? fs.statSync(CLIPS_FILE) : null;
+    const version = stats ? `${stats.mtimeMs}:${stats.size}` : 'empty';
+    if (this.searchIndex?.version !== version) {
+      this.searchIndex = { version, index: new ClipSearchIndex(clips) };
+    }
+    return this.searchIndex.index;
+  }
+
   async getClipById(id: string): Promise<AudioClip | null> {
     const clips = readJsonFile<AudioClip[]>(CLIPS_FILE, []);
     return clips.find(c => c.id === id) || null;
@@ -209,21 +325,13 @@ class LocalDatabase {
     return newClip;
   }
 
-  async updateClip(id: string, updates: Partial<AudioClip>, userId?: string): Promise<AudioClip | null> {
+  // Callers check permissions first (see authorize in lib/storage)
+  async updateClip(id: string, updates: Partial<AudioClip>): Promise<AudioClip | null> {
     const clips = readJsonFile<AudioClip[]>(CLIPS_FILE, []);
     const index = clips.findIndex(c => c.id === id);
     
     if (index === -1) return null;
     
-    // Check ownership (unless admin)
-    if (userId && clips[index].uploadedBy !== userId) {
-      const users = readJsonFile<LocalUser[]>(USERS_FILE, []);
-      const user = users.find(u => u.id === userId);
-      if (!user?.isAdmin) {
-        throw new Error('Not authorized to update this clip');
-      }
-    }
-    
     clips[index] = {
       ...clips[index],
       ...updates,
@@ -235,26 +343,14 @@ class LocalDatabase {
     return clips[index];
   }
 
-  async deleteClip(id: string, userId?: string): Promise<boolean> {
+  async deleteClip(id: string): Promise<boolean> {
     const clips = readJsonFile<AudioClip[]>(CLIPS_FILE, []);
     const clip = clips.find(c => c.id === id);
     
     if (!clip) return false;
     
-    // Check ownership (unless admin)
-    if (userId && clip.uploadedBy !== userId) {
-      const users = readJsonFile<LocalUser[]>(USERS_FILE, []);
-      const user = users.find(u => u.id === userId);
-      if (!user?.isAdmin) {
-        throw new Error('Not authorized to delete this clip');
-      }
-    }
-    
     // Delete audio file
-    const audioPath = path.join(AUDIO_DIR, clip.filename);
-    if (fs.existsSync(audioPath)) {
-      fs.unlinkSync(audioPath);
-    }
+    this.deleteClipFiles(clip);
     
     // Remove from database
     const newClips = clips.filter(c => c.id !== id);
@@ -267,6 +363,18 @@ class LocalDatabase {
     const stars = readJsonFile<LocalStar[]>(STARS_FILE, []);
     writeJsonFile(STARS_FILE, stars.filter(s => s.clipId !== id));
     
+    const reviews = readJsonFile<ClipReviewState[]>(REVIEWS_FILE, []);
+    writeJsonFile(REVIEWS_FILE, reviews.filter(r => r.clipId !== id));
+
+    // The moderation log keeps the record of what happened to it
+    const reports = readJsonFile<ClipReport[]>(REPORTS_FILE, []);
+    writeJsonFile(REPORTS_FILE, reports.filter(r => r.clipId !== id));
+
+    const decks = readJsonFile<Deck[]>(DECKS_FILE, []);
+    if (decks.some(d => d.clipIds.includes(id))) {
+      writeJsonFile(DECKS_FILE, decks.map(d => ({ ...d, clipIds: d.clipIds.filter(c => c !== id) })));
+    }
+    
     console.log('✅ Deleted clip:', id);
     return true;
   }
@@ -275,13 +383,32 @@ class LocalDatabase {
   // USERS
   // ============================================
 
+  // users.json, seeded with the default users. Plain-text passwords and
+  // isAdmin flags from older versions are upgraded the first time it is read.
+  private readUsers(): LocalUser[] {
+    if (!fs.existsSync(USERS_FILE)) {
+      const users = getDefaultUsers();
+      writeJsonFile(USERS_FILE, users);
+      return users;
+    }
+
+    const stored = readJsonFile<StoredLocalUser[]>(USERS_FILE, []);
+    if (stored.every(isUpgradedUser)) {
+      return stored;
+    }
+    const users = stored.map(upgradeStoredUser);
+    writeJsonFile(USERS_FILE, users);
+    console.log('🔐 Upgraded users.json: hashed plain-text passwords and assigned roles');
+    return users;
+  }
+
   async getUser(identifier: string): Promise<LocalUser | null> {
-    const users = readJsonFile<LocalUser[]>(USERS_FILE, this.getDefaultUsers());
+    const users = this.readUsers();
     return users.find(u => u.id === identifier || u.email === identifier || u.username === identifier) || null;
   }
 
   async createUser(userData: Omit<LocalUser, 'id' | 'createdAt'>): Promise<LocalUser> {
-    const users = readJsonFile<LocalUser[]>(USERS_FILE, this.getDefaultUsers());
+    const users = this.readUsers();
     
     // Check if email or username exists
     if (users.find(u => u.email === userData.email)) {
@@ -304,21 +431,34 @@ class LocalDatabase {
   }
 
   async validateCredentials(email: string, password: string): Promise<LocalUser | null> {
-    const users = readJsonFile<LocalUser[]>(USERS_FILE, this.getDefaultUsers());
-    return users.find(u => u.email === email && u.password === password) || null;
-  }
-
-  private getDefaultUsers(): LocalUser[] {
-    return [
-      {
-        id: 'test-user-id-12345',
-        email: 'test@example.com',
-        username: 'TestUser',
-        password: 'password123',
-        isAdmin: true,
-        createdAt: new Date().toISOString(),
-      }
-    ];
+    const user = this.readUsers().find(u => u.email === email);
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return null;
+    }
+    return user;
+  }
+
+  // ============================================
+  // AUTH SESSIONS
+  // ============================================
+
+  async createAuthSession(session: LocalAuthSession): Promise<void> {
+    const now = Date.now();
+    const sessions = readJsonFile<LocalAuthSession[]>(AUTH_SESSIONS_FILE, []);
+    // Expired sessions are dropped whenever a new one starts
+    const active = sessions.filter(s => new Date(s.expiresAt).getTime() > now);
+    active.push(session);
+    writeJsonFile(AUTH_SESSIONS_FILE, active);
+  }
+
+  async getAuthSession(id: string): Promise<LocalAuthSession | null> {
+    const sessions = readJsonFile<LocalAuthSession[]>(AUTH_SESSIONS_FILE, []);
+    return sessions.find(s => s.id === id) || null;
+  }
+
+  async deleteAuthSession(id: string): Promise<void> {
+    const sessions = readJsonFile<LocalAuthSession[]>(AUTH_SESSIONS_FILE, []);
+    writeJsonFile(AUTH_SESSIONS_FILE, sessions.filter(s => s.id !== id));
   }
 
   // ============================================
@@ -375,6 +515,11 @@ class LocalDatabase {
     return stars.some(s => s.clipId === clipId && s.userId === userId);
   }
 
+  async getStarCount(clipId: string): Promise<number> {
+    const stars = readJsonFile<LocalStar[]>(STARS_FILE, []);
+    return stars.filter(s => s.clipId === clipId).length;
+  }
+
   async toggleStar(clipId: string, userId: string): Promise<boolean> {
     const stars = readJsonFile<LocalStar[]>(STARS_FILE, []);
     const existingIndex = stars.findIndex(s => s.clipId === clipId && s.userId === userId);
@@ -452,47 +597,254 @@ class LocalDatabase {
     return allPrefs[userId] || null;
   }
 
-  async saveFilterPreferences(userId: string, preferences: FilterPreferences): Promise<void> {
+  // null clears the user's preferences
+  async saveFilterPreferences(userId: string, preferences: FilterPreferences | null): Promise<void> {
     const allPrefs = readJsonFile<Record<string, FilterPreferences>>(PREFERENCES_FILE, {});
-    allPrefs[userId] = preferences;
+    if (preferences) {
+      allPrefs[userId] = preferences;
+    } else {
+      delete allPrefs[userId];
+    }
     writeJsonFile(PREFERENCES_FILE, allPrefs);
   }
 
+  async getAudioSettings(userId: string): Promise<AudioSettingsPreferences | null> {
+    const allSettings = readJsonFile<Record<string, AudioSettingsPreferences>>(AUDIO_SETTINGS_FILE, {});
+    return allSettings[userId] || null;
+  }
+
+  // null puts the user back on the defaults
+  async saveAudioSettings(userId: string, settings: AudioSettingsPreferences | null): Promise<void> {
+    const allSettings = readJsonFile<Record<string, AudioSettingsPreferences>>(AUDIO_SETTINGS_FILE, {});
+    if (settings) {
+      allSettings[userId] = settings;
+    } else {
+      delete allSettings[userId];
+    }
+    writeJsonFile(AUDIO_SETTINGS_FILE, allSettings);
+  }
+
   // ============================================
-  // FILE OPERATIONS
+  // SPACED-REPETITION REVIEWS
   // ============================================
 
-  async saveAudioFile(filename: string, buffer: Buffer): Promise<string> {
-    ensureDirectories();
-    const filePath = path.join(AUDIO_DIR, filename);
-    fs.writeFileSync(filePath, buffer);
-    return filename;
+  async getReviewState(userId: string, clipId: string): Promise<ClipReviewState | null> {
+    const reviews = readJsonFile<ClipReviewState[]>(REVIEWS_FILE, []);
+    return reviews.find(r => r.userId === userId && r.clipId === clipId) || null;
+  }
+
+  async getDueReviews(userId: string, until: Date = new Date()): Promise<ClipReviewState[]> {
+    const reviews = readJsonFile<ClipReviewState[]>(REVIEWS_FILE, []);
+    const dueReviews = reviews.filter(
+      r => r.userId === userId && new Date(r.dueAt).getTime() <= until.getTime()
+    );
+    return sortByDue(dueReviews);
   }
 
-  async deleteAudioFile(filename: string): Promise<void> {
-    const filePath = path.join(AUDIO_DIR, filename);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+  async recordReview(
+    userId: string,
+    clipId: string,
+    grade: ReviewGrade,
+    accuracy?: number
+  ): Promise<ClipReviewState> {
+    const reviews = readJsonFile<ClipReviewState[]>(REVIEWS_FILE, []);
+    const index = reviews.findIndex(r => r.userId === userId && r.clipId === clipId);
+    const previous = index !== -1 ? reviews[index] : null;
+
+    const next = scheduleReview(previous, userId, clipId, grade, accuracy);
+    if (index !== -1) {
+      reviews[index] = next;
+    } else {
+      reviews.push(next);
     }
+
+    writeJsonFile(REVIEWS_FILE, reviews);
+    return next;
   }
 
-  getAudioFilePath(filename: string): string {
-    return path.join(AUDIO_DIR, filename);
+  // ============================================
+  // PRACTICE SESSIONS
+  // ============================================
+
+  async createPracticeSession(
+    userId: string,
+    session: NewPracticeSession
+  ): Promise<PracticeSession> {
+    const sessions = readJsonFile<PracticeSession[]>(SESSIONS_FILE, []);
+
+    const newSession: PracticeSession = {
+      ...session,
+      id: `session-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      userId,
+    };
+
+    sessions.push(newSession);
+    writeJsonFile(SESSIONS_FILE, sessions);
+
+    return newSession;
   }
 
-  audioFileExists(filename: string): boolean {
-    return fs.existsSync(path.join(AUDIO_DIR, filename));
+  async getPracticeSessions(
+    userId: string,
+    options: { clipId?: string } = {}
+  ): Promise<PracticeSession[]> {
+    const sessions = readJsonFile<PracticeSession[]>(SESSIONS_FILE, []);
+    return sessions
+      .filter(s => s.userId === userId && (!options.clipId || s.clipId === options.clipId))
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
   }
 
   // ============================================
-  // ADMIN
+  // MODERATION
   // ============================================
 
-  async isAdmin(userId: string): Promise<boolean> {
-    const user = await this.getUser(userId);
-    return user?.isAdmin || false;
+  async createReport(report: NewClipReport): Promise<ClipReport> {
+    const reports = readJsonFile<ClipReport[]>(REPORTS_FILE, []);
+    const newReport: ClipReport = {
+      ...report,
+      id: `report-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      status: 'open',
+      createdAt: new Date().toISOString(),
+    };
+    reports.push(newReport);
+    writeJsonFile(REPORTS_FILE, reports);
+    return newReport;
+  }
+
+  // Oldest first, the order the queue works through them
+  async getReports(filter: { status?: ReportStatus; clipId?: string } = {}): Promise<ClipReport[]> {
+    return readJsonFile<ClipReport[]>(REPORTS_FILE, []).filter(
+      r => (!filter.status || r.status === filter.status) && (!filter.clipId || r.clipId === filter.clipId)
+    );
+  }
+
+  // Closes a clip's open reports, returning how many were closed
+  async closeReports(clipId: string, status: Exclude<ReportStatus, 'open'>, closedBy: string): Promise<number> {
+    const reports = readJsonFile<ClipReport[]>(REPORTS_FILE, []);
+    const closedAt = new Date().toISOString();
+    let closed = 0;
+    for (const report of reports) {
+      if (report.clipId === clipId && report.status === 'open') {
+        Object.assign(report, { status, closedAt, closedBy });
+        closed++;
+      }
+    }
+    if (closed > 0) {
+      writeJsonFile(REPORTS_FILE, reports);
+    }
+    return closed;
+  }
+
+  async logModerationAction(entry: NewModerationAction): Promise<ModerationAction> {
+    const log = readJsonFile<ModerationAction[]>(MODERATION_LOG_FILE, []);
+    const action: ModerationAction = {
+      ...entry,
+      id: `moderation-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+    log.push(action);
+    writeJsonFile(MODERATION_LOG_FILE, log);
+    return action;
+  }
+
+  // Newest first
+  async getModerationLog(options: { clipId?: string; limit?: number } = {}): Promise<ModerationAction[]> {
+    const log = readJsonFile<ModerationAction[]>(MODERATION_LOG_FILE, [])
+      .filter(a => !options.clipId || a.clipId === options.clipId)
+      .reverse();
+    return options.limit ? log.slice(0, options.limit) : log;
+  }
+
+  // ============================================
+  // DECKS
+  // ============================================
+
+  // Most recently changed first
+  async getDecks(filter: { ownerId?: string; isPublic?: boolean } = {}): Promise<Deck[]> {
+    return readJsonFile<Deck[]>(DECKS_FILE, [])
+      .filter(d =>
+        (!filter.ownerId || d.ownerId === filter.ownerId) &&
+        (filter.isPublic === undefined || d.isPublic === filter.isPublic)
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async getDeckById(id: string): Promise<Deck | null> {
+    return readJsonFile<Deck[]>(DECKS_FILE, []).find(d => d.id === id) ?? null;
+  }
+
+  async createDeck(ownerId: string, deck: NewDeck): Promise<Deck> {
+    const decks = readJsonFile<Deck[]>(DECKS_FILE, []);
+    const newDeck: Deck = {
+      ...deck,
+      id: `deck-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      ownerId,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    decks.push(newDeck);
+    writeJsonFile(DECKS_FILE, decks);
+    return newDeck;
+  }
+
+  // Callers check the user owns the deck first
+  async updateDeck(id: string, updates: DeckUpdate): Promise<Deck | null> {
+    const decks = readJsonFile<Deck[]>(DECKS_FILE, []);
+    const index = decks.findIndex(d => d.id === id);
+    if (index === -1) return null;
+
+    decks[index] = {
+      ...decks[index],
+      ...updates,
+      id, // Ensure ID doesn't change
+      updatedAt: new Date().toISOString(),
+    };
+    writeJsonFile(DECKS_FILE, decks);
+    return decks[index];
+  }
+
+  async deleteDeck(id: string): Promise<boolean> {
+    const decks = readJsonFile<Deck[]>(DECKS_FILE, []);
+    const remaining = decks.filter(d => d.id !== id);
+    if (remaining.length === decks.length) return false;
+    writeJsonFile(DECKS_FILE, remaining);
+    return true;
+  }
+
+  // ============================================
+  // ROLES
+  // ============================================
+
+  async getUsers(): Promise<LocalUser[]> {
+    return this.readUsers();
+  }
+
+  async setUserRole(userId: string, role: UserRole): Promise<LocalUser | null> {
+    const users = this.readUsers();
+    const user = users.find(u => u.id === userId);
+    if (!user) return null;
+
+    user.role = role;
+    writeJsonFile(USERS_FILE, users);
+    return user;
+  }
+}
+
+// The methods both local backends provide
+export type LocalDataStore = Pick<LocalDatabase, keyof LocalDatabase>;
+
+// LOCAL_DB_BACKEND=sqlite keeps the records in local-data/chorus-lab.db
+// instead of JSON files; audio files stay in local-data/audio either way
+function createLocalDb(): LocalDataStore {
+  const backend = process.env.LOCAL_DB_BACKEND || 'json';
+  if (backend === 'sqlite') {
+    return new SqliteDatabase();
+  }
+  if (backend !== 'json') {
+    console.warn(`Unknown LOCAL_DB_BACKEND "${backend}", using JSON files`);
   }
+  return new LocalDatabase();
 }
 
 // Export singleton instance
-export const localDb = new LocalDatabase();
+export const localDb = createLocalDb();
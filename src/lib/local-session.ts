@@ -0,0 +1,103 @@
+// Session tokens for local mode.
+// A token is local.<payload>.<signature>: the payload names a session record
+// and when it expires, signed with HMAC-SHA256. The signature keeps clients
+// from forging tokens; the record lets logout revoke one before it expires.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { localDb } from '@/lib/local-database';
+import { DATA_DIR, ensureDirectories, type LocalAuthSession } from '@/lib/local-data';
+
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const TOKEN_PREFIX = 'local.';
+const SECRET_FILE = path.join(DATA_DIR, 'auth-secret');
+
+interface SessionPayload {
+  sid: string; // session record id
+  sub: string; // user id
+  exp: number; // expiry, ms since the epoch
+}
+
+let secret: Buffer | null = null;
+
+// LOCAL_AUTH_SECRET, or a random key generated once and kept in local-data
+function getSecret(): Buffer {
+  if (secret) return secret;
+
+  if (process.env.LOCAL_AUTH_SECRET) {
+    secret = Buffer.from(process.env.LOCAL_AUTH_SECRET, 'utf-8');
+  } else if (fs.existsSync(SECRET_FILE)) {
+    secret = Buffer.from(fs.readFileSync(SECRET_FILE, 'utf-8').trim(), 'base64');
+  } else {
+    ensureDirectories();
+    secret = crypto.randomBytes(32);
+    fs.writeFileSync(SECRET_FILE, secret.toString('base64'), { encoding: 'utf-8', mode: 0o600 });
+    console.log('🔑 Generated local-data/auth-secret for signing session tokens');
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+function encodeToken(payload: SessionPayload): string {
+  const data = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+  return `${TOKEN_PREFIX}${data}.${sign(data)}`;
+}
+
+// The payload of a token with a valid signature that hasn't expired
+function decodeToken(token: string): SessionPayload | null {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const [data, signature] = token.slice(TOKEN_PREFIX.length).split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf-8')) as SessionPayload;
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function createLocalSession(userId: string): Promise<{ token: string; expiresAt: number }> {
+  const now = Date.now();
+  const expiresAt = now + SESSION_TTL_MS;
+  const session: LocalAuthSession = {
+    id: crypto.randomUUID(),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+  await localDb.createAuthSession(session);
+
+  return { token: encodeToken({ sid: session.id, sub: userId, exp: expiresAt }), expiresAt };
+}
+
+// The session a token belongs to, unless it is forged, expired or revoked
+export async function verifyLocalSession(token: string): Promise<LocalAuthSession | null> {
+  const payload = decodeToken(token);
+  if (!payload) return null;
+
+  const session = await localDb.getAuthSession(payload.sid);
+  if (!session || session.userId !== payload.sub) return null;
+  if (new Date(session.expiresAt).getTime() <= Date.now()) return null;
+
+  return session;
+}
+
+export async function revokeLocalSession(token: string): Promise<void> {
+  const payload = decodeToken(token);
+  if (payload) {
+    await localDb.deleteAuthSession(payload.sid);
+  }
+}
@@ -0,0 +1,59 @@
+// Password hashing for local accounts (scrypt, from Node's crypto)
+
+import crypto from 'crypto';
+
+// 16 MiB of memory per hash (128 * N * r bytes)
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Stored as scrypt$N$r$p$salt$key, salt and key in base64
+const HASH_PREFIX = 'scrypt$';
+
+function formatHash(salt: Buffer, key: Buffer): string {
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `${HASH_PREFIX}${N}$${r}$${p}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, params, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export function isPasswordHash(value: string): boolean {
+  return value.startsWith(HASH_PREFIX);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  return formatHash(salt, await deriveKey(password, salt, SCRYPT_PARAMS));
+}
+
+// For one-off migrations of stored passwords, which run synchronously
+export function hashPasswordSync(password: string): string {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  return formatHash(salt, crypto.scryptSync(password, salt, KEY_LENGTH, SCRYPT_PARAMS));
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  if (!isPasswordHash(hash)) return false;
+
+  const [N, r, p, salt, key] = hash.slice(HASH_PREFIX.length).split('$');
+  const expected = Buffer.from(key ?? '', 'base64');
+  if (expected.length !== KEY_LENGTH) return false;
+
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return crypto.timingSafeEqual(actual, expected);
+}
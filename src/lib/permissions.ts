@@ -0,0 +1,78 @@
+/**
+ * Roles and the permission matrix
+ * Shared by the API routes (see authorize in lib/storage) and the UI, which
+ * uses it to hide actions the signed-in user can't take
+ */
+
+import type { User, UserRole } from "@/types/auth";
+
+export type Permission =
+  | "clips.upload"
+  | "clips.bulkUpload" // bulk upload and clip import
+  | "clips.edit" // any clip; uploaders can always edit their own
+  | "clips.delete" // any clip; uploaders can always delete their own
+  | "clips.moderate" // work the report queue and hide clips
+  | "dialects.manage"
+  | "users.manageRoles";
+
+// Lowest to highest
+export const USER_ROLES: UserRole[] = ["learner", "contributor", "curator", "admin"];
+
+// New accounts, and accounts from before roles existed that weren't admins
+export const DEFAULT_ROLE: UserRole = "learner";
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  learner: ["clips.upload"],
+  contributor: ["clips.upload", "clips.bulkUpload"],
+  curator: [
+    "clips.upload",
+    "clips.bulkUpload",
+    "clips.edit",
+    "clips.delete",
+    "clips.moderate",
+    "dialects.manage",
+  ],
+  admin: [
+    "clips.upload",
+    "clips.bulkUpload",
+    "clips.edit",
+    "clips.delete",
+    "clips.moderate",
+    "dialects.manage",
+    "users.manageRoles",
+  ],
+};
+
+// Permissions an uploader has on their own clips whatever their role
+const OWNER_PERMISSIONS: Permission[] = ["clips.edit", "clips.delete"];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+export function roleHasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// The lowest role with a permission, for error messages
+export function minimumRoleFor(permission: Permission): UserRole {
+  return USER_ROLES.find((role) => roleHasPermission(role, permission)) ?? "admin";
+}
+
+/**
+ * Checks whether a user may take an action
+ * @param user - The user, with their role (users without one are learners)
+ * @param permission - The action
+ * @param clip - The clip acted on, for clip permissions
+ */
+export function can(
+  user: Pick<User, "id" | "role"> | null | undefined,
+  permission: Permission,
+  clip?: { uploadedBy: string }
+): boolean {
+  if (!user) return false;
+  if (clip && clip.uploadedBy === user.id && OWNER_PERMISSIONS.includes(permission)) {
+    return true;
+  }
+  return roleHasPermission(user.role ?? DEFAULT_ROLE, permission);
+}
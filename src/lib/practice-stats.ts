@@ -0,0 +1,147 @@
+/**
+ * Aggregates stored practice sessions into dashboard statistics
+ * Pure functions shared by both database backends
+ */
+
+import type { PracticeSession, PracticeStats } from "@/types/practice";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_CLIPS_LIMIT = 10;
+const ACCURACY_TREND_DAYS = 30;
+
+/**
+ * Calendar day (YYYY-MM-DD) of a timestamp in the learner's timezone.
+ * tzOffsetMinutes follows Date.prototype.getTimezoneOffset (UTC - local).
+ */
+function localDayKey(timestamp: string | number, tzOffsetMinutes: number): string {
+  const time = new Date(timestamp).getTime() - tzOffsetMinutes * 60 * 1000;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function previousDayKey(dayKey: string): string {
+  const time = new Date(`${dayKey}T00:00:00Z`).getTime() - DAY_MS;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function roundMinutes(seconds: number): number {
+  return Math.round((seconds / 60) * 10) / 10;
+}
+
+/**
+ * Streaks over the set of days with at least one session. The current
+ * streak survives until the end of the day after the last practice.
+ */
+function calculateStreaks(
+  days: Set<string>,
+  today: string
+): { current: number; longest: number } {
+  const sorted = Array.from(days).sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+
+  for (const day of sorted) {
+    run = previous !== null && previousDayKey(day) === previous ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  let current = 0;
+  let cursor = days.has(today) ? today : previousDayKey(today);
+  while (days.has(cursor)) {
+    current++;
+    cursor = previousDayKey(cursor);
+  }
+
+  return { current, longest };
+}
+
+export function calculatePracticeStats(
+  sessions: PracticeSession[],
+  clipTitles: Map<string, string>,
+  tzOffsetMinutes = 0,
+  now: Date = new Date()
+): PracticeStats {
+  const days = new Set<string>();
+  const secondsByLanguage = new Map<string, number>();
+  const accuracyByDay = new Map<string, number[]>();
+  const clipTotals = new Map<
+    string,
+    { sessions: number; loops: number; seconds: number }
+  >();
+  let totalSeconds = 0;
+  let totalLoops = 0;
+
+  for (const session of sessions) {
+    const day = localDayKey(session.startedAt, tzOffsetMinutes);
+    days.add(day);
+    totalSeconds += session.secondsPracticed;
+    totalLoops += session.loops;
+
+    const language = session.language || "unknown";
+    secondsByLanguage.set(
+      language,
+      (secondsByLanguage.get(language) || 0) + session.secondsPracticed
+    );
+
+    if (typeof session.transcriptionAccuracy === "number") {
+      const values = accuracyByDay.get(day) || [];
+      values.push(session.transcriptionAccuracy);
+      accuracyByDay.set(day, values);
+    }
+
+    const clip = clipTotals.get(session.clipId) || {
+      sessions: 0,
+      loops: 0,
+      seconds: 0,
+    };
+    clip.sessions += 1;
+    clip.loops += session.loops;
+    clip.seconds += session.secondsPracticed;
+    clipTotals.set(session.clipId, clip);
+  }
+
+  const { current, longest } = calculateStreaks(
+    days,
+    localDayKey(now.getTime(), tzOffsetMinutes)
+  );
+
+  const trendStart = localDayKey(
+    now.getTime() - ACCURACY_TREND_DAYS * DAY_MS,
+    tzOffsetMinutes
+  );
+  const accuracyTrend = Array.from(accuracyByDay.entries())
+    .filter(([date]) => date > trendStart)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, values]) => ({
+      date,
+      accuracy: Math.round(values.reduce((a, b) => a + b, 0) / values.length),
+    }));
+
+  const topClips = Array.from(clipTotals.entries())
+    .sort(([, a], [, b]) => b.loops - a.loops || b.seconds - a.seconds)
+    .slice(0, TOP_CLIPS_LIMIT)
+    .map(([clipId, totals]) => ({
+      clipId,
+      title: clipTitles.get(clipId) || "Deleted clip",
+      sessions: totals.sessions,
+      loops: totals.loops,
+      minutes: roundMinutes(totals.seconds),
+    }));
+
+  return {
+    totalSessions: sessions.length,
+    totalMinutes: roundMinutes(totalSeconds),
+    totalLoops,
+    currentStreak: current,
+    longestStreak: longest,
+    minutesByLanguage: Array.from(secondsByLanguage.entries())
+      .map(([language, seconds]) => ({
+        language,
+        minutes: roundMinutes(seconds),
+      }))
+      .sort((a, b) => b.minutes - a.minutes),
+    accuracyTrend,
+    topClips,
+  };
+}
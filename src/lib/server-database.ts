@@ -1,8 +1,29 @@
 // Server-side database layer using Supabase (simplified, no auth helpers)
 import { createClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/supabase";
-import type { User } from "@/types/auth";
-import type { AudioClip, AudioFilters, AudioSort, FilterPreferences } from "@/types/audio";
+import type { User, UserRole } from "@/types/auth";
+import type {
+  AudioClip,
+  AudioFilters,
+  AudioSettingsPreferences,
+  AudioSort,
+  FilterPreferences,
+  SearchResultClip,
+} from "@/types/audio";
+import type {
+  ClipReviewState,
+  ReviewGrade,
+  PracticeSession,
+  NewPracticeSession,
+} from "@/types/practice";
+import type {
+  ClipReport,
+  ModerationAction,
+  NewClipReport,
+  NewModerationAction,
+  ReportStatus,
+} from "@/types/moderation";
+import type { Deck, DeckUpdate, NewDeck } from "@/types/deck";
 import {
   convertAudioClipFromDb,
   convertAudioClipToDb,
@@ -14,9 +35,20 @@ import {
   createAuthenticatedClient,
   verifyAccessToken,
 } from "@/lib/supabase";
-import { isAdmin } from "@/lib/admin";
 import { supabaseMonitor } from "@/lib/supabase-monitor";
 import { retryWithBackoff, isTransientError } from "@/lib/api-utils";
+import { scheduleReview } from "@/lib/srs";
+import { peaksFilename } from "@/lib/audio/clip-peaks";
+import { isSearchQuery, searchMatch } from "@/lib/clip-search";
+import {
+  cursorAfter,
+  paginateInMemory,
+  speedPercentileIndexes,
+  type ClipCursor,
+  type SpeedPercentiles,
+  type SpeedRange,
+} from "@/lib/clip-pagination";
+import type { ClipListingOptions, ClipPage, ClipPageRequest } from "@/lib/storage/types";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -53,6 +85,93 @@ const supabaseServer = isSupabaseConfigured
 // Export whether Supabase is configured
 export { isSupabaseConfigured };
 
+// Columns of the audio_clip_listing view (migrations/add_clip_listing.sql)
+// that paged listings sort by; relevance comes from search_audio_clips
+const LISTING_SORT_COLUMNS: Record<Exclude<AudioSort["field"], "relevance">, string> = {
+  title: "title_sort",
+  duration: "duration",
+  language: "language",
+  createdAt: "created_at",
+  voteScore: "vote_score",
+  difficulty: "difficulty",
+  charactersPerSecond: "characters_per_second",
+};
+
+// A value inside a PostgREST or() filter, quoted so commas and
+// parentheses in it don't split the filter
+function filterValue(value: string | number): string {
+  if (typeof value === "number") return String(value);
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Filters shared by clip listings (order matters for query optimization -
+// most selective first)
+function applyClipFilters(query: any, filters: AudioFilters | undefined): any {
+  if (!filters) return query;
+  // Single-value filters (most selective)
+  if (filters.ids) {
+    query = query.in("id", filters.ids);
+  }
+  if (filters.uploadedBy) {
+    query = query.eq("uploaded_by", filters.uploadedBy);
+  }
+  if (filters.language) {
+    query = query.eq("language", filters.language);
+  }
+  if (filters.speakerGender) {
+    query = query.eq("speaker_gender", filters.speakerGender);
+  }
+  if (filters.speakerAgeRange) {
+    query = query.eq("speaker_age_range", filters.speakerAgeRange);
+  }
+  if (filters.speakerDialect) {
+    query = query.eq("speaker_dialect", filters.speakerDialect);
+  }
+  // Array filter (less selective, apply last)
+  if (filters.tags && filters.tags.length > 0) {
+    // Use overlap operator for array tags (requires GIN index on tags column)
+    query = query.overlaps("tags", filters.tags);
+  }
+  return query;
+}
+
+// applyClipFilters plus the restrictions and speed bounds of a paged listing
+function applyListingFilters(
+  query: any,
+  filters: AudioFilters,
+  ids?: string[],
+  speed?: SpeedRange
+): any {
+  query = applyClipFilters(query, filters);
+  if (ids) {
+    query = query.in("id", ids);
+  }
+  if (speed) {
+    query = query.not("characters_per_second", "is", null);
+    if (speed.above !== undefined) query = query.gt("characters_per_second", speed.above);
+    if (speed.atMost !== undefined) query = query.lte("characters_per_second", speed.atMost);
+  }
+  return query;
+}
+
+// Convert to legacy AudioClip format
+function clipFromRow(row: any): AudioClip {
+  const converted = convertAudioClipFromDb(row);
+  return {
+    id: converted.id,
+    title: converted.title,
+    duration: converted.duration,
+    filename: converted.filename,
+    originalFilename: converted.originalFilename,
+    fileSize: converted.fileSize,
+    metadata: converted.metadata,
+    processing: converted.processing,
+    uploadedBy: converted.uploadedBy,
+    createdAt: converted.createdAt,
+    updatedAt: converted.updatedAt,
+  };
+}
+
 class SupabaseDatabase {
   // Helper to get authenticated client with access token
   private getAuthenticatedClient(accessToken?: string) {
@@ -163,13 +282,7 @@ class SupabaseDatabase {
         return null;
       }
 
-      const p = profile as any;
-      return {
-        id: p.id,
-        username: p.username,
-        email: p.email,
-        createdAt: p.created_at,
-      };
+      return this.convertProfileFromDb(profile);
     });
   }
 
@@ -186,13 +299,7 @@ class SupabaseDatabase {
         return null;
       }
 
-      const p = profile as any;
-      return {
-        id: p.id,
-        username: p.username,
-        email: p.email,
-        createdAt: p.created_at,
-      };
+      return this.convertProfileFromDb(profile);
     });
   }
 
@@ -277,7 +384,7 @@ class SupabaseDatabase {
     // Get profile data
     const { data: profile, error: profileError } = await supabaseServer
       .from("profiles")
-      .select("username, email")
+      .select("username, email, role")
       .eq("id", data.user.id)
       .single();
 
@@ -291,6 +398,7 @@ class SupabaseDatabase {
       username: p.username,
       email: p.email,
       createdAt: data.user.created_at,
+      role: p.role ?? undefined,
     };
   }
 
@@ -306,13 +414,7 @@ class SupabaseDatabase {
         return null;
       }
 
-      const p = profile as any;
-      return {
-        id: p.id,
-        username: p.username,
-        email: p.email,
-        createdAt: p.created_at,
-      };
+      return this.convertProfileFromDb(profile);
     });
   }
 
@@ -375,6 +477,7 @@ class SupabaseDatabase {
         originalFilename: convertedClip.originalFilename,
         fileSize: convertedClip.fileSize,
         metadata: convertedClip.metadata,
+        processing: convertedClip.processing,
         uploadedBy: convertedClip.uploadedBy,
         createdAt: convertedClip.createdAt,
         updatedAt: convertedClip.updatedAt,
@@ -387,41 +490,41 @@ class SupabaseDatabase {
     sort?: AudioSort,
     limit?: number,
     accessToken?: string
-  ): Promise<AudioClip[]> {
+  ): Promise<SearchResultClip[]> {
     return this.monitorDbOperation('getAudioClips', async () => {
       const client = this.getAuthenticatedClient(accessToken);
       // Note: Using select("*") because we need all columns for conversion
       // Ensure database has indexes on: language, speaker_gender, speaker_age_range, 
       // speaker_dialect, uploaded_by, created_at, and tags (GIN index for array operations)
-      let query = (client as any).from("audio_clips").select("*");
-
-    // Apply filters (order matters for query optimization - most selective first)
-    if (filters) {
-      // Single-value filters (most selective)
-      if (filters.uploadedBy) {
-        query = query.eq("uploaded_by", filters.uploadedBy);
-      }
-      if (filters.language) {
-        query = query.eq("language", filters.language);
-      }
-      if (filters.speakerGender) {
-        query = query.eq("speaker_gender", filters.speakerGender);
-      }
-      if (filters.speakerAgeRange) {
-        query = query.eq("speaker_age_range", filters.speakerAgeRange);
-      }
-      if (filters.speakerDialect) {
-        query = query.eq("speaker_dialect", filters.speakerDialect);
-      }
-      // Array filter (less selective, apply last)
-      if (filters.tags && filters.tags.length > 0) {
-        // Use overlap operator for array tags (requires GIN index on tags column)
-        query = query.overlaps("tags", filters.tags);
+      // Hidden clips can only be fetched by id, for moderation
+      let query = (client as any).from("audio_clips").select("*").eq("hidden", false);
+
+    // Full-text search is matched and ranked in Postgres
+    // (search_audio_clips, see migrations/add_clip_search.sql)
+    let searchRanks: Map<string, number> | null = null;
+    if (filters && isSearchQuery(filters.q)) {
+      const { data: matches, error: searchError } = await (client as any).rpc(
+        "search_audio_clips",
+        { query: filters.q }
+      );
+      if (searchError) {
+        throw new Error(`Failed to search audio clips: ${searchError.message}`);
       }
+      searchRanks = new Map(
+        ((matches ?? []) as { id: string; rank: number }[]).map(
+          (match): [string, number] => [match.id, match.rank]
+        )
+      );
+      query = query.in("id", Array.from(searchRanks.keys()));
     }
 
+    // Apply filters
+    query = applyClipFilters(query, filters);
+
     // Apply sorting (ensure index exists on sort column)
-    if (sort) {
+    if (sort?.field === "relevance") {
+      // Ranked below, once the rows are back
+    } else if (sort) {
       const column = sort.field === "createdAt" ? "created_at" : sort.field;
       query = query.order(column, { ascending: sort.direction === "asc" });
     } else {
@@ -440,25 +543,206 @@ class SupabaseDatabase {
         throw new Error(`Failed to fetch audio clips: ${error.message}`);
       }
 
-      // Convert to legacy AudioClip format
-      return data.map((row: any) => {
-        const converted = convertAudioClipFromDb(row);
-        return {
-          id: converted.id,
-          title: converted.title,
-          duration: converted.duration,
-          filename: converted.filename,
-          originalFilename: converted.originalFilename,
-          fileSize: converted.fileSize,
-          metadata: converted.metadata,
-          uploadedBy: converted.uploadedBy,
-          createdAt: converted.createdAt,
-          updatedAt: converted.updatedAt,
-        };
-      });
+      const clips: AudioClip[] = data.map(clipFromRow);
+
+      if (!searchRanks || !filters?.q) {
+        return clips;
+      }
+
+      const ranks = searchRanks;
+      const searchQuery = filters.q;
+      if (sort?.field === "relevance") {
+        const direction = sort.direction === "asc" ? 1 : -1;
+        clips.sort((a, b) => direction * ((ranks.get(a.id) ?? 0) - (ranks.get(b.id) ?? 0)));
+      }
+      return clips.map((clip) => ({
+        ...clip,
+        search: searchMatch(clip, ranks.get(clip.id) ?? 0, searchQuery),
+      }));
+    });
+  }
+
+  /**
+   * One page of a listing, sorted and cut by Postgres on the
+   * audio_clip_listing view (migrations/add_clip_listing.sql). Relevance
+   * ranks only come back from search_audio_clips, so those pages are cut
+   * from the matching ids before the rows are fetched.
+   */
+  async getAudioClipPage(
+    filters: AudioFilters,
+    sort: AudioSort,
+    page: ClipPageRequest,
+    accessToken?: string
+  ): Promise<ClipPage> {
+    return this.monitorDbOperation('getAudioClipPage', async () => {
+      const client = this.getAuthenticatedClient(accessToken) as any;
+      const restriction = await this.getListingRestriction(filters, page, accessToken);
+      if (!restriction) {
+        return { clips: [], nextCursor: null, total: 0 };
+      }
+      const listing = (columns: string, options?: { count: "exact"; head: boolean }) =>
+        applyListingFilters(
+          client.from("audio_clip_listing").select(columns, options).eq("hidden", false),
+          filters,
+          restriction.ids,
+          page.speed
+        );
+
+      let rows: any[];
+      let nextCursor: ClipCursor | null;
+      let total: number;
+
+      if (sort.field === "relevance") {
+        const ranks = restriction.ranks ?? new Map<string, number>();
+        const { data: matches, error } = await listing("id");
+        if (error) {
+          throw new Error(`Failed to fetch audio clips: ${error.message}`);
+        }
+        const ranked = paginateInMemory(
+          matches as { id: string }[],
+          (match) => ranks.get(match.id) ?? 0,
+          sort,
+          page.after,
+          page.limit
+        );
+        const pageIds = ranked.items.map((match) => match.id);
+        const { data, error: rowsError } = pageIds.length
+          ? await client.from("audio_clips").select("*").in("id", pageIds)
+          : { data: [], error: null };
+        if (rowsError) {
+          throw new Error(`Failed to fetch audio clips: ${rowsError.message}`);
+        }
+        rows = pageIds
+          .map((id) => (data as any[]).find((row) => row.id === id))
+          .filter(Boolean);
+        nextCursor = ranked.nextCursor;
+        total = matches.length;
+      } else {
+        const column = LISTING_SORT_COLUMNS[sort.field];
+        let query = listing("*")
+          .order(column, { ascending: sort.direction === "asc", nullsFirst: false })
+          .order("id", { ascending: true })
+          .limit(page.limit + 1);
+
+        // Rows after the cursor; NULL keys come after every value
+        const after = page.after;
+        if (after && after.key === null) {
+          query = query.is(column, null).gt("id", after.id);
+        } else if (after) {
+          const beyond = sort.direction === "asc" ? "gt" : "lt";
+          const key = filterValue(after.key as string | number);
+          query = query.or(
+            `${column}.${beyond}.${key},and(${column}.eq.${key},id.gt.${filterValue(after.id)}),${column}.is.null`
+          );
+        }
+
+        const [{ data, error }, { count, error: countError }] = await Promise.all([
+          query,
+          listing("id", { count: "exact", head: true }),
+        ]);
+        if (error || countError) {
+          throw new Error(`Failed to fetch audio clips: ${(error ?? countError).message}`);
+        }
+
+        rows = (data as any[]).slice(0, page.limit);
+        const last = rows[rows.length - 1];
+        nextCursor =
+          data.length > page.limit && last
+            ? cursorAfter(sort, last[column] ?? null, last.id)
+            : null;
+        total = count ?? 0;
+      }
+
+      const clips: SearchResultClip[] = rows.map(clipFromRow);
+      const ranks = restriction.ranks;
+      const searchQuery = filters.q;
+      return {
+        clips:
+          ranks && searchQuery
+            ? clips.map((clip) => ({
+                ...clip,
+                search: searchMatch(clip, ranks.get(clip.id) ?? 0, searchQuery),
+              }))
+            : clips,
+        nextCursor,
+        total,
+      };
+    });
+  }
+
+  async getClipSpeedPercentiles(
+    filters: AudioFilters,
+    options: ClipListingOptions = {},
+    accessToken?: string
+  ): Promise<SpeedPercentiles | null> {
+    return this.monitorDbOperation('getClipSpeedPercentiles', async () => {
+      const client = this.getAuthenticatedClient(accessToken) as any;
+      const restriction = await this.getListingRestriction(filters, options, accessToken);
+      if (!restriction) return null;
+      const speeds = (columns: string, options?: { count: "exact"; head: boolean }) =>
+        applyListingFilters(
+          client.from("audio_clip_listing").select(columns, options).eq("hidden", false),
+          filters,
+          restriction.ids
+        ).not("characters_per_second", "is", null);
+
+      const { count, error } = await speeds("id", { count: "exact", head: true });
+      if (error) {
+        throw new Error(`Failed to count clip speeds: ${error.message}`);
+      }
+      if (!count) return null;
+
+      const speedAt = async (offset: number): Promise<number> => {
+        const { data, error: speedError } = await speeds("characters_per_second")
+          .order("characters_per_second", { ascending: true })
+          .range(offset, offset);
+        if (speedError) {
+          throw new Error(`Failed to get clip speeds: ${speedError.message}`);
+        }
+        return data[0].characters_per_second;
+      };
+
+      const indexes = speedPercentileIndexes(count);
+      const [slow, medium] = await Promise.all([speedAt(indexes.slow), speedAt(indexes.medium)]);
+      return { slow, medium };
     });
   }
 
+  // Clip ids a listing is limited to by a search or the starred filter
+  // (undefined when neither applies), or null when nothing can match
+  private async getListingRestriction(
+    filters: AudioFilters,
+    options: ClipListingOptions,
+    accessToken?: string
+  ): Promise<{ ids?: string[]; ranks: Map<string, number> | null } | null> {
+    const client = this.getAuthenticatedClient(accessToken) as any;
+    let ids: string[] | undefined;
+    let ranks: Map<string, number> | null = null;
+
+    if (isSearchQuery(filters.q)) {
+      const { data: matches, error } = await client.rpc("search_audio_clips", {
+        query: filters.q,
+      });
+      if (error) {
+        throw new Error(`Failed to search audio clips: ${error.message}`);
+      }
+      ranks = new Map(
+        ((matches ?? []) as { id: string; rank: number }[]).map(
+          (match): [string, number] => [match.id, match.rank]
+        )
+      );
+      ids = Array.from(ranks.keys());
+    }
+
+    if (options.starredByUserId) {
+      const starred = await this.getUserStarredClips(options.starredByUserId, accessToken);
+      ids = ids ? ids.filter((id) => starred.includes(id)) : starred;
+    }
+
+    if (ids && ids.length === 0) return null;
+    return { ids, ranks };
+  }
+
   async getAudioClipById(
     id: string,
     accessToken?: string
@@ -485,6 +769,8 @@ class SupabaseDatabase {
         originalFilename: converted.originalFilename,
         fileSize: converted.fileSize,
         metadata: converted.metadata,
+        processing: converted.processing,
+        hidden: converted.hidden,
         uploadedBy: converted.uploadedBy,
         createdAt: converted.createdAt,
         updatedAt: converted.updatedAt,
@@ -492,17 +778,18 @@ class SupabaseDatabase {
     });
   }
 
+  // Permissions are checked by the API routes (see authorize in
+  // lib/storage); RLS enforces the same roles in the database
   async deleteAudioClip(
     id: string,
-    userId: string,
     accessToken?: string
   ): Promise<boolean> {
     const client = this.getAuthenticatedClient(accessToken);
 
-    // First get the clip to check ownership and get storage path
+    // First get the clip's storage path
     const { data: clip, error: fetchError } = await client
       .from("audio_clips")
-      .select("uploaded_by, storage_path")
+      .select("storage_path")
       .eq("id", id)
       .single();
 
@@ -510,12 +797,6 @@ class SupabaseDatabase {
       return false;
     }
 
-    // Check if user owns this clip or is an admin
-    const c = clip as any;
-    if (c.uploaded_by !== userId && !isAdmin(userId)) {
-      throw new Error("Unauthorized to delete this clip");
-    }
-
     // Delete from database
     const { error: deleteError, data: deleteData } = await client
       .from("audio_clips")
@@ -560,6 +841,7 @@ class SupabaseDatabase {
         : undefined;
       const cp = clip as any;
       await deleteAudioFile(cp.storage_path, authClient);
+      await deleteAudioFile(peaksFilename(cp.storage_path), authClient);
     } catch (error) {
       const cp = clip as any;
       console.warn(`Could not delete file ${cp.storage_path}:`, error);
@@ -568,34 +850,18 @@ class SupabaseDatabase {
     return true;
   }
 
+  // Permissions are checked by the API routes, as for deleteAudioClip
   async updateAudioClip(
     id: string,
-    updates: Partial<Pick<AudioClip, "title" | "metadata">>,
-    accessToken?: string,
-    userId?: string
+    updates: Partial<Pick<AudioClip, "title" | "metadata" | "hidden">>,
+    accessToken?: string
   ): Promise<AudioClip | null> {
     const client = this.getAuthenticatedClient(accessToken);
 
-    // If userId is not provided, try to get it from accessToken
-    let resolvedUserId: string | null = userId || null;
-    if (!resolvedUserId && accessToken) {
-      try {
-        const authenticatedClient = createAuthenticatedClient(accessToken);
-        const {
-          data: { user },
-        } = await authenticatedClient.auth.getUser();
-        if (user) resolvedUserId = user.id;
-      } catch (error) {
-        console.warn("Failed to get user from access token:", error);
-        return null;
-      }
-    }
-
-    // First get the clip to check ownership (if we have userId)
-    // Note: We still fetch to verify the clip exists, but ownership is checked at API level
+    // Verify the clip exists first
     const { data: clip, error: fetchError } = await client
       .from("audio_clips")
-      .select("uploaded_by")
+      .select("id")
       .eq("id", id)
       .single();
 
@@ -604,16 +870,6 @@ class SupabaseDatabase {
       return null;
     }
 
-    // Check if user owns this clip or is an admin (if we have userId)
-    const c = clip as any;
-    if (
-      resolvedUserId &&
-      c.uploaded_by !== resolvedUserId &&
-      !isAdmin(resolvedUserId)
-    ) {
-      throw new Error("Unauthorized to update this clip");
-    }
-
     // Convert updates to database format
     const dbUpdates: any = {};
 
@@ -621,6 +877,10 @@ class SupabaseDatabase {
       dbUpdates.title = updates.title;
     }
 
+    if (updates.hidden !== undefined) {
+      dbUpdates.hidden = updates.hidden;
+    }
+
     if (updates.metadata) {
       if (updates.metadata.language)
         dbUpdates.language = updates.metadata.language;
@@ -632,6 +892,8 @@ class SupabaseDatabase {
         dbUpdates.speaker_dialect = updates.metadata.speakerDialect;
       if (updates.metadata.transcript !== undefined)
         dbUpdates.transcript = updates.metadata.transcript;
+      if (updates.metadata.timedTranscript !== undefined)
+        dbUpdates.timed_transcript = updates.metadata.timedTranscript;
       if (updates.metadata.sourceUrl !== undefined)
         dbUpdates.source_url = updates.metadata.sourceUrl;
       if (updates.metadata.tags !== undefined)
@@ -681,6 +943,8 @@ class SupabaseDatabase {
       originalFilename: converted.originalFilename,
       fileSize: converted.fileSize,
       metadata: converted.metadata,
+      processing: converted.processing,
+      hidden: converted.hidden,
       uploadedBy: converted.uploadedBy,
       createdAt: converted.createdAt,
       updatedAt: converted.updatedAt,
@@ -1305,6 +1569,217 @@ class SupabaseDatabase {
     };
   }
 
+  // Spaced-repetition review methods
+  private convertProfileFromDb(p: any): User {
+    return {
+      id: p.id,
+      username: p.username,
+      email: p.email,
+      createdAt: p.created_at,
+      role: p.role ?? undefined,
+    };
+  }
+
+  private convertReviewFromDb(row: any): ClipReviewState {
+    return {
+      userId: row.user_id,
+      clipId: row.clip_id,
+      easeFactor: Number(row.ease_factor),
+      intervalDays: row.interval_days,
+      repetitions: row.repetitions,
+      lapses: row.lapses,
+      dueAt: row.due_at,
+      lastReviewedAt: row.last_reviewed_at,
+      lastGrade: row.last_grade,
+      lastAccuracy: row.last_accuracy ?? undefined,
+    };
+  }
+
+  async getClipReviewState(
+    userId: string,
+    clipId: string,
+    accessToken?: string
+  ): Promise<ClipReviewState | null> {
+    return this.monitorDbOperation('getClipReviewState', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { data, error } = await (client as any)
+        .from("clip_review_states")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("clip_id", clipId)
+        .maybeSingle();
+
+      if (error) {
+        if (error.message?.includes("does not exist") || error.code === "42P01") {
+          console.warn("clip_review_states table does not exist. Migration may not have been run.");
+          return null;
+        }
+        throw new Error(`Failed to get review state: ${error.message}`);
+      }
+
+      return data ? this.convertReviewFromDb(data) : null;
+    });
+  }
+
+  async getDueClipReviews(
+    userId: string,
+    until: Date = new Date(),
+    accessToken?: string
+  ): Promise<ClipReviewState[]> {
+    return this.monitorDbOperation('getDueClipReviews', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { data, error } = await (client as any)
+        .from("clip_review_states")
+        .select("*")
+        .eq("user_id", userId)
+        .lte("due_at", until.toISOString())
+        .order("due_at", { ascending: true });
+
+      if (error) {
+        if (error.message?.includes("does not exist") || error.code === "42P01") {
+          console.warn("clip_review_states table does not exist. Migration may not have been run.");
+          return [];
+        }
+        throw new Error(`Failed to get due reviews: ${error.message}`);
+      }
+
+      return (data || []).map((row: any) => this.convertReviewFromDb(row));
+    });
+  }
+
+  async recordClipReview(
+    userId: string,
+    clipId: string,
+    grade: ReviewGrade,
+    accuracy?: number,
+    accessToken?: string
+  ): Promise<ClipReviewState> {
+    const previous = await this.getClipReviewState(userId, clipId, accessToken);
+    const next = scheduleReview(previous, userId, clipId, grade, accuracy);
+
+    return this.monitorDbOperation('recordClipReview', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { error } = await (client as any)
+        .from("clip_review_states")
+        .upsert(
+          {
+            user_id: userId,
+            clip_id: clipId,
+            ease_factor: next.easeFactor,
+            interval_days: next.intervalDays,
+            repetitions: next.repetitions,
+            lapses: next.lapses,
+            due_at: next.dueAt,
+            last_reviewed_at: next.lastReviewedAt,
+            last_grade: next.lastGrade,
+            last_accuracy: next.lastAccuracy ?? null,
+          },
+          {
+            onConflict: "user_id,clip_id",
+          }
+        );
+
+      if (error) {
+        throw new Error(`Failed to record review: ${error.message}`);
+      }
+
+      return next;
+    });
+  }
+
+  // Practice session methods
+  private convertPracticeSessionFromDb(row: any): PracticeSession {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      clipId: row.clip_id,
+      language: row.language,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      secondsPracticed: Number(row.seconds_practiced),
+      loops: row.loops,
+      playbackRates: (row.playback_rates || []).map(Number),
+      transcriptionAccuracy:
+        row.transcription_accuracy !== null
+          ? Number(row.transcription_accuracy)
+          : undefined,
+      normalizationRules: row.normalization_rules ?? undefined,
+      recordingScore: row.recording_score ?? undefined,
+    };
+  }
+
+  async createPracticeSession(
+    userId: string,
+    session: NewPracticeSession,
+    accessToken?: string
+  ): Promise<PracticeSession> {
+    return this.monitorDbOperation('createPracticeSession', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { data, error } = await (client as any)
+        .from("practice_sessions")
+        .insert({
+          user_id: userId,
+          clip_id: session.clipId,
+          language: session.language,
+          started_at: session.startedAt,
+          ended_at: session.endedAt,
+          seconds_practiced: session.secondsPracticed,
+          loops: session.loops,
+          playback_rates: session.playbackRates,
+          transcription_accuracy: session.transcriptionAccuracy ?? null,
+          normalization_rules: session.normalizationRules ?? null,
+          recording_score: session.recordingScore ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save practice session: ${error.message}`);
+      }
+
+      return this.convertPracticeSessionFromDb(data);
+    }, { retry: false }); // Inserts are not idempotent
+  }
+
+  async getPracticeSessions(
+    userId: string,
+    options: { clipId?: string } = {},
+    accessToken?: string
+  ): Promise<PracticeSession[]> {
+    return this.monitorDbOperation('getPracticeSessions', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      let query = (client as any)
+        .from("practice_sessions")
+        .select("*")
+        .eq("user_id", userId);
+
+      if (options.clipId) {
+        query = query.eq("clip_id", options.clipId);
+      }
+
+      const { data, error } = await query.order("started_at", {
+        ascending: false,
+      });
+
+      if (error) {
+        if (error.message?.includes("does not exist") || error.code === "42P01") {
+          console.warn("practice_sessions table does not exist. Migration may not have been run.");
+          return [];
+        }
+        throw new Error(`Failed to get practice sessions: ${error.message}`);
+      }
+
+      return (data || []).map((row: any) =>
+        this.convertPracticeSessionFromDb(row)
+      );
+    });
+  }
+
   // User filter preferences methods
   async getUserFilterPreferences(
     userId: string,
@@ -1452,6 +1927,417 @@ class SupabaseDatabase {
       throw new Error(`Failed to save user filter preferences: ${error.message}`);
     }
   }
+
+  // Audio settings a user changed from the defaults (profiles.audio_settings)
+  async getUserAudioSettings(
+    userId: string,
+    accessToken?: string
+  ): Promise<AudioSettingsPreferences | null> {
+    const client = this.getAuthenticatedClient(accessToken);
+
+    const { data, error } = await client
+      .from("profiles")
+      .select("audio_settings")
+      .eq("id", userId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      if (error.message?.includes("does not exist") || error.message?.includes("column")) {
+        console.warn("audio_settings column does not exist yet. Please run migrations/add_audio_settings.sql.");
+        return null;
+      }
+      throw new Error(`Failed to get user audio settings: ${error.message}`);
+    }
+
+    const settings = (data as any)?.audio_settings;
+    return settings && typeof settings === "object"
+      ? (settings as AudioSettingsPreferences)
+      : null;
+  }
+
+  async saveUserAudioSettings(
+    userId: string,
+    settings: AudioSettingsPreferences | null,
+    accessToken?: string
+  ): Promise<void> {
+    const client = this.getAuthenticatedClient(accessToken);
+
+    const { error } = await (client as any)
+      .from("profiles")
+      .update({ audio_settings: settings })
+      .eq("id", userId);
+
+    if (error) {
+      throw new Error(`Failed to save user audio settings: ${error.message}`);
+    }
+  }
+
+  // User roles (see lib/permissions)
+  async getUserRole(userId: string, accessToken?: string): Promise<UserRole | null> {
+    return this.monitorDbOperation('getUserRole', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+      const { data, error } = await client
+        .from("profiles")
+        .select("role")
+        .eq("id", userId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+      return (data as any).role ?? null;
+    });
+  }
+
+  async setUserRole(
+    userId: string,
+    role: UserRole,
+    accessToken?: string
+  ): Promise<User | null> {
+    const client = this.getAuthenticatedClient(accessToken);
+
+    const { data, error } = await (client as any)
+      .from("profiles")
+      .update({ role })
+      .eq("id", userId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        // No rows returned
+        return null;
+      }
+      throw new Error(`Failed to set user role: ${error.message}`);
+    }
+
+    return this.convertProfileFromDb(data);
+  }
+
+  async getProfiles(accessToken?: string): Promise<User[]> {
+    return this.monitorDbOperation('getProfiles', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+      const { data, error } = await client
+        .from("profiles")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get profiles: ${error.message}`);
+      }
+      return (data || []).map((row: any) => this.convertProfileFromDb(row));
+    });
+  }
+
+  // Clip reports and the moderation log (see migrations/add_moderation.sql)
+  private convertClipReportFromDb(row: any): ClipReport {
+    return {
+      id: row.id,
+      clipId: row.clip_id,
+      reporterId: row.reporter_id,
+      reason: row.reason,
+      details: row.details ?? undefined,
+      status: row.status,
+      createdAt: row.created_at,
+      closedAt: row.closed_at ?? undefined,
+      closedBy: row.closed_by ?? undefined,
+    };
+  }
+
+  private convertModerationActionFromDb(row: any): ModerationAction {
+    return {
+      id: row.id,
+      clipId: row.clip_id,
+      clipTitle: row.clip_title,
+      actorId: row.actor_id,
+      action: row.action,
+      note: row.note ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  async createClipReport(
+    report: NewClipReport,
+    accessToken?: string
+  ): Promise<ClipReport> {
+    return this.monitorDbOperation('createClipReport', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { data, error } = await (client as any)
+        .from("clip_reports")
+        .insert({
+          clip_id: report.clipId,
+          reporter_id: report.reporterId,
+          reason: report.reason,
+          details: report.details ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save clip report: ${error.message}`);
+      }
+
+      return this.convertClipReportFromDb(data);
+    }, { retry: false }); // Inserts are not idempotent
+  }
+
+  async getClipReports(
+    filter: { status?: ReportStatus; clipId?: string } = {},
+    accessToken?: string
+  ): Promise<ClipReport[]> {
+    return this.monitorDbOperation('getClipReports', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      let query = (client as any).from("clip_reports").select("*");
+      if (filter.status) {
+        query = query.eq("status", filter.status);
+      }
+      if (filter.clipId) {
+        query = query.eq("clip_id", filter.clipId);
+      }
+
+      const { data, error } = await query.order("created_at", { ascending: true });
+
+      if (error) {
+        if (error.message?.includes("does not exist") || error.code === "42P01") {
+          console.warn("clip_reports table does not exist. Migration may not have been run.");
+          return [];
+        }
+        throw new Error(`Failed to get clip reports: ${error.message}`);
+      }
+
+      return (data || []).map((row: any) => this.convertClipReportFromDb(row));
+    });
+  }
+
+  async closeClipReports(
+    clipId: string,
+    status: Exclude<ReportStatus, "open">,
+    closedBy: string,
+    accessToken?: string
+  ): Promise<number> {
+    const client = this.getAuthenticatedClient(accessToken);
+
+    const { data, error } = await (client as any)
+      .from("clip_reports")
+      .update({ status, closed_at: new Date().toISOString(), closed_by: closedBy })
+      .eq("clip_id", clipId)
+      .eq("status", "open")
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to close clip reports: ${error.message}`);
+    }
+
+    return (data || []).length;
+  }
+
+  async logModerationAction(
+    action: NewModerationAction,
+    accessToken?: string
+  ): Promise<ModerationAction> {
+    return this.monitorDbOperation('logModerationAction', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { data, error } = await (client as any)
+        .from("moderation_log")
+        .insert({
+          clip_id: action.clipId,
+          clip_title: action.clipTitle,
+          actor_id: action.actorId,
+          action: action.action,
+          note: action.note ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to write moderation log: ${error.message}`);
+      }
+
+      return this.convertModerationActionFromDb(data);
+    }, { retry: false }); // Inserts are not idempotent
+  }
+
+  async getModerationLog(
+    options: { clipId?: string; limit?: number } = {},
+    accessToken?: string
+  ): Promise<ModerationAction[]> {
+    return this.monitorDbOperation('getModerationLog', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      let query = (client as any).from("moderation_log").select("*");
+      if (options.clipId) {
+        query = query.eq("clip_id", options.clipId);
+      }
+      query = query.order("created_at", { ascending: false });
+      if (options.limit) {
+        query = query.limit(options.limit);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (error.message?.includes("does not exist") || error.code === "42P01") {
+          console.warn("moderation_log table does not exist. Migration may not have been run.");
+          return [];
+        }
+        throw new Error(`Failed to get moderation log: ${error.message}`);
+      }
+
+      return (data || []).map((row: any) => this.convertModerationActionFromDb(row));
+    });
+  }
+
+  // Study decks (see migrations/add_decks.sql)
+  private convertDeckFromDb(row: any): Deck {
+    const entries: Array<{ clip_id: string; position: number }> = row.deck_clips || [];
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      name: row.name,
+      description: row.description ?? undefined,
+      isPublic: row.is_public,
+      clipIds: entries
+        .sort((a, b) => a.position - b.position)
+        .map((entry) => entry.clip_id),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async getDecks(
+    filter: { ownerId?: string; isPublic?: boolean } = {},
+    accessToken?: string
+  ): Promise<Deck[]> {
+    return this.monitorDbOperation('getDecks', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      let query = (client as any).from("decks").select("*, deck_clips(clip_id, position)");
+      if (filter.ownerId) {
+        query = query.eq("owner_id", filter.ownerId);
+      }
+      if (filter.isPublic !== undefined) {
+        query = query.eq("is_public", filter.isPublic);
+      }
+
+      const { data, error } = await query.order("updated_at", { ascending: false });
+
+      if (error) {
+        if (error.message?.includes("does not exist") || error.code === "42P01") {
+          console.warn("decks table does not exist. Migration may not have been run.");
+          return [];
+        }
+        throw new Error(`Failed to get decks: ${error.message}`);
+      }
+
+      return (data || []).map((row: any) => this.convertDeckFromDb(row));
+    });
+  }
+
+  async getDeckById(id: string, accessToken?: string): Promise<Deck | null> {
+    return this.monitorDbOperation('getDeckById', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { data, error } = await (client as any)
+        .from("decks")
+        .select("*, deck_clips(clip_id, position)")
+        .eq("id", id)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+      return this.convertDeckFromDb(data);
+    });
+  }
+
+  // Replaces a deck's clip list
+  private async setDeckClips(client: any, deckId: string, clipIds: string[]): Promise<void> {
+    const { error: deleteError } = await client.from("deck_clips").delete().eq("deck_id", deckId);
+    if (deleteError) {
+      throw new Error(`Failed to update deck clips: ${deleteError.message}`);
+    }
+    if (clipIds.length === 0) return;
+
+    const { error } = await client.from("deck_clips").insert(
+      clipIds.map((clipId, position) => ({ deck_id: deckId, clip_id: clipId, position }))
+    );
+    if (error) {
+      throw new Error(`Failed to update deck clips: ${error.message}`);
+    }
+  }
+
+  async createDeck(ownerId: string, deck: NewDeck, accessToken?: string): Promise<Deck> {
+    return this.monitorDbOperation('createDeck', async () => {
+      const client = this.getAuthenticatedClient(accessToken);
+
+      const { data, error } = await (client as any)
+        .from("decks")
+        .insert({
+          owner_id: ownerId,
+          name: deck.name,
+          description: deck.description ?? null,
+          is_public: deck.isPublic,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create deck: ${error.message}`);
+      }
+
+      await this.setDeckClips(client, data.id, deck.clipIds);
+      return { ...this.convertDeckFromDb(data), clipIds: deck.clipIds };
+    }, { retry: false }); // Inserts are not idempotent
+  }
+
+  // Permissions are checked by the API routes; RLS limits changes to owners
+  async updateDeck(id: string, updates: DeckUpdate, accessToken?: string): Promise<Deck | null> {
+    const client = this.getAuthenticatedClient(accessToken);
+
+    const dbUpdates: any = { updated_at: new Date().toISOString() };
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if ("description" in updates) dbUpdates.description = updates.description ?? null;
+    if (updates.isPublic !== undefined) dbUpdates.is_public = updates.isPublic;
+
+    const { data, error } = await (client as any)
+      .from("decks")
+      .update(dbUpdates)
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to update deck: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    if (updates.clipIds) {
+      await this.setDeckClips(client, id, updates.clipIds);
+    }
+    return this.getDeckById(id, accessToken);
+  }
+
+  async deleteDeck(id: string, accessToken?: string): Promise<boolean> {
+    const client = this.getAuthenticatedClient(accessToken);
+
+    const { data, error } = await (client as any)
+      .from("decks")
+      .delete()
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to delete deck: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  }
 }
 
 export const serverDb = new SupabaseDatabase();
@@ -0,0 +1,120 @@
+/**
+ * Shadowing sessions: a list of clips played one after another on
+ * /chorus/[clipId], each for a set number of loops, optionally slowed down
+ * at first and with a pause after every loop to repeat aloud. The session
+ * lives in localStorage so it can be resumed after a reload.
+ */
+
+import type {
+  ShadowingSession,
+  ShadowingSettings,
+  ShadowingSource,
+} from "@/types/practice";
+
+export const SHADOWING_LOOPS_OPTIONS = [1, 2, 3, 5, 10];
+export const REPEAT_GAP_OPTIONS = [0, 1, 2, 3, 5, 10]; // seconds
+export const SPEED_STEP_DOWN_SCHEDULE = [0.75, 0.9, 1.0];
+
+export const DEFAULT_SHADOWING_SETTINGS: ShadowingSettings = {
+  loopsPerClip: 3,
+  speedSchedule: SPEED_STEP_DOWN_SCHEDULE,
+  repeatGapSeconds: 0,
+};
+
+export const SHADOWING_SOURCE_LABELS: Record<ShadowingSource, string> = {
+  library: "Library results",
+  starred: "Starred clips",
+  related: "Related clips",
+};
+
+const SESSION_KEY = "chorus-shadowing-session";
+const SETTINGS_KEY = "chorus-shadowing-settings";
+
+/**
+ * Playback rate for a loop: the schedule is spread over the clip's loops so
+ * the first loop plays at the first rate and the last at the last one
+ */
+export function shadowingRate(settings: ShadowingSettings, loopsDone: number): number {
+  const schedule = settings.speedSchedule.length > 0 ? settings.speedSchedule : [1];
+  if (settings.loopsPerClip <= 1) return schedule[schedule.length - 1];
+
+  const step = Math.floor(
+    (Math.min(loopsDone, settings.loopsPerClip - 1) * (schedule.length - 1)) /
+      (settings.loopsPerClip - 1)
+  );
+  return schedule[step];
+}
+
+// The page a session is at: its current clip, in session mode
+export function shadowingUrl(session: ShadowingSession): string {
+  return `/chorus/${session.clipIds[session.index]}?shadowing=1`;
+}
+
+export function loadShadowingSettings(): ShadowingSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SHADOWING_SETTINGS;
+    return { ...DEFAULT_SHADOWING_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_SHADOWING_SETTINGS;
+  }
+}
+
+export function saveShadowingSettings(settings: ShadowingSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // localStorage unavailable — ignore
+  }
+}
+
+export function loadShadowingSession(): ShadowingSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (!stored) return null;
+    const session: ShadowingSession = JSON.parse(stored);
+    if (!Array.isArray(session.clipIds) || !session.clipIds[session.index]) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function saveShadowingSession(session: ShadowingSession): void {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // localStorage unavailable — ignore
+  }
+}
+
+export function clearShadowingSession(): void {
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Starts a new session over the given clips with the last settings used,
+ * replacing any unfinished one
+ * @returns The session, to navigate to with shadowingUrl()
+ */
+export function startShadowingSession(
+  clipIds: string[],
+  source: ShadowingSource
+): ShadowingSession {
+  const session: ShadowingSession = {
+    clipIds: Array.from(new Set(clipIds)),
+    source,
+    index: 0,
+    loopsDone: 0,
+    settings: loadShadowingSettings(),
+    startedAt: new Date().toISOString(),
+  };
+  saveShadowingSession(session);
+  return session;
+}
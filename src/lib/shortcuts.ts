@@ -0,0 +1,274 @@
+/**
+ * Keyboard shortcut registry: every action the players and the clip editor
+ * react to, its default key, and where it applies. Users can rebind any
+ * action; their changes are stored as overrides on top of these defaults
+ * (AudioSettingsPreferences.keyboardShortcuts).
+ */
+
+import type { KeyboardShortcuts, ShortcutAction } from "@/types/audio";
+
+// Pages with their own set of shortcuts. Bindings only clash within a scope.
+export type ShortcutScope = "chorus" | "editor";
+
+export const SHORTCUT_SCOPE_LABELS: Record<ShortcutScope, string> = {
+  chorus: "Chorus practice",
+  editor: "Clip creator",
+};
+
+interface ShortcutDefinition {
+  label: string;
+  defaultBinding: string;
+  scopes: ShortcutScope[];
+  aliases?: string[]; // extra keys that always work, e.g. the numpad
+}
+
+export const SHORTCUTS: Record<ShortcutAction, ShortcutDefinition> = {
+  playPause: { label: "Play / pause", defaultBinding: "Space", scopes: ["chorus", "editor"] },
+  stop: { label: "Stop", defaultBinding: "KeyS", scopes: ["chorus"] },
+  restart: { label: "Restart", defaultBinding: "KeyR", scopes: ["chorus"] },
+  toggleLoop: { label: "Toggle loop", defaultBinding: "KeyL", scopes: ["chorus"] },
+  skipBack: { label: "Skip back", defaultBinding: "ArrowLeft", scopes: ["chorus", "editor"] },
+  skipForward: {
+    label: "Skip forward",
+    defaultBinding: "ArrowRight",
+    scopes: ["chorus", "editor"],
+  },
+  volumeUp: { label: "Volume up", defaultBinding: "ArrowUp", scopes: ["chorus"] },
+  volumeDown: { label: "Volume down", defaultBinding: "ArrowDown", scopes: ["chorus"] },
+  setRegionStart: {
+    label: "Start selection here",
+    defaultBinding: "BracketLeft",
+    scopes: ["chorus", "editor"],
+  },
+  setRegionEnd: {
+    label: "End selection here",
+    defaultBinding: "BracketRight",
+    scopes: ["chorus", "editor"],
+  },
+  nudgeRegionStart: {
+    label: "Move selection start back 0.1s",
+    defaultBinding: "Shift+BracketLeft",
+    scopes: ["editor"],
+  },
+  nudgeRegionEnd: {
+    label: "Move selection end forward 0.1s",
+    defaultBinding: "Shift+BracketRight",
+    scopes: ["editor"],
+  },
+  clearRegion: { label: "Clear selection", defaultBinding: "KeyQ", scopes: ["chorus"] },
+  cancelSelection: { label: "Clear selection", defaultBinding: "Escape", scopes: ["editor"] },
+  extractClip: { label: "Extract selection", defaultBinding: "Enter", scopes: ["editor"] },
+  addToBatch: { label: "Add selection to batch", defaultBinding: "KeyB", scopes: ["editor"] },
+  zoomIn: {
+    label: "Zoom in",
+    defaultBinding: "Equal",
+    scopes: ["editor"],
+    aliases: ["Shift+Equal", "NumpadAdd"],
+  },
+  zoomOut: {
+    label: "Zoom out",
+    defaultBinding: "Minus",
+    scopes: ["editor"],
+    aliases: ["NumpadSubtract"],
+  },
+  zoomToFit: { label: "Zoom to fit", defaultBinding: "Mod+Digit0", scopes: ["editor"] },
+  toggleReveal: { label: "Show / hide transcript", defaultBinding: "KeyT", scopes: ["chorus"] },
+  checkTranscription: {
+    label: "Check transcription",
+    defaultBinding: "Mod+Enter",
+    scopes: ["chorus"],
+  },
+  showShortcuts: {
+    label: "Show keyboard shortcuts",
+    defaultBinding: "Shift+Slash",
+    scopes: ["chorus", "editor"],
+  },
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(SHORTCUTS) as ShortcutAction[];
+
+export const DEFAULT_KEYBOARD_SHORTCUTS = Object.fromEntries(
+  SHORTCUT_ACTIONS.map((action) => [action, SHORTCUTS[action].defaultBinding])
+) as unknown as KeyboardShortcuts;
+
+// Shortcuts that move the playhead or the volume step by this much
+export const SKIP_SECONDS = 2;
+export const VOLUME_STEP = 0.1;
+
+// Modifiers in the order bindings are written
+const MODIFIERS = ["Mod", "Alt", "Shift"] as const;
+
+// Keys that only make sense together with another key
+const MODIFIER_CODES = [
+  "ShiftLeft",
+  "ShiftRight",
+  "ControlLeft",
+  "ControlRight",
+  "AltLeft",
+  "AltRight",
+  "MetaLeft",
+  "MetaRight",
+];
+
+/**
+ * The binding a key press stands for, in the same form as stored bindings
+ * @returns null for a modifier key pressed on its own
+ */
+export function bindingFromEvent(
+  e: Pick<KeyboardEvent, "code" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">
+): string | null {
+  if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push("Mod");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey) parts.push("Shift");
+  parts.push(e.code);
+  return parts.join("+");
+}
+
+/**
+ * Writes a binding with its modifiers in the usual order
+ * @returns null if it isn't a valid binding
+ */
+export function normalizeBinding(binding: string): string | null {
+  const parts = binding.split("+").map((part) => part.trim());
+  const code = parts.pop();
+  if (!code || !/^[A-Za-z0-9]+$/.test(code) || MODIFIER_CODES.includes(code)) {
+    return null;
+  }
+  if (!parts.every((part) => (MODIFIERS as readonly string[]).includes(part))) {
+    return null;
+  }
+  return [...MODIFIERS.filter((modifier) => parts.includes(modifier)), code].join("+");
+}
+
+// Defaults with the user's changes applied
+export function resolveShortcuts(overrides?: Partial<KeyboardShortcuts> | null): KeyboardShortcuts {
+  return { ...DEFAULT_KEYBOARD_SHORTCUTS, ...overrides };
+}
+
+// The action a key press triggers on a page, if any
+export function matchShortcut(
+  e: KeyboardEvent,
+  shortcuts: KeyboardShortcuts,
+  scope: ShortcutScope
+): ShortcutAction | null {
+  const binding = bindingFromEvent(e);
+  if (!binding) return null;
+  return (
+    SHORTCUT_ACTIONS.find(
+      (action) =>
+        SHORTCUTS[action].scopes.includes(scope) &&
+        (shortcuts[action] === binding || SHORTCUTS[action].aliases?.includes(binding))
+    ) ?? null
+  );
+}
+
+/**
+ * Actions bound to the same key on the same page
+ * @returns One entry per clashing binding, with the actions that share it
+ */
+export function findShortcutConflicts(
+  shortcuts: KeyboardShortcuts
+): { binding: string; actions: ShortcutAction[] }[] {
+  const conflicts: { binding: string; actions: ShortcutAction[] }[] = [];
+
+  SHORTCUT_ACTIONS.forEach((action, i) => {
+    const keys = [shortcuts[action], ...(SHORTCUTS[action].aliases ?? [])];
+    SHORTCUT_ACTIONS.slice(i + 1).forEach((other) => {
+      const sharesScope = SHORTCUTS[action].scopes.some((scope) =>
+        SHORTCUTS[other].scopes.includes(scope)
+      );
+      const otherKeys = [shortcuts[other], ...(SHORTCUTS[other].aliases ?? [])];
+      const binding = keys.find((key) => otherKeys.includes(key));
+      if (!sharesScope || !binding) return;
+
+      const existing = conflicts.find((conflict) => conflict.binding === binding);
+      if (existing) {
+        if (!existing.actions.includes(other)) existing.actions.push(other);
+      } else {
+        conflicts.push({ binding, actions: [action, other] });
+      }
+    });
+  });
+
+  return conflicts;
+}
+
+/**
+ * Checks shortcut changes sent to the API: known actions, valid bindings,
+ * and no two actions on one key once applied to the defaults
+ * @returns Only the bindings that differ from the defaults, or an error
+ */
+export function sanitizeShortcutOverrides(
+  input: unknown
+): { overrides: Partial<KeyboardShortcuts>; error?: undefined } | { overrides?: undefined; error: string } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Invalid keyboard shortcuts" };
+  }
+
+  const overrides: Partial<KeyboardShortcuts> = {};
+  for (const [action, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!(action in SHORTCUTS)) {
+      return { error: `Unknown shortcut action: ${action}` };
+    }
+    const binding = typeof value === "string" ? normalizeBinding(value) : null;
+    if (!binding) {
+      return { error: `Invalid key for ${action}` };
+    }
+    if (binding !== SHORTCUTS[action as ShortcutAction].defaultBinding) {
+      overrides[action as ShortcutAction] = binding;
+    }
+  }
+
+  const conflict = findShortcutConflicts(resolveShortcuts(overrides))[0];
+  if (conflict) {
+    return {
+      error: `${formatBinding(conflict.binding)} is used by more than one action: ${conflict.actions
+        .map((action) => SHORTCUTS[action].label)
+        .join(", ")}`,
+    };
+  }
+
+  return { overrides };
+}
+
+const KEY_LABELS: Record<string, string> = {
+  Space: "Space",
+  Enter: "Enter",
+  Escape: "Esc",
+  Backspace: "Backspace",
+  Tab: "Tab",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Equal: "=",
+  Minus: "-",
+  Slash: "/",
+  Backslash: "\\",
+  Semicolon: ";",
+  Quote: "'",
+  Comma: ",",
+  Period: ".",
+  Backquote: "`",
+  NumpadAdd: "Num +",
+  NumpadSubtract: "Num -",
+};
+
+// A binding as shown to people, e.g. 'Mod+Digit0' as 'Ctrl+0'
+export function formatBinding(binding: string): string {
+  return binding
+    .split("+")
+    .map((part) => {
+      if (part === "Mod") return "Ctrl/⌘";
+      if (KEY_LABELS[part]) return KEY_LABELS[part];
+      if (/^Key[A-Z]$/.test(part)) return part.slice(3);
+      if (/^Digit\d$/.test(part)) return part.slice(5);
+      if (/^Numpad\d$/.test(part)) return `Num ${part.slice(6)}`;
+      return part;
+    })
+    .join("+");
+}
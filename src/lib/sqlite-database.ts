@@ -0,0 +1,1445 @@
+// SQLite backend for local mode - same methods as the JSON-file LocalDatabase,
+// with transactions instead of whole-file rewrites. Enabled with
+// LOCAL_DB_BACKEND=sqlite.
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  AudioClip,
+  AudioFilters,
+  AudioSettingsPreferences,
+  AudioSort,
+  FilterPreferences,
+  SearchResultClip,
+} from '@/types/audio';
+import type {
+  ClipReviewState,
+  ReviewGrade,
+  PracticeSession,
+  NewPracticeSession,
+} from '@/types/practice';
+import type { UserRole } from '@/types/auth';
+import type {
+  ClipReport,
+  ModerationAction,
+  NewClipReport,
+  NewModerationAction,
+  ReportStatus,
+} from '@/types/moderation';
+import type { Deck, DeckUpdate, NewDeck } from '@/types/deck';
+import type { LocalDataStore } from '@/lib/local-database';
+import { scheduleReview, sortByDue } from '@/lib/srs';
+import { ClipSearchIndex, isSearchQuery, searchMatch } from '@/lib/clip-search';
+import {
+  cursorAfter,
+  speedPercentileIndexes,
+  type SortKey,
+  type SpeedPercentiles,
+  type SpeedRange,
+} from '@/lib/clip-pagination';
+import type { ClipListingOptions, ClipPage, ClipPageRequest } from '@/lib/storage/types';
+import { hashPasswordSync, isPasswordHash, verifyPassword } from '@/lib/password-hash';
+import {
+  DATA_DIR,
+  ensureDirectories,
+  getDefaultUsers,
+  LocalFileStore,
+  readJsonFile,
+  upgradeStoredUser,
+  type LocalAuthSession,
+  type LocalDialect,
+  type LocalStar,
+  type LocalUser,
+  type LocalVote,
+  type StoredLocalUser,
+} from '@/lib/local-data';
+
+const DB_FILE = path.join(DATA_DIR, 'chorus-lab.db');
+
+// ============================================
+// SCHEMA MIGRATIONS
+// ============================================
+
+// Applied in order; PRAGMA user_version holds the last applied version.
+// Never edit a released migration - add a new one. `upgrade` runs after the
+// SQL, in the same transaction, for data changes SQL can't express.
+const MIGRATIONS: Array<{
+  version: number;
+  description: string;
+  sql: string;
+  upgrade?: (db: Database.Database) => void;
+}> = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    sql: `
+      -- The full clip is kept as JSON in data; the other columns copy the
+      -- fields clips are filtered and sorted by
+      CREATE TABLE clips (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        language TEXT NOT NULL,
+        speaker_gender TEXT,
+        speaker_age_range TEXT,
+        speaker_dialect TEXT,
+        uploaded_by TEXT NOT NULL,
+        duration REAL NOT NULL,
+        difficulty REAL, -- average of difficulty_ratings
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_clips_language ON clips (language, created_at);
+      CREATE INDEX idx_clips_speaker_gender ON clips (speaker_gender);
+      CREATE INDEX idx_clips_speaker_age_range ON clips (speaker_age_range);
+      CREATE INDEX idx_clips_speaker_dialect ON clips (speaker_dialect);
+      CREATE INDEX idx_clips_uploaded_by ON clips (uploaded_by);
+      CREATE INDEX idx_clips_created_at ON clips (created_at);
+
+      CREATE TABLE clip_tags (
+        clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (clip_id, tag)
+      );
+      CREATE INDEX idx_clip_tags_tag ON clip_tags (tag);
+
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        username TEXT NOT NULL UNIQUE,
+        password TEXT NOT NULL,
+        is_admin INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE votes (
+        clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+        username_or_id TEXT NOT NULL,
+        vote_type TEXT NOT NULL CHECK (vote_type IN ('up', 'down')),
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (clip_id, username_or_id)
+      );
+
+      CREATE TABLE stars (
+        clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (clip_id, user_id)
+      );
+      CREATE INDEX idx_stars_user_id ON stars (user_id);
+
+      CREATE TABLE difficulty_ratings (
+        clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+        username_or_id TEXT NOT NULL,
+        difficulty REAL NOT NULL,
+        PRIMARY KEY (clip_id, username_or_id)
+      );
+
+      CREATE TABLE dialects (
+        id TEXT PRIMARY KEY,
+        language TEXT NOT NULL,
+        dialect TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (language, dialect)
+      );
+
+      CREATE TABLE preferences (
+        user_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE reviews (
+        user_id TEXT NOT NULL,
+        clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+        due_at TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (user_id, clip_id)
+      );
+      CREATE INDEX idx_reviews_due ON reviews (user_id, due_at);
+
+      -- No foreign key: practice history outlives deleted clips
+      CREATE TABLE practice_sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        clip_id TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_practice_sessions_user ON practice_sessions (user_id, started_at);
+      CREATE INDEX idx_practice_sessions_clip ON practice_sessions (user_id, clip_id);
+
+      CREATE TABLE meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    description: 'Hashed passwords and auth sessions',
+    sql: `
+      ALTER TABLE users RENAME COLUMN password TO password_hash;
+
+      CREATE TABLE auth_sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_auth_sessions_expires_at ON auth_sessions (expires_at);
+    `,
+    upgrade(db) {
+      const rows = db.prepare('SELECT id, password_hash FROM users').all() as Array<{
+        id: string;
+        password_hash: string;
+      }>;
+      const update = db.prepare('UPDATE users SET password_hash = ? WHERE id = ?');
+      rows
+        .filter(row => !isPasswordHash(row.password_hash))
+        .forEach(row => update.run(hashPasswordSync(row.password_hash), row.id));
+    },
+  },
+  {
+    version: 3,
+    description: 'User roles',
+    sql: `
+      ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'learner'
+        CHECK (role IN ('learner', 'contributor', 'curator', 'admin'));
+      UPDATE users SET role = 'admin' WHERE is_admin = 1;
+      ALTER TABLE users DROP COLUMN is_admin;
+    `,
+  },
+  {
+    version: 4,
+    description: 'Clip reports and moderation log',
+    sql: `
+      ALTER TABLE clips ADD COLUMN hidden INTEGER NOT NULL DEFAULT 0;
+      CREATE INDEX idx_clips_hidden ON clips (hidden);
+
+      CREATE TABLE clip_reports (
+        id TEXT PRIMARY KEY,
+        clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+        reporter_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        details TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+        created_at TEXT NOT NULL,
+        closed_at TEXT,
+        closed_by TEXT
+      );
+      CREATE INDEX idx_clip_reports_status ON clip_reports (status, created_at);
+      CREATE INDEX idx_clip_reports_clip ON clip_reports (clip_id);
+
+      -- No foreign key: the log outlives deleted clips
+      CREATE TABLE moderation_log (
+        id TEXT PRIMARY KEY,
+        clip_id TEXT NOT NULL,
+        clip_title TEXT NOT NULL,
+        actor_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        note TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_moderation_log_created_at ON moderation_log (created_at);
+      CREATE INDEX idx_moderation_log_clip ON moderation_log (clip_id);
+    `,
+  },
+  {
+    version: 5,
+    description: 'Study decks',
+    sql: `
+      CREATE TABLE decks (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        is_public INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_decks_owner ON decks (owner_id, updated_at);
+      CREATE INDEX idx_decks_public ON decks (is_public, updated_at);
+
+      CREATE TABLE deck_clips (
+        deck_id TEXT NOT NULL REFERENCES decks (id) ON DELETE CASCADE,
+        clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        PRIMARY KEY (deck_id, clip_id)
+      );
+      CREATE INDEX idx_deck_clips_clip ON deck_clips (clip_id);
+    `,
+  },
+  {
+    version: 6,
+    description: 'Audio settings',
+    sql: `
+      CREATE TABLE audio_settings (
+        user_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+    `,
+  },
+];
+
+function migrate(db: Database.Database): number {
+  const from = db.pragma('user_version', { simple: true }) as number;
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= from) continue;
+    db.transaction(() => {
+      db.exec(migration.sql);
+      migration.upgrade?.(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    console.log(`🗄️ Applied SQLite migration ${migration.version}: ${migration.description}`);
+  }
+
+  return from;
+}
+
+// ============================================
+// ROW MAPPING
+// ============================================
+
+interface ClipRow {
+  data: string;
+  difficulty: number | null;
+  ratings: string; // JSON object of difficulty rating per user
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  username: string;
+  password_hash: string;
+  role: UserRole;
+  created_at: string;
+}
+
+interface ReportRow {
+  id: string;
+  clip_id: string;
+  reporter_id: string;
+  reason: ClipReport['reason'];
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  closed_at: string | null;
+  closed_by: string | null;
+}
+
+interface ModerationLogRow {
+  id: string;
+  clip_id: string;
+  clip_title: string;
+  actor_id: string;
+  action: ModerationAction['action'];
+  note: string | null;
+  created_at: string;
+}
+
+interface DeckRow {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+  is_public: number;
+  created_at: string;
+  updated_at: string;
+  clip_ids: string; // JSON array, in play order
+}
+
+const DECK_COLUMNS = `
+  d.*,
+  (SELECT json_group_array(clip_id)
+     FROM (SELECT clip_id FROM deck_clips WHERE deck_id = d.id ORDER BY position)) AS clip_ids
+`;
+
+const CLIP_COLUMNS = `
+  c.data,
+  c.difficulty,
+  (SELECT json_group_object(r.username_or_id, r.difficulty)
+     FROM difficulty_ratings r WHERE r.clip_id = c.id) AS ratings
+`;
+
+// Difficulty ratings are attached the way the JSON backend stores them
+function toClip(row: ClipRow): AudioClip {
+  const clip = JSON.parse(row.data);
+  if (row.difficulty !== null) {
+    clip.difficultyRatings = JSON.parse(row.ratings);
+    clip.difficulty = row.difficulty;
+  }
+  return clip;
+}
+
+function toUser(row: UserRow): LocalUser {
+  return {
+    id: row.id,
+    email: row.email,
+    username: row.username,
+    passwordHash: row.password_hash,
+    role: row.role,
+    createdAt: row.created_at,
+  };
+}
+
+function toReport(row: ReportRow): ClipReport {
+  return {
+    id: row.id,
+    clipId: row.clip_id,
+    reporterId: row.reporter_id,
+    reason: row.reason,
+    details: row.details ?? undefined,
+    status: row.status,
+    createdAt: row.created_at,
+    closedAt: row.closed_at ?? undefined,
+    closedBy: row.closed_by ?? undefined,
+  };
+}
+
+function toModerationAction(row: ModerationLogRow): ModerationAction {
+  return {
+    id: row.id,
+    clipId: row.clip_id,
+    clipTitle: row.clip_title,
+    actorId: row.actor_id,
+    action: row.action,
+    note: row.note ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function toDeck(row: DeckRow): Deck {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    isPublic: row.is_public === 1,
+    clipIds: JSON.parse(row.clip_ids),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Values for the clips table; ratings live in their own table
+function clipParams(clip: AudioClip) {
+  const { difficulty: _difficulty, difficultyRatings: _ratings, ...data } = clip as AudioClip & {
+    difficulty?: number;
+    difficultyRatings?: Record<string, number>;
+  };
+  return {
+    id: clip.id,
+    title: clip.title,
+    language: clip.metadata.language,
+    speakerGender: clip.metadata.speakerGender ?? null,
+    speakerAgeRange: clip.metadata.speakerAgeRange ?? null,
+    speakerDialect: clip.metadata.speakerDialect ?? null,
+    uploadedBy: clip.uploadedBy,
+    duration: clip.duration,
+    hidden: clip.hidden ? 1 : 0,
+    createdAt: clip.createdAt,
+    updatedAt: clip.updatedAt,
+    data: JSON.stringify(data),
+  };
+}
+
+const SORT_COLUMNS: Record<Exclude<AudioSort['field'], 'relevance'>, string> = {
+  title: 'lower(c.title)',
+  duration: 'c.duration',
+  language: 'c.language',
+  createdAt: 'c.created_at',
+  voteScore: `(SELECT coalesce(sum(CASE v.vote_type WHEN 'up' THEN 1 ELSE -1 END), 0)
+                 FROM votes v WHERE v.clip_id = c.id)`,
+  difficulty: 'coalesce(c.difficulty, 0)',
+  charactersPerSecond: 'c.created_at', // computed per request by the clips route
+};
+
+// Transcript characters per second of audio, NULL without a transcript
+// (see charactersPerSecond in lib/clip-pagination)
+const CPS_EXPRESSION = `nullif(
+  length(coalesce(json_extract(c.data, '$.metadata.transcript'), '')) / nullif(c.duration, 0),
+  0
+)`;
+
+// Sort keys for paged listings: the same order as the JSON backend, with
+// clips lacking a value kept as NULL so they sort last
+const PAGE_SORT_KEYS: Record<Exclude<AudioSort['field'], 'relevance'>, string> = {
+  ...SORT_COLUMNS,
+  createdAt: 'c.created_at',
+  difficulty: 'c.difficulty',
+  charactersPerSecond: CPS_EXPRESSION,
+};
+
+interface PageRow extends ClipRow {
+  id: string;
+  sort_key: SortKey;
+}
+
+// Filters for the speed bounds of a listing, see SpeedRange
+function speedConditions(range: SpeedRange | undefined): { where: string[]; params: unknown[] } {
+  if (!range) return { where: [], params: [] };
+  const where = [`${CPS_EXPRESSION} IS NOT NULL`];
+  const params: unknown[] = [];
+  if (range.above !== undefined) {
+    where.push(`${CPS_EXPRESSION} > ?`);
+    params.push(range.above);
+  }
+  if (range.atMost !== undefined) {
+    where.push(`${CPS_EXPRESSION} <= ?`);
+    params.push(range.atMost);
+  }
+  return { where, params };
+}
+
+// ============================================
+// SQLITE DATABASE CLASS
+// ============================================
+
+export class SqliteDatabase extends LocalFileStore implements LocalDataStore {
+  private connection: Database.Database | null = null;
+  // Rebuilt whenever the clips table changes
+  private searchIndex: { version: string; index: ClipSearchIndex } | null = null;
+
+  // Opened on first use, so builds and JSON-mode runs never touch the file
+  private get db(): Database.Database {
+    if (!this.connection) {
+      ensureDirectories();
+      const db = new Database(DB_FILE);
+      db.pragma('journal_mode = WAL');
+      db.pragma('busy_timeout = 5000');
+      db.pragma('foreign_keys = ON');
+
+      const previousVersion = migrate(db);
+      if (previousVersion === 0) {
+        importJsonData(db);
+      }
+      this.connection = db;
+    }
+    return this.connection;
+  }
+
+  // ============================================
+  // CLIPS
+  // ============================================
+
+  // WHERE terms for visible clips matching the filters; null when the
+  // search or id list already rules every clip out
+  private clipConditions(
+    filters: AudioFilters,
+    options: ClipListingOptions
+  ): { where: string[]; params: unknown[]; searchScores: Map<string, number> | null } | null {
+    // Hidden clips can only be fetched by id, for moderation
+    const where: string[] = ['c.hidden = 0'];
+    const params: unknown[] = [];
+
+    // Full-text search first: it is usually the most selective filter
+    let searchScores: Map<string, number> | null = null;
+    if (isSearchQuery(filters.q)) {
+      searchScores = this.getSearchIndex().search(filters.q);
+      if (searchScores.size === 0) return null;
+      const ids = Array.from(searchScores.keys());
+      where.push(`c.id IN (${ids.map(() => '?').join(', ')})`);
+      params.push(...ids);
+    }
+
+    // Apply filters
+    if (filters.language) {
+      where.push('c.language = ?');
+      params.push(filters.language);
+    }
+    if (filters.speakerGender) {
+      where.push('c.speaker_gender = ?');
+      params.push(filters.speakerGender);
+    }
+    if (filters.speakerAgeRange) {
+      where.push('c.speaker_age_range = ?');
+      params.push(filters.speakerAgeRange);
+    }
+    if (filters.speakerDialect) {
+      where.push('c.speaker_dialect = ?');
+      params.push(filters.speakerDialect);
+    }
+    if (filters.uploadedBy) {
+      where.push('c.uploaded_by = ?');
+      params.push(filters.uploadedBy);
+    }
+    if (filters.ids) {
+      if (filters.ids.length === 0) return null;
+      where.push(`c.id IN (${filters.ids.map(() => '?').join(', ')})`);
+      params.push(...filters.ids);
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      where.push(
+        `EXISTS (SELECT 1 FROM clip_tags t WHERE t.clip_id = c.id AND t.tag IN (${filters.tags.map(() => '?').join(', ')}))`
+      );
+      params.push(...filters.tags);
+    }
+    // Filter by starred
+    if (options.starredByUserId) {
+      where.push('EXISTS (SELECT 1 FROM stars s WHERE s.clip_id = c.id AND s.user_id = ?)');
+      params.push(options.starredByUserId);
+    }
+
+    return { where, params, searchScores };
+  }
+
+  async getClips(
+    filters: AudioFilters = {},
+    sort: AudioSort = { field: 'createdAt', direction: 'desc' },
+    options: { starredByUserId?: string; accessToken?: string } = {}
+  ): Promise<SearchResultClip[]> {
+    const conditions = this.clipConditions(filters, options);
+    if (!conditions) return [];
+    const { where, params, searchScores } = conditions;
+
+    // Sort (relevance is applied below, from the search scores)
+    const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+    const orderBy = sort.field === 'relevance'
+      ? 'c.created_at DESC'
+      : `${SORT_COLUMNS[sort.field] ?? SORT_COLUMNS.createdAt} ${direction}`;
+
+    const rows = this.db
+      .prepare(
+        `SELECT ${CLIP_COLUMNS} FROM clips c
+         WHERE ${where.join(' AND ')}
+         ORDER BY ${orderBy}`
+      )
+      .all(...params) as ClipRow[];
+    const clips = rows.map(toClip);
+
+    if (searchScores && filters.q) {
+      const query = filters.q;
+      if (sort.field === 'relevance') {
+        const sign = sort.direction === 'asc' ? 1 : -1;
+        clips.sort((a, b) => sign * ((searchScores!.get(a.id) ?? 0) - (searchScores!.get(b.id) ?? 0)));
+      }
+      return clips.map(c => ({ ...c, search: searchMatch(c, searchScores!.get(c.id) ?? 0, query) }));
+    }
+
+    return clips;
+  }
+
+  /**
+   * Sorts, filters and cuts the page in SQL. The search scores only exist
+   * in memory, so for relevance they are joined in as a JSON object.
+   */
+  async getClipPage(
+    filters: AudioFilters,
+    sort: AudioSort,
+    page: ClipPageRequest
+  ): Promise<ClipPage> {
+    const conditions = this.clipConditions(filters, page);
+    if (!conditions) return { clips: [], nextCursor: null, total: 0 };
+    const { searchScores } = conditions;
+    const speed = speedConditions(page.speed);
+    const where = [...conditions.where, ...speed.where];
+    const params = [...conditions.params, ...speed.params];
+
+    const { total } = this.db
+      .prepare(`SELECT count(*) AS total FROM clips c WHERE ${where.join(' AND ')}`)
+      .get(...params) as { total: number };
+
+    let from = 'clips c';
+    let sortKey: string;
+    const fromParams: unknown[] = [];
+    if (sort.field === 'relevance' && searchScores) {
+      from = 'clips c JOIN json_each(?) r ON r.key = c.id';
+      fromParams.push(JSON.stringify(Object.fromEntries(searchScores)));
+      sortKey = 'r.value';
+    } else if (sort.field === 'relevance') {
+      sortKey = '0'; // nothing to rank without a search
+    } else {
+      sortKey = PAGE_SORT_KEYS[sort.field] ?? PAGE_SORT_KEYS.createdAt;
+    }
+
+    // Rows after the cursor; NULL keys come after every value
+    const after: string[] = [];
+    const afterParams: unknown[] = [];
+    if (page.after) {
+      if (page.after.key === null) {
+        after.push('sort_key IS NULL AND id > ?');
+        afterParams.push(page.after.id);
+      } else {
+        const beyond = sort.direction === 'asc' ? '>' : '<';
+        after.push(`(sort_key ${beyond} ? OR (sort_key = ? AND id > ?) OR sort_key IS NULL)`);
+        afterParams.push(page.after.key, page.after.key, page.after.id);
+      }
+    }
+
+    const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM (
+           SELECT ${CLIP_COLUMNS}, c.id AS id, ${sortKey} AS sort_key
+           FROM ${from}
+           WHERE ${where.join(' AND ')}
+         )
+         ${after.length > 0 ? `WHERE ${after.join(' AND ')}` : ''}
+         ORDER BY sort_key IS NULL, sort_key ${direction}, id
+         LIMIT ?`
+      )
+      .all(...fromParams, ...params, ...afterParams, page.limit + 1) as PageRow[];
+
+    const pageRows = rows.slice(0, page.limit);
+    const last = pageRows[pageRows.length - 1];
+    const clips: SearchResultClip[] = pageRows.map(toClip);
+
+    return {
+      clips:
+        searchScores && filters.q
+          ? clips.map(c => ({ ...c, search: searchMatch(c, searchScores.get(c.id) ?? 0, filters.q!) }))
+          : clips,
+      nextCursor:
+        rows.length > page.limit && last ? cursorAfter(sort, last.sort_key, last.id) : null,
+      total,
+    };
+  }
+
+  async getSpeedPercentiles(
+    filters: AudioFilters,
+    options: ClipListingOptions = {}
+  ): Promise<SpeedPercentiles | null> {
+    const conditions = this.clipConditions(filters, options);
+    if (!conditions) return null;
+    const where = [...conditions.where, `${CPS_EXPRESSION} IS NOT NULL`].join(' AND ');
+    const { params } = conditions;
+
+    const { count } = this.db
+      .prepare(`SELECT count(*) AS count FROM clips c WHERE ${where}`)
+      .get(...params) as { count: number };
+    if (count === 0) return null;
+
+    const speedAt = this.db.prepare(
+      `SELECT ${CPS_EXPRESSION} AS cps FROM clips c WHERE ${where}
+       ORDER BY cps LIMIT 1 OFFSET ?`
+    );
+    const indexes = speedPercentileIndexes(count);
+    return {
+      slow: (speedAt.get(...params, indexes.slow) as { cps: number }).cps,
+      medium: (speedAt.get(...params, indexes.medium) as { cps: number }).cps,
+    };
+  }
+
+  private getSearchIndex(): ClipSearchIndex {
+    const { count, lastUpdate } = this.db
+      .prepare('SELECT count(*) AS count, max(updated_at) AS lastUpdate FROM clips')
+      .get() as { count: number; lastUpdate: string | null };
+    const version = `${count}:${lastUpdate}`;
+    if (this.searchIndex?.version !== version) {
+      const rows = this.db.prepare(`SELECT ${CLIP_COLUMNS} FROM clips c`).all() as ClipRow[];
+      this.searchIndex = { version, index: new ClipSearchIndex(rows.map(toClip)) };
+    }
+    return this.searchIndex.index;
+  }
+
+  async getClipById(id: string): Promise<AudioClip | null> {
+    const row = this.db
+      .prepare(`SELECT ${CLIP_COLUMNS} FROM clips c WHERE c.id = ?`)
+      .get(id) as ClipRow | undefined;
+    return row ? toClip(row) : null;
+  }
+
+  async createClip(clip: Omit<AudioClip, 'id' | 'createdAt' | 'updatedAt'>): Promise<AudioClip> {
+    const newClip: AudioClip = {
+      ...clip,
+      id: `clip-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.db.transaction(() => this.writeClip(newClip))();
+
+    console.log('✅ Created clip:', newClip.id);
+    return newClip;
+  }
+
+  // Inserts or replaces a clip row and its tags; call inside a transaction
+  private writeClip(clip: AudioClip): void {
+    this.db
+      .prepare(
+        `INSERT INTO clips (id, title, language, speaker_gender, speaker_age_range, speaker_dialect,
+                            uploaded_by, duration, hidden, created_at, updated_at, data)
+         VALUES (@id, @title, @language, @speakerGender, @speakerAgeRange, @speakerDialect,
+                 @uploadedBy, @duration, @hidden, @createdAt, @updatedAt, @data)
+         ON CONFLICT (id) DO UPDATE SET
+           title = excluded.title,
+           language = excluded.language,
+           speaker_gender = excluded.speaker_gender,
+           speaker_age_range = excluded.speaker_age_range,
+           speaker_dialect = excluded.speaker_dialect,
+           uploaded_by = excluded.uploaded_by,
+           duration = excluded.duration,
+           hidden = excluded.hidden,
+           updated_at = excluded.updated_at,
+           data = excluded.data`
+      )
+      .run(clipParams(clip));
+
+    this.db.prepare('DELETE FROM clip_tags WHERE clip_id = ?').run(clip.id);
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO clip_tags (clip_id, tag) VALUES (?, ?)');
+    for (const tag of clip.metadata.tags ?? []) {
+      insertTag.run(clip.id, tag);
+    }
+  }
+
+  // Callers check permissions first (see authorize in lib/storage)
+  async updateClip(id: string, updates: Partial<AudioClip>): Promise<AudioClip | null> {
+    return this.db.transaction(() => {
+      const existing = this.db
+        .prepare(`SELECT ${CLIP_COLUMNS} FROM clips c WHERE c.id = ?`)
+        .get(id) as ClipRow | undefined;
+      if (!existing) return null;
+      const clip = toClip(existing);
+
+      const updated: AudioClip = {
+        ...clip,
+        ...updates,
+        id, // Ensure ID doesn't change
+        updatedAt: new Date().toISOString(),
+      };
+      this.writeClip(updated);
+      return updated;
+    })();
+  }
+
+  async deleteClip(id: string): Promise<boolean> {
+    const clip = await this.getClipById(id);
+
+    if (!clip) return false;
+
+    // Votes, stars, tags, ratings, reviews, reports and deck entries go with
+    // it (ON DELETE CASCADE)
+    this.db.prepare('DELETE FROM clips WHERE id = ?').run(id);
+
+    // Delete audio file
+    this.deleteClipFiles(clip);
+
+    console.log('✅ Deleted clip:', id);
+    return true;
+  }
+
+  // ============================================
+  // USERS
+  // ============================================
+
+  async getUser(identifier: string): Promise<LocalUser | null> {
+    const row = this.db
+      .prepare('SELECT * FROM users WHERE id = ? OR email = ? OR username = ? LIMIT 1')
+      .get(identifier, identifier, identifier) as UserRow | undefined;
+    return row ? toUser(row) : null;
+  }
+
+  async createUser(userData: Omit<LocalUser, 'id' | 'createdAt'>): Promise<LocalUser> {
+    const newUser: LocalUser = {
+      ...userData,
+      id: `user-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.db.transaction(() => {
+      // Check if email or username exists
+      if (this.db.prepare('SELECT 1 FROM users WHERE email = ?').get(userData.email)) {
+        throw new Error('Email already exists');
+      }
+      if (this.db.prepare('SELECT 1 FROM users WHERE username = ?').get(userData.username)) {
+        throw new Error('Username already exists');
+      }
+      insertUser(this.db, newUser);
+    })();
+
+    return newUser;
+  }
+
+  async validateCredentials(email: string, password: string): Promise<LocalUser | null> {
+    const row = this.db
+      .prepare('SELECT * FROM users WHERE email = ?')
+      .get(email) as UserRow | undefined;
+    if (!row || !(await verifyPassword(password, row.password_hash))) {
+      return null;
+    }
+    return toUser(row);
+  }
+
+  // ============================================
+  // AUTH SESSIONS
+  // ============================================
+
+  async createAuthSession(session: LocalAuthSession): Promise<void> {
+    this.db.transaction(() => {
+      // Expired sessions are dropped whenever a new one starts
+      this.db.prepare('DELETE FROM auth_sessions WHERE expires_at <= ?').run(new Date().toISOString());
+      this.db
+        .prepare('INSERT INTO auth_sessions (id, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+        .run(session.id, session.userId, session.createdAt, session.expiresAt);
+    })();
+  }
+
+  async getAuthSession(id: string): Promise<LocalAuthSession | null> {
+    const row = this.db
+      .prepare('SELECT id, user_id, created_at, expires_at FROM auth_sessions WHERE id = ?')
+      .get(id) as { id: string; user_id: string; created_at: string; expires_at: string } | undefined;
+    return row
+      ? { id: row.id, userId: row.user_id, createdAt: row.created_at, expiresAt: row.expires_at }
+      : null;
+  }
+
+  async deleteAuthSession(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM auth_sessions WHERE id = ?').run(id);
+  }
+
+  // ============================================
+  // VOTES
+  // ============================================
+
+  async getVotesForClip(clipId: string): Promise<{ upvotes: number; downvotes: number; score: number }> {
+    const { upvotes, downvotes } = this.db
+      .prepare(
+        `SELECT coalesce(sum(vote_type = 'up'), 0) AS upvotes,
+                coalesce(sum(vote_type = 'down'), 0) AS downvotes
+         FROM votes WHERE clip_id = ?`
+      )
+      .get(clipId) as { upvotes: number; downvotes: number };
+
+    return { upvotes, downvotes, score: upvotes - downvotes };
+  }
+
+  async getUserVote(clipId: string, usernameOrId: string): Promise<'up' | 'down' | null> {
+    const row = this.db
+      .prepare('SELECT vote_type FROM votes WHERE clip_id = ? AND username_or_id = ?')
+      .get(clipId, usernameOrId) as { vote_type: 'up' | 'down' } | undefined;
+    return row?.vote_type || null;
+  }
+
+  async setVote(clipId: string, usernameOrId: string, voteType: 'up' | 'down' | null): Promise<void> {
+    if (voteType === null) {
+      // Remove vote
+      this.db
+        .prepare('DELETE FROM votes WHERE clip_id = ? AND username_or_id = ?')
+        .run(clipId, usernameOrId);
+      return;
+    }
+
+    this.db
+      .prepare(
+        `INSERT INTO votes (clip_id, username_or_id, vote_type, created_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (clip_id, username_or_id) DO UPDATE SET vote_type = excluded.vote_type`
+      )
+      .run(clipId, usernameOrId, voteType, new Date().toISOString());
+  }
+
+  // ============================================
+  // STARS
+  // ============================================
+
+  async isStarred(clipId: string, userId: string): Promise<boolean> {
+    return !!this.db
+      .prepare('SELECT 1 FROM stars WHERE clip_id = ? AND user_id = ?')
+      .get(clipId, userId);
+  }
+
+  async getStarCount(clipId: string): Promise<number> {
+    const { count } = this.db
+      .prepare('SELECT count(*) AS count FROM stars WHERE clip_id = ?')
+      .get(clipId) as { count: number };
+    return count;
+  }
+
+  async toggleStar(clipId: string, userId: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const removed = this.db
+        .prepare('DELETE FROM stars WHERE clip_id = ? AND user_id = ?')
+        .run(clipId, userId);
+      if (removed.changes > 0) return false;
+
+      this.db
+        .prepare('INSERT INTO stars (clip_id, user_id, created_at) VALUES (?, ?, ?)')
+        .run(clipId, userId, new Date().toISOString());
+      return true;
+    })();
+  }
+
+  // ============================================
+  // DIFFICULTY RATINGS
+  // ============================================
+
+  async setDifficulty(clipId: string, usernameOrId: string, difficulty: number): Promise<void> {
+    this.db.transaction(() => {
+      if (!this.db.prepare('SELECT 1 FROM clips WHERE id = ?').get(clipId)) return;
+
+      this.db
+        .prepare(
+          `INSERT INTO difficulty_ratings (clip_id, username_or_id, difficulty) VALUES (?, ?, ?)
+           ON CONFLICT (clip_id, username_or_id) DO UPDATE SET difficulty = excluded.difficulty`
+        )
+        .run(clipId, usernameOrId, difficulty);
+
+      // Calculate average difficulty
+      this.db
+        .prepare(
+          `UPDATE clips SET difficulty =
+             (SELECT avg(difficulty) FROM difficulty_ratings WHERE clip_id = ?)
+           WHERE id = ?`
+        )
+        .run(clipId, clipId);
+    })();
+  }
+
+  // ============================================
+  // DIALECTS
+  // ============================================
+
+  async getDialects(): Promise<LocalDialect[]> {
+    return this.db
+      .prepare('SELECT id, language, dialect, created_at AS createdAt FROM dialects ORDER BY rowid')
+      .all() as LocalDialect[];
+  }
+
+  async addDialect(language: string, dialect: string): Promise<LocalDialect> {
+    this.db
+      .prepare('INSERT OR IGNORE INTO dialects (id, language, dialect, created_at) VALUES (?, ?, ?, ?)')
+      .run(`dialect-${Date.now()}`, language, dialect, new Date().toISOString());
+
+    return this.db
+      .prepare(
+        'SELECT id, language, dialect, created_at AS createdAt FROM dialects WHERE language = ? AND dialect = ?'
+      )
+      .get(language, dialect) as LocalDialect;
+  }
+
+  // ============================================
+  // USER PREFERENCES
+  // ============================================
+
+  async getFilterPreferences(userId: string): Promise<FilterPreferences | null> {
+    const row = this.db
+      .prepare('SELECT data FROM preferences WHERE user_id = ?')
+      .get(userId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // null clears the user's preferences
+  async saveFilterPreferences(userId: string, preferences: FilterPreferences | null): Promise<void> {
+    if (!preferences) {
+      this.db.prepare('DELETE FROM preferences WHERE user_id = ?').run(userId);
+      return;
+    }
+    this.db
+      .prepare(
+        `INSERT INTO preferences (user_id, data) VALUES (?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET data = excluded.data`
+      )
+      .run(userId, JSON.stringify(preferences));
+  }
+
+  async getAudioSettings(userId: string): Promise<AudioSettingsPreferences | null> {
+    const row = this.db
+      .prepare('SELECT data FROM audio_settings WHERE user_id = ?')
+      .get(userId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  // null puts the user back on the defaults
+  async saveAudioSettings(userId: string, settings: AudioSettingsPreferences | null): Promise<void> {
+    if (!settings) {
+      this.db.prepare('DELETE FROM audio_settings WHERE user_id = ?').run(userId);
+      return;
+    }
+    this.db
+      .prepare(
+        `INSERT INTO audio_settings (user_id, data) VALUES (?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET data = excluded.data`
+      )
+      .run(userId, JSON.stringify(settings));
+  }
+
+  // ============================================
+  // SPACED-REPETITION REVIEWS
+  // ============================================
+
+  async getReviewState(userId: string, clipId: string): Promise<ClipReviewState | null> {
+    const row = this.db
+      .prepare('SELECT data FROM reviews WHERE user_id = ? AND clip_id = ?')
+      .get(userId, clipId) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async getDueReviews(userId: string, until: Date = new Date()): Promise<ClipReviewState[]> {
+    // dueAt is always written with toISOString, so the strings sort by time
+    const rows = this.db
+      .prepare('SELECT data FROM reviews WHERE user_id = ? AND due_at <= ?')
+      .all(userId, until.toISOString()) as Array<{ data: string }>;
+    return sortByDue(rows.map(row => JSON.parse(row.data)));
+  }
+
+  async recordReview(
+    userId: string,
+    clipId: string,
+    grade: ReviewGrade,
+    accuracy?: number
+  ): Promise<ClipReviewState> {
+    return this.db.transaction(() => {
+      const row = this.db
+        .prepare('SELECT data FROM reviews WHERE user_id = ? AND clip_id = ?')
+        .get(userId, clipId) as { data: string } | undefined;
+      const previous: ClipReviewState | null = row ? JSON.parse(row.data) : null;
+
+      const next = scheduleReview(previous, userId, clipId, grade, accuracy);
+      insertReview(this.db, next);
+      return next;
+    })();
+  }
+
+  // ============================================
+  // PRACTICE SESSIONS
+  // ============================================
+
+  async createPracticeSession(
+    userId: string,
+    session: NewPracticeSession
+  ): Promise<PracticeSession> {
+    const newSession: PracticeSession = {
+      ...session,
+      id: `session-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      userId,
+    };
+
+    insertPracticeSession(this.db, newSession);
+    return newSession;
+  }
+
+  async getPracticeSessions(
+    userId: string,
+    options: { clipId?: string } = {}
+  ): Promise<PracticeSession[]> {
+    const rows = (options.clipId
+      ? this.db
+          .prepare('SELECT data FROM practice_sessions WHERE user_id = ? AND clip_id = ? ORDER BY started_at DESC')
+          .all(userId, options.clipId)
+      : this.db
+          .prepare('SELECT data FROM practice_sessions WHERE user_id = ? ORDER BY started_at DESC')
+          .all(userId)) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  // ============================================
+  // MODERATION
+  // ============================================
+
+  async createReport(report: NewClipReport): Promise<ClipReport> {
+    const newReport: ClipReport = {
+      ...report,
+      id: `report-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      status: 'open',
+      createdAt: new Date().toISOString(),
+    };
+    insertReport(this.db, newReport);
+    return newReport;
+  }
+
+  // Oldest first, the order the queue works through them
+  async getReports(filter: { status?: ReportStatus; clipId?: string } = {}): Promise<ClipReport[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM clip_reports
+         WHERE (@status IS NULL OR status = @status) AND (@clipId IS NULL OR clip_id = @clipId)
+         ORDER BY created_at`
+      )
+      .all({ status: filter.status ?? null, clipId: filter.clipId ?? null }) as ReportRow[];
+    return rows.map(toReport);
+  }
+
+  // Closes a clip's open reports, returning how many were closed
+  async closeReports(clipId: string, status: Exclude<ReportStatus, 'open'>, closedBy: string): Promise<number> {
+    const result = this.db
+      .prepare(
+        `UPDATE clip_reports SET status = ?, closed_at = ?, closed_by = ?
+         WHERE clip_id = ? AND status = 'open'`
+      )
+      .run(status, new Date().toISOString(), closedBy, clipId);
+    return result.changes;
+  }
+
+  async logModerationAction(entry: NewModerationAction): Promise<ModerationAction> {
+    const action: ModerationAction = {
+      ...entry,
+      id: `moderation-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+    insertModerationAction(this.db, action);
+    return action;
+  }
+
+  // Newest first
+  async getModerationLog(options: { clipId?: string; limit?: number } = {}): Promise<ModerationAction[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM moderation_log
+         WHERE @clipId IS NULL OR clip_id = @clipId
+         ORDER BY created_at DESC, rowid DESC
+         LIMIT @limit`
+      )
+      .all({ clipId: options.clipId ?? null, limit: options.limit ?? -1 }) as ModerationLogRow[];
+    return rows.map(toModerationAction);
+  }
+
+  // ============================================
+  // DECKS
+  // ============================================
+
+  // Most recently changed first
+  async getDecks(filter: { ownerId?: string; isPublic?: boolean } = {}): Promise<Deck[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT ${DECK_COLUMNS} FROM decks d
+         WHERE (@ownerId IS NULL OR d.owner_id = @ownerId)
+           AND (@isPublic IS NULL OR d.is_public = @isPublic)
+         ORDER BY d.updated_at DESC`
+      )
+      .all({
+        ownerId: filter.ownerId ?? null,
+        isPublic: filter.isPublic === undefined ? null : Number(filter.isPublic),
+      }) as DeckRow[];
+    return rows.map(toDeck);
+  }
+
+  async getDeckById(id: string): Promise<Deck | null> {
+    const row = this.db
+      .prepare(`SELECT ${DECK_COLUMNS} FROM decks d WHERE d.id = ?`)
+      .get(id) as DeckRow | undefined;
+    return row ? toDeck(row) : null;
+  }
+
+  async createDeck(ownerId: string, deck: NewDeck): Promise<Deck> {
+    const newDeck: Deck = {
+      ...deck,
+      id: `deck-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      ownerId,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    this.db.transaction(() => writeDeck(this.db, newDeck))();
+    return (await this.getDeckById(newDeck.id))!;
+  }
+
+  // Callers check the user owns the deck first
+  async updateDeck(id: string, updates: DeckUpdate): Promise<Deck | null> {
+    const existing = await this.getDeckById(id);
+    if (!existing) return null;
+
+    const updated: Deck = {
+      ...existing,
+      ...updates,
+      id, // Ensure ID doesn't change
+      updatedAt: new Date().toISOString(),
+    };
+    this.db.transaction(() => writeDeck(this.db, updated))();
+    return this.getDeckById(id);
+  }
+
+  async deleteDeck(id: string): Promise<boolean> {
+    // Its clip list goes with it (ON DELETE CASCADE)
+    return this.db.prepare('DELETE FROM decks WHERE id = ?').run(id).changes > 0;
+  }
+
+  // ============================================
+  // ROLES
+  // ============================================
+
+  async getUsers(): Promise<LocalUser[]> {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY created_at').all() as UserRow[];
+    return rows.map(toUser);
+  }
+
+  async setUserRole(userId: string, role: UserRole): Promise<LocalUser | null> {
+    this.db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, userId);
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as UserRow | undefined;
+    return row ? toUser(row) : null;
+  }
+}
+
+// ============================================
+// WRITES SHARED WITH THE JSON IMPORT
+// ============================================
+
+function insertUser(db: Database.Database, user: LocalUser): void {
+  db.prepare(
+    `INSERT OR IGNORE INTO users (id, email, username, password_hash, role, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(user.id, user.email, user.username, user.passwordHash, user.role, user.createdAt);
+}
+
+function insertReview(db: Database.Database, review: ClipReviewState): void {
+  db.prepare(
+    `INSERT INTO reviews (user_id, clip_id, due_at, data) VALUES (?, ?, ?, ?)
+     ON CONFLICT (user_id, clip_id) DO UPDATE SET due_at = excluded.due_at, data = excluded.data`
+  ).run(review.userId, review.clipId, review.dueAt, JSON.stringify(review));
+}
+
+function insertPracticeSession(db: Database.Database, session: PracticeSession): void {
+  db.prepare(
+    'INSERT INTO practice_sessions (id, user_id, clip_id, started_at, data) VALUES (?, ?, ?, ?, ?)'
+  ).run(session.id, session.userId, session.clipId, session.startedAt, JSON.stringify(session));
+}
+
+function insertReport(db: Database.Database, report: ClipReport): void {
+  db.prepare(
+    `INSERT OR IGNORE INTO clip_reports (id, clip_id, reporter_id, reason, details, status, created_at, closed_at, closed_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    report.id,
+    report.clipId,
+    report.reporterId,
+    report.reason,
+    report.details ?? null,
+    report.status,
+    report.createdAt,
+    report.closedAt ?? null,
+    report.closedBy ?? null
+  );
+}
+
+function insertModerationAction(db: Database.Database, action: ModerationAction): void {
+  db.prepare(
+    `INSERT OR IGNORE INTO moderation_log (id, clip_id, clip_title, actor_id, action, note, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    action.id,
+    action.clipId,
+    action.clipTitle,
+    action.actorId,
+    action.action,
+    action.note ?? null,
+    action.createdAt
+  );
+}
+
+// Inserts or replaces a deck and its clip list; call inside a transaction.
+// Clips that don't exist are left out.
+function writeDeck(db: Database.Database, deck: Deck): void {
+  db.prepare(
+    `INSERT INTO decks (id, owner_id, name, description, is_public, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       name = excluded.name,
+       description = excluded.description,
+       is_public = excluded.is_public,
+       updated_at = excluded.updated_at`
+  ).run(
+    deck.id,
+    deck.ownerId,
+    deck.name,
+    deck.description ?? null,
+    deck.isPublic ? 1 : 0,
+    deck.createdAt,
+    deck.updatedAt
+  );
+
+  db.prepare('DELETE FROM deck_clips WHERE deck_id = ?').run(deck.id);
+  const insertClip = db.prepare(
+    `INSERT OR IGNORE INTO deck_clips (deck_id, clip_id, position)
+     SELECT ?, id, ? FROM clips WHERE id = ?`
+  );
+  deck.clipIds.forEach((clipId, position) => insertClip.run(deck.id, position, clipId));
+}
+
+// ============================================
+// ONE-SHOT IMPORT FROM THE JSON FILES
+// ============================================
+
+/**
+ * Copies local-data/*.json into a freshly created database, in one
+ * transaction. Runs once, when the schema is first created; the JSON files
+ * are left in place so switching back to LOCAL_DB_BACKEND=json still works.
+ * Records pointing at clips that no longer exist are skipped.
+ */
+function importJsonData(db: Database.Database): void {
+  const file = (name: string) => path.join(DATA_DIR, name);
+  if (!fs.existsSync(file('clips.json')) && !fs.existsSync(file('users.json'))) {
+    db.transaction(() => getDefaultUsers().forEach(user => insertUser(db, user)))();
+    return;
+  }
+
+  type StoredClip = AudioClip & { difficultyRatings?: Record<string, number> };
+  const clips = readJsonFile<StoredClip[]>(file('clips.json'), []);
+  const users = readJsonFile<StoredLocalUser[]>(file('users.json'), getDefaultUsers()).map(upgradeStoredUser);
+  const votes = readJsonFile<LocalVote[]>(file('votes.json'), []);
+  const stars = readJsonFile<LocalStar[]>(file('stars.json'), []);
+  const dialects = readJsonFile<LocalDialect[]>(file('dialects.json'), []);
+  const preferences = readJsonFile<Record<string, FilterPreferences>>(file('preferences.json'), {});
+  const audioSettings = readJsonFile<Record<string, AudioSettingsPreferences>>(file('audio-settings.json'), {});
+  const reviews = readJsonFile<ClipReviewState[]>(file('reviews.json'), []);
+  const sessions = readJsonFile<PracticeSession[]>(file('sessions.json'), []);
+  const reports = readJsonFile<ClipReport[]>(file('reports.json'), []);
+  const moderationLog = readJsonFile<ModerationAction[]>(file('moderation-log.json'), []);
+  const decks = readJsonFile<Deck[]>(file('decks.json'), []);
+  const clipIds = new Set(clips.map(clip => clip.id));
+  const clipVotes = votes.filter(vote => clipIds.has(vote.clipId));
+
+  db.transaction(() => {
+    const insertClip = db.prepare(
+      `INSERT OR IGNORE INTO clips (id, title, language, speaker_gender, speaker_age_range, speaker_dialect,
+                                    uploaded_by, duration, hidden, created_at, updated_at, data)
+       VALUES (@id, @title, @language, @speakerGender, @speakerAgeRange, @speakerDialect,
+               @uploadedBy, @duration, @hidden, @createdAt, @updatedAt, @data)`
+    );
+    const insertTag = db.prepare('INSERT OR IGNORE INTO clip_tags (clip_id, tag) VALUES (?, ?)');
+    const insertRating = db.prepare(
+      'INSERT OR IGNORE INTO difficulty_ratings (clip_id, username_or_id, difficulty) VALUES (?, ?, ?)'
+    );
+    for (const clip of clips) {
+      insertClip.run(clipParams(clip));
+      (clip.metadata.tags ?? []).forEach(tag => insertTag.run(clip.id, tag));
+      Object.entries(clip.difficultyRatings ?? {}).forEach(([rater, difficulty]) =>
+        insertRating.run(clip.id, rater, difficulty)
+      );
+    }
+    db.exec(
+      `UPDATE clips SET difficulty =
+         (SELECT avg(difficulty) FROM difficulty_ratings r WHERE r.clip_id = clips.id)`
+    );
+
+    users.forEach(user => insertUser(db, user));
+
+    const insertVote = db.prepare(
+      'INSERT OR IGNORE INTO votes (clip_id, username_or_id, vote_type, created_at) VALUES (?, ?, ?, ?)'
+    );
+    clipVotes.forEach(vote => insertVote.run(vote.clipId, vote.usernameOrId, vote.voteType, vote.createdAt));
+
+    const insertStar = db.prepare('INSERT OR IGNORE INTO stars (clip_id, user_id, created_at) VALUES (?, ?, ?)');
+    stars
+      .filter(star => clipIds.has(star.clipId))
+      .forEach(star => insertStar.run(star.clipId, star.userId, star.createdAt));
+
+    const insertDialect = db.prepare(
+      'INSERT OR IGNORE INTO dialects (id, language, dialect, created_at) VALUES (?, ?, ?, ?)'
+    );
+    dialects.forEach(d => insertDialect.run(d.id, d.language, d.dialect, d.createdAt));
+
+    const insertPreferences = db.prepare('INSERT OR IGNORE INTO preferences (user_id, data) VALUES (?, ?)');
+    Object.entries(preferences).forEach(([userId, prefs]) =>
+      insertPreferences.run(userId, JSON.stringify(prefs))
+    );
+    const insertAudioSettings = db.prepare('INSERT OR IGNORE INTO audio_settings (user_id, data) VALUES (?, ?)');
+    Object.entries(audioSettings).forEach(([userId, settings]) =>
+      insertAudioSettings.run(userId, JSON.stringify(settings))
+    );
+
+    reviews.filter(review => clipIds.has(review.clipId)).forEach(review => insertReview(db, review));
+    sessions.forEach(session => insertPracticeSession(db, session));
+    reports.filter(report => clipIds.has(report.clipId)).forEach(report => insertReport(db, report));
+    moderationLog.forEach(action => insertModerationAction(db, action));
+    decks.forEach(deck => writeDeck(db, deck));
+
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(
+      'json_import',
+      new Date().toISOString()
+    );
+  })();
+
+  console.log(
+    `🗄️ Imported ${clips.length} clips, ${users.length} users, ${clipVotes.length} votes and ` +
+    `${sessions.length} practice sessions from local-data/*.json`
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * Spaced-repetition scheduling for practiced clips (SM-2 variant)
+ * Shared by both database backends so reviews behave identically
+ */
+
+import type {
+  ClipReviewState,
+  ReviewGrade,
+  ReviewSubmission,
+} from "@/types/practice";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A forgotten clip comes back later in the same session
+const RELEARN_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 response quality (0-5) for each grade
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+  return REVIEW_GRADES.includes(value as ReviewGrade);
+}
+
+/**
+ * Maps transcription accuracy (0-100) to the grade it most likely reflects
+ */
+export function gradeFromAccuracy(accuracy: number): ReviewGrade {
+  if (accuracy >= 95) return "easy";
+  if (accuracy >= 80) return "good";
+  if (accuracy >= 60) return "hard";
+  return "again";
+}
+
+/**
+ * Picks the grade for a submission: the learner's own grade wins,
+ * otherwise it is derived from the transcription accuracy
+ */
+export function resolveGrade(submission: ReviewSubmission): ReviewGrade | null {
+  if (submission.grade) return submission.grade;
+  if (typeof submission.accuracy === "number") {
+    return gradeFromAccuracy(submission.accuracy);
+  }
+  return null;
+}
+
+/**
+ * Computes the next review state from the previous one (null for a new clip)
+ */
+export function scheduleReview(
+  previous: ClipReviewState | null,
+  userId: string,
+  clipId: string,
+  grade: ReviewGrade,
+  accuracy?: number,
+  now: Date = new Date()
+): ClipReviewState {
+  const quality = GRADE_QUALITY[grade];
+  const prevEase = previous?.easeFactor ?? DEFAULT_EASE;
+  const prevInterval = previous?.intervalDays ?? 0;
+  const prevRepetitions = previous?.repetitions ?? 0;
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    prevEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  let lapses = previous?.lapses ?? 0;
+  let dueAt: Date;
+
+  if (grade === "again") {
+    repetitions = 0;
+    intervalDays = 0;
+    lapses += 1;
+    dueAt = new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000);
+  } else {
+    repetitions = prevRepetitions + 1;
+    if (repetitions === 1) {
+      intervalDays = grade === "easy" ? 3 : 1;
+    } else if (repetitions === 2) {
+      intervalDays = grade === "hard" ? 3 : 6;
+    } else if (grade === "hard") {
+      intervalDays = Math.max(prevInterval + 1, Math.round(prevInterval * 1.2));
+    } else {
+      const bonus = grade === "easy" ? 1.3 : 1;
+      intervalDays = Math.max(
+        prevInterval + 1,
+        Math.round(prevInterval * easeFactor * bonus)
+      );
+    }
+    dueAt = new Date(now.getTime() + intervalDays * DAY_MS);
+  }
+
+  return {
+    userId,
+    clipId,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: dueAt.toISOString(),
+    lastReviewedAt: now.toISOString(),
+    lastGrade: grade,
+    lastAccuracy:
+      typeof accuracy === "number" ? accuracy : previous?.lastAccuracy,
+  };
+}
+
+/**
+ * Sorts due reviews so the most overdue clip comes first
+ */
+export function sortByDue(states: ClipReviewState[]): ClipReviewState[] {
+  return [...states].sort(
+    (a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime()
+  );
+}
+
+/**
+ * End of the caller's local day - "due today" means due before this
+ */
+export function endOfLocalDay(date: Date = new Date()): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Human-friendly distance until the next review (e.g. "in 6 days")
+ */
+export function formatDueIn(dueAt: string, now: Date = new Date()): string {
+  const diffMs = new Date(dueAt).getTime() - now.getTime();
+  if (diffMs <= 0) return "now";
+  const minutes = Math.round(diffMs / 60000);
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `in ${hours} h`;
+  const days = Math.round(hours / 24);
+  return days === 1 ? "tomorrow" : `in ${days} days`;
+}
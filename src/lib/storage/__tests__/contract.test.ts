@@ -0,0 +1,738 @@
+// Storage contract: the same cases run against every backend behind
+// getStorage - local JSON files, local SQLite and Supabase (against the
+// in-memory client in fake-supabase) - so the repositories can't drift
+// apart. Each case starts from empty storage.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AudioClip, AudioSort, ClipPeaks } from "@/types/audio";
+import { charactersPerSecond } from "@/lib/clip-pagination";
+import type { NewClip, Storage } from "@/lib/storage/types";
+import { FakeSupabase } from "./fake-supabase";
+
+// Every client lib/supabase and lib/server-database create is the fake
+// of the current case
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock("@supabase/supabase-js", () => ({ createClient: () => supabase.client }));
+
+interface OpenStorage {
+  // Storage for a request signed in as userId, or signed out
+  storageFor(userId?: string): Promise<Storage>;
+  close(): void;
+}
+
+interface Backend {
+  name: string;
+  open(): Promise<OpenStorage>;
+}
+
+function requestWith(accessToken?: string): NextRequest {
+  return new NextRequest("http://localhost/api/clips", {
+    headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+  });
+}
+
+// Local data lives in a temporary local-data directory
+function localBackend(name: string, database: "json" | "sqlite"): Backend {
+  return {
+    name,
+    async open() {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "chorus-lab-"));
+      vi.spyOn(process, "cwd").mockReturnValue(dir);
+      vi.stubEnv("LOCAL_DB_BACKEND", database);
+      const { getLocalStorage } = await import("@/lib/storage/local");
+      const { createLocalSession } = await import("@/lib/local-session");
+
+      return {
+        async storageFor(userId) {
+          const session = userId ? await createLocalSession(userId) : null;
+          return getLocalStorage(requestWith(session?.token));
+        },
+        close: () => fs.rmSync(dir, { recursive: true, force: true }),
+      };
+    },
+  };
+}
+
+// Supabase only decodes access tokens (see verifyAccessToken), so an
+// unsigned one will do
+function supabaseAccessToken(userId: string): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const expiresAt = Math.floor(Date.now() / 1000) + 60 * 60;
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode({ sub: userId, exp: expiresAt })}.`;
+}
+
+const supabaseBackend: Backend = {
+  name: "supabase",
+  async open() {
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "http://localhost:54321");
+    vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "test-anon-key");
+    supabase.client = new FakeSupabase();
+    const { getSupabaseStorage } = await import("@/lib/storage/supabase");
+
+    return {
+      storageFor: (userId) =>
+        getSupabaseStorage(requestWith(userId ? supabaseAccessToken(userId) : undefined)),
+      close() {},
+    };
+  },
+};
+
+const backends: Backend[] = [
+  localBackend("local JSON", "json"),
+  localBackend("local SQLite", "sqlite"),
+  supabaseBackend,
+];
+
+// Lets timestamps move on between writes whose order a case checks
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe.each(backends)("$name storage", (backend) => {
+  let opened: OpenStorage;
+  let storage: Storage;
+  let userId: string;
+
+  async function createUser(name: string) {
+    const anonymous = await opened.storageFor();
+    return anonymous.users.createUser({
+      email: `${name}@example.com`,
+      username: name,
+      password: `${name}-password`,
+    });
+  }
+
+  async function createClip(
+    title: string,
+    metadata: Partial<AudioClip["metadata"]> = {},
+    overrides: Partial<NewClip> = {}
+  ): Promise<AudioClip> {
+    const clip = await storage.clips.create({
+      title,
+      duration: 10,
+      filename: `${randomUUID()}.mp3`,
+      originalFilename: `${title}.mp3`,
+      fileSize: 1024,
+      metadata: { language: "ja", tags: [], ...metadata },
+      uploadedBy: userId,
+      ...overrides,
+    });
+    await tick();
+    return clip;
+  }
+
+  const ids = (clips: { id: string }[]) => clips.map((clip) => clip.id);
+  const byId = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+  // Every page of a listing, following the cursors
+  async function allPages(sort: AudioSort, limit: number, starredByUserId?: string) {
+    const pages = [];
+    let after = null;
+    do {
+      const page = await storage.clips.listPage({}, sort, { limit, after, starredByUserId });
+      pages.push(page);
+      after = page.nextCursor;
+    } while (after && pages.length < 10);
+    return pages;
+  }
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    opened = await backend.open();
+    const user = await createUser("learner");
+    userId = user.id;
+    storage = await opened.storageFor(userId);
+  });
+
+  afterEach(() => {
+    opened.close();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("binds to the user making the request", async () => {
+    expect(storage.user?.id).toBe(userId);
+    expect((await opened.storageFor()).user).toBeNull();
+  });
+
+  describe("clips", () => {
+    it("creates clips and reads them back by id", async () => {
+      const clip = await createClip("Morning", {
+        transcript: "おはよう",
+        speakerGender: "female",
+        tags: ["greeting"],
+      });
+
+      expect(clip).toMatchObject({
+        title: "Morning",
+        duration: 10,
+        uploadedBy: userId,
+        metadata: { language: "ja", transcript: "おはよう", speakerGender: "female", tags: ["greeting"] },
+      });
+      expect(await storage.clips.getById(clip.id)).toMatchObject({
+        id: clip.id,
+        title: "Morning",
+        metadata: clip.metadata,
+      });
+      expect(await storage.clips.getById(randomUUID())).toBeNull();
+    });
+
+    it("updates a clip's title, metadata and hidden flag", async () => {
+      const clip = await createClip("Draft");
+
+      const updated = await storage.clips.update(clip.id, {
+        title: "Final",
+        metadata: { ...clip.metadata, transcript: "こんにちは" },
+        hidden: true,
+      });
+
+      expect(updated).toMatchObject({ title: "Final", hidden: true, metadata: { transcript: "こんにちは" } });
+      expect(await storage.clips.getById(clip.id)).toMatchObject({ title: "Final", hidden: true });
+      expect(await storage.clips.update(randomUUID(), { title: "Missing" })).toBeNull();
+    });
+
+    it("leaves hidden clips out of listings but still finds them by id", async () => {
+      const shown = await createClip("Shown");
+      const hidden = await createClip("Hidden");
+      await storage.clips.update(hidden.id, { hidden: true });
+
+      expect(ids(await storage.clips.list())).toEqual([shown.id]);
+      const page = await storage.clips.listPage(
+        {},
+        { field: "createdAt", direction: "desc" },
+        { limit: 10 }
+      );
+      expect(ids(page.clips)).toEqual([shown.id]);
+      expect(page.total).toBe(1);
+      expect(await storage.clips.getById(hidden.id)).toMatchObject({ hidden: true });
+    });
+
+    it("deletes a clip with its audio and peaks", async () => {
+      const filename = `${randomUUID()}.mp3`;
+      const storagePath = await storage.blobs.saveAudio(
+        new File([new Uint8Array([1, 2, 3])], filename),
+        filename,
+        userId
+      );
+      await storage.blobs.savePeaks(filename, userId, { duration: 1, peaksPerSecond: 1, peaks: [0.5] });
+      const clip = await createClip("Doomed", {}, { filename, storagePath });
+
+      expect(await storage.clips.delete(clip.id)).toBe(true);
+      expect(await storage.clips.getById(clip.id)).toBeNull();
+      expect(await storage.blobs.readAudio(clip)).toBeNull();
+      expect(await storage.blobs.getPeaks(clip)).toBeNull();
+      expect(await storage.clips.delete(clip.id)).toBe(false);
+    });
+
+    it("filters listings by metadata and ids", async () => {
+      const japanese = await createClip("Japanese", { language: "ja", tags: ["news"] });
+      const korean = await createClip("Korean", { language: "ko", tags: ["drama"] });
+      const other = await createClip("Other", { language: "ko" });
+      const sort: AudioSort = { field: "title", direction: "asc" };
+
+      expect(ids(await storage.clips.list({ language: "ko" }, sort))).toEqual([korean.id, other.id]);
+      expect(ids(await storage.clips.list({ tags: ["news", "drama"] }, sort))).toEqual([
+        japanese.id,
+        korean.id,
+      ]);
+      expect(ids(await storage.clips.list({ ids: [other.id] }, sort))).toEqual([other.id]);
+
+      const page = await storage.clips.listPage({ language: "ko" }, sort, { limit: 10 });
+      expect(ids(page.clips)).toEqual([korean.id, other.id]);
+      expect(page.total).toBe(2);
+    });
+
+    it("pages a sorted listing with cursors", async () => {
+      const titles = ["delta", "Alpha", "echo", "charlie", "Bravo"];
+      const clips = [];
+      for (const title of titles) {
+        clips.push(await createClip(title));
+      }
+      const alphabetical = [...clips].sort((a, b) =>
+        a.title.toLowerCase() < b.title.toLowerCase() ? -1 : 1
+      );
+
+      const ascending = await allPages({ field: "title", direction: "asc" }, 2);
+      expect(ascending.map((page) => page.clips.length)).toEqual([2, 2, 1]);
+      expect(ascending.every((page) => page.total === 5)).toBe(true);
+      expect(ascending[2].nextCursor).toBeNull();
+      expect(ascending.flatMap((page) => ids(page.clips))).toEqual(ids(alphabetical));
+
+      const descending = await allPages({ field: "title", direction: "desc" }, 3);
+      expect(descending.flatMap((page) => ids(page.clips))).toEqual(ids(alphabetical).reverse());
+
+      const newest = await allPages({ field: "createdAt", direction: "desc" }, 2);
+      expect(newest.flatMap((page) => ids(page.clips))).toEqual(ids(clips).reverse());
+    });
+
+    it("sorts by vote score, breaking ties on the clip id", async () => {
+      const voter = await createUser("voter");
+      const loved = await createClip("Loved");
+      const liked = await createClip("Liked");
+      const plain = await createClip("Plain");
+      const unvoted = await createClip("Unvoted");
+      const disliked = await createClip("Disliked");
+      await storage.clips.setVote(loved.id, userId, "up");
+      await storage.clips.setVote(loved.id, voter.id, "up");
+      await storage.clips.setVote(liked.id, userId, "up");
+      await storage.clips.setVote(plain.id, userId, "up");
+      await storage.clips.setVote(plain.id, voter.id, "down");
+      await storage.clips.setVote(disliked.id, voter.id, "down");
+
+      const pages = await allPages({ field: "voteScore", direction: "desc" }, 2);
+      expect(pages.flatMap((page) => ids(page.clips))).toEqual([
+        loved.id,
+        liked.id,
+        ...[plain.id, unvoted.id].sort(byId),
+        disliked.id,
+      ]);
+    });
+
+    it("lists clips without a difficulty rating last in either direction", async () => {
+      const easy = await createClip("Easy");
+      const hard = await createClip("Hard");
+      const unrated = await createClip("Unrated");
+      await storage.clips.rateDifficulty(easy.id, userId, 1);
+      await storage.clips.rateDifficulty(hard.id, userId, 5);
+
+      const ascending = await allPages({ field: "difficulty", direction: "asc" }, 1);
+      expect(ascending.flatMap((page) => ids(page.clips))).toEqual([easy.id, hard.id, unrated.id]);
+      const descending = await allPages({ field: "difficulty", direction: "desc" }, 1);
+      expect(descending.flatMap((page) => ids(page.clips))).toEqual([hard.id, easy.id, unrated.id]);
+    });
+
+    it("sorts and filters by speaking speed", async () => {
+      // 10 second clips, so 1, 2 and 3 characters per second
+      const slow = await createClip("Slow", { transcript: "a".repeat(10) });
+      const medium = await createClip("Medium", { transcript: "a".repeat(20) });
+      const fast = await createClip("Fast", { transcript: "a".repeat(30) });
+      const silent = await createClip("Silent");
+
+      const fastest = await allPages({ field: "charactersPerSecond", direction: "desc" }, 2);
+      expect(fastest.flatMap((page) => ids(page.clips))).toEqual([
+        fast.id,
+        medium.id,
+        slow.id,
+        silent.id,
+      ]);
+
+      const percentiles = await storage.clips.getSpeedPercentiles({});
+      expect(percentiles).toEqual({ slow: 1, medium: 2 });
+
+      const sort: AudioSort = { field: "createdAt", direction: "asc" };
+      const slowPage = await storage.clips.listPage({}, sort, { limit: 10, speed: { atMost: 1 } });
+      expect(ids(slowPage.clips)).toEqual([slow.id]);
+      const mediumPage = await storage.clips.listPage({}, sort, {
+        limit: 10,
+        speed: { above: 1, atMost: 2 },
+      });
+      expect(ids(mediumPage.clips)).toEqual([medium.id]);
+      expect(mediumPage.total).toBe(1);
+
+      expect(await storage.clips.getSpeedPercentiles({ language: "ko" })).toBeNull();
+    });
+
+    it("counts transcript characters the way the API labels speeds", async () => {
+      // Emoji are two UTF-16 code units but one character
+      const emoji = await createClip("Emoji", { transcript: "😀".repeat(10) });
+      const kana = await createClip("Kana", { transcript: "あ".repeat(20) });
+
+      expect(charactersPerSecond(emoji)).toBe(1);
+      const sort: AudioSort = { field: "createdAt", direction: "asc" };
+      const slowPage = await storage.clips.listPage({}, sort, { limit: 10, speed: { atMost: 1 } });
+      expect(ids(slowPage.clips)).toEqual([emoji.id]);
+      expect(await storage.clips.getSpeedPercentiles({})).toEqual({ slow: 1, medium: 2 });
+      expect(charactersPerSecond(kana)).toBe(2);
+    });
+
+    it("limits listings to a user's starred clips", async () => {
+      const starred = await createClip("Starred");
+      await createClip("Unstarred");
+      const alsoStarred = await createClip("Also starred");
+      await storage.clips.setStarred(starred.id, userId, true);
+      await storage.clips.setStarred(alsoStarred.id, userId, true);
+
+      const sort: AudioSort = { field: "title", direction: "asc" };
+      expect(
+        ids(await storage.clips.list({}, sort, { starredByUserId: userId }))
+      ).toEqual([alsoStarred.id, starred.id]);
+
+      const pages = await allPages(sort, 1, userId);
+      expect(pages.flatMap((page) => ids(page.clips))).toEqual([alsoStarred.id, starred.id]);
+      expect(pages[0].total).toBe(2);
+
+      const stranger = await createUser("stranger");
+      const none = await storage.clips.listPage({}, sort, { limit: 10, starredByUserId: stranger.id });
+      expect(none).toEqual({ clips: [], nextCursor: null, total: 0 });
+    });
+
+    it("searches titles and transcripts", async () => {
+      const walrus = await createClip("Zoo trip", { transcript: "the walrus sings" });
+      await createClip("Market", { transcript: "fresh fish" });
+
+      const page = await storage.clips.listPage(
+        { q: "walrus" },
+        { field: "relevance", direction: "desc" },
+        { limit: 10 }
+      );
+      expect(ids(page.clips)).toEqual([walrus.id]);
+      expect(page.total).toBe(1);
+      expect(page.clips[0].search).toBeDefined();
+    });
+
+    it("counts votes, with the viewer's own vote", async () => {
+      const voter = await createUser("voter");
+      const clip = await createClip("Voted");
+
+      await storage.clips.setVote(clip.id, userId, "up");
+      await storage.clips.setVote(clip.id, voter.id, "down");
+      expect(await storage.clips.getVotes(clip.id, userId)).toEqual({
+        upvoteCount: 1,
+        downvoteCount: 1,
+        voteScore: 0,
+        userVote: "up",
+      });
+
+      await storage.clips.setVote(clip.id, userId, "down");
+      expect(await storage.clips.getVotes(clip.id, userId)).toMatchObject({
+        downvoteCount: 2,
+        voteScore: -2,
+        userVote: "down",
+      });
+
+      await storage.clips.setVote(clip.id, userId, null);
+      expect(await storage.clips.getVotes(clip.id, userId)).toMatchObject({
+        upvoteCount: 0,
+        downvoteCount: 1,
+        userVote: null,
+      });
+
+      const signedOut = await opened.storageFor();
+      expect((await signedOut.clips.getVotes(clip.id)).userVote).toBeNull();
+    });
+
+    it("stars and unstars clips once per user", async () => {
+      const clip = await createClip("Favourite");
+
+      await storage.clips.setStarred(clip.id, userId, true);
+      await storage.clips.setStarred(clip.id, userId, true);
+      expect(await storage.clips.getStars(clip.id, userId)).toEqual({
+        starCount: 1,
+        isStarredByUser: true,
+      });
+
+      await storage.clips.setStarred(clip.id, userId, false);
+      expect(await storage.clips.getStars(clip.id, userId)).toEqual({
+        starCount: 0,
+        isStarredByUser: false,
+      });
+    });
+
+    it("averages difficulty ratings, one per user", async () => {
+      const rater = await createUser("rater");
+      const clip = await createClip("Rated");
+      expect(await storage.clips.getDifficulty(clip.id, userId)).toEqual({
+        average: null,
+        count: 0,
+        userRating: null,
+      });
+
+      await storage.clips.rateDifficulty(clip.id, userId, 2);
+      await storage.clips.rateDifficulty(clip.id, rater.id, 3);
+      expect(await storage.clips.getDifficulty(clip.id, userId)).toEqual({
+        average: 2.5,
+        count: 2,
+        userRating: 2,
+      });
+
+      await storage.clips.rateDifficulty(clip.id, userId, 4);
+      expect(await storage.clips.getDifficulty(clip.id, userId)).toEqual({
+        average: 3.5,
+        count: 2,
+        userRating: 4,
+      });
+    });
+
+    it("returns the same discovery info for a page as clip by clip", async () => {
+      const busy = await createClip("Busy");
+      const quiet = await createClip("Quiet");
+      await storage.clips.setVote(busy.id, userId, "up");
+      await storage.clips.setStarred(busy.id, userId, true);
+      await storage.clips.rateDifficulty(busy.id, userId, 3);
+
+      const info = await storage.clips.getDiscoveryInfo([busy.id, quiet.id], userId);
+      for (const clip of [busy, quiet]) {
+        expect(info.get(clip.id)).toEqual({
+          votes: await storage.clips.getVotes(clip.id, userId),
+          stars: await storage.clips.getStars(clip.id, userId),
+          difficulty: await storage.clips.getDifficulty(clip.id, userId),
+        });
+      }
+      expect(info.get(busy.id)?.stars.isStarredByUser).toBe(true);
+    });
+  });
+
+  describe("users", () => {
+    it("creates users and finds them by id, email or username", async () => {
+      const user = await createUser("newcomer");
+      const expected = { id: user.id, email: "newcomer@example.com", username: "newcomer" };
+
+      expect(user).toMatchObject(expected);
+      expect(await storage.users.getUser(user.id)).toMatchObject(expected);
+      expect(await storage.users.getUser("newcomer@example.com")).toMatchObject(expected);
+      expect(await storage.users.getUser("newcomer")).toMatchObject(expected);
+      expect(await storage.users.getUser("nobody")).toBeNull();
+      await expect(createUser("newcomer")).rejects.toThrow();
+    });
+
+    it("verifies passwords by email or username", async () => {
+      const user = await createUser("member");
+
+      expect(await storage.users.verifyCredentials("member@example.com", "member-password")).toMatchObject({
+        id: user.id,
+      });
+      expect(await storage.users.verifyCredentials("member", "member-password")).toMatchObject({
+        id: user.id,
+      });
+      expect(await storage.users.verifyCredentials("member@example.com", "wrong")).toBeNull();
+      expect(await storage.users.verifyCredentials("nobody@example.com", "wrong")).toBeNull();
+    });
+
+    it("gives new users the learner role until it is changed", async () => {
+      expect(await storage.users.getRole(userId)).toBe("learner");
+
+      expect(await storage.users.setRole(userId, "curator")).toMatchObject({
+        id: userId,
+        role: "curator",
+        isAdmin: false,
+      });
+      expect(await storage.users.getRole(userId)).toBe("curator");
+      expect(await storage.users.listUsers()).toContainEqual(
+        expect.objectContaining({ id: userId, role: "curator" })
+      );
+      expect(await storage.users.setRole(randomUUID(), "admin")).toBeNull();
+    });
+
+    it("saves and clears filter preferences", async () => {
+      expect(await storage.users.getFilterPreferences(userId)).toBeNull();
+
+      const preferences = {
+        language: "ja",
+        speakerGender: "female" as const,
+        speedFilter: "slow" as const,
+        defaultSort: { field: "title" as const, direction: "asc" as const },
+      };
+      await storage.users.saveFilterPreferences(userId, preferences);
+      expect(await storage.users.getFilterPreferences(userId)).toEqual(preferences);
+
+      await storage.users.saveFilterPreferences(userId, null);
+      expect(await storage.users.getFilterPreferences(userId)).toBeNull();
+    });
+
+    it("saves and clears audio settings", async () => {
+      expect(await storage.users.getAudioSettings(userId)).toBeNull();
+
+      const settings = { userVolume: 0.5, enableMonitoring: true, monitoringLatencyMs: 40 };
+      await storage.users.saveAudioSettings(userId, settings);
+      expect(await storage.users.getAudioSettings(userId)).toEqual(settings);
+
+      await storage.users.saveAudioSettings(userId, null);
+      expect(await storage.users.getAudioSettings(userId)).toBeNull();
+    });
+
+    it("schedules reviews and lists the due ones", async () => {
+      const clip = await createClip("Review me");
+      expect(await storage.users.getReviewState(userId, clip.id)).toBeNull();
+
+      const state = await storage.users.recordReview(userId, clip.id, "good", 90);
+      expect(state).toMatchObject({ userId, clipId: clip.id, repetitions: 1, lastGrade: "good", lastAccuracy: 90 });
+      expect(await storage.users.getReviewState(userId, clip.id)).toEqual(state);
+
+      expect(await storage.users.getDueReviews(userId)).toEqual([]);
+      const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      expect(await storage.users.getDueReviews(userId, nextWeek)).toEqual([state]);
+    });
+
+    it("stores practice sessions, newest first", async () => {
+      const first = await createClip("First");
+      const second = await createClip("Second");
+      const session = (clipId: string, startedAt: string) => ({
+        clipId,
+        language: "ja",
+        startedAt,
+        endedAt: startedAt,
+        secondsPracticed: 60,
+        loops: 3,
+        playbackRates: [1, 0.75],
+        transcriptionAccuracy: 80,
+      });
+
+      const older = await storage.users.createPracticeSession(
+        userId,
+        session(first.id, "2026-03-01T10:00:00.000Z")
+      );
+      const newer = await storage.users.createPracticeSession(
+        userId,
+        session(second.id, "2026-03-02T10:00:00.000Z")
+      );
+      expect(older).toMatchObject({ userId, clipId: first.id, loops: 3, playbackRates: [1, 0.75] });
+
+      expect(ids(await storage.users.getPracticeSessions(userId))).toEqual([newer.id, older.id]);
+      expect(await storage.users.getPracticeSessions(userId, { clipId: first.id })).toEqual([older]);
+    });
+  });
+
+  describe("moderation", () => {
+    it("keeps reports open until a curator closes them", async () => {
+      const clip = await createClip("Reported");
+      const other = await createClip("Also reported");
+      const first = await storage.moderation.createReport({
+        clipId: clip.id,
+        reporterId: userId,
+        reason: "wrong-transcript",
+        details: "Second line is wrong",
+      });
+      await tick();
+      const second = await storage.moderation.createReport({
+        clipId: clip.id,
+        reporterId: userId,
+        reason: "bad-audio",
+      });
+      await tick();
+      await storage.moderation.createReport({ clipId: other.id, reporterId: userId, reason: "other" });
+
+      expect(first).toMatchObject({ clipId: clip.id, reason: "wrong-transcript", status: "open" });
+      expect(ids(await storage.moderation.listReports({ clipId: clip.id }))).toEqual([
+        first.id,
+        second.id,
+      ]);
+
+      expect(await storage.moderation.closeReports(clip.id, "resolved", userId)).toBe(2);
+      expect(await storage.moderation.closeReports(clip.id, "resolved", userId)).toBe(0);
+      expect(await storage.moderation.listReports({ clipId: clip.id, status: "resolved" })).toEqual([
+        expect.objectContaining({ id: first.id, status: "resolved", closedBy: userId }),
+        expect.objectContaining({ id: second.id, status: "resolved", closedBy: userId }),
+      ]);
+      expect(await storage.moderation.listReports({ status: "open" })).toHaveLength(1);
+    });
+
+    it("logs actions, newest first", async () => {
+      const clip = await createClip("Moderated");
+      const hide = await storage.moderation.logAction({
+        clipId: clip.id,
+        clipTitle: clip.title,
+        actorId: userId,
+        action: "hide",
+        note: "Spam",
+      });
+      await tick();
+      const unhide = await storage.moderation.logAction({
+        clipId: clip.id,
+        clipTitle: clip.title,
+        actorId: userId,
+        action: "unhide",
+      });
+      await tick();
+      await storage.moderation.logAction({
+        clipId: randomUUID(),
+        clipTitle: "Deleted clip",
+        actorId: userId,
+        action: "delete",
+      });
+
+      expect(hide).toMatchObject({ clipId: clip.id, action: "hide", note: "Spam" });
+      expect(ids(await storage.moderation.listActions({ clipId: clip.id }))).toEqual([
+        unhide.id,
+        hide.id,
+      ]);
+      expect(await storage.moderation.listActions()).toHaveLength(3);
+      expect(await storage.moderation.listActions({ limit: 1 })).toEqual([
+        expect.objectContaining({ action: "delete" }),
+      ]);
+    });
+  });
+
+  describe("decks", () => {
+    it("creates, updates and deletes decks with their clip order", async () => {
+      const clips = [await createClip("One"), await createClip("Two"), await createClip("Three")];
+      const deck = await storage.decks.create(userId, {
+        name: "Basics",
+        description: "Start here",
+        isPublic: false,
+        clipIds: [clips[2].id, clips[0].id],
+      });
+
+      expect(deck).toMatchObject({
+        ownerId: userId,
+        name: "Basics",
+        description: "Start here",
+        isPublic: false,
+        clipIds: [clips[2].id, clips[0].id],
+      });
+      expect(await storage.decks.getById(deck.id)).toMatchObject({
+        id: deck.id,
+        clipIds: [clips[2].id, clips[0].id],
+      });
+
+      await tick();
+      const updated = await storage.decks.update(deck.id, {
+        name: "Renamed",
+        description: undefined,
+        isPublic: true,
+        clipIds: [clips[0].id, clips[1].id, clips[2].id],
+      });
+      expect(updated).toMatchObject({ name: "Renamed", isPublic: true, clipIds: ids(clips) });
+      expect(updated?.description).toBeUndefined();
+      expect(await storage.decks.update(randomUUID(), { name: "Missing" })).toBeNull();
+
+      expect(await storage.decks.delete(deck.id)).toBe(true);
+      expect(await storage.decks.getById(deck.id)).toBeNull();
+      expect(await storage.decks.delete(deck.id)).toBe(false);
+    });
+
+    it("lists decks by owner and visibility, most recently changed first", async () => {
+      const other = await createUser("other");
+      const older = await storage.decks.create(userId, { name: "Older", isPublic: true, clipIds: [] });
+      await tick();
+      const newer = await storage.decks.create(userId, { name: "Newer", isPublic: false, clipIds: [] });
+      await tick();
+      const theirs = await storage.decks.create(other.id, { name: "Theirs", isPublic: true, clipIds: [] });
+
+      expect(ids(await storage.decks.list({ ownerId: userId }))).toEqual([newer.id, older.id]);
+      expect(ids(await storage.decks.list({ isPublic: true }))).toEqual([theirs.id, older.id]);
+
+      await tick();
+      await storage.decks.update(older.id, { name: "Older, renamed" });
+      expect(ids(await storage.decks.list({ ownerId: userId }))).toEqual([older.id, newer.id]);
+    });
+  });
+
+  describe("blobs", () => {
+    it("reads back saved audio for the clip stored with it", async () => {
+      const filename = `${randomUUID()}.mp3`;
+      const bytes = new Uint8Array([73, 68, 51, 4]);
+      const storagePath = await storage.blobs.saveAudio(new File([bytes], filename), filename, userId);
+      const clip = await createClip("Audio", {}, { filename, storagePath });
+
+      const audio = await storage.blobs.readAudio(clip);
+      expect(audio && new Uint8Array(await audio.arrayBuffer())).toEqual(bytes);
+      expect(storage.blobs.getAudioUrl(clip)).toContain(filename);
+      expect(await storage.blobs.readAudio({ ...clip, filename: `${randomUUID()}.mp3` })).toBeNull();
+      expect(storage.blobs.limits.maxUploadBytes).toBeGreaterThan(0);
+    });
+
+    it("stores waveform peaks next to the audio", async () => {
+      const clip = await createClip("Peaks");
+      const peaks: ClipPeaks = { duration: 10, peaksPerSecond: 2, peaks: [0, 0.25, 1] };
+      expect(await storage.blobs.getPeaks(clip)).toBeNull();
+
+      await storage.blobs.savePeaks(clip.filename, userId, peaks);
+      expect(await storage.blobs.getPeaks(clip)).toEqual(peaks);
+    });
+  });
+});
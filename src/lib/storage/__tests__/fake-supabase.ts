@@ -0,0 +1,508 @@
+// In-memory stand-in for the supabase-js client, for the storage contract
+// tests. It covers the PostgREST query builder, auth and storage calls
+// lib/server-database and lib/supabase make, with the defaults, unique
+// keys and views of migrations/*.sql. RLS is not modelled.
+
+import { randomUUID } from "crypto";
+
+type Row = Record<string, any>;
+type Result = { data: any; error: any; count?: number | null };
+
+// Unique keys, besides id, that inserts and upserts respect
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  clip_stars: [["clip_id", "user_id"]],
+  clip_votes: [["clip_id", "user_id"]],
+  clip_difficulty_ratings: [["clip_id", "user_id"]],
+  clip_review_states: [["user_id", "clip_id"]],
+  deck_clips: [["deck_id", "clip_id"]],
+  profiles: [["email"], ["username"]],
+};
+
+const DEFAULTS: Record<string, () => Row> = {
+  audio_clips: () => ({ hidden: false, tags: [] }),
+  profiles: () => ({ role: "learner", filter_preferences: null, audio_settings: null }),
+  clip_reports: () => ({ status: "open", closed_at: null, closed_by: null }),
+};
+
+// Embedded selects like "deck_clips(clip_id, position)" join on <parent>_id
+const foreignKeyOf = (table: string) => `${table.replace(/s$/, "")}_id`;
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  files = new Map<string, Blob>();
+  private passwords = new Map<string, string>();
+  private clock = Date.parse("2026-01-01T00:00:00.000Z");
+
+  // Strictly increasing, so rows inserted back to back still sort in order
+  now(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+
+  rows(table: string): Row[] {
+    if (table === "audio_clip_listing") return this.clipListing();
+    return (this.tables[table] ??= []);
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  // search_audio_clips (migrations/add_clip_search.sql), as plain
+  // substring matching: title matches rank above the other columns
+  async rpc(name: string, args: { query: string }): Promise<Result> {
+    if (name !== "search_audio_clips") {
+      return { data: null, error: { message: `function ${name} does not exist`, code: "42883" } };
+    }
+    const terms = args.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = this.rows("audio_clips")
+      .map((clip) => {
+        const title = String(clip.title ?? "").toLowerCase();
+        const rest = [clip.transcript, clip.speaker_dialect, clip.source_url, ...(clip.tags ?? [])]
+          .filter(Boolean)
+          .join(" ")
+          .toLowerCase();
+        const found = terms.every((term) => title.includes(term) || rest.includes(term));
+        const rank = terms.filter((term) => title.includes(term)).length + 0.1;
+        return { id: clip.id, rank: found ? rank : 0 };
+      })
+      .filter((match) => match.rank > 0)
+      .sort((a, b) => b.rank - a.rank);
+    return { data: matches, error: null };
+  }
+
+  auth = {
+    signUp: async ({
+      email,
+      password,
+      options,
+    }: {
+      email: string;
+      password: string;
+      options?: { data?: Row };
+    }): Promise<Result> => {
+      if (this.rows("profiles").some((profile) => profile.email === email)) {
+        return { data: { user: null }, error: { message: "User already registered" } };
+      }
+      const user = {
+        id: randomUUID(),
+        email,
+        created_at: this.now(),
+        user_metadata: options?.data ?? {},
+      };
+      this.passwords.set(user.id, password);
+      // The profile the on-signup trigger creates
+      this.insertRow("profiles", {
+        id: user.id,
+        email,
+        username: options?.data?.username,
+        created_at: user.created_at,
+      });
+      return { data: { user }, error: null };
+    },
+
+    signInWithPassword: async ({
+      email,
+      password,
+    }: {
+      email: string;
+      password: string;
+    }): Promise<Result> => {
+      const profile = this.rows("profiles").find((row) => row.email === email);
+      if (!profile || this.passwords.get(profile.id) !== password) {
+        return { data: { user: null }, error: { message: "Invalid login credentials" } };
+      }
+      return {
+        data: { user: { id: profile.id, email, created_at: profile.created_at } },
+        error: null,
+      };
+    },
+  };
+
+  storage = {
+    from: (bucket: string) => ({
+      upload: async (path: string, file: Blob, options?: { upsert?: boolean }): Promise<Result> => {
+        const key = `${bucket}/${path}`;
+        if (this.files.has(key) && !options?.upsert) {
+          return { data: null, error: { message: "The resource already exists", statusCode: "409" } };
+        }
+        this.files.set(key, new Blob([await file.arrayBuffer()], { type: file.type }));
+        return { data: { path }, error: null };
+      },
+      download: async (path: string): Promise<Result> => {
+        const file = this.files.get(`${bucket}/${path}`);
+        return file
+          ? { data: file, error: null }
+          : { data: null, error: { message: "Object not found", statusCode: "404" } };
+      },
+      remove: async (paths: string[]): Promise<Result> => {
+        paths.forEach((path) => this.files.delete(`${bucket}/${path}`));
+        return { data: [], error: null };
+      },
+      getPublicUrl: (path: string) => ({
+        data: { publicUrl: `http://localhost:54321/storage/v1/object/public/${bucket}/${path}` },
+      }),
+    }),
+  };
+
+  insertRow(table: string, values: Row): Row {
+    const now = this.now();
+    const row = {
+      id: randomUUID(),
+      created_at: now,
+      updated_at: now,
+      ...DEFAULTS[table]?.(),
+      ...values,
+    };
+    this.rows(table).push(row);
+    return row;
+  }
+
+  // The row a new row collides with on a unique key
+  conflictOf(table: string, values: Row, keys = UNIQUE_KEYS[table] ?? []): Row | undefined {
+    return this.rows(table).find(
+      (row) =>
+        (values.id !== undefined && row.id === values.id) ||
+        keys.some((key) => key.every((column) => row[column] === values[column]))
+    );
+  }
+
+  // audio_clip_listing (migrations/add_clip_listing.sql)
+  private clipListing(): Row[] {
+    return this.rows("audio_clips").map((clip) => {
+      const votes = this.rows("clip_votes").filter((vote) => vote.clip_id === clip.id);
+      const ratings = this.rows("clip_difficulty_ratings")
+        .filter((rating) => rating.clip_id === clip.id)
+        .map((rating) => rating.rating);
+      const characters = Array.from(String(clip.transcript ?? "")).length;
+      return {
+        ...clip,
+        title_sort: String(clip.title).toLowerCase(),
+        vote_score: votes.reduce((score, vote) => score + (vote.vote_type === "up" ? 1 : -1), 0),
+        difficulty: ratings.length
+          ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10
+          : null,
+        characters_per_second: clip.duration > 0 && characters > 0 ? characters / clip.duration : null,
+      };
+    });
+  }
+}
+
+type Filter = (row: Row) => boolean;
+type Order = { column: string; ascending: boolean; nullsFirst: boolean };
+
+// Compares like Postgres: a number column against a number
+function coerce(row: Row, column: string, value: any): any {
+  return typeof row[column] === "number" && typeof value === "string" ? Number(value) : value;
+}
+
+function comparison(op: string, column: string, value: any): Filter {
+  switch (op) {
+    case "eq":
+      return (row) => row[column] === coerce(row, column, value);
+    case "neq":
+      return (row) => row[column] !== coerce(row, column, value);
+    case "gt":
+      return (row) => row[column] !== null && row[column] > coerce(row, column, value);
+    case "gte":
+      return (row) => row[column] !== null && row[column] >= coerce(row, column, value);
+    case "lt":
+      return (row) => row[column] !== null && row[column] < coerce(row, column, value);
+    case "lte":
+      return (row) => row[column] !== null && row[column] <= coerce(row, column, value);
+    case "is":
+      return (row) => (row[column] ?? null) === (value === "null" ? null : value);
+    default:
+      throw new Error(`Fake Supabase does not support the ${op} filter`);
+  }
+}
+
+// Splits a PostgREST filter list on the commas outside quotes and parentheses
+function splitFilters(expression: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (quoted && char === "\\") {
+      current += char + expression[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === "(") depth++;
+    if (!quoted && char === ")") depth--;
+    if (!quoted && depth === 0 && char === ",") {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current];
+}
+
+function parseFilter(expression: string): Filter {
+  if (expression.startsWith("and(")) {
+    const filters = splitFilters(expression.slice(4, -1)).map(parseFilter);
+    return (row) => filters.every((filter) => filter(row));
+  }
+  if (expression.startsWith("or(")) {
+    const filters = splitFilters(expression.slice(3, -1)).map(parseFilter);
+    return (row) => filters.some((filter) => filter(row));
+  }
+  const [column, op, ...rest] = expression.split(".");
+  const raw = rest.join(".");
+  const value = raw.startsWith('"')
+    ? raw.slice(1, -1).replace(/\\(.)/g, "$1")
+    : raw;
+  return comparison(op, column, value);
+}
+
+function compareValues(a: any, b: any): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// A PostgREST request being built; awaiting it runs it
+class FakeQuery implements PromiseLike<Result> {
+  private filters: Filter[] = [];
+  private orders: Order[] = [];
+  private window: { from: number; to?: number } | null = null;
+  private columns: string | null = null;
+  private countRows = false;
+  private headOnly = false;
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+  private mutation:
+    | { kind: "insert"; rows: Row[] }
+    | { kind: "upsert"; rows: Row[]; onConflict?: string }
+    | { kind: "update"; values: Row }
+    | { kind: "delete" }
+    | null = null;
+
+  constructor(
+    private db: FakeSupabase,
+    private table: string
+  ) {}
+
+  select(columns = "*", options?: { count?: "exact"; head?: boolean }) {
+    this.columns = columns;
+    this.countRows = options?.count === "exact";
+    this.headOnly = !!options?.head;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.mutation = { kind: "insert", rows: Array.isArray(rows) ? rows : [rows] };
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options?: { onConflict?: string }) {
+    this.mutation = {
+      kind: "upsert",
+      rows: Array.isArray(rows) ? rows : [rows],
+      onConflict: options?.onConflict,
+    };
+    return this;
+  }
+
+  update(values: Row) {
+    this.mutation = { kind: "update", values };
+    return this;
+  }
+
+  delete() {
+    this.mutation = { kind: "delete" };
+    return this;
+  }
+
+  eq(column: string, value: any) {
+    return this.where(comparison("eq", column, value));
+  }
+
+  neq(column: string, value: any) {
+    return this.where(comparison("neq", column, value));
+  }
+
+  gt(column: string, value: any) {
+    return this.where(comparison("gt", column, value));
+  }
+
+  gte(column: string, value: any) {
+    return this.where(comparison("gte", column, value));
+  }
+
+  lt(column: string, value: any) {
+    return this.where(comparison("lt", column, value));
+  }
+
+  lte(column: string, value: any) {
+    return this.where(comparison("lte", column, value));
+  }
+
+  is(column: string, value: null) {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+
+  in(column: string, values: any[]) {
+    return this.where((row) => values.includes(row[column]));
+  }
+
+  overlaps(column: string, values: any[]) {
+    return this.where((row) => (row[column] ?? []).some((value: any) => values.includes(value)));
+  }
+
+  not(column: string, op: string, value: any) {
+    const filter = comparison(op, column, value === null ? "null" : value);
+    return this.where((row) => !filter(row));
+  }
+
+  or(expression: string) {
+    return this.where(parseFilter(`or(${expression})`));
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    const ascending = options.ascending ?? true;
+    // Postgres puts NULLs last ascending and first descending
+    this.orders.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  limit(count: number) {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  single() {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private where(filter: Filter) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private execute(): Result {
+    let rows: Row[];
+    switch (this.mutation?.kind) {
+      case "insert": {
+        const conflict = this.mutation.rows.find((values) => this.db.conflictOf(this.table, values));
+        if (conflict) {
+          return {
+            data: null,
+            error: { message: "duplicate key value violates unique constraint", code: "23505" },
+          };
+        }
+        rows = this.mutation.rows.map((values) => this.db.insertRow(this.table, values));
+        break;
+      }
+      case "upsert": {
+        const keys = this.mutation.onConflict ? [this.mutation.onConflict.split(",")] : undefined;
+        rows = this.mutation.rows.map((values) => {
+          const existing = this.db.conflictOf(this.table, values, keys);
+          return existing ? Object.assign(existing, values) : this.db.insertRow(this.table, values);
+        });
+        break;
+      }
+      case "update": {
+        const values = this.mutation.values;
+        rows = this.matching().map((row) => Object.assign(row, values));
+        break;
+      }
+      case "delete": {
+        rows = this.matching();
+        this.db.tables[this.table] = this.db.rows(this.table).filter((row) => !rows.includes(row));
+        break;
+      }
+      default:
+        rows = this.sorted(this.matching());
+    }
+
+    const count = this.countRows ? rows.length : null;
+    if (this.window) {
+      rows = rows.slice(this.window.from, this.window.to === undefined ? undefined : this.window.to + 1);
+    }
+
+    // Mutations only return rows when asked to with select()
+    if (this.headOnly || (this.mutation && this.columns === null)) {
+      return { data: null, error: null, count };
+    }
+    const data = rows.map((row) => this.project(row));
+
+    if (this.cardinality === "many") {
+      return { data, error: null, count };
+    }
+    if (data.length === 1) {
+      return { data: data[0], error: null, count };
+    }
+    if (data.length === 0 && this.cardinality === "maybeSingle") {
+      return { data: null, error: null, count };
+    }
+    return {
+      data: null,
+      error: {
+        message: "JSON object requested, multiple (or no) rows returned",
+        code: "PGRST116",
+      },
+      count,
+    };
+  }
+
+  private matching(): Row[] {
+    return this.db.rows(this.table).filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private sorted(rows: Row[]): Row[] {
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending, nullsFirst } of this.orders) {
+        const aNull = a[column] === null || a[column] === undefined;
+        const bNull = b[column] === null || b[column] === undefined;
+        if (aNull !== bNull) return aNull === nullsFirst ? -1 : 1;
+        const order = aNull ? 0 : compareValues(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+  }
+
+  // The selected columns, with embedded rows of related tables
+  private project(row: Row): Row {
+    const columns = splitFilters(this.columns ?? "*").map((column) => column.trim());
+    const projected: Row = {};
+    for (const column of columns) {
+      const embed = column.match(/^(\w+)\((.*)\)$/);
+      if (column === "*") {
+        Object.assign(projected, row);
+      } else if (embed) {
+        const [, table, embedColumns] = embed;
+        const fields = embedColumns.split(",").map((field) => field.trim());
+        projected[table] = this.db
+          .rows(table)
+          .filter((child) => child[foreignKeyOf(this.table)] === row.id)
+          .map((child) => Object.fromEntries(fields.map((field) => [field, child[field]])));
+      } else {
+        projected[column] = row[column];
+      }
+    }
+    return structuredClone(projected);
+  }
+}
@@ -0,0 +1,67 @@
+// The permission check every mutating API route goes through
+
+import { NextResponse } from "next/server";
+import { can, minimumRoleFor, type Permission } from "@/lib/permissions";
+import type { RequestUser, Storage } from "./types";
+
+const DENIED_MESSAGES: Partial<Record<Permission, string>> = {
+  "clips.edit": "Unauthorized to edit this clip",
+  "clips.delete": "Unauthorized to delete this clip",
+  "users.manageRoles": "Only admins can assign roles",
+};
+
+// The signed-in user when allowed, otherwise the 401/403 response to send
+export type Authorization =
+  | { user: RequestUser; denied?: undefined }
+  | { user?: undefined; denied: NextResponse };
+
+/**
+ * Checks the request's user may take an action, by their stored role
+ * @param storage - The request's storage, from getStorage
+ * @param permission - The action
+ * @param clip - The clip acted on; its uploader may edit and delete it
+ */
+export async function authorize(
+  { user, users }: Pick<Storage, "user" | "users">,
+  permission: Permission,
+  clip?: { uploadedBy: string }
+): Promise<Authorization> {
+  if (!user) {
+    return {
+      denied: NextResponse.json({ error: "Authentication required" }, { status: 401 }),
+    };
+  }
+
+  const role = await users.getRole(user.id);
+  if (can({ id: user.id, role }, permission, clip)) {
+    return { user };
+  }
+
+  return {
+    denied: NextResponse.json(
+      {
+        error:
+          DENIED_MESSAGES[permission] ??
+          `This needs the ${minimumRoleFor(permission)} role or higher`,
+      },
+      { status: 403 }
+    ),
+  };
+}
+
+/**
+ * Whether the request's user may see a clip: hidden clips are only shown
+ * to their uploader and to curators, and per-clip routes 404 for everyone else
+ * @param storage - The request's storage, from getStorage
+ * @param clip - The clip requested
+ */
+export async function canViewClip(
+  storage: Pick<Storage, "user" | "users">,
+  clip: { hidden?: boolean; uploadedBy: string }
+): Promise<boolean> {
+  if (!clip.hidden || clip.uploadedBy === storage.user?.id) {
+    return true;
+  }
+  const { denied } = await authorize(storage, "clips.moderate");
+  return !denied;
+}
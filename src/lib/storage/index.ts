@@ -0,0 +1,39 @@
+// The storage backend API routes run against, chosen by
+// NEXT_PUBLIC_STORAGE_BACKEND ("local" by default, or "supabase")
+
+import type { NextRequest } from "next/server";
+import { getLocalStorage } from "./local";
+import { getSupabaseStorage } from "./supabase";
+import type { Storage, StorageBackend } from "./types";
+
+export type {
+  BlobStore,
+  ClipDifficulty,
+  ClipDiscoveryInfo,
+  ClipListingOptions,
+  ClipPage,
+  ClipPageRequest,
+  ClipRepository,
+  ClipStars,
+  ClipVotes,
+  DeckRepository,
+  ModerationRepository,
+  NewClip,
+  RequestUser,
+  Storage,
+  StorageBackend,
+  UserRepository,
+} from "./types";
+export { authorize, canViewClip, type Authorization } from "./authorize";
+
+export function getStorageBackend(): StorageBackend {
+  return process.env.NEXT_PUBLIC_STORAGE_BACKEND === "supabase" ? "supabase" : "local";
+}
+
+// Repositories and blob store bound to the user making the request
+export async function getStorage(request: NextRequest): Promise<Storage> {
+  if (getStorageBackend() === "supabase") {
+    return getSupabaseStorage(request);
+  }
+  return getLocalStorage(request);
+}
@@ -0,0 +1,199 @@
+// Local backend: records in local-data (JSON files or SQLite, see
+// LOCAL_DB_BACKEND) and audio in local-data/audio, served by /api/files
+
+import fs from "fs";
+import type { NextRequest } from "next/server";
+import type { User } from "@/types/auth";
+import { localDb } from "@/lib/local-database";
+import type { LocalUser } from "@/lib/local-data";
+import { verifyLocalSession } from "@/lib/local-session";
+import { hashPassword } from "@/lib/password-hash";
+import { resolveRole } from "@/lib/admin";
+import { DEFAULT_ROLE } from "@/lib/permissions";
+import type {
+  BlobStore,
+  ClipRepository,
+  DeckRepository,
+  ModerationRepository,
+  RequestUser,
+  Storage,
+  UserRepository,
+} from "./types";
+
+// Difficulty ratings are stored on the clip by the local databases
+type RatedClip = {
+  difficulty?: number;
+  difficultyRatings?: Record<string, number>;
+};
+
+function toUser(user: LocalUser): User {
+  const role = resolveRole(user.id, user.role);
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    createdAt: user.createdAt,
+    role,
+    isAdmin: role === "admin",
+  };
+}
+
+// Local auth sends a signed session token (see lib/local-session)
+export async function getLocalRequestUser(request: NextRequest): Promise<RequestUser | null> {
+  const authHeader = request.headers.get("Authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const session = await verifyLocalSession(authHeader.substring(7));
+  if (!session) {
+    return null;
+  }
+
+  const user = await localDb.getUser(session.userId);
+  return user ? { id: user.id, username: user.username } : null;
+}
+
+const clips: ClipRepository = {
+  list: (filters, sort, options) => localDb.getClips(filters, sort, options),
+  listPage: (filters, sort, page) => localDb.getClipPage(filters, sort, page),
+  getSpeedPercentiles: (filters, options) => localDb.getSpeedPercentiles(filters, options),
+  getById: (id) => localDb.getClipById(id),
+  // The audio is stored under its filename, so the path isn't kept
+  create: ({ storagePath: _storagePath, ...clip }) => localDb.createClip(clip),
+  update: (id, updates) => localDb.updateClip(id, updates),
+  delete: (id) => localDb.deleteClip(id),
+
+  async getVotes(clipId, userId) {
+    const votes = await localDb.getVotesForClip(clipId);
+    return {
+      upvoteCount: votes.upvotes,
+      downvoteCount: votes.downvotes,
+      voteScore: votes.score,
+      userVote: userId ? await localDb.getUserVote(clipId, userId) : null,
+    };
+  },
+  setVote: (clipId, userId, voteType) => localDb.setVote(clipId, userId, voteType),
+
+  async getStars(clipId, userId) {
+    return {
+      starCount: await localDb.getStarCount(clipId),
+      isStarredByUser: userId ? await localDb.isStarred(clipId, userId) : false,
+    };
+  },
+  async setStarred(clipId, userId, starred) {
+    if ((await localDb.isStarred(clipId, userId)) !== starred) {
+      await localDb.toggleStar(clipId, userId);
+    }
+  },
+
+  async getDifficulty(clipId, userId) {
+    const clip = (await localDb.getClipById(clipId)) as RatedClip | null;
+    const ratings = clip?.difficultyRatings ?? {};
+    return {
+      average: clip?.difficulty ?? null,
+      count: Object.keys(ratings).length,
+      userRating: userId ? ratings[userId] ?? null : null,
+    };
+  },
+  rateDifficulty: (clipId, userId, rating) => localDb.setDifficulty(clipId, userId, rating),
+
+  // Local lookups are cheap, so these reuse the single-clip methods
+  async getDiscoveryInfo(clipIds, userId) {
+    const entries = await Promise.all(
+      clipIds.map(async (clipId) => {
+        const [votes, stars, difficulty] = await Promise.all([
+          clips.getVotes(clipId, userId),
+          clips.getStars(clipId, userId),
+          clips.getDifficulty(clipId, userId),
+        ]);
+        return [clipId, { votes, stars, difficulty }] as const;
+      })
+    );
+    return new Map(entries);
+  },
+};
+
+const users: UserRepository = {
+  async getUser(identifier) {
+    const user = await localDb.getUser(identifier);
+    return user ? toUser(user) : null;
+  },
+  async createUser({ email, username, password }) {
+    const passwordHash = await hashPassword(password);
+    return toUser(await localDb.createUser({ email, username, passwordHash, role: DEFAULT_ROLE }));
+  },
+  async verifyCredentials(emailOrUsername, password) {
+    const account = await localDb.getUser(emailOrUsername);
+    if (!account) return null;
+    const user = await localDb.validateCredentials(account.email, password);
+    return user ? toUser(user) : null;
+  },
+
+  async getRole(userId) {
+    const user = await localDb.getUser(userId);
+    return resolveRole(userId, user?.role);
+  },
+  async setRole(userId, role) {
+    const user = await localDb.setUserRole(userId, role);
+    return user ? toUser(user) : null;
+  },
+  listUsers: async () => (await localDb.getUsers()).map(toUser),
+
+  getFilterPreferences: (userId) => localDb.getFilterPreferences(userId),
+  saveFilterPreferences: (userId, preferences) =>
+    localDb.saveFilterPreferences(userId, preferences),
+  getAudioSettings: (userId) => localDb.getAudioSettings(userId),
+  saveAudioSettings: (userId, settings) => localDb.saveAudioSettings(userId, settings),
+
+  getReviewState: (userId, clipId) => localDb.getReviewState(userId, clipId),
+  getDueReviews: (userId, until) => localDb.getDueReviews(userId, until),
+  recordReview: (userId, clipId, grade, accuracy) =>
+    localDb.recordReview(userId, clipId, grade, accuracy),
+
+  createPracticeSession: (userId, session) => localDb.createPracticeSession(userId, session),
+  getPracticeSessions: (userId, options) => localDb.getPracticeSessions(userId, options),
+};
+
+const moderation: ModerationRepository = {
+  createReport: (report) => localDb.createReport(report),
+  listReports: (filter) => localDb.getReports(filter),
+  closeReports: (clipId, status, closedBy) => localDb.closeReports(clipId, status, closedBy),
+  logAction: (action) => localDb.logModerationAction(action),
+  listActions: (options) => localDb.getModerationLog(options),
+};
+
+const decks: DeckRepository = {
+  list: (filter) => localDb.getDecks(filter),
+  getById: (id) => localDb.getDeckById(id),
+  create: (ownerId, deck) => localDb.createDeck(ownerId, deck),
+  update: (id, updates) => localDb.updateDeck(id, updates),
+  delete: (id) => localDb.deleteDeck(id),
+};
+
+const blobs: BlobStore = {
+  limits: { maxUploadBytes: 10 * 1024 * 1024 },
+
+  async saveAudio(file, filename) {
+    return localDb.saveAudioFile(filename, Buffer.from(await file.arrayBuffer()));
+  },
+  async readAudio(clip) {
+    if (!localDb.audioFileExists(clip.filename)) return null;
+    return new Blob([await fs.promises.readFile(localDb.getAudioFilePath(clip.filename))]);
+  },
+  getAudioUrl: (clip) => `/api/files/${clip.filename}`,
+  savePeaks: (filename, _ownerId, peaks) => localDb.savePeaks(filename, peaks),
+  getPeaks: async (clip) => localDb.getPeaks(clip.filename),
+};
+
+export async function getLocalStorage(request: NextRequest): Promise<Storage> {
+  return {
+    backend: "local",
+    user: await getLocalRequestUser(request),
+    clips,
+    users,
+    moderation,
+    decks,
+    blobs,
+  };
+}
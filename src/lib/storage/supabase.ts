@@ -0,0 +1,242 @@
+// Supabase backend: records in Postgres (under the request's RLS context)
+// and audio in the audio-clips storage bucket
+
+import type { NextRequest } from "next/server";
+import type { User } from "@/types/auth";
+import { serverDb } from "@/lib/server-database";
+import {
+  createAuthenticatedClient,
+  downloadStorageFile,
+  getPublicUrl,
+  uploadAudioFile,
+  uploadPeaksFile,
+  verifyAccessToken,
+} from "@/lib/supabase";
+import { resolveRole } from "@/lib/admin";
+import { peaksFilename } from "@/lib/audio/clip-peaks";
+import type { AudioClip, AudioSort, ClipPeaks } from "@/types/audio";
+import type {
+  BlobStore,
+  ClipRepository,
+  DeckRepository,
+  ModerationRepository,
+  RequestUser,
+  Storage,
+  UserRepository,
+} from "./types";
+
+// Sorted in memory from per-clip stats, so the database returns newest first
+const DISCOVERY_SORT_FIELDS: AudioSort["field"][] = ["voteScore", "difficulty", "charactersPerSecond"];
+
+// Direct uploads to the storage bucket are kept small
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+const MAX_DURATION_SECONDS = 300;
+
+// Profiles store the role; ADMIN_USER_IDS are admins whatever it says
+function withRole(user: User | null): User | null {
+  if (!user) return null;
+  const role = resolveRole(user.id, user.role);
+  return { ...user, role, isAdmin: role === "admin" };
+}
+
+// Audio is stored at <uploader id>/<filename>, see uploadAudioFile
+function storagePathOf(clip: AudioClip): string {
+  return `${clip.uploadedBy}/${clip.filename}`;
+}
+
+function createClips(accessToken?: string): ClipRepository {
+  return {
+    async list(filters, sort, options) {
+      const dbSort: AudioSort | undefined =
+        sort && DISCOVERY_SORT_FIELDS.includes(sort.field)
+          ? { field: "createdAt", direction: "desc" }
+          : sort;
+      let clips = await serverDb.getAudioClips(filters, dbSort, undefined, accessToken);
+
+      if (options?.starredByUserId) {
+        const starredIds = await serverDb.getUserStarredClips(options.starredByUserId, accessToken);
+        clips = clips.filter((clip) => starredIds.includes(clip.id));
+      }
+      return clips;
+    },
+    listPage: (filters, sort, page) => serverDb.getAudioClipPage(filters, sort, page, accessToken),
+    getSpeedPercentiles: (filters, options) =>
+      serverDb.getClipSpeedPercentiles(filters, options, accessToken),
+    getById: (id) => serverDb.getAudioClipById(id, accessToken),
+    create: ({ storagePath, ...clip }) =>
+      serverDb.createAudioClip(
+        { ...clip, storagePath: storagePath ?? `${clip.uploadedBy}/${clip.filename}` },
+        accessToken
+      ),
+    update: (id, updates) => serverDb.updateAudioClip(id, updates, accessToken),
+    delete: (id) => serverDb.deleteAudioClip(id, accessToken),
+
+    // The user's own vote and rating come from the access token
+    getVotes: (clipId) => serverDb.getClipVotes(clipId, accessToken),
+    async setVote(clipId, userId, voteType) {
+      if (voteType) {
+        await serverDb.voteClip(clipId, userId, voteType, accessToken);
+      } else {
+        await serverDb.removeClipVote(clipId, userId, accessToken);
+      }
+    },
+
+    async getStars(clipId, userId) {
+      const starredBy = await serverDb.getClipStars(clipId, accessToken);
+      return {
+        starCount: starredBy.length,
+        isStarredByUser: userId ? starredBy.includes(userId) : false,
+      };
+    },
+    async setStarred(clipId, userId, starred) {
+      if (starred) {
+        await serverDb.starClip(clipId, userId, accessToken);
+      } else {
+        await serverDb.unstarClip(clipId, userId, accessToken);
+      }
+    },
+
+    getDifficulty: (clipId) => serverDb.getClipDifficultyRating(clipId, accessToken),
+    async rateDifficulty(clipId, userId, rating) {
+      await serverDb.rateClipDifficulty(clipId, userId, rating, accessToken);
+    },
+
+    // Three queries for the whole page rather than three per clip
+    async getDiscoveryInfo(clipIds, userId) {
+      const [votes, stars, difficulty] = await Promise.all([
+        serverDb.getClipVotesBatch(clipIds, accessToken),
+        serverDb.getClipStarsBatch(clipIds, accessToken),
+        serverDb.getClipDifficultyRatingsBatch(clipIds, accessToken),
+      ]);
+      return new Map(
+        clipIds.map((clipId) => {
+          const starredBy = stars.get(clipId) ?? [];
+          return [
+            clipId,
+            {
+              votes: votes.get(clipId) ?? { upvoteCount: 0, downvoteCount: 0, voteScore: 0, userVote: null },
+              stars: {
+                starCount: starredBy.length,
+                isStarredByUser: userId ? starredBy.includes(userId) : false,
+              },
+              difficulty: difficulty.get(clipId) ?? { average: null, count: 0, userRating: null },
+            },
+          ];
+        })
+      );
+    },
+  };
+}
+
+function createUsers(accessToken?: string): UserRepository {
+  return {
+    async getUser(identifier) {
+      if (identifier.includes("@")) {
+        return withRole(await serverDb.getUserByEmail(identifier));
+      }
+      const user =
+        (await serverDb.getUserById(identifier)) ??
+        (await serverDb.getUserByUsername(identifier));
+      return withRole(user);
+    },
+    createUser: ({ email, username, password }) => serverDb.createUser(email, username, password),
+    async verifyCredentials(emailOrUsername, password) {
+      try {
+        return withRole(await serverDb.authenticateUser(emailOrUsername, password));
+      } catch {
+        return null;
+      }
+    },
+
+    getRole: async (userId) => resolveRole(userId, await serverDb.getUserRole(userId, accessToken)),
+    setRole: async (userId, role) => withRole(await serverDb.setUserRole(userId, role, accessToken)),
+    listUsers: async () => (await serverDb.getProfiles(accessToken)).map((user) => withRole(user)!),
+
+    getFilterPreferences: (userId) => serverDb.getUserFilterPreferences(userId, accessToken),
+    saveFilterPreferences: (userId, preferences) =>
+      serverDb.saveUserFilterPreferences(userId, preferences, accessToken),
+    getAudioSettings: (userId) => serverDb.getUserAudioSettings(userId, accessToken),
+    saveAudioSettings: (userId, settings) =>
+      serverDb.saveUserAudioSettings(userId, settings, accessToken),
+
+    getReviewState: (userId, clipId) => serverDb.getClipReviewState(userId, clipId, accessToken),
+    getDueReviews: (userId, until) => serverDb.getDueClipReviews(userId, until, accessToken),
+    recordReview: (userId, clipId, grade, accuracy) =>
+      serverDb.recordClipReview(userId, clipId, grade, accuracy, accessToken),
+
+    createPracticeSession: (userId, session) =>
+      serverDb.createPracticeSession(userId, session, accessToken),
+    getPracticeSessions: (userId, options) =>
+      serverDb.getPracticeSessions(userId, options, accessToken),
+  };
+}
+
+function createModeration(accessToken?: string): ModerationRepository {
+  return {
+    createReport: (report) => serverDb.createClipReport(report, accessToken),
+    listReports: (filter) => serverDb.getClipReports(filter, accessToken),
+    closeReports: (clipId, status, closedBy) =>
+      serverDb.closeClipReports(clipId, status, closedBy, accessToken),
+    logAction: (action) => serverDb.logModerationAction(action, accessToken),
+    listActions: (options) => serverDb.getModerationLog(options, accessToken),
+  };
+}
+
+function createDecks(accessToken?: string): DeckRepository {
+  return {
+    list: (filter) => serverDb.getDecks(filter, accessToken),
+    getById: (id) => serverDb.getDeckById(id, accessToken),
+    create: (ownerId, deck) => serverDb.createDeck(ownerId, deck, accessToken),
+    update: (id, updates) => serverDb.updateDeck(id, updates, accessToken),
+    delete: (id) => serverDb.deleteDeck(id, accessToken),
+  };
+}
+
+function createBlobs(accessToken?: string): BlobStore {
+  const client = accessToken ? createAuthenticatedClient(accessToken) : undefined;
+
+  return {
+    limits: {
+      maxUploadBytes: MAX_UPLOAD_BYTES,
+      maxDurationSeconds: MAX_DURATION_SECONDS,
+    },
+
+    saveAudio: (file, filename, ownerId) => uploadAudioFile(file, ownerId, filename, client),
+    readAudio: (clip) => downloadStorageFile(storagePathOf(clip), client),
+    getAudioUrl: (clip) => getPublicUrl(storagePathOf(clip)),
+    async savePeaks(filename, ownerId, peaks) {
+      await uploadPeaksFile(peaks, ownerId, filename, client);
+    },
+    async getPeaks(clip) {
+      const data = await downloadStorageFile(
+        `${clip.uploadedBy}/${peaksFilename(clip.filename)}`,
+        client
+      );
+      return data ? (JSON.parse(await data.text()) as ClipPeaks) : null;
+    },
+  };
+}
+
+async function getSupabaseRequestUser(accessToken: string | undefined): Promise<RequestUser | null> {
+  if (!accessToken) return null;
+
+  const { user } = await verifyAccessToken(accessToken);
+  if (!user?.id) return null;
+
+  return { id: user.id, username: user.user_metadata?.username };
+}
+
+export async function getSupabaseStorage(request: NextRequest): Promise<Storage> {
+  const authHeader = request.headers.get("Authorization");
+  const accessToken = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : undefined;
+
+  return {
+    backend: "supabase",
+    user: await getSupabaseRequestUser(accessToken),
+    clips: createClips(accessToken),
+    users: createUsers(accessToken),
+    moderation: createModeration(accessToken),
+    decks: createDecks(accessToken),
+    blobs: createBlobs(accessToken),
+  };
+}
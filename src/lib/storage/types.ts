@@ -0,0 +1,202 @@
+// Storage interfaces shared by the local and Supabase backends.
+// API routes get these from getStorage() and never talk to a backend directly.
+
+import type { User, UserRole } from "@/types/auth";
+import type {
+  AudioClip,
+  AudioFilters,
+  AudioSettingsPreferences,
+  AudioSort,
+  ClipPeaks,
+  FilterPreferences,
+  SearchResultClip,
+} from "@/types/audio";
+import type {
+  ClipReviewState,
+  NewPracticeSession,
+  PracticeSession,
+  ReviewGrade,
+} from "@/types/practice";
+import type {
+  ClipReport,
+  ModerationAction,
+  NewClipReport,
+  NewModerationAction,
+  ReportStatus,
+} from "@/types/moderation";
+import type { Deck, DeckUpdate, NewDeck } from "@/types/deck";
+import type { ClipCursor, SpeedPercentiles, SpeedRange } from "@/lib/clip-pagination";
+
+export type StorageBackend = "local" | "supabase";
+
+// The signed-in user of a request
+export interface RequestUser {
+  id: string;
+  username?: string;
+}
+
+// A clip as stored before it has an id; storagePath is where its audio
+// went, as returned by BlobStore.saveAudio
+export type NewClip = Omit<AudioClip, "id" | "createdAt" | "updatedAt"> & {
+  storagePath?: string;
+};
+
+export interface ClipVotes {
+  upvoteCount: number;
+  downvoteCount: number;
+  voteScore: number;
+  userVote: "up" | "down" | null;
+}
+
+export interface ClipStars {
+  starCount: number;
+  isStarredByUser: boolean;
+}
+
+export interface ClipDifficulty {
+  average: number | null;
+  count: number;
+  userRating: number | null;
+}
+
+// Votes, stars and difficulty shown with each clip of a listing
+export interface ClipDiscoveryInfo {
+  votes: ClipVotes;
+  stars: ClipStars;
+  difficulty: ClipDifficulty;
+}
+
+export interface ClipListingOptions {
+  starredByUserId?: string;
+}
+
+export interface ClipPageRequest extends ClipListingOptions {
+  limit: number;
+  after?: ClipCursor | null;
+  speed?: SpeedRange;
+}
+
+export interface ClipPage {
+  clips: SearchResultClip[];
+  nextCursor: ClipCursor | null; // null on the last page
+  total: number; // every matching clip, not just this page
+}
+
+export interface ClipRepository {
+  list(
+    filters?: AudioFilters,
+    sort?: AudioSort,
+    options?: { starredByUserId?: string }
+  ): Promise<SearchResultClip[]>;
+  /**
+   * One page of a sorted listing, cut by the backend: keyset on the sort
+   * key and clip id after `after`, with clips lacking a sort value last
+   */
+  listPage(filters: AudioFilters, sort: AudioSort, page: ClipPageRequest): Promise<ClipPage>;
+  // null when no matching clip has a transcript
+  getSpeedPercentiles(
+    filters: AudioFilters,
+    options?: ClipListingOptions
+  ): Promise<SpeedPercentiles | null>;
+  getById(id: string): Promise<AudioClip | null>;
+  create(clip: NewClip): Promise<AudioClip>;
+  /** Callers check the user may edit the clip first, see authorize */
+  update(
+    id: string,
+    updates: Partial<Pick<AudioClip, "title" | "metadata" | "hidden">>
+  ): Promise<AudioClip | null>;
+  /** Also removes the clip's audio and peaks. Callers check permissions first. */
+  delete(id: string): Promise<boolean>;
+
+  // userId is the viewer, for userVote / isStarredByUser / userRating
+  getVotes(clipId: string, userId?: string): Promise<ClipVotes>;
+  setVote(clipId: string, userId: string, voteType: "up" | "down" | null): Promise<void>;
+  getStars(clipId: string, userId?: string): Promise<ClipStars>;
+  setStarred(clipId: string, userId: string, starred: boolean): Promise<void>;
+  getDifficulty(clipId: string, userId?: string): Promise<ClipDifficulty>;
+  rateDifficulty(clipId: string, userId: string, rating: number): Promise<void>;
+  // The three above for a page of clips at once, keyed by clip id
+  getDiscoveryInfo(clipIds: string[], userId?: string): Promise<Map<string, ClipDiscoveryInfo>>;
+}
+
+export interface UserRepository {
+  getUser(identifier: string): Promise<User | null>; // id, email or username
+  createUser(user: { email: string; username: string; password: string }): Promise<User>;
+  verifyCredentials(emailOrUsername: string, password: string): Promise<User | null>;
+
+  // Roles, with ADMIN_USER_IDS always admins (see resolveRole)
+  getRole(userId: string): Promise<UserRole>;
+  setRole(userId: string, role: UserRole): Promise<User | null>;
+  listUsers(): Promise<User[]>;
+
+  getFilterPreferences(userId: string): Promise<FilterPreferences | null>;
+  saveFilterPreferences(userId: string, preferences: FilterPreferences | null): Promise<void>;
+  getAudioSettings(userId: string): Promise<AudioSettingsPreferences | null>;
+  saveAudioSettings(userId: string, settings: AudioSettingsPreferences | null): Promise<void>;
+
+  getReviewState(userId: string, clipId: string): Promise<ClipReviewState | null>;
+  getDueReviews(userId: string, until?: Date): Promise<ClipReviewState[]>;
+  recordReview(
+    userId: string,
+    clipId: string,
+    grade: ReviewGrade,
+    accuracy?: number
+  ): Promise<ClipReviewState>;
+
+  createPracticeSession(userId: string, session: NewPracticeSession): Promise<PracticeSession>;
+  getPracticeSessions(userId: string, options?: { clipId?: string }): Promise<PracticeSession[]>;
+}
+
+// Clip reports and the audit log of what curators did about them.
+// Callers check "clips.moderate" first, except for createReport.
+export interface ModerationRepository {
+  createReport(report: NewClipReport): Promise<ClipReport>;
+  /** Oldest first */
+  listReports(filter?: { status?: ReportStatus; clipId?: string }): Promise<ClipReport[]>;
+  /** Closes a clip's open reports; returns how many were closed */
+  closeReports(
+    clipId: string,
+    status: Exclude<ReportStatus, "open">,
+    closedBy: string
+  ): Promise<number>;
+
+  logAction(action: NewModerationAction): Promise<ModerationAction>;
+  /** Newest first */
+  listActions(options?: { clipId?: string; limit?: number }): Promise<ModerationAction[]>;
+}
+
+// Study decks. Callers check the user owns a deck before changing it, and
+// may see it (see canViewDeck) before showing it.
+export interface DeckRepository {
+  /** Most recently changed first */
+  list(filter: { ownerId?: string; isPublic?: boolean }): Promise<Deck[]>;
+  getById(id: string): Promise<Deck | null>;
+  create(ownerId: string, deck: NewDeck): Promise<Deck>;
+  update(id: string, updates: DeckUpdate): Promise<Deck | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Audio files and their waveform peaks
+export interface BlobStore {
+  limits: {
+    maxUploadBytes: number;
+    maxDurationSeconds?: number;
+  };
+  /** Returns the storage path to save with the clip */
+  saveAudio(file: File, filename: string, ownerId: string): Promise<string>;
+  readAudio(clip: AudioClip): Promise<Blob | null>;
+  getAudioUrl(clip: AudioClip): string;
+  savePeaks(filename: string, ownerId: string, peaks: ClipPeaks): Promise<void>;
+  getPeaks(clip: AudioClip): Promise<ClipPeaks | null>;
+}
+
+// Everything a request can reach, bound to the request's user
+export interface Storage {
+  backend: StorageBackend;
+  user: RequestUser | null;
+  clips: ClipRepository;
+  users: UserRepository;
+  moderation: ModerationRepository;
+  decks: DeckRepository;
+  blobs: BlobStore;
+}
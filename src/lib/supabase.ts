@@ -1,6 +1,8 @@
 import { createClient } from "@supabase/supabase-js";
 import type { Database } from "@/types/supabase";
+import type { ClipPeaks } from "@/types/audio";
 import { supabaseMonitor } from "./supabase-monitor";
+import { peaksFilename } from "./audio/clip-peaks";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -345,6 +347,56 @@ export const uploadAudioFile = async (
   }
 };
 
+// Helper function to store a clip's waveform peaks next to its audio
+export const uploadPeaksFile = async (
+  peaks: ClipPeaks,
+  userId: string,
+  filename: string,
+  authenticatedClient?: ReturnType<typeof createAuthenticatedClient>
+): Promise<string> => {
+  const peaksFile = new File([JSON.stringify(peaks)], peaksFilename(filename), {
+    type: "application/json",
+  });
+  return uploadAudioFile(peaksFile, userId, peaksFile.name, authenticatedClient);
+};
+
+// Helper function to read a stored file; null if it doesn't exist
+export const downloadStorageFile = async (
+  path: string,
+  authenticatedClient?: ReturnType<typeof createAuthenticatedClient>
+): Promise<Blob | null> => {
+  const startTime = Date.now();
+  const clientToUse = authenticatedClient || supabase;
+
+  const { data, error } = await clientToUse.storage
+    .from("audio-clips")
+    .download(path);
+
+  const duration = Date.now() - startTime;
+
+  if (error || !data) {
+    supabaseMonitor.logRequest({
+      type: 'storage',
+      operation: 'download',
+      duration,
+      status: 'failure',
+      error: error?.message || 'No data',
+      errorCode: (error as any)?.statusCode?.toString(),
+    });
+    return null;
+  }
+
+  supabaseMonitor.logRequest({
+    type: 'storage',
+    operation: 'download',
+    duration,
+    status: 'success',
+    responseSize: data.size,
+  });
+
+  return data;
+};
+
 // Helper function to delete file from storage
 export const deleteAudioFile = async (
   path: string,
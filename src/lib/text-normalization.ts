@@ -0,0 +1,242 @@
+/**
+ * Configurable text normalization for transcription comparison
+ * Each rule removes a class of differences that shouldn't count as errors
+ */
+
+import type { NormalizationRules } from "@/types/audio";
+
+export const NORMALIZATION_RULE_LABELS: Record<
+  keyof NormalizationRules,
+  { label: string; description: string }
+> = {
+  nfkc: {
+    label: "Unify character widths",
+    description: "Unicode NFKC: full-width/half-width and compatibility forms",
+  },
+  stripPunctuation: {
+    label: "Ignore punctuation",
+    description: "Punctuation and symbols are removed before comparing",
+  },
+  foldDiacritics: {
+    label: "Ignore accents",
+    description: "é, ñ, ü … compare equal to e, n, u",
+  },
+  kanaEquivalence: {
+    label: "Hiragana = katakana",
+    description: "カタカナ and ひらがな spellings compare equal",
+  },
+  numberWords: {
+    label: "Numbers = number words",
+    description: "“3” compares equal to “three” (or 三)",
+  },
+};
+
+export const NORMALIZATION_RULE_KEYS = Object.keys(
+  NORMALIZATION_RULE_LABELS
+) as Array<keyof NormalizationRules>;
+
+// Rules that only make sense for some languages
+const KANA_LANGUAGES = new Set(["ja"]);
+// Languages written without spaces between words
+const UNSPACED_LANGUAGES = new Set(["ja", "zh", "th", "lo", "km", "my"]);
+
+export function baseLanguage(language?: string): string {
+  return (language || "").toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Whether words of this language are written without spaces between them
+ */
+export function isUnspacedLanguage(language?: string): boolean {
+  return UNSPACED_LANGUAGES.has(baseLanguage(language));
+}
+
+export function isRuleApplicable(
+  rule: keyof NormalizationRules,
+  language?: string
+): boolean {
+  if (rule === "kanaEquivalence") {
+    return KANA_LANGUAGES.has(baseLanguage(language));
+  }
+  if (rule === "numberWords") {
+    return baseLanguage(language) in NUMBER_WORDS || isKanjiNumeralLanguage(language);
+  }
+  return true;
+}
+
+/**
+ * Per-language defaults. Accent folding stays off because accents are
+ * meaningful in most languages that use them, and kanji numerals stay
+ * as written because they also appear inside ordinary words (一緒).
+ */
+export function getDefaultNormalizationRules(language?: string): NormalizationRules {
+  return {
+    nfkc: true,
+    stripPunctuation: true,
+    foldDiacritics: false,
+    kanaEquivalence: isRuleApplicable("kanaEquivalence", language),
+    numberWords:
+      isRuleApplicable("numberWords", language) &&
+      !isKanjiNumeralLanguage(language),
+  };
+}
+
+// ============================================
+// NUMBER WORDS
+// ============================================
+
+// Words for 0-20 and the tens; compounds are handled for English below
+const NUMBER_WORDS: Record<string, string[]> = {
+  en: [
+    "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+    "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen", "twenty",
+  ],
+  es: [
+    "cero", "uno", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve", "diez",
+    "once", "doce", "trece", "catorce", "quince", "dieciséis", "diecisiete", "dieciocho", "diecinueve", "veinte",
+  ],
+  fr: [
+    "zéro", "un", "deux", "trois", "quatre", "cinq", "six", "sept", "huit", "neuf", "dix",
+    "onze", "douze", "treize", "quatorze", "quinze", "seize", "dix-sept", "dix-huit", "dix-neuf", "vingt",
+  ],
+  de: [
+    "null", "eins", "zwei", "drei", "vier", "fünf", "sechs", "sieben", "acht", "neun", "zehn",
+    "elf", "zwölf", "dreizehn", "vierzehn", "fünfzehn", "sechzehn", "siebzehn", "achtzehn", "neunzehn", "zwanzig",
+  ],
+  it: [
+    "zero", "uno", "due", "tre", "quattro", "cinque", "sei", "sette", "otto", "nove", "dieci",
+    "undici", "dodici", "tredici", "quattordici", "quindici", "sedici", "diciassette", "diciotto", "diciannove", "venti",
+  ],
+  pt: [
+    "zero", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove", "dez",
+    "onze", "doze", "treze", "catorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove", "vinte",
+  ],
+};
+
+const ENGLISH_TENS: Record<string, number> = {
+  thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+function isKanjiNumeralLanguage(language?: string): boolean {
+  return ["ja", "zh"].includes(baseLanguage(language));
+}
+
+function buildNumberWordMap(language: string): Map<string, string> {
+  const map = new Map<string, string>();
+  (NUMBER_WORDS[language] || []).forEach((word, value) => {
+    map.set(word, String(value));
+  });
+  if (language === "en") {
+    const units = NUMBER_WORDS.en;
+    for (const [tensWord, tens] of Object.entries({ twenty: 20, ...ENGLISH_TENS })) {
+      map.set(tensWord, String(tens));
+      for (let unit = 1; unit <= 9; unit++) {
+        map.set(`${tensWord}-${units[unit]}`, String(tens + unit));
+      }
+    }
+  }
+  return map;
+}
+
+const numberWordMaps = new Map<string, Map<string, string>>();
+
+function getNumberWordMap(language: string): Map<string, string> {
+  let map = numberWordMaps.get(language);
+  if (!map) {
+    map = buildNumberWordMap(language);
+    numberWordMaps.set(language, map);
+  }
+  return map;
+}
+
+const KANJI_DIGITS: Record<string, number> = {
+  "〇": 0, "零": 0, "一": 1, "二": 2, "三": 3, "四": 4, "五": 5, "六": 6, "七": 7, "八": 8, "九": 9,
+};
+
+/**
+ * Converts kanji numerals up to 9999 (e.g. 二十一, 三百, 千五百) to digits
+ */
+function kanjiNumeralsToDigits(text: string): string {
+  return text.replace(/[〇零一二三四五六七八九十百千]+/g, (numeral) => {
+    let total = 0;
+    let digit: number | null = null;
+    for (const char of numeral) {
+      if (char in KANJI_DIGITS) {
+        if (digit !== null) {
+          // Positional form (e.g. 二〇二四) - read digit by digit
+          return Array.from(numeral)
+            .map((c) => (c in KANJI_DIGITS ? String(KANJI_DIGITS[c]) : c))
+            .join("");
+        }
+        digit = KANJI_DIGITS[char];
+      } else {
+        const unit = char === "十" ? 10 : char === "百" ? 100 : 1000;
+        total += (digit ?? 1) * unit;
+        digit = null;
+      }
+    }
+    return String(total + (digit ?? 0));
+  });
+}
+
+function numberWordsToDigits(text: string, language?: string): string {
+  const lang = baseLanguage(language);
+  if (isKanjiNumeralLanguage(lang)) {
+    return kanjiNumeralsToDigits(text);
+  }
+  const map = getNumberWordMap(lang);
+  if (map.size === 0) return text;
+  // English compounds may be written "twenty one" as well as "twenty-one"
+  const joined = lang === "en"
+    ? text.replace(/\b(twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety) (one|two|three|four|five|six|seven|eight|nine)\b/g, "$1-$2")
+    : text;
+  return joined.replace(/[\p{L}-]+/gu, (word) => map.get(word) ?? word);
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+// Latin/Greek/Cyrillic combining accents only - Japanese dakuten must survive
+const COMBINING_ACCENTS = /[\u0300-\u036f]/g;
+
+function katakanaToHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, (char) =>
+    String.fromCharCode(char.charCodeAt(0) - 0x60)
+  );
+}
+
+/**
+ * Normalizes a transcript for comparison. Lowercasing and whitespace
+ * collapsing always apply; everything else is controlled by `rules`.
+ */
+export function normalizeTranscript(
+  text: string,
+  rules: NormalizationRules,
+  language?: string
+): string {
+  let result = text;
+
+  if (rules.nfkc) {
+    result = result.normalize("NFKC");
+  }
+  result = result.toLowerCase();
+  if (rules.kanaEquivalence) {
+    result = katakanaToHiragana(result);
+  }
+  if (rules.foldDiacritics) {
+    result = result.normalize("NFD").replace(COMBINING_ACCENTS, "").normalize("NFC");
+  }
+  // Numbers first: punctuation still separates adjacent numerals and
+  // hyphenated number words ("twenty-one", "dix-sept") are still intact
+  if (rules.numberWords) {
+    result = numberWordsToDigits(result, language);
+  }
+  if (rules.stripPunctuation) {
+    // Unspaced scripts must not gain spaces where punctuation was
+    const gap = isUnspacedLanguage(language) ? "" : " ";
+    result = result.replace(/[\p{P}\p{S}]/gu, gap);
+  }
+
+  return result.trim().replace(/\s+/g, " ");
+}
@@ -0,0 +1,347 @@
+/**
+ * Timed transcripts: SRT/WebVTT import, tap-to-time editing, slicing to a
+ * clip region and lookups for karaoke-style playback
+ */
+
+import type {
+  TimedTranscript,
+  TimedWord,
+  TranscriptSegment,
+} from "@/types/audio";
+
+const MAX_SEGMENTS = 5000;
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+// Scripts written without spaces between words
+const UNSPACED_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}ー]/u;
+
+/**
+ * Joins word units back into running text. No space is inserted between
+ * two units of an unspaced script (私 + は -> 私は).
+ */
+export function joinWords(words: string[]): string {
+  return words.reduce((text, word) => {
+    if (!text) return word;
+    const unspaced =
+      UNSPACED_CHAR.test(text[text.length - 1]) && UNSPACED_CHAR.test(word[0]);
+    return unspaced ? text + word : `${text} ${word}`;
+  }, "");
+}
+
+/**
+ * Plain transcript text for a timed transcript
+ */
+export function timedTranscriptText(transcript: TimedTranscript): string {
+  return joinWords(transcript.segments.map((segment) => segment.text));
+}
+
+// ============================================
+// SRT / WEBVTT IMPORT
+// ============================================
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/;
+const TIMESTAMP_TEXT = "(?:\\d+:)?\\d{1,2}:\\d{2}[.,]\\d{1,3}";
+const CUE_TIMING = new RegExp(`^\\s*(${TIMESTAMP_TEXT})\\s*-->\\s*(${TIMESTAMP_TEXT})`);
+// WebVTT karaoke timestamps inside cue text, e.g. "<00:00:01.500>"
+const INLINE_TIMESTAMP = new RegExp(`<(${TIMESTAMP_TEXT})>`);
+
+/**
+ * Parses "01:02:03,456" (SRT) or "01:02.456" / "01:02:03.456" (WebVTT)
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(millis.padEnd(3, "0")) / 1000
+  );
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Formatting tags (<i>, <c.yellow>, <v Speaker>) and SRT positioning ({\an8})
+function stripMarkup(text: string): string {
+  return decodeEntities(text.replace(/<[^>]*>/g, "").replace(/\{\\[^}]*\}/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Builds a segment from one cue. Inline WebVTT timestamps mark where the
+ * following text starts, which gives word (or syllable) timings.
+ */
+function parseCue(start: number, end: number, rawText: string): TranscriptSegment | null {
+  const text = stripMarkup(rawText);
+  if (!text) return null;
+
+  const parts = rawText.split(INLINE_TIMESTAMP);
+  if (parts.length === 1) {
+    return { start, end, text };
+  }
+
+  // split() with a capture group alternates text and timestamps
+  const chunks: Array<{ text: string; start: number }> = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const chunkStart = i === 0 ? start : parseTimestamp(parts[i - 1]) ?? start;
+    const chunkText = stripMarkup(parts[i]);
+    if (chunkText) {
+      chunks.push({ text: chunkText, start: Math.min(Math.max(chunkStart, start), end) });
+    }
+  }
+
+  const words: TimedWord[] = chunks.map((chunk, index) => ({
+    text: chunk.text,
+    start: chunk.start,
+    end: index + 1 < chunks.length ? chunks[index + 1].start : end,
+  }));
+
+  return { start, end, text: joinWords(words.map((w) => w.text)), words };
+}
+
+/**
+ * Parses SRT or WebVTT subtitles. Cue numbers, the WEBVTT header and
+ * NOTE/STYLE blocks are skipped; multi-line cues become one segment.
+ *
+ * YouTube's automatic captions (the ones with inline word timestamps)
+ * "roll": each cue repeats the previous line above the new one. Repeated
+ * lines are dropped so every phrase appears in exactly one segment.
+ *
+ * @throws Error when the file contains no usable cues
+ */
+export function parseSubtitles(content: string): TimedTranscript {
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const rolling = INLINE_TIMESTAMP.test(normalized);
+  const blocks = normalized.split(/\n{2,}/);
+
+  const segments: TranscriptSegment[] = [];
+  let previousLine = "";
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+
+    const timing = lines[timingIndex].match(CUE_TIMING);
+    if (!timing) continue;
+    const start = parseTimestamp(timing[1]);
+    const end = parseTimestamp(timing[2]);
+    if (start === null || end === null || end <= start) continue;
+
+    let textLines = lines.slice(timingIndex + 1).filter((line) => stripMarkup(line));
+    if (rolling && textLines.length > 0) {
+      const lastLine = stripMarkup(textLines[textLines.length - 1]);
+      while (textLines.length > 0 && stripMarkup(textLines[0]) === previousLine) {
+        textLines = textLines.slice(1);
+      }
+      previousLine = lastLine;
+    }
+
+    const segment = parseCue(start, end, textLines.join("\n"));
+    if (segment) segments.push(segment);
+  }
+
+  if (segments.length === 0) {
+    throw new Error("No subtitle cues found. Is this an SRT or WebVTT file?");
+  }
+
+  return { segments: segments.sort((a, b) => a.start - b.start) };
+}
+
+// ============================================
+// TAP-TO-TIME EDITING
+// ============================================
+
+/**
+ * Splits text into the units that get one tap each: every non-empty line
+ * becomes a segment, split into words on whitespace. Unspaced scripts can
+ * be split into units by typing spaces; they are removed again when saved.
+ */
+export function splitTapUnits(text: string): string[][] {
+  return text
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/).filter(Boolean))
+    .filter((words) => words.length > 0);
+}
+
+/**
+ * Turns tap times into a timed transcript. taps[i] is the start of the
+ * i-th word (counting across lines); each word ends where the next one
+ * starts, and the last tapped word ends at `endTime`.
+ */
+export function applyTapTimes(
+  lines: string[][],
+  taps: number[],
+  endTime: number
+): TimedTranscript {
+  const segments: TranscriptSegment[] = [];
+  let tapIndex = 0;
+
+  for (const line of lines) {
+    const words: TimedWord[] = [];
+    for (const text of line) {
+      if (tapIndex >= taps.length) break;
+      const start = taps[tapIndex];
+      const end = tapIndex + 1 < taps.length ? taps[tapIndex + 1] : endTime;
+      words.push({ text, start, end: Math.max(start, end) });
+      tapIndex++;
+    }
+    if (words.length === 0) break;
+    segments.push({
+      start: words[0].start,
+      end: words[words.length - 1].end,
+      text: joinWords(words.map((w) => w.text)),
+      words,
+    });
+  }
+
+  return { segments };
+}
+
+/**
+ * Text of a timed transcript for re-timing, one segment per line with
+ * spaces between word units
+ */
+export function tapUnitsText(transcript: TimedTranscript): string {
+  return transcript.segments
+    .map((segment) =>
+      segment.words ? segment.words.map((w) => w.text).join(" ") : segment.text
+    )
+    .join("\n");
+}
+
+// ============================================
+// SLICING
+// ============================================
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Cuts a source transcript down to [start, end] and shifts it into clip
+ * time. Returns undefined when nothing overlaps the region.
+ */
+export function sliceTimedTranscript(
+  transcript: TimedTranscript,
+  start: number,
+  end: number
+): TimedTranscript | undefined {
+  const length = end - start;
+  const shift = (time: number) => round(Math.min(Math.max(time - start, 0), length));
+  // Require some real overlap so a cue that merely touches the edge is dropped
+  const overlaps = (item: { start: number; end: number }) =>
+    Math.min(item.end, end) - Math.max(item.start, start) > 0.05;
+
+  const segments: TranscriptSegment[] = [];
+  for (const segment of transcript.segments) {
+    if (!overlaps(segment)) continue;
+
+    if (!segment.words) {
+      segments.push({ start: shift(segment.start), end: shift(segment.end), text: segment.text });
+      continue;
+    }
+
+    const words = segment.words.filter(overlaps).map((word) => ({
+      text: word.text,
+      start: shift(word.start),
+      end: shift(word.end),
+    }));
+    if (words.length === 0) continue;
+
+    segments.push({
+      start: shift(segment.start),
+      end: shift(segment.end),
+      text:
+        words.length === segment.words.length
+          ? segment.text
+          : joinWords(words.map((w) => w.text)),
+      words,
+    });
+  }
+
+  return segments.length > 0 ? { segments } : undefined;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const isTime = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+function sanitizeTimedItem<T extends { start: number; end: number; text: string }>(
+  value: any
+): T | null {
+  if (!value || typeof value !== "object") return null;
+  if (!isTime(value.start) || !isTime(value.end) || value.end < value.start) return null;
+  if (typeof value.text !== "string" || !value.text.trim()) return null;
+  return { start: value.start, end: value.end, text: value.text.trim() } as T;
+}
+
+/**
+ * Validates an untrusted timed transcript (request bodies) and drops
+ * unknown fields. Returns null when the structure is invalid.
+ */
+export function sanitizeTimedTranscript(value: unknown): TimedTranscript | null {
+  const segments = (value as TimedTranscript | null)?.segments;
+  if (!Array.isArray(segments) || segments.length > MAX_SEGMENTS) return null;
+
+  const clean: TranscriptSegment[] = [];
+  for (const raw of segments) {
+    const segment = sanitizeTimedItem<TranscriptSegment>(raw);
+    if (!segment) return null;
+
+    if (raw.words !== undefined) {
+      if (!Array.isArray(raw.words)) return null;
+      const words: TimedWord[] = [];
+      for (const rawWord of raw.words) {
+        const word = sanitizeTimedItem<TimedWord>(rawWord);
+        if (!word) return null;
+        words.push(word);
+      }
+      if (words.length > 0) segment.words = words;
+    }
+    clean.push(segment);
+  }
+
+  return { segments: clean };
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+
+export interface TranscriptPosition {
+  segmentIndex: number;
+  wordIndex: number | null; // null when the segment has no word timings
+}
+
+/**
+ * Segment and word being spoken at `time`, or null between segments
+ */
+export function findTranscriptPosition(
+  transcript: TimedTranscript,
+  time: number
+): TranscriptPosition | null {
+  const segmentIndex = transcript.segments.findIndex(
+    (segment) => time >= segment.start && time < segment.end
+  );
+  if (segmentIndex === -1) return null;
+
+  const words = transcript.segments[segmentIndex].words;
+  if (!words) return { segmentIndex, wordIndex: null };
+
+  const wordIndex = words.findIndex((word) => time >= word.start && time < word.end);
+  return { segmentIndex, wordIndex: wordIndex === -1 ? null : wordIndex };
+}
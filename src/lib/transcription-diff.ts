@@ -1,9 +1,25 @@
-import type { TranscriptionDiff } from "@/types/audio";
+import type { NormalizationRules, TranscriptionDiff } from "@/types/audio";
+import { normalizeTranscript, isUnspacedLanguage } from "@/lib/text-normalization";
+
+export { isUnspacedLanguage };
+
+/**
+ * Options shared by all comparison functions. Without rules, text is only
+ * trimmed, lowercased and whitespace-collapsed.
+ */
+export interface CompareOptions {
+  rules?: NormalizationRules;
+  language?: string;
+}
 
 /**
- * Normalizes text for comparison (trim, lowercase, normalize whitespace)
+ * Normalizes text for comparison (trim, lowercase, normalize whitespace,
+ * plus any configured normalization rules)
  */
-function normalizeText(text: string): string {
+function normalizeText(text: string, options: CompareOptions = {}): string {
+  if (options.rules) {
+    return normalizeTranscript(text, options.rules, options.language);
+  }
   return text.trim().toLowerCase().replace(/\s+/g, " ");
 }
 
@@ -12,9 +28,13 @@ function normalizeText(text: string): string {
  * Returns the minimum number of single-character edits (insertions, deletions, substitutions)
  * needed to transform one string into another.
  */
-export function calculateEditDistance(original: string, user: string): number {
-  const orig = normalizeText(original);
-  const usr = normalizeText(user);
+export function calculateEditDistance(
+  original: string,
+  user: string,
+  options: CompareOptions = {}
+): number {
+  const orig = normalizeText(original, options);
+  const usr = normalizeText(user, options);
 
   const m = orig.length;
   const n = usr.length;
@@ -56,15 +76,19 @@ export function calculateEditDistance(original: string, user: string): number {
  * Calculates accuracy percentage based on edit distance
  * Formula: (1 - editDistance / maxLength) * 100
  */
-export function calculateAccuracy(original: string, user: string): number {
-  const orig = normalizeText(original);
-  const usr = normalizeText(user);
+export function calculateAccuracy(
+  original: string,
+  user: string,
+  options: CompareOptions = {}
+): number {
+  const orig = normalizeText(original, options);
+  const usr = normalizeText(user, options);
 
   if (orig.length === 0 && usr.length === 0) {
     return 100;
   }
 
-  const editDist = calculateEditDistance(original, user);
+  const editDist = calculateEditDistance(original, user, options);
   const maxLength = Math.max(orig.length, usr.length);
 
   if (maxLength === 0) {
@@ -86,10 +110,11 @@ type Operation = "match" | "delete" | "insert" | "substitute";
  */
 export function generateDiff(
   original: string,
-  user: string
+  user: string,
+  options: CompareOptions = {}
 ): TranscriptionDiff[] {
-  const orig = normalizeText(original);
-  const usr = normalizeText(user);
+  const orig = normalizeText(original, options);
+  const usr = normalizeText(user, options);
 
   const m = orig.length;
   const n = usr.length;
@@ -221,3 +246,199 @@ export function generateDiff(
 
   return diffs;
 }
+
+// ============================================
+// WORD-LEVEL SCORING
+// ============================================
+
+/**
+ * Splits text into words using Intl.Segmenter, which knows how to segment
+ * Japanese, Chinese, Thai etc. Punctuation and spaces are dropped.
+ * Falls back to whitespace (or per-character for unspaced languages)
+ * when Intl.Segmenter isn't available.
+ */
+export function tokenizeWords(text: string, options: CompareOptions = {}): string[] {
+  const { language } = options;
+  const normalized = normalizeText(text, options);
+  if (!normalized) return [];
+
+  const Segmenter = (Intl as any).Segmenter;
+  if (typeof Segmenter === "function") {
+    let segmenter: any;
+    try {
+      segmenter = new Segmenter(language || undefined, {
+        granularity: "word",
+      });
+    } catch {
+      // Unknown locale tag - use the default locale
+      segmenter = new Segmenter(undefined, { granularity: "word" });
+    }
+    const words: string[] = [];
+    for (const segment of segmenter.segment(normalized)) {
+      if (segment.isWordLike) words.push(segment.segment);
+    }
+    return words;
+  }
+
+  const words = normalized
+    .split(" ")
+    .map((word) => word.replace(/[\p{P}\p{S}]/gu, ""))
+    .filter(Boolean);
+  return isUnspacedLanguage(language)
+    ? words.flatMap((word) => Array.from(word))
+    : words;
+}
+
+interface WordAlignment {
+  diffs: TranscriptionDiff[];
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  matches: number;
+}
+
+/**
+ * Aligns two token sequences (Levenshtein over words) and groups the
+ * result into diff segments. Indices refer to word positions.
+ */
+function alignWords(
+  origWords: string[],
+  userWords: string[],
+  separator: string
+): WordAlignment {
+  const m = origWords.length;
+  const n = userWords.length;
+
+  // Fewest edits first, then the most matched words among equally cheap
+  // alignments, so a tie never costs a correct word
+  const dp: number[][] = Array(m + 1)
+    .fill(null)
+    .map(() => Array(n + 1).fill(0));
+  const matched: number[][] = Array(m + 1)
+    .fill(null)
+    .map(() => Array(n + 1).fill(0));
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const same = origWords[i - 1] === userWords[j - 1];
+      let cost = dp[i - 1][j - 1] + (same ? 0 : 1);
+      let matches = matched[i - 1][j - 1] + (same ? 1 : 0);
+      for (const [prevCost, prevMatches] of [
+        [dp[i - 1][j], matched[i - 1][j]],
+        [dp[i][j - 1], matched[i][j - 1]],
+      ]) {
+        if (prevCost + 1 < cost || (prevCost + 1 === cost && prevMatches > matches)) {
+          cost = prevCost + 1;
+          matches = prevMatches;
+        }
+      }
+      dp[i][j] = cost;
+      matched[i][j] = matches;
+    }
+  }
+
+  // Backtrack along an optimal alignment: a match first, then a substitution
+  // so a misheard word pairs with its original
+  const steps: Array<{ type: TranscriptionDiff["type"]; orig: string; user: string; index: number }> = [];
+  let i = m;
+  let j = n;
+  const reachedFrom = (pi: number, pj: number, step: number, matchedWord: number) =>
+    dp[i][j] === dp[pi][pj] + step && matched[i][j] === matched[pi][pj] + matchedWord;
+  while (i > 0 || j > 0) {
+    const same = i > 0 && j > 0 && origWords[i - 1] === userWords[j - 1];
+    if (same && reachedFrom(i - 1, j - 1, 0, 1)) {
+      steps.unshift({ type: "match", orig: origWords[i - 1], user: userWords[j - 1], index: i - 1 });
+      i--;
+      j--;
+    } else if (i > 0 && j > 0 && !same && reachedFrom(i - 1, j - 1, 1, 0)) {
+      steps.unshift({ type: "replace", orig: origWords[i - 1], user: userWords[j - 1], index: i - 1 });
+      i--;
+      j--;
+    } else if (i > 0 && reachedFrom(i - 1, j, 1, 0)) {
+      steps.unshift({ type: "delete", orig: origWords[i - 1], user: "", index: i - 1 });
+      i--;
+    } else {
+      steps.unshift({ type: "insert", orig: "", user: userWords[j - 1], index: i });
+      j--;
+    }
+  }
+
+  // Group runs of the same operation into one segment
+  const diffs: TranscriptionDiff[] = [];
+  const counts = { match: 0, replace: 0, delete: 0, insert: 0 };
+  for (const step of steps) {
+    counts[step.type]++;
+    const last = diffs[diffs.length - 1];
+    if (last && last.type === step.type) {
+      last.originalText = [last.originalText, step.orig].filter(Boolean).join(separator);
+      last.userText = [last.userText, step.user].filter(Boolean).join(separator);
+      if (step.type !== "insert") last.endIndex = step.index + 1;
+    } else {
+      diffs.push({
+        type: step.type,
+        originalText: step.orig,
+        userText: step.user,
+        startIndex: step.index,
+        endIndex: step.type === "insert" ? step.index : step.index + 1,
+      });
+    }
+  }
+
+  return {
+    diffs,
+    substitutions: counts.replace,
+    deletions: counts.delete,
+    insertions: counts.insert,
+    matches: counts.match,
+  };
+}
+
+/**
+ * Word-level comparison of a transcription attempt against the original
+ */
+export function compareWords(
+  original: string,
+  user: string,
+  options: CompareOptions = {}
+): {
+  diffs: TranscriptionDiff[];
+  wordErrorRate: number;
+  totalWords: number;
+  correctWords: number;
+} {
+  const origWords = tokenizeWords(original, options);
+  const userWords = tokenizeWords(user, options);
+  const separator = isUnspacedLanguage(options.language) ? "" : " ";
+  const alignment = alignWords(origWords, userWords, separator);
+
+  return {
+    diffs: alignment.diffs,
+    wordErrorRate: calculateWordErrorRateFromCounts(
+      alignment.substitutions + alignment.deletions + alignment.insertions,
+      origWords.length
+    ),
+    totalWords: origWords.length,
+    correctWords: alignment.matches,
+  };
+}
+
+function calculateWordErrorRateFromCounts(errors: number, totalWords: number): number {
+  if (totalWords === 0) {
+    return errors === 0 ? 0 : 100;
+  }
+  return Math.round((errors / totalWords) * 1000) / 10;
+}
+
+/**
+ * Word error rate: (substitutions + deletions + insertions) / original words
+ * Returned as a percentage with one decimal; can exceed 100 with many insertions.
+ */
+export function calculateWordErrorRate(
+  original: string,
+  user: string,
+  options: CompareOptions = {}
+): number {
+  return compareWords(original, user, options).wordErrorRate;
+}
@@ -3,11 +3,13 @@
 export interface AudioClip {
   id: string;
   title: string;
-  duration: number; // in seconds, user-input
+  duration: number; // in seconds, measured from the decoded audio when the server can
   filename: string; // local file reference
   originalFilename: string; // user's original filename
   fileSize: number; // in bytes
   metadata: AudioMetadata;
+  processing?: AudioProcessing; // absent for clips stored as uploaded
+  hidden?: boolean; // hidden by a curator: left out of listings and search
   uploadedBy: string; // user ID
   createdAt: string;
   updatedAt: string;
@@ -19,10 +21,62 @@ export interface AudioMetadata {
   speakerAgeRange?: 'teen' | 'younger-adult' | 'adult' | 'senior'; // Updated age ranges
   speakerDialect?: string;
   transcript?: string;
+  timedTranscript?: TimedTranscript; // optional segment/word timings for karaoke display
   sourceUrl?: string;
   tags: string[]; // comma-separated tags converted to array
 }
 
+// How the server transcoded and normalized a clip's audio
+export interface AudioProcessing {
+  codec: string; // e.g. 'mp3'
+  bitrateKbps: number;
+  sampleRate: number;
+  channels: number;
+  loudness: {
+    standard: 'EBU R128';
+    targetLufs: number;
+    targetTruePeakDb: number;
+    targetLoudnessRange: number;
+    inputLufs: number; // measured before normalization
+    inputTruePeakDb: number;
+    inputLoudnessRange: number;
+  };
+  silenceTrim: {
+    thresholdDb: number;
+    keepSeconds: number; // silence left at each end
+    trimmedStart: number; // seconds removed from the start
+    trimmedEnd?: number; // seconds removed from the end, when the input duration is known
+  };
+  inputFormat: string; // extension of the uploaded file
+  inputDuration?: number;
+  processedAt: string;
+}
+
+// Waveform overview computed by the server when a clip is uploaded
+export interface ClipPeaks {
+  duration: number; // in seconds, from the decoded samples
+  peaksPerSecond: number;
+  peaks: number[]; // max absolute amplitude (0-1) per bucket, mono
+}
+
+// Timed transcript - all times are seconds in the clip's own timeline
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: TimedWord[]; // absent when only the segment (e.g. a subtitle cue) is timed
+}
+
+export interface TimedTranscript {
+  segments: TranscriptSegment[];
+}
+
 export interface AudioUpload {
   file: File;
   title: string;
@@ -50,15 +104,19 @@ export interface PlaybackState {
 }
 
 export interface AudioSettings {
-  userVolume: number;
-  audioVolume: number;
-  enableMonitoring: boolean;
-  monitoringLatencyMs: number;
+  userVolume: number; // gain on the learner's own voice while monitoring (0-2)
+  audioVolume: number; // clip volume (0-3)
+  enableMonitoring: boolean; // hear the microphone in the headphones
+  monitoringLatencyMs: number; // measured round trip, output to microphone
   keyboardShortcuts: KeyboardShortcuts;
 }
 
+// Key bindings by action, as a KeyboardEvent.code with optional modifiers
+// in front, e.g. 'Space', 'KeyL', 'Shift+BracketLeft', 'Mod+Enter' (Mod is
+// Ctrl, or Cmd on a Mac). See lib/shortcuts for the defaults.
 export interface KeyboardShortcuts {
   playPause: string;
+  stop: string;
   restart: string;
   toggleLoop: string;
   skipBack: string;
@@ -67,8 +125,33 @@ export interface KeyboardShortcuts {
   volumeDown: string;
   setRegionStart: string;
   setRegionEnd: string;
+  nudgeRegionStart: string;
+  nudgeRegionEnd: string;
+  clearRegion: string;
+  cancelSelection: string;
+  extractClip: string;
+  addToBatch: string;
+  zoomIn: string;
+  zoomOut: string;
+  zoomToFit: string;
+  toggleReveal: string;
+  checkTranscription: string;
+  showShortcuts: string;
 }
 
+export type ShortcutAction = keyof KeyboardShortcuts;
+
+// What a user changed from the default audio settings, kept with their account
+export interface AudioSettingsPreferences {
+  userVolume?: number;
+  audioVolume?: number;
+  enableMonitoring?: boolean;
+  monitoringLatencyMs?: number;
+  keyboardShortcuts?: Partial<KeyboardShortcuts>;
+}
+
+export type MonitoringSettings = Omit<AudioSettings, 'keyboardShortcuts'>;
+
 export interface WaveformConfig {
   height: number;
   waveColor: string;
@@ -90,20 +173,39 @@ export interface AudioAnalysis {
 
 // Filter and sort options for browse
 export interface AudioFilters {
+  q?: string; // full-text query over title, transcript, tags, dialect and source URL
   language?: string; // Now supports any language string
   speakerGender?: 'male' | 'female' | 'other';
   speakerAgeRange?: 'teen' | 'younger-adult' | 'adult' | 'senior'; // Updated age ranges
   speakerDialect?: string;
   tags?: string[];
   uploadedBy?: string;
+  ids?: string[]; // only these clips, e.g. to load one clip with its listing info
   speedFilter?: 'slow' | 'medium' | 'fast';
 }
 
 export interface AudioSort {
-  field: 'title' | 'duration' | 'language' | 'createdAt' | 'voteScore' | 'difficulty' | 'charactersPerSecond';
+  field: 'title' | 'duration' | 'language' | 'createdAt' | 'voteScore' | 'difficulty' | 'charactersPerSecond' | 'relevance'; // relevance: only with a search query
   direction: 'asc' | 'desc';
 }
 
+// Full-text search results
+export type SearchField = 'title' | 'transcript' | 'tags' | 'speakerDialect' | 'sourceUrl';
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string; // the field's text, cut around the matches for long transcripts
+  highlights: Array<[number, number]>; // [start, end) offsets of the matches in text
+}
+
+export interface ClipSearchMatch {
+  score: number; // higher is more relevant
+  snippets: SearchSnippet[];
+}
+
+// A clip returned for a search query
+export type SearchResultClip = AudioClip & { search?: ClipSearchMatch };
+
 // User filter preferences (saved to database)
 export interface FilterPreferences {
   language?: string;
@@ -147,6 +249,22 @@ export interface TranscriptionComparison {
   diffs: TranscriptionDiff[];
   totalCharacters: number;
   correctCharacters: number;
+  wordErrorRate: number; // percentage, (S + D + I) / original words
+  wordDiffs: TranscriptionDiff[];
+  totalWords: number;
+  correctWords: number;
+  normalizationRules: NormalizationRules; // rules the comparison was made with
+}
+
+export type DiffGranularity = 'character' | 'word';
+
+// Which differences are ignored when comparing a transcription attempt
+export interface NormalizationRules {
+  nfkc: boolean; // Unicode NFKC (full-width/half-width, compatibility forms)
+  stripPunctuation: boolean;
+  foldDiacritics: boolean; // é -> e
+  kanaEquivalence: boolean; // katakana compares equal to hiragana
+  numberWords: boolean; // "3" compares equal to "three"
 }
 
 export interface TranscriptionDiff {
@@ -155,4 +273,51 @@ export interface TranscriptionDiff {
   userText: string;
   startIndex: number;
   endIndex: number;
-}
\ No newline at end of file
+}
+
+// Pitch (F0) contour, one value per hop; 0 means unvoiced/silent
+export interface PitchContour {
+  hopSize: number; // seconds between frames
+  frequencies: number[]; // Hz
+}
+
+// Record-and-compare types
+export type ComparePlaybackMode = 'sequence' | 'overlay' | 'alternate';
+
+export interface RecordingTake {
+  id: string;
+  blob: Blob;
+  url: string; // object URL for playback
+  mimeType: string;
+  duration: number; // in seconds, measured while recording
+  loopIndex: number; // 1-based loop number within the recording session
+  regionStart: number; // clip time (seconds) the take was recorded against
+  regionEnd: number;
+  playbackRate: number; // clip playback rate while recording
+  latencyMs: number; // round-trip latency at the time; the take lags the clip by this much
+  createdAt: string;
+}
+
+// How closely a take follows the clip once aligned with DTW. Similarities
+// are 0-100.
+export interface RecordingScore {
+  timingOffsetMs: number; // typical lag behind the clip; negative when ahead
+  rhythmSimilarity: number;
+  intonationSimilarity?: number; // absent when there's too little voiced speech to compare
+  overall: number; // mean of rhythm, intonation and timing
+}
+
+export type DivergenceKind = 'timing' | 'intonation' | 'pronunciation';
+
+// A stretch of the clip where a take differs the most, in clip seconds
+export interface DivergentRegion {
+  start: number;
+  end: number;
+  kind: DivergenceKind; // what differs the most there
+  severity: number; // 0-1, 1 for the worst region of the take
+}
+
+export interface RecordingAnalysis {
+  score: RecordingScore;
+  divergentRegions: DivergentRegion[];
+}
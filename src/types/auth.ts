@@ -1,11 +1,15 @@
 // Authentication types for Chorus Lab
 
+// What a user may do is set by their role, see lib/permissions
+export type UserRole = "learner" | "contributor" | "curator" | "admin";
+
 export interface User {
   id: string;
   username: string;
   email: string;
   createdAt: string;
-  isAdmin?: boolean;
+  role?: UserRole;
+  isAdmin?: boolean; // role === "admin"
 }
 
 export interface LoginCredentials {
@@ -0,0 +1,20 @@
+// Study deck types for Chorus Lab
+
+// A named, ordered list of clips to practice in turn
+export interface Deck {
+  id: string;
+  ownerId: string;
+  name: string;
+  description?: string;
+  isPublic: boolean; // public decks are listed for, and playable by, everyone
+  clipIds: string[]; // in play order
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewDeck = Pick<Deck, 'name' | 'description' | 'isPublic' | 'clipIds'>;
+
+export type DeckUpdate = Partial<NewDeck>;
+
+// A deck as the deck pages list it
+export type DeckListItem = Deck & { ownerUsername?: string };
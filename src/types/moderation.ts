@@ -0,0 +1,62 @@
+// Content reporting and moderation types for Chorus Lab
+
+import type { AudioClip } from './audio';
+
+export type ReportReason =
+  | 'wrong-transcript'
+  | 'wrong-language'
+  | 'bad-audio'
+  | 'copyright'
+  | 'other';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  'wrong-transcript': 'Wrong transcript',
+  'wrong-language': 'Wrong language',
+  'bad-audio': 'Bad audio',
+  copyright: 'Copyright',
+  other: 'Other',
+};
+
+export const REPORT_REASONS = Object.keys(REPORT_REASON_LABELS) as ReportReason[];
+
+// Open reports are in the moderation queue until a curator closes them
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface ClipReport {
+  id: string;
+  clipId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  createdAt: string;
+  closedAt?: string;
+  closedBy?: string; // curator who resolved or dismissed it
+}
+
+export type NewClipReport = Pick<ClipReport, 'clipId' | 'reporterId' | 'reason' | 'details'>;
+
+// What a curator did; 'resolve' and 'dismiss' close a clip's open reports
+export type ModerationActionType = 'hide' | 'unhide' | 'edit' | 'delete' | 'resolve' | 'dismiss';
+
+// An audit log entry
+export interface ModerationAction {
+  id: string;
+  clipId: string;
+  clipTitle: string; // kept for clips that were deleted since
+  actorId: string;
+  action: ModerationActionType;
+  note?: string;
+  createdAt: string;
+}
+
+export type NewModerationAction = Omit<ModerationAction, 'id' | 'createdAt'>;
+
+// A log entry as the moderation page shows it
+export type ModerationLogEntry = ModerationAction & { actorUsername?: string };
+
+// A clip in the moderation queue with its open reports
+export interface ModerationQueueItem {
+  clip: AudioClip & { url: string };
+  reports: ClipReport[];
+}
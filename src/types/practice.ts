@@ -0,0 +1,82 @@
+// Practice and review types for Chorus Lab
+
+import type { NormalizationRules, RecordingScore } from './audio';
+
+// Self-assessed recall after practicing a clip (SM-2 style)
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Per-user, per-clip spaced-repetition state
+export interface ClipReviewState {
+  userId: string;
+  clipId: string;
+  easeFactor: number; // SM-2 E-factor, never below 1.3
+  intervalDays: number; // days until the next review
+  repetitions: number; // consecutive successful reviews
+  lapses: number; // times the clip was forgotten ("again")
+  dueAt: string; // ISO timestamp
+  lastReviewedAt: string;
+  lastGrade: ReviewGrade;
+  lastAccuracy?: number; // transcription accuracy (0-100) at the last review
+}
+
+export interface ReviewSubmission {
+  grade?: ReviewGrade;
+  accuracy?: number;
+}
+
+// One visit to /chorus/[clipId], stored server-side
+export interface PracticeSession {
+  id: string;
+  userId: string;
+  clipId: string;
+  language: string;
+  startedAt: string;
+  endedAt: string;
+  secondsPracticed: number; // time spent with audio playing
+  loops: number;
+  playbackRates: number[]; // distinct rates used during the session
+  transcriptionAccuracy?: number; // best accuracy (0-100) checked in the session
+  normalizationRules?: NormalizationRules; // rules that accuracy was scored with
+  recordingScore?: RecordingScore; // best scored recording of the session
+}
+
+export type NewPracticeSession = Omit<PracticeSession, 'id' | 'userId'>;
+
+export interface PracticeStats {
+  totalSessions: number;
+  totalMinutes: number;
+  totalLoops: number;
+  currentStreak: number; // consecutive days with practice, ending today or yesterday
+  longestStreak: number;
+  minutesByLanguage: Array<{ language: string; minutes: number }>;
+  accuracyTrend: Array<{ date: string; accuracy: number }>; // daily average, YYYY-MM-DD
+  topClips: Array<{
+    clipId: string;
+    title: string;
+    sessions: number;
+    loops: number;
+    minutes: number;
+  }>;
+}
+
+// How a shadowing session plays each clip; kept between sessions
+export interface ShadowingSettings {
+  loopsPerClip: number;
+  speedSchedule: number[]; // rates stepped through over a clip's loops, ending at the last
+  repeatGapSeconds: number; // pause after each loop to repeat aloud, 0 for none
+}
+
+// Where a shadowing session's clips were picked from
+export type ShadowingSource = 'library' | 'starred' | 'related';
+
+// A run through a list of clips on /chorus/[clipId], kept in the browser so
+// a reload picks it up where it was
+export interface ShadowingSession {
+  clipIds: string[];
+  source: ShadowingSource;
+  index: number; // clip being practiced
+  loopsDone: number; // loops finished on that clip
+  settings: ShadowingSettings;
+  startedAt: string;
+  completedAt?: string;
+}
@@ -1,3 +1,5 @@
+import type { AudioProcessing, TimedTranscript } from './audio'
+
 export type Json =
   | string
   | number
@@ -17,6 +19,8 @@ export interface Database {
           created_at: string
           updated_at: string
           filter_preferences: Json | null
+          audio_settings: Json | null
+          role: 'learner' | 'contributor' | 'curator' | 'admin'
         }
         Insert: {
           id: string
@@ -25,6 +29,8 @@ export interface Database {
           created_at?: string
           updated_at?: string
           filter_preferences?: Json | null
+          audio_settings?: Json | null
+          role?: 'learner' | 'contributor' | 'curator' | 'admin'
         }
         Update: {
           id?: string
@@ -33,6 +39,8 @@ export interface Database {
           created_at?: string
           updated_at?: string
           filter_preferences?: Json | null
+          audio_settings?: Json | null
+          role?: 'learner' | 'contributor' | 'curator' | 'admin'
         }
       }
       audio_clips: {
@@ -49,8 +57,11 @@ export interface Database {
           speaker_age_range: string | null
           speaker_dialect: string | null
           transcript: string | null
+          timed_transcript: Json | null
+          audio_processing: Json | null
           source_url: string | null
           tags: string[]
+          hidden: boolean
           uploaded_by: string
           created_at: string
           updated_at: string
@@ -68,8 +79,11 @@ export interface Database {
           speaker_age_range?: string | null
           speaker_dialect?: string | null
           transcript?: string | null
+          timed_transcript?: Json | null
+          audio_processing?: Json | null
           source_url?: string | null
           tags?: string[]
+          hidden?: boolean
           uploaded_by: string
           created_at?: string
           updated_at?: string
@@ -87,8 +101,11 @@ export interface Database {
           speaker_age_range?: string | null
           speaker_dialect?: string | null
           transcript?: string | null
+          timed_transcript?: Json | null
+          audio_processing?: Json | null
           source_url?: string | null
           tags?: string[]
+          hidden?: boolean
           uploaded_by?: string
           created_at?: string
           updated_at?: string
@@ -198,9 +215,12 @@ export interface SupabaseAudioClip {
     speakerAgeRange?: 'teen' | 'younger-adult' | 'adult' | 'senior'
     speakerDialect?: string
     transcript?: string
+    timedTranscript?: TimedTranscript
     sourceUrl?: string
     tags: string[]
   }
+  processing?: AudioProcessing
+  hidden?: boolean
   uploadedBy: string
   createdAt: string
   updatedAt: string
@@ -221,9 +241,12 @@ export const convertAudioClipFromDb = (row: AudioClipRow): SupabaseAudioClip =>
     speakerAgeRange: row.speaker_age_range as any,
     speakerDialect: row.speaker_dialect || undefined,
     transcript: row.transcript || undefined,
+    timedTranscript: (row.timed_transcript as unknown as TimedTranscript | null) || undefined,
     sourceUrl: row.source_url || undefined,
     tags: row.tags || [],
   },
+  processing: (row.audio_processing as unknown as AudioProcessing | null) || undefined,
+  hidden: row.hidden || undefined,
   uploadedBy: row.uploaded_by,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
@@ -252,8 +275,10 @@ export const convertAudioClipToDb = (
     speaker_age_range: clip.metadata.speakerAgeRange || null,
     speaker_dialect: clip.metadata.speakerDialect || null,
     transcript: clip.metadata.transcript || null,
+    timed_transcript: (clip.metadata.timedTranscript as unknown as Json) || null,
     source_url: clip.metadata.sourceUrl || null,
     tags: clip.metadata.tags,
+    audio_processing: (clip.processing as unknown as Json) || null,
     uploaded_by: clip.uploadedBy,
   }
 }
\ No newline at end of file